@@ -8,16 +8,20 @@
 import React, { useEffect, useState } from 'react';
 import {
   ElementInspector,
+  ComponentTreePanel,
   AnalysisPanel,
+  AuditPanel,
   HistoryPanel,
   SettingsPanel,
   ApprovalDialog,
   Notifications,
+  ProjectSwitcher,
   IconButton,
   Divider
 } from './components';
 import { useStore, useActivePanel, useGitStatus } from './stores';
-import { useKeyboardShortcuts, useGitOperations } from './hooks';
+import { useKeyboardShortcuts, useGitOperations, useProjectCategories, useRenderProfiler, useWebSocket } from './hooks';
+import { WS_URL } from './services/api';
 
 // Icons
 const InspectorIcon = () => (
@@ -28,6 +32,14 @@ const InspectorIcon = () => (
   </svg>
 );
 
+const TreeIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M4 6h4M4 6v12m0-6h6m-6 6h6m4-12h6m-6 6h6m-6 6h6"
+    />
+  </svg>
+);
+
 const SparklesIcon = () => (
   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -36,6 +48,14 @@ const SparklesIcon = () => (
   </svg>
 );
 
+const AuditIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+    />
+  </svg>
+);
+
 const HistoryIcon = () => (
   <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
@@ -80,11 +100,13 @@ const LogoIcon = () => (
   </svg>
 );
 
-type Panel = 'inspector' | 'analysis' | 'history' | 'settings';
+type Panel = 'inspector' | 'tree' | 'analysis' | 'audit' | 'history' | 'settings';
 
 const navItems: Array<{ id: Panel; icon: React.ReactNode; label: string }> = [
   { id: 'inspector', icon: <InspectorIcon />, label: 'Inspector' },
+  { id: 'tree', icon: <TreeIcon />, label: 'Component Tree' },
   { id: 'analysis', icon: <SparklesIcon />, label: 'Analysis' },
+  { id: 'audit', icon: <AuditIcon />, label: 'Project Audit' },
   { id: 'history', icon: <HistoryIcon />, label: 'History' },
   { id: 'settings', icon: <SettingsIcon />, label: 'Settings' }
 ];
@@ -158,7 +180,9 @@ function PanelContent() {
   return (
     <div className="h-full">
       {activePanel === 'inspector' && <ElementInspector />}
+      {activePanel === 'tree' && <ComponentTreePanel />}
       {activePanel === 'analysis' && <AnalysisPanel />}
+      {activePanel === 'audit' && <AuditPanel />}
       {activePanel === 'history' && <HistoryPanel />}
       {activePanel === 'settings' && <SettingsPanel />}
     </div>
@@ -168,7 +192,6 @@ function PanelContent() {
 function StatusBar() {
   const gitStatus = useGitStatus();
   const isConnected = useStore(state => state.isConnected);
-  const projectPath = useStore(state => state.projectPath);
   const isAnalyzing = useStore(state => state.isAnalyzing);
 
   return (
@@ -182,15 +205,9 @@ function StatusBar() {
           </span>
         </div>
 
-        {/* Project Path */}
-        {projectPath && (
-          <>
-            <Divider orientation="vertical" className="h-4" />
-            <span className="text-slate-500 font-mono truncate max-w-[200px]">
-              {projectPath.split('/').slice(-2).join('/')}
-            </span>
-          </>
-        )}
+        {/* Project */}
+        <Divider orientation="vertical" className="h-4" />
+        <ProjectSwitcher />
 
         {/* Git Branch */}
         {gitStatus?.branch && (
@@ -493,6 +510,15 @@ export default function App() {
   // Initialize keyboard shortcuts
   useKeyboardShortcuts();
 
+  // Live server events (streamed analysis progress)
+  useWebSocket(WS_URL);
+
+  // Re-render profile streamed from the injector
+  useRenderProfiler();
+
+  // Built-in and project-defined optimization categories
+  useProjectCategories();
+
   // Initialize Git operations
   const { refreshStatus } = useGitOperations();
 
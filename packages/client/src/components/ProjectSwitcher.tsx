@@ -0,0 +1,142 @@
+/**
+ * Project Switcher Component
+ *
+ * Status bar dropdown for switching between the projects
+ * registered with the server, or adding a new one.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { useProjects } from '../hooks';
+
+// Icons
+const FolderIcon = () => (
+  <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z"
+    />
+  </svg>
+);
+
+const ChevronIcon = () => (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+  </svg>
+);
+
+const CloseIcon = () => (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+  </svg>
+);
+
+export function ProjectSwitcher() {
+  const { projects, projectPath, addProject, switchProject, removeProject } = useProjects();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newPath, setNewPath] = useState('');
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking outside
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [isOpen]);
+
+  const current = projects.find(p => p.root === projectPath);
+  const label = current?.name ?? projectPath?.split('/').slice(-2).join('/') ?? 'No project';
+
+  const handleAdd = async () => {
+    if (!newPath.trim()) return;
+    const project = await addProject(newPath.trim());
+    if (project) {
+      setNewPath('');
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setIsOpen(open => !open)}
+        className="flex items-center gap-1.5 text-slate-400 hover:text-slate-200 transition-colors"
+        title={projectPath ?? undefined}
+      >
+        <FolderIcon />
+        <span className="font-mono truncate max-w-[200px]">{label}</span>
+        <ChevronIcon />
+      </button>
+
+      {isOpen && (
+        <div className="absolute bottom-full left-0 mb-2 w-80 bg-slate-800 border border-slate-700/50 rounded-lg shadow-xl z-50">
+          <div className="px-3 py-2 border-b border-slate-700/50 text-[10px] uppercase tracking-wider text-slate-500">
+            Projects
+          </div>
+
+          <div className="max-h-60 overflow-auto py-1">
+            {projects.length === 0 && (
+              <p className="px-3 py-2 text-slate-500">No projects registered yet</p>
+            )}
+            {projects.map(project => (
+              <div
+                key={project.root}
+                className={`
+                  group flex items-center gap-2 px-3 py-1.5 cursor-pointer
+                  ${project.root === projectPath
+                    ? 'bg-emerald-500/10 text-emerald-400'
+                    : 'text-slate-300 hover:bg-slate-700/50'
+                  }
+                `}
+                onClick={() => {
+                  switchProject(project.root);
+                  setIsOpen(false);
+                }}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="truncate">{project.name}</div>
+                  <div className="truncate font-mono text-[10px] text-slate-500">{project.root}</div>
+                </div>
+                <button
+                  className="p-1 text-slate-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                  onClick={(event) => {
+                    event.stopPropagation();
+                    removeProject(project.root);
+                  }}
+                  title="Remove project"
+                >
+                  <CloseIcon />
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-2 border-t border-slate-700/50 flex gap-2">
+            <input
+              type="text"
+              value={newPath}
+              onChange={(e) => setNewPath(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              placeholder="/path/to/project"
+              className="flex-1 px-2 py-1 bg-slate-900/50 border border-slate-700/50 rounded text-slate-300 font-mono focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!newPath.trim()}
+              className="px-2 py-1 bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 rounded disabled:opacity-50 transition-colors"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
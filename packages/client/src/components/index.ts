@@ -15,3 +15,4 @@ export * from './panels';
 
 // Root-level Components
 export { Notifications } from './Notifications';
+export { ProjectSwitcher } from './ProjectSwitcher';
@@ -5,11 +5,11 @@
  * and provides controls for inspection mode and analysis.
  */
 
-import React from 'react';
 import { Button, Badge, Card, IconButton, Spinner } from '../ui';
 import { useElementSelection, useCodeAnalysis } from '../../hooks';
-import { useStore } from '../../stores';
-import type { OptimizationCategory } from '../../types';
+import { useStore, useCategories } from '../../stores';
+import { RenderProfileCard } from './RenderProfileCard';
+import { RuntimeValuesCard } from './RuntimeValuesCard';
 
 // Icons
 const InspectIcon = () => (
@@ -34,12 +34,6 @@ const ClearIcon = () => (
   </svg>
 );
 
-const CodeIcon = () => (
-  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
-  </svg>
-);
-
 const LayersIcon = () => (
   <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} 
@@ -48,51 +42,6 @@ const LayersIcon = () => (
   </svg>
 );
 
-// Category configuration
-const CATEGORIES: Array<{
-  id: OptimizationCategory;
-  label: string;
-  color: string;
-  icon: React.ReactNode;
-}> = [
-  { 
-    id: 'performance', 
-    label: 'Performance', 
-    color: 'emerald',
-    icon: <span>⚡</span>
-  },
-  { 
-    id: 'accessibility', 
-    label: 'A11y', 
-    color: 'blue',
-    icon: <span>♿</span>
-  },
-  { 
-    id: 'maintainability', 
-    label: 'Maintainability', 
-    color: 'violet',
-    icon: <span>🔧</span>
-  },
-  { 
-    id: 'bundle-size', 
-    label: 'Bundle', 
-    color: 'amber',
-    icon: <span>📦</span>
-  },
-  { 
-    id: 'ux', 
-    label: 'UX', 
-    color: 'rose',
-    icon: <span>✨</span>
-  },
-  { 
-    id: 'code-quality', 
-    label: 'Quality', 
-    color: 'cyan',
-    icon: <span>💎</span>
-  }
-];
-
 export function ElementInspector() {
   const { 
     selectedElement, 
@@ -110,6 +59,7 @@ export function ElementInspector() {
   } = useCodeAnalysis();
   
   const projectPath = useStore(state => state.projectPath);
+  const categories = useCategories();
   
   return (
     <div className="h-full flex flex-col">
@@ -173,7 +123,7 @@ export function ElementInspector() {
           <>
             {/* Component Card */}
             <Card className="p-4">
-              <div className="flex items-start justify-between mb-3">
+              <div className="flex items-start justify-between">
                 <div>
                   <h3 className="text-lg font-semibold text-white font-mono">
                     {'<'}{selectedElement.componentName}{' />'}
@@ -185,40 +135,21 @@ export function ElementInspector() {
                 </div>
                 <Badge variant="info">{selectedElement.tagName}</Badge>
               </div>
-              
-              {/* Props preview */}
-              {selectedElement.props && Object.keys(selectedElement.props).length > 0 && (
-                <div className="mt-3 pt-3 border-t border-slate-700/50">
-                  <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1">
-                    <CodeIcon /> Props
-                  </h4>
-                  <div className="space-y-1">
-                    {Object.entries(selectedElement.props).slice(0, 5).map(([key, value]) => (
-                      <div key={key} className="flex items-center gap-2 text-xs font-mono">
-                        <span className="text-emerald-400">{key}</span>
-                        <span className="text-slate-500">=</span>
-                        <span className="text-amber-300 truncate">
-                          {typeof value === 'string' ? `"${value}"` : String(value)}
-                        </span>
-                      </div>
-                    ))}
-                    {Object.keys(selectedElement.props).length > 5 && (
-                      <span className="text-xs text-slate-500">
-                        +{Object.keys(selectedElement.props).length - 5} more
-                      </span>
-                    )}
-                  </div>
-                </div>
-              )}
             </Card>
             
+            {/* Live values captured by the injector */}
+            <RuntimeValuesCard element={selectedElement} />
+            
+            {/* Live re-render data from the injector */}
+            <RenderProfileCard componentName={selectedElement.componentName} />
+            
             {/* Optimization Categories */}
             <div>
               <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wider mb-3">
                 Optimization Focus
               </h4>
               <div className="flex flex-wrap gap-2">
-                {CATEGORIES.map((cat) => (
+                {categories.map((cat) => (
                   <button
                     key={cat.id}
                     onClick={() => toggleCategory(cat.id)}
@@ -233,7 +164,7 @@ export function ElementInspector() {
                       }
                     `}
                   >
-                    {cat.icon}
+                    <span>{cat.icon}</span>
                     {cat.label}
                   </button>
                 ))}
@@ -0,0 +1,127 @@
+/**
+ * Render Profile Card
+ *
+ * Shows live re-render data for the selected component: how often it
+ * rendered, its slowest commits and why each recent render happened.
+ */
+
+import { Badge, Card } from '../ui';
+import { useComponentProfile } from '../../hooks';
+import type { ComponentRender } from '../../types';
+
+const PulseIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 12h4l3-9 4 18 3-9h4" />
+  </svg>
+);
+
+function formatMs(ms: number): string {
+  return ms < 1 ? `${ms.toFixed(2)}ms` : `${ms.toFixed(1)}ms`;
+}
+
+/**
+ * Human-readable "why did this render" for one render
+ */
+function describeReasons(render: ComponentRender): string {
+  return render.reasons.map((reason) => {
+    switch (reason) {
+      case 'mount':
+        return 'mounted';
+      case 'props':
+        return `props changed: ${render.changedProps.join(', ')}`;
+      case 'hooks':
+        return `state hook ${render.changedHooks.map((i) => `#${i}`).join(', ')} changed`;
+      case 'state':
+        return 'state changed';
+      case 'context':
+        return 'context changed';
+      case 'parent':
+        return 'parent re-rendered (props shallow-equal)';
+    }
+  }).join('; ');
+}
+
+export function RenderProfileCard({ componentName }: { componentName: string }) {
+  const { profile, commitCount, isProfiling, resetProfile } = useComponentProfile();
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wider flex items-center gap-1">
+          <PulseIcon /> Render Profile
+        </h4>
+        {isProfiling && (
+          <button
+            onClick={resetProfile}
+            className="text-xs text-slate-500 hover:text-slate-300 transition-colors"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+
+      {!profile ? (
+        <p className="text-xs text-slate-500">
+          {isProfiling
+            ? `No renders of <${componentName}> recorded in ${commitCount} commits.`
+            : 'No render data yet. Load the injector before React to profile re-renders.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {/* Totals */}
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <div className="text-lg font-semibold text-white">{profile.renderCount}</div>
+              <div className="text-[10px] text-slate-500 uppercase">Renders</div>
+            </div>
+            <div>
+              <div className="text-lg font-semibold text-white">
+                {formatMs(profile.totalDuration / profile.renderCount)}
+              </div>
+              <div className="text-[10px] text-slate-500 uppercase">Avg</div>
+            </div>
+            <div>
+              <div className="text-lg font-semibold text-amber-300">{formatMs(profile.maxDuration)}</div>
+              <div className="text-[10px] text-slate-500 uppercase">Max</div>
+            </div>
+          </div>
+
+          {/* Slowest commits */}
+          {profile.slowestRenders.length > 0 && (
+            <div>
+              <h5 className="text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">
+                Slowest Commits
+              </h5>
+              <div className="space-y-1">
+                {profile.slowestRenders.map((render, index) => (
+                  <div key={`${render.commitId}-${index}`} className="flex items-center justify-between text-xs font-mono">
+                    <span className="text-slate-400">#{render.commitId}</span>
+                    <span className="text-amber-300">{formatMs(render.duration)}</span>
+                    <span className="text-slate-500">of {formatMs(render.commitDuration)}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Why did this render */}
+          <div>
+            <h5 className="text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">
+              Why Did This Render
+            </h5>
+            <div className="space-y-1">
+              {profile.recentRenders.map((render) => (
+                <div key={render.commitId} className="flex items-start gap-2 text-xs">
+                  <Badge variant={render.reasons.includes('parent') ? 'warning' : 'default'}>
+                    #{render.commitId}
+                  </Badge>
+                  <span className="text-slate-300">{describeReasons(render)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,148 @@
+/**
+ * Runtime Values Card
+ *
+ * Shows the live props, class state and hooks the injector captured for
+ * the selected component, as expandable value trees.
+ */
+
+import { useState, type ReactNode } from 'react';
+import { Badge, Card } from '../ui';
+import type { SelectedElement } from '../../types';
+
+const CodeIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 20l4-16m4 4l4 4-4 4M6 16l-4-4 4-4" />
+  </svg>
+);
+
+/** Placeholders the injector substitutes for values it cannot send */
+const PLACEHOLDER_PATTERN = /^\[.*\]$/;
+
+function Primitive({ value }: { value: unknown }) {
+  if (value === null) return <span className="text-slate-500">null</span>;
+  if (typeof value === 'string') {
+    return PLACEHOLDER_PATTERN.test(value)
+      ? <span className="text-slate-400 italic">{value.slice(1, -1)}</span>
+      : <span className="text-amber-300">"{value}"</span>;
+  }
+  if (typeof value === 'number') return <span className="text-sky-300">{value}</span>;
+  if (typeof value === 'boolean') return <span className="text-violet-300">{String(value)}</span>;
+  return <span className="text-slate-400">{String(value)}</span>;
+}
+
+/**
+ * Short inline preview of a collapsed object or array
+ */
+function preview(value: object): string {
+  if (Array.isArray(value)) return `Array(${value.length})`;
+  const keys = Object.keys(value);
+  return `{${keys.slice(0, 3).join(', ')}${keys.length > 3 ? ', …' : ''}}`;
+}
+
+interface ValueRowProps {
+  name: string;
+  value: unknown;
+  depth?: number;
+}
+
+function ValueRow({ name, value, depth = 0 }: ValueRowProps) {
+  const [expanded, setExpanded] = useState(false);
+  const isComposite = value !== null && typeof value === 'object';
+  const entries = isComposite ? Object.entries(value as object) : [];
+
+  return (
+    <div>
+      <div
+        className={`flex items-start gap-1 text-xs font-mono ${isComposite && entries.length > 0 ? 'cursor-pointer' : ''}`}
+        style={{ paddingLeft: `${depth * 12}px` }}
+        onClick={() => isComposite && setExpanded(!expanded)}
+      >
+        <span className="w-3 flex-shrink-0 text-slate-500">
+          {isComposite && entries.length > 0 ? (expanded ? '▾' : '▸') : ''}
+        </span>
+        <span className="text-emerald-400 flex-shrink-0">{name}</span>
+        <span className="text-slate-500">:</span>
+        <span className="truncate">
+          {isComposite
+            ? <span className="text-slate-400">{preview(value as object)}</span>
+            : <Primitive value={value} />}
+        </span>
+      </div>
+      {expanded && entries.map(([key, child]) => (
+        <ValueRow key={key} name={key} value={child} depth={depth + 1} />
+      ))}
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div>
+      <h5 className="text-[10px] font-medium text-slate-500 uppercase tracking-wider mb-1">
+        {title}
+      </h5>
+      <div className="space-y-0.5">{children}</div>
+    </div>
+  );
+}
+
+export function RuntimeValuesCard({ element }: { element: SelectedElement }) {
+  const props = Object.entries(element.props ?? {});
+  const state = element.state ? Object.entries(element.state) : [];
+  const hooks = element.hooks ?? [];
+  const hasValues = props.length > 0 || state.length > 0 || hooks.length > 0;
+
+  return (
+    <Card className="p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-xs font-medium text-slate-400 uppercase tracking-wider flex items-center gap-1">
+          <CodeIcon /> Props, State & Hooks
+        </h4>
+        {element.fiber && element.fiber.type !== element.componentName && (
+          <Badge variant="default">{`<${element.fiber.type}>`}</Badge>
+        )}
+      </div>
+
+      {!hasValues ? (
+        <p className="text-xs text-slate-500">
+          {element.fiber
+            ? 'This component has no props, state or hooks.'
+            : 'No runtime values were captured for this element.'}
+        </p>
+      ) : (
+        <div className="space-y-3">
+          {props.length > 0 && (
+            <Section title="Props">
+              {props.map(([key, value]) => (
+                <ValueRow key={key} name={key} value={value} />
+              ))}
+            </Section>
+          )}
+
+          {state.length > 0 && (
+            <Section title="State">
+              {state.map(([key, value]) => (
+                <ValueRow key={key} name={key} value={value} />
+              ))}
+            </Section>
+          )}
+
+          {hooks.length > 0 && (
+            <Section title="Hooks">
+              {/* Indexes match the hook numbers in the render profile */}
+              {hooks.map((hook, index) => (
+                <ValueRow
+                  key={index}
+                  name={`#${index} ${hook.name}`}
+                  value={hook.dependencies
+                    ? { value: hook.value, deps: hook.dependencies }
+                    : hook.value}
+                />
+              ))}
+            </Section>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
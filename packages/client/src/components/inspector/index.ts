@@ -3,3 +3,5 @@
  */
 
 export { ElementInspector } from './ElementInspector';
+export { RenderProfileCard } from './RenderProfileCard';
+export { RuntimeValuesCard } from './RuntimeValuesCard';
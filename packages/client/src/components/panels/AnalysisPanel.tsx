@@ -8,7 +8,7 @@
 import React, { useState } from 'react';
 import { Button, Badge, Card, Spinner, DiffViewer } from '../ui';
 import { useCodeAnalysis, useModifications } from '../../hooks';
-import { useStore, useAnalysisResult, useSelectedSuggestion } from '../../stores';
+import { useStore, useAnalysisResult, useCategories, useSelectedSuggestion } from '../../stores';
 import type { CodeSuggestion, OptimizationCategory } from '../../types';
 
 // Icons
@@ -32,15 +32,6 @@ const SparklesIcon = () => (
   </svg>
 );
 
-const categoryColors: Record<OptimizationCategory, string> = {
-  'performance': 'emerald',
-  'accessibility': 'blue',
-  'maintainability': 'violet',
-  'bundle-size': 'amber',
-  'ux': 'rose',
-  'code-quality': 'cyan'
-};
-
 const priorityConfig = {
   high: { color: 'red', label: 'High Priority' },
   medium: { color: 'amber', label: 'Medium' },
@@ -51,6 +42,8 @@ interface SuggestionCardProps {
   suggestion: CodeSuggestion;
   isSelected: boolean;
   isApplied: boolean;
+  /** Still streaming in - the analysis hasn't finished yet */
+  isPending?: boolean;
   onClick: () => void;
   onApply: () => void;
 }
@@ -59,11 +52,13 @@ function SuggestionCard({
   suggestion,
   isSelected,
   isApplied,
+  isPending = false,
   onClick,
   onApply
 }: SuggestionCardProps) {
   const [expanded, setExpanded] = useState(isSelected);
-  const color = categoryColors[suggestion.category] || 'slate';
+  const category = useCategories().find(c => c.id === suggestion.category);
+  const color = category?.color || 'slate';
   const priority = priorityConfig[suggestion.priority];
 
   return (
@@ -98,7 +93,7 @@ function SuggestionCard({
               {priority.label}
             </Badge>
             <Badge variant="info" size="sm">
-              {suggestion.category}
+              {category ? `${category.icon} ${category.label}` : suggestion.category}
             </Badge>
             {isApplied && (
               <Badge variant="success" size="sm">
@@ -173,7 +168,7 @@ function SuggestionCard({
                 e.stopPropagation();
                 onApply();
               }}
-              disabled={isApplied}
+              disabled={isApplied || isPending}
             >
               {isApplied ? 'Applied' : 'Apply Change'}
             </Button>
@@ -198,13 +193,15 @@ function SuggestionCard({
 export function AnalysisPanel() {
   const analysisResult = useAnalysisResult();
   const selectedSuggestion = useSelectedSuggestion();
-  const { isAnalyzing, analysisError } = useCodeAnalysis();
+  const { isAnalyzing, analysisError, analyzeSelected } = useCodeAnalysis();
   const {
     appliedSuggestions,
     selectSuggestion,
     openApprovalDialog
   } = useModifications();
   const selectedElement = useStore(state => state.selectedElement);
+  const partialSuggestions = useStore(state => state.partialSuggestions);
+  const categories = useCategories();
 
   // Filter and sort suggestions
   const [filterCategory, setFilterCategory] = useState<OptimizationCategory | 'all'>('all');
@@ -232,6 +229,41 @@ export function AnalysisPanel() {
     return suggestions;
   }, [analysisResult?.suggestions, filterCategory, sortBy]);
 
+  const domIssues = analysisResult?.analysis?.issues.filter(issue => issue.xpath) ?? [];
+
+  // Streaming state - show suggestions as they arrive
+  if (isAnalyzing && partialSuggestions.length > 0) {
+    return (
+      <div className="h-full flex flex-col">
+        <div className="flex-shrink-0 p-4 border-b border-slate-700/50">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-slate-200 uppercase tracking-wider flex items-center gap-2">
+              <Spinner size="sm" />
+              Analyzing...
+            </h2>
+            <Badge variant="info">
+              {partialSuggestions.length} so far
+            </Badge>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-auto p-4 space-y-3">
+          {partialSuggestions.map((suggestion) => (
+            <SuggestionCard
+              key={suggestion.id}
+              suggestion={suggestion}
+              isSelected={selectedSuggestion?.id === suggestion.id}
+              isApplied={false}
+              isPending
+              onClick={() => selectSuggestion(suggestion)}
+              onApply={() => {}}
+            />
+          ))}
+        </div>
+      </div>
+    );
+  }
+
   // Loading state
   if (isAnalyzing) {
     return (
@@ -297,11 +329,33 @@ export function AnalysisPanel() {
             <SparklesIcon />
             Analysis Results
           </h2>
-          <Badge variant="success">
-            {filteredSuggestions.length} suggestions
-          </Badge>
+          <div className="flex items-center gap-2">
+            {analysisResult.cached && (
+              <span
+                title={analysisResult.cachedAt
+                  ? `Cached ${new Date(analysisResult.cachedAt).toLocaleString()}`
+                  : 'Cached'}
+              >
+                <Badge variant="default" size="sm">Cached</Badge>
+              </span>
+            )}
+            <Badge variant="success">
+              {filteredSuggestions.length} suggestions
+            </Badge>
+          </div>
         </div>
 
+        {analysisResult.cached && selectedElement && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="mb-4"
+            onClick={() => analyzeSelected(undefined, { noCache: true })}
+          >
+            Re-analyze without cache
+          </Button>
+        )}
+
         {/* Summary */}
         {analysisResult.analysis && (
           <p className="text-sm text-slate-400 mb-4">
@@ -309,6 +363,23 @@ export function AnalysisPanel() {
           </p>
         )}
 
+        {/* Findings from the injector's audit of the rendered DOM */}
+        {domIssues.length > 0 && (
+          <ul className="mb-4 space-y-1">
+            {domIssues.map((issue, index) => (
+              <li key={index} className="text-xs text-slate-400">
+                <span className={issue.type === 'error' ? 'text-red-400' : 'text-amber-400'}>
+                  {issue.type}
+                </span>
+                {issue.line !== undefined && <span className="text-slate-500"> line {issue.line}</span>}
+                {': '}
+                {issue.message}
+                <code className="block truncate text-slate-500" title={issue.xpath}>{issue.xpath}</code>
+              </li>
+            ))}
+          </ul>
+        )}
+
         {/* Filters */}
         <div className="flex items-center gap-2">
           <select
@@ -317,12 +388,9 @@ export function AnalysisPanel() {
             className="px-3 py-1.5 text-xs bg-slate-800/50 border border-slate-700/50 rounded-lg text-slate-300"
           >
             <option value="all">All Categories</option>
-            <option value="performance">Performance</option>
-            <option value="accessibility">Accessibility</option>
-            <option value="maintainability">Maintainability</option>
-            <option value="bundle-size">Bundle Size</option>
-            <option value="ux">UX</option>
-            <option value="code-quality">Code Quality</option>
+            {categories.map(category => (
+              <option key={category.id} value={category.id}>{category.label}</option>
+            ))}
           </select>
 
           <select
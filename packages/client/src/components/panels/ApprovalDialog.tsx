@@ -5,10 +5,20 @@
  * before they are applied to the codebase.
  */
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Modal, Button, Badge, DiffViewer, Toggle, Spinner } from '../ui';
 import { useStore } from '../../stores';
 import { useModifications, useGitOperations } from '../../hooks';
+import * as api from '../../services/api';
+import type {
+  ApiChange,
+  CodeSuggestion,
+  FileChangeKind,
+  FileChangeResult,
+  ImpactReport,
+  ModificationResult,
+  TestRunResult
+} from '../../types';
 
 // Icons
 const CheckIcon = () => (
@@ -41,6 +51,227 @@ const BackupIcon = () => (
   </svg>
 );
 
+function TestResults({ tests }: { tests: TestRunResult }) {
+  const tone = !tests.ran
+    ? 'border-amber-500/30 bg-amber-500/10'
+    : tests.passed
+      ? 'border-emerald-500/30 bg-emerald-500/10'
+      : 'border-red-500/30 bg-red-500/10';
+
+  return (
+    <div className={`p-4 rounded-lg border ${tone}`}>
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-sm font-medium text-slate-300">
+          Related Tests {tests.framework && <span className="text-slate-500">({tests.framework})</span>}
+        </h4>
+        {tests.ran ? (
+          <Badge variant={tests.passed ? 'success' : 'error'}>
+            {tests.passed ? 'Passed' : 'Failed'}
+          </Badge>
+        ) : (
+          <Badge variant="warning">Not run</Badge>
+        )}
+      </div>
+
+      {tests.ran && tests.numTests > 0 && (
+        <p className="text-xs text-slate-400">
+          {tests.numPassed} passed, {tests.numFailed} failed of {tests.numTests} in {(tests.durationMs / 1000).toFixed(1)}s
+        </p>
+      )}
+
+      {tests.message && (
+        <p className="text-xs text-slate-400">{tests.message}</p>
+      )}
+
+      {!tests.passed && (
+        <p className="text-xs text-red-300 mt-1">The change was rolled back.</p>
+      )}
+
+      {tests.failures.length > 0 && (
+        <ul className="mt-3 space-y-2 max-h-[200px] overflow-auto">
+          {tests.failures.map((failure, index) => (
+            <li key={index} className="text-xs">
+              <p className="font-medium text-red-300">{failure.name}</p>
+              <p className="text-slate-500 truncate">{failure.testFile}</p>
+              {failure.message && (
+                <pre className="mt-1 p-2 bg-slate-900/60 rounded text-slate-400 whitespace-pre-wrap">
+                  {failure.message}
+                </pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+const KIND_BADGES: Record<FileChangeKind, { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'info' }> = {
+  edit: { label: 'Modified', variant: 'info' },
+  replace: { label: 'Rewritten', variant: 'info' },
+  create: { label: 'New', variant: 'success' },
+  rename: { label: 'Renamed', variant: 'warning' },
+  delete: { label: 'Deleted', variant: 'error' }
+};
+
+/**
+ * Per-file diffs for a suggestion that touches several files, computed by
+ * the server so they match what will be written
+ */
+function ChangesetFiles({
+  projectPath,
+  filePath,
+  suggestion
+}: {
+  projectPath: string;
+  filePath: string;
+  suggestion: CodeSuggestion;
+}) {
+  const [files, setFiles] = useState<FileChangeResult[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setActiveIndex(0);
+
+    api.previewChangeset(projectPath, filePath, suggestion)
+      .then((preview) => {
+        if (!cancelled) setFiles(preview.files);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        // Failed previews still list the files up to the one that failed
+        const preview = err instanceof api.APIError ? err.data as { files?: FileChangeResult[] } | undefined : undefined;
+        setFiles(preview?.files ?? []);
+        setError(err instanceof Error ? err.message : 'Preview failed');
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectPath, filePath, suggestion]);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-slate-400">
+        <Spinner size="sm" /> Preparing preview of {(suggestion.files?.length ?? 0) + 1} files...
+      </div>
+    );
+  }
+
+  const active = files[activeIndex];
+
+  return (
+    <div className="space-y-3">
+      {error && (
+        <p className="text-xs text-red-300 p-3 rounded-lg border border-red-500/30 bg-red-500/10">
+          {error}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        {files.map((file, index) => (
+          <button
+            key={`${file.filePath}-${index}`}
+            onClick={() => setActiveIndex(index)}
+            className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-mono border transition-colors ${
+              index === activeIndex
+                ? 'border-emerald-500/50 bg-emerald-500/10 text-emerald-300'
+                : 'border-slate-700/50 bg-slate-800/50 text-slate-400 hover:text-slate-200'
+            }`}
+          >
+            <Badge variant={KIND_BADGES[file.kind].variant}>{KIND_BADGES[file.kind].label}</Badge>
+            {file.newPath ? `${file.filePath} → ${file.newPath}` : file.filePath}
+          </button>
+        ))}
+      </div>
+
+      {active && (
+        <DiffViewer
+          original={active.before ?? ''}
+          modified={active.after ?? ''}
+          className="max-h-[300px]"
+        />
+      )}
+    </div>
+  );
+}
+
+/** Call sites listed per dependent before collapsing into a count */
+const MAX_CALL_SITES_SHOWN = 5;
+
+/**
+ * Warning for suggestions that change exports or props other files use
+ */
+function ImpactWarning({ impact }: { impact: ImpactReport }) {
+  const changes = [
+    ...impact.removedExports.map((name) => `removes export ${name === 'default' ? 'default' : `"${name}"`}`),
+    ...impact.propChanges.filter((change) => change.breaking).map((change) => change.message)
+  ];
+
+  return (
+    <div className="p-4 bg-amber-500/10 border border-amber-500/30 rounded-lg">
+      <p className="text-sm font-medium text-amber-300">
+        Used by {impact.dependents.length} other file{impact.dependents.length === 1 ? '' : 's'}
+      </p>
+      <p className="text-xs text-amber-400/70 mt-1">
+        This change {changes.join(', ')}. Check these call sites still work:
+      </p>
+      <ul className="mt-3 space-y-2 max-h-[160px] overflow-auto">
+        {impact.dependents.map((dependent) => {
+          const sites = dependent.callSites.filter((site) => site.kind !== 'import');
+          return (
+            <li key={dependent.filePath} className="text-xs">
+              <p className="font-mono text-slate-300 truncate">
+                {dependent.filePath}
+                {dependent.via.length > 0 && (
+                  <span className="text-slate-500"> via {dependent.via.join(', ')}</span>
+                )}
+              </p>
+              {sites.length > 0 && (
+                <p className="font-mono text-slate-500">
+                  {sites.slice(0, MAX_CALL_SITES_SHOWN).map((site) => `${site.name} (line ${site.line})`).join(', ')}
+                  {sites.length > MAX_CALL_SITES_SHOWN && ` and ${sites.length - MAX_CALL_SITES_SHOWN} more`}
+                </p>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+/**
+ * Breaking API changes that stopped the change from being applied
+ */
+function BreakingChanges({ changes }: { changes: ApiChange[] }) {
+  return (
+    <div className="p-4 bg-red-500/10 border border-red-500/30 rounded-lg">
+      <p className="text-sm font-medium text-red-300">
+        Breaking API change{changes.length === 1 ? '' : 's'}
+      </p>
+      <p className="text-xs text-red-400/70 mt-1">
+        Existing callers may stop compiling. Allow breaking changes below to apply anyway.
+      </p>
+      <ul className="mt-3 space-y-1 max-h-[160px] overflow-auto">
+        {changes.map((change) => (
+          <li key={`${change.component ?? ''}:${change.kind}:${change.name}`} className="text-xs font-mono text-slate-300">
+            {change.message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 export function ApprovalDialog() {
   const {
     showApprovalDialog,
@@ -57,6 +288,35 @@ export function ApprovalDialog() {
   const [isApplying, setIsApplying] = useState(false);
   const [createBranch, setCreateBranch] = useState(false);
   const [branchName, setBranchName] = useState('');
+  const [result, setResult] = useState<ModificationResult | null>(null);
+  const [impact, setImpact] = useState<ImpactReport | null>(null);
+  const [allowBreakingChanges, setAllowBreakingChanges] = useState(false);
+
+  // Results belong to the suggestion they were produced for
+  useEffect(() => {
+    setResult(null);
+    setAllowBreakingChanges(false);
+  }, [pendingModification?.id]);
+
+  // Look up who depends on what the suggestion changes
+  const filePath = selectedElement?.filePath;
+  useEffect(() => {
+    setImpact(null);
+    if (!showApprovalDialog || !pendingModification || !filePath || !projectPath) return;
+
+    let cancelled = false;
+    api.getImpact(projectPath, filePath, pendingModification)
+      .then((report) => {
+        if (!cancelled) setImpact(report);
+      })
+      .catch(() => {
+        // The warning is advisory; the apply step reports real failures
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [showApprovalDialog, pendingModification, filePath, projectPath]);
 
   if (!showApprovalDialog || !pendingModification) {
     return null;
@@ -67,13 +327,20 @@ export function ApprovalDialog() {
 
     setIsApplying(true);
     try {
-      await applySuggestion(pendingModification, selectedElement.filePath);
+      setResult(await applySuggestion(pendingModification, selectedElement.filePath, { allowBreakingChanges }));
     } finally {
       setIsApplying(false);
     }
   };
 
   const hasUncommittedChanges = gitStatus && !gitStatus.isClean;
+  const breakingChanges = result && !result.success
+    ? [
+        ...(result.validation?.apiChanges ?? []),
+        ...(result.files ?? []).flatMap((file) => file.validation?.apiChanges ?? [])
+      ].filter((change, index, all) => change.breaking && all.indexOf(change) === index)
+    : [];
+  const isChangeset = Boolean(pendingModification.files?.length);
 
   return (
     <Modal
@@ -119,13 +386,32 @@ export function ApprovalDialog() {
           <h4 className="text-sm font-medium text-slate-300 mb-3">
             Code Changes
           </h4>
-          <DiffViewer
-            original={pendingModification.originalCode}
-            modified={pendingModification.modifiedCode}
-            className="max-h-[300px]"
-          />
+          {isChangeset && selectedElement?.filePath && projectPath ? (
+            <ChangesetFiles
+              projectPath={projectPath}
+              filePath={selectedElement.filePath}
+              suggestion={pendingModification}
+            />
+          ) : (
+            <DiffViewer
+              original={pendingModification.originalCode}
+              modified={pendingModification.modifiedCode}
+              className="max-h-[300px]"
+            />
+          )}
         </div>
 
+        {/* Dependents Warning */}
+        {impact && impact.affectedExports.length > 0 && impact.dependents.length > 0 && (
+          <ImpactWarning impact={impact} />
+        )}
+
+        {/* Breaking API Changes */}
+        {breakingChanges.length > 0 && <BreakingChanges changes={breakingChanges} />}
+
+        {/* Test Results */}
+        {result?.tests && <TestResults tests={result.tests} />}
+
         {/* Safety Information */}
         <div className="grid grid-cols-3 gap-4">
           <div className="p-4 bg-slate-800/50 rounded-lg border border-slate-700/30">
@@ -134,7 +420,9 @@ export function ApprovalDialog() {
               <span className="text-xs font-medium uppercase tracking-wider">Backup</span>
             </div>
             <p className="text-xs text-slate-400">
-              Original file will be backed up before changes
+              {isChangeset
+                ? 'All affected files will be backed up together and restored as one'
+                : 'Original file will be backed up before changes'}
             </p>
           </div>
 
@@ -198,6 +486,14 @@ export function ApprovalDialog() {
               className="w-full px-4 py-2 bg-slate-800/50 border border-slate-700/50 rounded-lg text-sm text-slate-200 placeholder:text-slate-500 focus:outline-none focus:ring-2 focus:ring-emerald-500/50"
             />
           )}
+
+          {breakingChanges.length > 0 && (
+            <Toggle
+              checked={allowBreakingChanges}
+              onChange={setAllowBreakingChanges}
+              label="Allow breaking API changes"
+            />
+          )}
         </div>
 
         {/* Actions */}
@@ -209,15 +505,21 @@ export function ApprovalDialog() {
           >
             Cancel
           </Button>
-          <Button
-            variant="primary"
-            icon={isApplying ? <Spinner size="sm" /> : <CheckIcon />}
-            onClick={handleApply}
-            loading={isApplying}
-            disabled={createBranch && !branchName.trim()}
-          >
-            {isApplying ? 'Applying...' : 'Apply Change'}
-          </Button>
+          {result?.success ? (
+            <Button variant="primary" icon={<CheckIcon />} onClick={closeApprovalDialog}>
+              Done
+            </Button>
+          ) : (
+            <Button
+              variant="primary"
+              icon={isApplying ? <Spinner size="sm" /> : <CheckIcon />}
+              onClick={handleApply}
+              loading={isApplying}
+              disabled={createBranch && !branchName.trim()}
+            >
+              {isApplying ? 'Applying...' : 'Apply Change'}
+            </Button>
+          )}
         </div>
       </div>
     </Modal>
@@ -0,0 +1,361 @@
+/**
+ * Audit Panel Component
+ *
+ * Starts project-wide audits, follows their progress and browses the
+ * saved reports, with components ranked by issue severity.
+ */
+
+import { useCallback, useEffect, useState } from 'react';
+import { Badge, Button, Card, Input, Spinner } from '../ui';
+import { useStore } from '../../stores';
+import * as api from '../../services/api';
+
+import type { AuditRanking, AuditReport, AuditStatus, AuditSummary } from '../../types';
+
+// Icons
+const AuditIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4"
+    />
+  </svg>
+);
+
+const ExternalIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+    />
+  </svg>
+);
+
+const STATUS_BADGES: Record<AuditStatus, { label: string; variant: 'default' | 'success' | 'warning' | 'error' | 'info' }> = {
+  running: { label: 'Running', variant: 'info' },
+  paused: { label: 'Paused', variant: 'default' },
+  'budget-exceeded': { label: 'Over budget', variant: 'warning' },
+  completed: { label: 'Completed', variant: 'success' }
+};
+
+function AuditProgress({ summary }: { summary: AuditSummary }) {
+  const analyzed = summary.completedFiles + summary.failedFiles;
+  const percent = summary.totalFiles > 0 ? Math.round((analyzed / summary.totalFiles) * 100) : 100;
+
+  return (
+    <div className="space-y-1">
+      <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+        <div className="h-full bg-emerald-500 transition-all" style={{ width: `${percent}%` }} />
+      </div>
+      <div className="flex justify-between text-xs text-slate-500">
+        <span>
+          {analyzed} / {summary.totalFiles} files
+          {summary.failedFiles > 0 && <span className="text-red-400"> ({summary.failedFiles} failed)</span>}
+        </span>
+        <span>
+          {summary.tokensUsed.toLocaleString()} / {summary.tokenBudget.toLocaleString()} tokens
+        </span>
+      </div>
+    </div>
+  );
+}
+
+function RankingRow({ entry, report }: { entry: AuditRanking; report: AuditReport }) {
+  const [expanded, setExpanded] = useState(false);
+  const result = report.results.find((r) => r.filePath === entry.filePath);
+
+  return (
+    <li className="border-b border-slate-700/30 last:border-0">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="w-full py-2 text-left flex items-center gap-3"
+      >
+        <span className="w-8 text-sm font-bold text-slate-300 text-right">{entry.score}</span>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm text-slate-200 truncate">{entry.componentName}</p>
+          <p className="text-xs text-slate-500 font-mono truncate">{entry.filePath}</p>
+        </div>
+        <div className="flex gap-1 text-xs">
+          {entry.errors > 0 && <Badge variant="error">{entry.errors}</Badge>}
+          {entry.warnings > 0 && <Badge variant="warning">{entry.warnings}</Badge>}
+          {entry.infos > 0 && <Badge variant="info">{entry.infos}</Badge>}
+        </div>
+      </button>
+
+      {expanded && result && (
+        <div className="pb-3 pl-11 space-y-2">
+          {result.summary && <p className="text-xs text-slate-400">{result.summary}</p>}
+          <ul className="space-y-1">
+            {result.issues.map((issue, index) => (
+              <li key={index} className="text-xs text-slate-400">
+                <span className={
+                  issue.type === 'error' ? 'text-red-400' : issue.type === 'warning' ? 'text-amber-400' : 'text-blue-400'
+                }>
+                  {issue.type}
+                </span>
+                {issue.line !== undefined && <span className="text-slate-500"> line {issue.line}</span>}
+                {': '}
+                {issue.message}
+              </li>
+            ))}
+          </ul>
+          {entry.suggestions > 0 && (
+            <p className="text-xs text-slate-500">
+              {entry.suggestions} suggestion{entry.suggestions === 1 ? '' : 's'} available
+            </p>
+          )}
+        </div>
+      )}
+    </li>
+  );
+}
+
+export function AuditPanel() {
+  const projectPath = useStore(state => state.projectPath);
+  const auditSummaries = useStore(state => state.auditSummaries);
+  const updateAuditSummary = useStore(state => state.updateAuditSummary);
+  const addNotification = useStore(state => state.addNotification);
+
+  const [goal, setGoal] = useState('');
+  const [tokenBudget, setTokenBudget] = useState('');
+  const [audits, setAudits] = useState<AuditSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [report, setReport] = useState<AuditReport | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refreshAudits = useCallback(async () => {
+    if (!projectPath) return;
+    try {
+      const list = await api.listAudits(projectPath);
+      setAudits(list);
+      setSelectedId((current) => current ?? list[0]?.id ?? null);
+    } catch (error) {
+      addNotification('error', error instanceof Error ? error.message : 'Failed to load audits');
+    }
+  }, [projectPath, addNotification]);
+
+  useEffect(() => {
+    setAudits([]);
+    setSelectedId(null);
+    refreshAudits();
+  }, [refreshAudits]);
+
+  // Saved summaries, replaced by live ones pushed while audits run
+  const summaries = audits.map((audit) => auditSummaries[audit.id] ?? audit);
+  const selected = summaries.find((s) => s.id === selectedId) ?? null;
+
+  // Reload the report whenever its progress moves
+  const progressKey = selected ? `${selected.id}:${selected.status}:${selected.completedFiles + selected.failedFiles}` : null;
+  useEffect(() => {
+    if (!projectPath || !selectedId) {
+      setReport(null);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    api.getAudit(projectPath, selectedId)
+      .then((loaded) => {
+        if (!cancelled) setReport(loaded);
+      })
+      .catch(() => {
+        if (!cancelled) setReport(null);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectPath, selectedId, progressKey]);
+
+  const handleStart = async () => {
+    if (!projectPath || !goal.trim()) return;
+
+    setIsStarting(true);
+    try {
+      const budget = Number(tokenBudget);
+      const started = await api.startAudit(projectPath, {
+        optimizationGoal: goal.trim(),
+        ...(budget > 0 && { tokenBudget: budget })
+      });
+      setGoal('');
+      setSelectedId(started.id);
+      await refreshAudits();
+    } catch (error) {
+      addNotification('error', error instanceof Error ? error.message : 'Failed to start audit');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleStop = async (auditId: string) => {
+    if (!projectPath) return;
+    try {
+      await api.stopAudit(projectPath, auditId);
+      addNotification('info', 'Audit will stop after the files in progress');
+    } catch (error) {
+      addNotification('error', error instanceof Error ? error.message : 'Failed to stop audit');
+    }
+  };
+
+  const handleResume = async (summary: AuditSummary) => {
+    if (!projectPath) return;
+    try {
+      const budget = Number(tokenBudget);
+      const options = budget > 0
+        ? { tokenBudget: budget }
+        // An over-budget audit needs more room to continue
+        : summary.status === 'budget-exceeded' ? { tokenBudget: summary.tokenBudget * 2 } : {};
+      const resumed = await api.resumeAudit(projectPath, summary.id, options);
+      updateAuditSummary({ ...summary, status: resumed.status, tokenBudget: resumed.tokenBudget });
+    } catch (error) {
+      addNotification('error', error instanceof Error ? error.message : 'Failed to resume audit');
+    }
+  };
+
+  if (!projectPath) {
+    return (
+      <div className="h-full flex items-center justify-center p-8 text-center">
+        <p className="text-sm text-slate-500">Configure a project to run audits.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4 border-b border-slate-700/50 space-y-3">
+        <h2 className="text-sm font-semibold text-slate-200 uppercase tracking-wider flex items-center gap-2">
+          <AuditIcon />
+          Project Audit
+        </h2>
+
+        <Input
+          value={goal}
+          onChange={(e) => setGoal(e.target.value)}
+          placeholder="Audit goal (e.g., Find accessibility problems)"
+        />
+        <div className="flex gap-2">
+          <div className="flex-1">
+            <Input
+              type="number"
+              min={1}
+              value={tokenBudget}
+              onChange={(e) => setTokenBudget(e.target.value)}
+              placeholder="Token budget (default from config)"
+            />
+          </div>
+          <Button
+            variant="primary"
+            onClick={handleStart}
+            loading={isStarting}
+            disabled={!goal.trim() || isStarting}
+          >
+            Start Audit
+          </Button>
+        </div>
+      </div>
+
+      {/* Content */}
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {summaries.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-8">
+            No audits yet. Every React file in the project is analyzed and ranked by issue severity.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {summaries.map((summary) => (
+              <Card
+                key={summary.id}
+                hover
+                onClick={() => setSelectedId(summary.id)}
+                className={summary.id === selectedId ? 'ring-1 ring-emerald-500/50' : ''}
+              >
+                <div className="p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm text-slate-200 truncate">{summary.optimizationGoal}</p>
+                    <Badge variant={STATUS_BADGES[summary.status].variant}>
+                      {STATUS_BADGES[summary.status].label}
+                    </Badge>
+                  </div>
+                  <AuditProgress summary={summary} />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-slate-500">
+                      {new Date(summary.createdAt).toLocaleString()}
+                    </span>
+                    {summary.status === 'running' ? (
+                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleStop(summary.id); }}>
+                        Stop
+                      </Button>
+                    ) : (summary.status !== 'completed' || summary.failedFiles > 0) && (
+                      <Button variant="ghost" size="sm" onClick={(e) => { e.stopPropagation(); handleResume(summary); }}>
+                        {summary.status === 'completed' ? 'Retry failed' : 'Resume'}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {/* Selected report */}
+        {isLoading && !report && (
+          <div className="flex justify-center py-4"><Spinner /></div>
+        )}
+        {report && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-medium text-slate-300">Ranking</h3>
+              <a
+                href={api.getAuditHtmlUrl(projectPath, report.id)}
+                target="_blank"
+                rel="noreferrer"
+                className="flex items-center gap-1 text-xs text-emerald-400 hover:text-emerald-300"
+              >
+                <ExternalIcon />
+                HTML report
+              </a>
+            </div>
+
+            {report.recommendations.length > 0 && (
+              <div className="p-3 rounded-lg border border-emerald-500/30 bg-emerald-500/10">
+                <p className="text-xs font-medium text-emerald-300 mb-1">Recommendations</p>
+                <ul className="list-disc pl-4 space-y-1">
+                  {report.recommendations.map((recommendation, index) => (
+                    <li key={index} className="text-xs text-slate-300">{recommendation}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {report.ranking.length > 0 ? (
+              <ul>
+                {report.ranking.map((entry) => (
+                  <RankingRow key={entry.filePath} entry={entry} report={report} />
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-slate-500">No files analyzed yet.</p>
+            )}
+
+            {report.results.some((r) => r.status === 'failed') && (
+              <div>
+                <h3 className="text-sm font-medium text-slate-300 mb-2">Failed files</h3>
+                <ul className="space-y-1">
+                  {report.results.filter((r) => r.status === 'failed').map((result) => (
+                    <li key={result.filePath} className="text-xs">
+                      <span className="font-mono text-slate-400">{result.filePath}</span>
+                      <span className="text-red-400">: {result.error}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
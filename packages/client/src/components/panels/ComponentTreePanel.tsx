@@ -0,0 +1,311 @@
+/**
+ * Component Tree Panel
+ *
+ * Explorer for the full component tree of the inspected app. Hovering a
+ * row outlines the component in the page, and clicking selects it, which
+ * works for components with no DOM of their own such as providers.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Badge, Button, Input, Spinner, Toggle } from '../ui';
+import { useStore } from '../../stores';
+import { useComponentTree } from '../../hooks';
+
+import type { ComponentTreeNode, ComponentTreeNodeKind } from '../../types';
+
+// Icons
+const TreeIcon = () => (
+  <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M4 6h4M4 6v12m0-6h6m-6 6h6m4-12h6m-6 6h6m-6 6h6"
+    />
+  </svg>
+);
+
+const SearchIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+    />
+  </svg>
+);
+
+const RefreshIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15"
+    />
+  </svg>
+);
+
+const ChevronIcon = ({ open }: { open: boolean }) => (
+  <svg className={`w-3 h-3 transition-transform ${open ? 'rotate-90' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+  </svg>
+);
+
+const kindStyles: Record<ComponentTreeNodeKind, string> = {
+  root: 'text-slate-500',
+  composite: 'text-emerald-400',
+  host: 'text-slate-400',
+  provider: 'text-violet-400',
+  consumer: 'text-violet-400',
+  portal: 'text-amber-400',
+  fragment: 'text-slate-500',
+  suspense: 'text-sky-400',
+  other: 'text-slate-500'
+};
+
+interface VisibleNode {
+  node: ComponentTreeNode;
+  parentId: number | null;
+  depth: number;
+  hasChildren: boolean;
+}
+
+/**
+ * Re-parent nodes onto their nearest visible ancestor once DOM nodes are
+ * hidden. Nodes arrive in depth-first order, so parents are seen first.
+ */
+function buildVisibleTree(nodes: ComponentTreeNode[], showHostNodes: boolean) {
+  const byId = new Map<number, VisibleNode>();
+  /** Nearest visible node for every node id, including hidden ones */
+  const visibleFor = new Map<number, number | null>();
+  const visible: VisibleNode[] = [];
+
+  for (const node of nodes) {
+    const parentId = node.parentId === null ? null : visibleFor.get(node.parentId) ?? null;
+
+    if (node.kind === 'host' && !showHostNodes) {
+      visibleFor.set(node.id, parentId);
+      continue;
+    }
+
+    const parent = parentId === null ? undefined : byId.get(parentId);
+    if (parent) parent.hasChildren = true;
+
+    const entry = { node, parentId, depth: parent ? parent.depth + 1 : 0, hasChildren: false };
+    byId.set(node.id, entry);
+    visibleFor.set(node.id, node.id);
+    visible.push(entry);
+  }
+
+  return { visible, byId, visibleFor };
+}
+
+interface TreeRowProps {
+  entry: VisibleNode;
+  isOpen: boolean;
+  isSelected: boolean;
+  isHovered: boolean;
+  onToggle: () => void;
+  onSelect: () => void;
+  onHover: () => void;
+}
+
+function TreeRow({ entry, isOpen, isSelected, isHovered, onToggle, onSelect, onHover }: TreeRowProps) {
+  const { node } = entry;
+  const label = node.kind === 'host' ? `<${node.name}>` : node.name;
+
+  return (
+    <div
+      data-node-id={node.id}
+      onClick={onSelect}
+      onMouseEnter={onHover}
+      style={{ paddingLeft: `${entry.depth * 12 + 4}px` }}
+      className={`
+        flex items-center gap-1 pr-2 py-0.5 cursor-pointer rounded font-mono text-xs
+        ${isSelected
+          ? 'bg-emerald-500/20'
+          : isHovered
+            ? 'bg-slate-700/60'
+            : 'hover:bg-slate-800/80'
+        }
+      `}
+    >
+      {entry.hasChildren ? (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggle();
+          }}
+          className="w-4 h-4 flex items-center justify-center text-slate-500 hover:text-slate-300"
+          aria-label={isOpen ? 'Collapse' : 'Expand'}
+        >
+          <ChevronIcon open={isOpen} />
+        </button>
+      ) : (
+        <span className="w-4" />
+      )}
+
+      <span className={`truncate ${kindStyles[node.kind]}`}>{label}</span>
+
+      {node.key !== null && (
+        <span className="text-slate-500 truncate">
+          key=<span className="text-amber-300">"{node.key}"</span>
+        </span>
+      )}
+    </div>
+  );
+}
+
+export function ComponentTreePanel() {
+  const selectedElement = useStore(state => state.selectedElement);
+  const { nodes, truncated, isLoading, hoveredId, refresh, highlightNode, selectNode } = useComponentTree();
+
+  const [query, setQuery] = useState('');
+  const [showHostNodes, setShowHostNodes] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<number>>(new Set());
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { visible, byId, visibleFor } = useMemo(
+    () => buildVisibleTree(nodes, showHostNodes),
+    [nodes, showHostNodes]
+  );
+  const byIdRef = useRef(byId);
+  byIdRef.current = byId;
+
+  // The page reports DOM fibers; map them onto the rows actually shown
+  const selectedId = selectedElement?.fiberId !== undefined
+    ? visibleFor.get(selectedElement.fiberId) ?? null
+    : null;
+  const activeHoveredId = hoveredId !== null ? visibleFor.get(hoveredId) ?? null : null;
+
+  const rows = useMemo(() => {
+    const search = query.trim().toLowerCase();
+
+    if (search) {
+      // Keep every match along with the path leading to it
+      const shown = new Set<number>();
+      for (const entry of visible) {
+        if (!entry.node.name.toLowerCase().includes(search)) continue;
+        for (let id: number | null = entry.node.id; id !== null && !shown.has(id); id = byId.get(id)?.parentId ?? null) {
+          shown.add(id);
+        }
+      }
+      return visible.filter(entry => shown.has(entry.node.id));
+    }
+
+    const hidden = new Set<number>();
+    return visible.filter(entry => {
+      const parentHidden = entry.parentId !== null
+        && (hidden.has(entry.parentId) || collapsed.has(entry.parentId));
+      if (parentHidden) hidden.add(entry.node.id);
+      return !parentHidden;
+    });
+  }, [visible, byId, query, collapsed]);
+
+  // Reveal the row for whatever was selected or hovered in the page. Tree
+  // refreshes alone must not undo the user's collapsing, hence the ref.
+  useEffect(() => {
+    const id = activeHoveredId ?? selectedId;
+    if (id === null) return;
+
+    const byId = byIdRef.current;
+    const ancestors: number[] = [];
+    for (let parent = byId.get(id)?.parentId ?? null; parent !== null; parent = byId.get(parent)?.parentId ?? null) {
+      ancestors.push(parent);
+    }
+    setCollapsed(prev => {
+      if (!ancestors.some(ancestor => prev.has(ancestor))) return prev;
+      const next = new Set(prev);
+      ancestors.forEach(ancestor => next.delete(ancestor));
+      return next;
+    });
+
+    // Wait for expanded rows to render
+    requestAnimationFrame(() => {
+      listRef.current
+        ?.querySelector(`[data-node-id="${id}"]`)
+        ?.scrollIntoView({ block: 'nearest' });
+    });
+  }, [activeHoveredId, selectedId]);
+
+  const toggle = (id: number) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const componentCount = nodes.filter(node => node.kind === 'composite').length;
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="flex-shrink-0 p-4 border-b border-slate-700/50 space-y-3">
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-semibold text-slate-200 uppercase tracking-wider flex items-center gap-2">
+            <TreeIcon />
+            Component Tree
+          </h2>
+          <div className="flex items-center gap-2">
+            <Badge variant="default">
+              {componentCount} components
+            </Badge>
+            <Button variant="ghost" size="sm" icon={<RefreshIcon />} onClick={refresh}>
+              Refresh
+            </Button>
+          </div>
+        </div>
+
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search components..."
+          icon={<SearchIcon />}
+        />
+
+        <Toggle
+          checked={showHostNodes}
+          onChange={setShowHostNodes}
+          label="Show DOM elements"
+        />
+      </div>
+
+      {/* Tree */}
+      <div
+        ref={listRef}
+        className="flex-1 overflow-auto p-2"
+        onMouseLeave={() => highlightNode(null)}
+      >
+        {isLoading && nodes.length === 0 ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-slate-500 text-center py-12">
+            {query ? 'No components match your search' : 'No React tree found in the target application'}
+          </p>
+        ) : (
+          rows.map(entry => (
+            <TreeRow
+              key={entry.node.id}
+              entry={entry}
+              isOpen={!collapsed.has(entry.node.id) || Boolean(query.trim())}
+              isSelected={entry.node.id === selectedId}
+              isHovered={entry.node.id === activeHoveredId}
+              onToggle={() => toggle(entry.node.id)}
+              onSelect={() => {
+                selectNode(entry.node.id);
+                highlightNode(entry.node.id, true);
+              }}
+              onHover={() => highlightNode(entry.node.id)}
+            />
+          ))
+        )}
+
+        {truncated && (
+          <p className="text-xs text-amber-400 text-center py-2">
+            Tree truncated; only the first {nodes.length} nodes are shown
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
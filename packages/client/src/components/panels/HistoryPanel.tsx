@@ -5,12 +5,12 @@
  * and revert changes.
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { Button, Badge, Card, Spinner } from '../ui';
-import { useStore } from '../../stores';
+import { useStore, useCategories } from '../../stores';
 import { useModifications, useGitOperations } from '../../hooks';
 
-import type { ModificationEntry } from '../../types';
+import type { CategoryDefinition, ModificationEntry } from '../../types';
 
 // Icons
 const HistoryIcon = () => (
@@ -79,6 +79,35 @@ function formatTime(timestamp: number): string {
   }
 }
 
+/**
+ * Modifications per category, most frequent first. Categories the project
+ * no longer defines are still counted, under their id.
+ */
+function countByCategory(
+  entries: ModificationEntry[],
+  categories: CategoryDefinition[]
+): Array<{ id: string; label: string; icon: string; color: string; count: number }> {
+  const counts = new Map<string, number>();
+  for (const entry of entries) {
+    if (entry.suggestion) {
+      counts.set(entry.suggestion.category, (counts.get(entry.suggestion.category) ?? 0) + 1);
+    }
+  }
+
+  return [...counts]
+    .map(([id, count]) => {
+      const category = categories.find(c => c.id === id);
+      return {
+        id,
+        label: category?.label ?? id,
+        icon: category?.icon ?? '',
+        color: category?.color ?? 'slate',
+        count
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
 interface HistoryItemProps {
   entry: ModificationEntry;
   onRevert: () => void;
@@ -86,6 +115,7 @@ interface HistoryItemProps {
 }
 
 function HistoryItem({ entry, onRevert, isReverting }: HistoryItemProps) {
+  const category = useCategories().find(c => c.id === entry.suggestion?.category);
   const [expanded, setExpanded] = useState(false);
 
   const statusConfig = {
@@ -111,7 +141,7 @@ function HistoryItem({ entry, onRevert, isReverting }: HistoryItemProps) {
               </Badge>
               {entry.suggestion && (
                 <Badge variant="info" size="sm">
-                  {entry.suggestion.category}
+                  {category ? `${category.icon} ${category.label}` : entry.suggestion.category}
                 </Badge>
               )}
             </div>
@@ -124,6 +154,9 @@ function HistoryItem({ entry, onRevert, isReverting }: HistoryItemProps) {
               <span className="flex items-center gap-1">
                 <FileIcon />
                 {entry.filePath.split('/').pop()}
+                {entry.files && entry.files.length > 1 && (
+                  <span className="text-slate-600">+{entry.files.length - 1} files</span>
+                )}
               </span>
               {entry.commitHash && (
                 <span className="flex items-center gap-1 font-mono">
@@ -157,7 +190,13 @@ function HistoryItem({ entry, onRevert, isReverting }: HistoryItemProps) {
             </>
           )}
 
-          {entry.status === 'applied' && entry.backupId && (
+          {entry.files && entry.files.length > 1 && (
+            <ul className="text-xs text-slate-500 font-mono space-y-0.5">
+              {entry.files.map((file) => <li key={file} className="truncate">{file}</li>)}
+            </ul>
+          )}
+
+          {entry.status === 'applied' && (entry.backupId || entry.backupGroupId) && (
             <Button
               variant="secondary"
               size="sm"
@@ -181,6 +220,7 @@ function HistoryItem({ entry, onRevert, isReverting }: HistoryItemProps) {
 export function HistoryPanel() {
   const projectPath = useStore(state => state.projectPath);
   const { modificationHistory } = useStore();
+  const categories = useCategories();
   const { revert } = useModifications();
   const { getHistory } = useGitOperations();
 
@@ -204,6 +244,11 @@ export function HistoryPanel() {
     }
   }, [projectPath, activeTab, getHistory]);
 
+  const categoryStats = useMemo(
+    () => countByCategory(modificationHistory, categories),
+    [modificationHistory, categories]
+  );
+
   const handleRevert = async (entry: ModificationEntry) => {
     setRevertingId(entry.id);
     try {
@@ -227,6 +272,22 @@ export function HistoryPanel() {
           </Badge>
         </div>
 
+        {/* Changes per category */}
+        {categoryStats.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-4">
+            {categoryStats.map(stat => (
+              <span
+                key={stat.id}
+                className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs rounded-md border bg-${stat.color}-500/10 border-${stat.color}-500/30 text-${stat.color}-300`}
+              >
+                {stat.icon && <span>{stat.icon}</span>}
+                {stat.label}
+                <span className="font-mono text-slate-400">{stat.count}</span>
+              </span>
+            ))}
+          </div>
+        )}
+
         {/* Tabs */}
         <div className="flex gap-1 p-1 bg-slate-800/50 rounded-lg">
           <button
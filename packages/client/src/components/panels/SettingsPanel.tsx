@@ -6,10 +6,11 @@
  */
 
 import { useState, useEffect } from 'react';
-import { Button, Input, Toggle, Card, Badge } from '../ui';
+import { Button, Input, Toggle, Card, Badge, Spinner } from '../ui';
 import { useStore } from '../../stores';
 import { useGitOperations } from '../../hooks';
 import * as api from '../../services/api';
+import type { UsageReport } from '../../types';
 
 // Icons
 const SettingsIcon = () => (
@@ -51,6 +52,145 @@ const ServerIcon = () => (
   </svg>
 );
 
+const ChartIcon = () => (
+  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2}
+      d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z"
+    />
+  </svg>
+);
+
+function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? '<$0.01' : `$${cost.toFixed(2)}`;
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+}
+
+/**
+ * LLM calls of the last 30 days: totals, spending per day against the
+ * budgets, and the most expensive components
+ */
+function UsageSection({ projectPath }: { projectPath: string }) {
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = () => {
+    setIsLoading(true);
+    api.getUsage(projectPath)
+      .then(setReport)
+      .catch(() => setReport(null))
+      .finally(() => setIsLoading(false));
+  };
+
+  useEffect(refresh, [projectPath]);
+
+  const budget = report?.budget;
+  const maxDailyCost = Math.max(...(report?.byDay.map(day => day.cost) ?? []), 0);
+  const recentDays = report?.byDay.slice(-14) ?? [];
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-xs font-medium text-slate-400 uppercase tracking-wider flex items-center gap-2">
+        <ChartIcon />
+        LLM Usage
+      </h3>
+
+      <Card className="p-4 space-y-4">
+        {isLoading && !report ? (
+          <div className="flex justify-center py-4">
+            <Spinner />
+          </div>
+        ) : !report ? (
+          <p className="text-xs text-slate-500">Usage is not available</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div>
+                <p className="text-lg font-semibold text-slate-200">{report.totals.calls}</p>
+                <p className="text-2xs text-slate-500">calls</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-slate-200">
+                  {formatTokens(report.totals.inputTokens + report.totals.outputTokens)}
+                </p>
+                <p className="text-2xs text-slate-500">tokens</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-emerald-400">{formatCost(report.totals.cost)}</p>
+                <p className="text-2xs text-slate-500">est. cost</p>
+              </div>
+            </div>
+
+            {budget && (
+              <div className="space-y-1 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-400">Today</span>
+                  <span className="text-slate-300">
+                    {formatCost(budget.today.cost)}
+                    {budget.budgets.dailyCost > 0 && ` of ${formatCost(budget.budgets.dailyCost)}`}
+                    {budget.budgets.dailyTokens > 0 &&
+                      ` • ${formatTokens(budget.today.inputTokens + budget.today.outputTokens)} of ${formatTokens(budget.budgets.dailyTokens)} tokens`}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-slate-400">This month</span>
+                  <span className="text-slate-300">
+                    {formatCost(budget.month.cost)}
+                    {budget.budgets.monthlyCost > 0 && ` of ${formatCost(budget.budgets.monthlyCost)}`}
+                  </span>
+                </div>
+                {budget.exceeded && (
+                  <Badge variant="error" size="sm">{budget.exceeded}</Badge>
+                )}
+              </div>
+            )}
+
+            {report.unpricedModels.length > 0 && (
+              <p className="text-2xs text-amber-400">
+                No price set for {report.unpricedModels.join(', ')}, so the cost above leaves them out.
+                Add them to usage.prices in the project config.
+              </p>
+            )}
+
+            {recentDays.length > 0 && (
+              <div className="flex items-end gap-1 h-16" title="Estimated cost per day">
+                {recentDays.map(day => (
+                  <div
+                    key={day.date}
+                    className="flex-1 bg-emerald-500/40 rounded-sm min-h-[2px]"
+                    style={{ height: `${maxDailyCost > 0 ? (day.cost / maxDailyCost) * 100 : 0}%` }}
+                    title={`${day.date}: ${formatCost(day.cost)}, ${day.calls} calls`}
+                  />
+                ))}
+              </div>
+            )}
+
+            {report.byComponent.length > 0 && (
+              <div className="space-y-1">
+                <p className="text-2xs text-slate-500 uppercase tracking-wider">Top components</p>
+                {report.byComponent.slice(0, 5).map(component => (
+                  <div key={component.componentName} className="flex items-center justify-between text-xs">
+                    <span className="text-slate-300 truncate">{component.componentName}</span>
+                    <span className="text-slate-500 font-mono flex-shrink-0 ml-2">
+                      {component.calls}× • {formatCost(component.cost)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        <Button variant="ghost" size="sm" onClick={refresh} className="w-full" disabled={isLoading}>
+          Refresh Usage
+        </Button>
+      </Card>
+    </div>
+  );
+}
+
 export function SettingsPanel() {
   const { projectPath, setProjectPath, addNotification } = useStore();
   const { gitStatus, refreshStatus } = useGitOperations();
@@ -246,6 +386,9 @@ export function SettingsPanel() {
           </div>
         )}
 
+        {/* LLM Usage */}
+        {projectPath && <UsageSection projectPath={projectPath} />}
+
         {/* Modification Settings */}
         <div className="space-y-3">
           <h3 className="text-xs font-medium text-slate-400 uppercase tracking-wider">
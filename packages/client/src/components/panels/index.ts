@@ -4,5 +4,7 @@
 
 export { AnalysisPanel } from './AnalysisPanel';
 export { ApprovalDialog } from './ApprovalDialog';
+export { AuditPanel } from './AuditPanel';
+export { ComponentTreePanel } from './ComponentTreePanel';
 export { HistoryPanel } from './HistoryPanel';
 export { SettingsPanel } from './SettingsPanel';
@@ -5,10 +5,24 @@
  * Git operations, and modification workflows.
  */
 
-import { useCallback, useEffect, useRef } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { useStore } from '../stores';
 import * as api from '../services/api';
-import type { CodeSuggestion, OptimizationCategory } from '../types';
+import type {
+  AccessibilityAudit,
+  AuditSummary,
+  CodeSuggestion,
+  ComponentRenderProfile,
+  ComponentTreeNode,
+  FiberInfo,
+  HookInfo,
+  ModificationResult,
+  OptimizationCategory,
+  ProjectInfo,
+  RenderProfile,
+  SelectedElement,
+  WSMessage
+} from '../types';
 
 // ============================================
 // useElementSelection
@@ -22,13 +36,19 @@ interface MessageEvent {
       filePath?: string;
       lineNumber?: number;
       props?: Record<string, unknown>;
+      state?: Record<string, unknown> | null;
+      hooks?: HookInfo[];
+      fiber?: FiberInfo;
       tagName?: string;
+      fiberId?: number;
+      componentFiberId?: number;
     };
   };
 }
 
 export function useElementSelection() {
   const {
+    projectPath,
     selectedElement,
     isInspecting,
     setSelectedElement,
@@ -41,18 +61,52 @@ export function useElementSelection() {
   useEffect(() => {
     function handleMessage(event: MessageEvent) {
       if (event.data?.type === 'ELEMENT_SELECTED') {
-        const { componentName, filePath, lineNumber, props, tagName } = event.data.payload || {};
+        const {
+          componentName,
+          filePath,
+          lineNumber,
+          props,
+          state,
+          hooks,
+          fiber,
+          tagName,
+          fiberId,
+          componentFiberId
+        } = event.data.payload || {};
 
         if (componentName && filePath) {
-          setSelectedElement({
+          const element = {
             componentName,
             filePath,
             ...(lineNumber ? { lineNumber } : {}),
             ...(props ? { props } : {}),
-            tagName: tagName || 'div'
-          });
+            ...(state ? { state } : {}),
+            ...(hooks ? { hooks } : {}),
+            ...(fiber ? { fiber } : {}),
+            tagName: tagName || 'div',
+            ...(fiberId !== undefined ? { fiberId } : {}),
+            ...(componentFiberId !== undefined ? { componentFiberId } : {})
+          };
+          setSelectedElement(element);
           setInspecting(false);
           addNotification('success', `Selected: ${componentName}`);
+
+          // The runtime path may point into another workspace package or be
+          // a Vite URL; swap in the file the server will actually edit
+          if (projectPath) {
+            api.resolveSource(projectPath, filePath)
+              .then((source) => {
+                // Ignore if another element was selected in the meantime
+                const current = useStore.getState().selectedElement;
+                if (source.filePath !== filePath && current?.filePath === filePath) {
+                  setSelectedElement({ ...element, filePath: source.filePath });
+                }
+              })
+              .catch((error) => {
+                const message = error instanceof Error ? error.message : 'Could not resolve source file';
+                addNotification('warning', message);
+              });
+          }
         }
       }
 
@@ -67,7 +121,7 @@ export function useElementSelection() {
 
     window.addEventListener('message', handleMessage as unknown as EventListener);
     return () => window.removeEventListener('message', handleMessage as unknown as EventListener);
-  }, [setSelectedElement, setInspecting, addNotification]);
+  }, [projectPath, setSelectedElement, setInspecting, addNotification]);
 
   const startInspection = useCallback(() => {
     // Send message to injector iframe to start inspection mode
@@ -97,6 +151,191 @@ export function useElementSelection() {
   };
 }
 
+// ============================================
+// useRenderProfile
+// ============================================
+
+/**
+ * Collects PROFILE_UPDATE messages from the injector. Mount once, at the app root.
+ */
+export function useRenderProfiler() {
+  const applyProfileUpdate = useStore(state => state.applyProfileUpdate);
+
+  useEffect(() => {
+    function handleMessage(event: globalThis.MessageEvent) {
+      if (event.data?.type === 'PROFILE_UPDATE' && event.data.payload) {
+        applyProfileUpdate(event.data.payload);
+      }
+    }
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, [applyProfileUpdate]);
+}
+
+/**
+ * Render profile of the selected component
+ */
+export function useComponentProfile() {
+  const selectedElement = useStore(state => state.selectedElement);
+  const renderProfile = useStore(state => state.renderProfile);
+  const clearRenderProfile = useStore(state => state.clearRenderProfile);
+
+  const profile = findComponentProfile(renderProfile, selectedElement);
+
+  const resetProfile = useCallback(() => {
+    const iframe = document.querySelector<HTMLIFrameElement>('#target-app-iframe');
+    iframe?.contentWindow?.postMessage({ type: 'RESET_PROFILE' }, '*');
+    clearRenderProfile();
+  }, [clearRenderProfile]);
+
+  return {
+    profile,
+    commitCount: renderProfile?.commitCount ?? 0,
+    isProfiling: renderProfile !== null,
+    resetProfile
+  };
+}
+
+/**
+ * Profiles are kept per component instance, keyed by fiber id. Without an
+ * id, the busiest instance with the selected name is most likely the one
+ * on screen.
+ */
+function findComponentProfile(
+  renderProfile: RenderProfile | null,
+  selectedElement: SelectedElement | null
+): ComponentRenderProfile | null {
+  if (!renderProfile || !selectedElement) return null;
+
+  const { componentFiberId, componentName } = selectedElement;
+  if (componentFiberId !== undefined && renderProfile.components[componentFiberId]) {
+    return renderProfile.components[componentFiberId] ?? null;
+  }
+
+  return Object.values(renderProfile.components)
+    .filter(component => component.name === componentName)
+    .sort((a, b) => b.renderCount - a.renderCount)[0] ?? null;
+}
+
+// ============================================
+// useComponentTree
+// ============================================
+
+function postToInjector(message: { type: string; payload?: unknown }) {
+  const iframe = document.querySelector<HTMLIFrameElement>('#target-app-iframe');
+  iframe?.contentWindow?.postMessage(message, '*');
+}
+
+/**
+ * Live component tree of the inspected app. The injector re-sends the tree
+ * after every commit while this hook is mounted.
+ */
+export function useComponentTree() {
+  const [nodes, setNodes] = useState<ComponentTreeNode[]>([]);
+  const [truncated, setTruncated] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  /** Node under the cursor while inspecting the page */
+  const [hoveredId, setHoveredId] = useState<number | null>(null);
+
+  useEffect(() => {
+    function handleMessage(event: globalThis.MessageEvent) {
+      const { type, payload } = event.data || {};
+
+      if (type === 'COMPONENT_TREE' && payload) {
+        setNodes(payload.nodes);
+        setTruncated(payload.truncated);
+        setIsLoading(false);
+      }
+
+      if (type === 'NODE_HOVERED' && payload) {
+        setHoveredId(payload.fiberId);
+      }
+
+      // A reloaded page has a new injector, which has to be asked again
+      if (type === 'INJECTOR_READY') {
+        postToInjector({ type: 'GET_COMPONENT_TREE' });
+        postToInjector({ type: 'WATCH_COMPONENT_TREE', payload: { enabled: true } });
+      }
+    }
+
+    window.addEventListener('message', handleMessage);
+    postToInjector({ type: 'GET_COMPONENT_TREE' });
+    postToInjector({ type: 'WATCH_COMPONENT_TREE', payload: { enabled: true } });
+
+    return () => {
+      window.removeEventListener('message', handleMessage);
+      postToInjector({ type: 'WATCH_COMPONENT_TREE', payload: { enabled: false } });
+      postToInjector({ type: 'CLEAR_HIGHLIGHT' });
+    };
+  }, []);
+
+  const refresh = useCallback(() => {
+    setIsLoading(true);
+    postToInjector({ type: 'GET_COMPONENT_TREE' });
+  }, []);
+
+  const highlightNode = useCallback((id: number | null, scrollIntoView = false) => {
+    postToInjector(
+      id === null
+        ? { type: 'CLEAR_HIGHLIGHT' }
+        : { type: 'HIGHLIGHT_NODE', payload: { id, scrollIntoView } }
+    );
+  }, []);
+
+  const selectNode = useCallback((id: number) => {
+    postToInjector({ type: 'SELECT_NODE', payload: { id } });
+  }, []);
+
+  return {
+    nodes,
+    truncated,
+    isLoading,
+    hoveredId,
+    refresh,
+    highlightNode,
+    selectNode
+  };
+}
+
+// ============================================
+// Accessibility audit
+// ============================================
+
+/** How long to wait for the injector before analyzing without DOM findings */
+const ACCESSIBILITY_AUDIT_TIMEOUT_MS = 3000;
+
+/**
+ * Ask the injector to audit a component's rendered DOM. Resolves to null
+ * when the injector doesn't answer, e.g. when no app is connected.
+ */
+function requestAccessibilityAudit(fiberId?: number): Promise<AccessibilityAudit | null> {
+  const requestId = crypto.randomUUID();
+
+  return new Promise(resolve => {
+    const timer = setTimeout(() => finish(null), ACCESSIBILITY_AUDIT_TIMEOUT_MS);
+
+    function handleMessage(event: globalThis.MessageEvent) {
+      const { type, payload } = event.data || {};
+      if (type === 'ACCESSIBILITY_AUDIT' && payload?.requestId === requestId) {
+        finish(payload);
+      }
+    }
+
+    function finish(audit: AccessibilityAudit | null) {
+      clearTimeout(timer);
+      window.removeEventListener('message', handleMessage);
+      resolve(audit);
+    }
+
+    window.addEventListener('message', handleMessage);
+    postToInjector({
+      type: 'RUN_ACCESSIBILITY_AUDIT',
+      payload: { requestId, ...(fiberId !== undefined ? { id: fiberId } : {}) }
+    });
+  });
+}
+
 // ============================================
 // useCodeAnalysis
 // ============================================
@@ -114,13 +353,15 @@ export function useCodeAnalysis() {
     setAnalysisError,
     setSelectedCategories,
     toggleCategory,
+    startStreamingAnalysis,
     addNotification
   } = useStore();
 
   const setSelectedElement = useStore(state => state.setSelectedElement);
 
   const analyzeSelected = useCallback(async (
-    goal?: OptimizationCategory | string
+    goal?: OptimizationCategory | string,
+    options: { noCache?: boolean } = {}
   ) => {
     if (!projectPath) {
       addNotification('error', 'No project path configured');
@@ -135,15 +376,40 @@ export function useCodeAnalysis() {
     setAnalyzing(true);
     setAnalysisError(null);
 
+    // Suggestions stream in over the WebSocket tagged with this id
+    const analysisId = crypto.randomUUID();
+    startStreamingAnalysis(analysisId);
+
+    const resolvedGoal = goal || selectedCategories[0] || 'performance';
+
+    // Runtime render data grounds performance suggestions in what actually re-renders
+    const renderProfile = resolvedGoal === 'performance'
+      ? findComponentProfile(useStore.getState().renderProfile, selectedElement)
+      : null;
+
+    // What the rendered DOM gets wrong, mapped to lines of JSX
+    const accessibilityAudit = resolvedGoal === 'accessibility'
+      ? await requestAccessibilityAudit(selectedElement.fiberId)
+      : null;
+
     try {
       const result = await api.analyzeElement({
+        analysisId,
         projectPath,
         componentInfo: {
           name: selectedElement.componentName,
           filePath: selectedElement.filePath,
-          ...(selectedElement.lineNumber ? { lineNumber: selectedElement.lineNumber } : {})
+          ...(selectedElement.lineNumber ? { lineNumber: selectedElement.lineNumber } : {}),
+          // Live values let the model reason about real data, not just types
+          ...(selectedElement.props ? { props: selectedElement.props } : {}),
+          ...(selectedElement.state ? { state: selectedElement.state } : {}),
+          ...(selectedElement.hooks ? { hooks: selectedElement.hooks } : {}),
+          ...(selectedElement.fiber ? { fiber: selectedElement.fiber } : {})
         },
-        goal: goal || selectedCategories[0] || 'performance'
+        goal: resolvedGoal,
+        ...(renderProfile ? { renderProfile } : {}),
+        ...(accessibilityAudit ? { accessibilityFindings: accessibilityAudit.findings } : {}),
+        ...(options.noCache ? { noCache: true } : {})
       });
 
       setAnalysisResult(result);
@@ -156,7 +422,10 @@ export function useCodeAnalysis() {
         });
       }
 
-      addNotification('success', `Found ${result.suggestions.length} suggestions`);
+      addNotification(
+        'success',
+        `Found ${result.suggestions.length} suggestions${result.cached ? ' (cached)' : ''}`
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Analysis failed';
       setAnalysisError(message);
@@ -170,6 +439,7 @@ export function useCodeAnalysis() {
     setAnalysisError,
     setAnalysisResult,
     setSelectedElement,
+    startStreamingAnalysis,
     addNotification
   ]);
 
@@ -212,6 +482,7 @@ export function useCodeAnalysis() {
 export function useModifications() {
   const {
     projectPath,
+    selectedElement,
     selectedSuggestion,
     appliedSuggestions,
     modificationHistory,
@@ -225,7 +496,8 @@ export function useModifications() {
 
   const applySuggestion = useCallback(async (
     suggestion: CodeSuggestion,
-    filePath: string
+    filePath: string,
+    options: { allowBreakingChanges?: boolean } = {}
   ) => {
     if (!projectPath) {
       addNotification('error', 'No project path configured');
@@ -233,7 +505,13 @@ export function useModifications() {
     }
 
     try {
-      const result = await api.applySuggestion(projectPath, filePath, suggestion);
+      const result = await api.applySuggestion(
+        projectPath,
+        filePath,
+        suggestion,
+        selectedElement?.componentName,
+        options.allowBreakingChanges
+      );
 
       if (result.success) {
         markSuggestionApplied(suggestion.id);
@@ -247,17 +525,25 @@ export function useModifications() {
           ...(result.backupId ? { backupId: result.backupId } : {})
         });
         addNotification('success', 'Change applied successfully');
-        closeApprovalDialog();
+        // Keep the dialog open so the test results can be reviewed
+        if (!result.tests?.ran) {
+          closeApprovalDialog();
+        }
       }
 
       return result;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to apply change';
       addNotification('error', message);
+      // A rejected modification still reports its test results
+      if (error instanceof api.APIError && error.data) {
+        return error.data as ModificationResult;
+      }
       return null;
     }
   }, [
     projectPath,
+    selectedElement,
     markSuggestionApplied,
     addModificationEntry,
     closeApprovalDialog,
@@ -274,18 +560,25 @@ export function useModifications() {
     }
 
     try {
-      const result = await api.applyMultipleSuggestions(
-        projectPath,
-        filePath,
-        suggestions
+      const job = await api.waitForJob(
+        await api.applyMultipleSuggestions(projectPath, filePath, suggestions)
       );
 
-      if (result.success) {
+      if (job.status !== 'succeeded' || !job.result) {
+        addNotification('error', job.error || `Batch apply ${job.status}`);
+        return null;
+      }
+
+      const results = job.result;
+      if (results.every(r => r.success)) {
         suggestions.forEach(s => markSuggestionApplied(s.id));
         addNotification('success', `Applied ${suggestions.length} changes`);
+      } else {
+        const failure = results.find(r => !r.success);
+        addNotification('error', failure?.error || 'Some changes failed');
       }
 
-      return result;
+      return results;
     } catch (error) {
       const message = error instanceof Error ? error.message : 'Failed to apply changes';
       addNotification('error', message);
@@ -457,6 +750,106 @@ export function useGitOperations() {
   };
 }
 
+// ============================================
+// useProjects
+// ============================================
+
+export function useProjects() {
+  const { projectPath, setProjectPath, addNotification } = useStore();
+  const [projects, setProjects] = useState<ProjectInfo[]>([]);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await api.listProjects());
+    } catch {
+      setProjects([]);
+    }
+  }, []);
+
+  // Make sure the current project is registered with the server
+  useEffect(() => {
+    if (!projectPath) {
+      refreshProjects();
+      return;
+    }
+
+    api.registerProject(projectPath)
+      .catch(() => undefined)
+      .finally(refreshProjects);
+  }, [projectPath, refreshProjects]);
+
+  const addProject = useCallback(async (path: string, name?: string) => {
+    try {
+      const project = await api.registerProject(path, name);
+      setProjectPath(project.root);
+      addNotification('success', `Switched to ${project.name}`);
+      await refreshProjects();
+      return project;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to add project';
+      addNotification('error', message);
+      return null;
+    }
+  }, [setProjectPath, addNotification, refreshProjects]);
+
+  const switchProject = useCallback((root: string) => {
+    if (root === projectPath) return;
+    setProjectPath(root);
+    const project = projects.find(p => p.root === root);
+    addNotification('info', `Switched to ${project?.name ?? root}`);
+  }, [projectPath, projects, setProjectPath, addNotification]);
+
+  const removeProject = useCallback(async (root: string) => {
+    try {
+      await api.unregisterProject(root);
+      if (root === projectPath) {
+        setProjectPath(null);
+      }
+      await refreshProjects();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to remove project';
+      addNotification('error', message);
+    }
+  }, [projectPath, setProjectPath, addNotification, refreshProjects]);
+
+  return {
+    projects,
+    projectPath,
+    refreshProjects,
+    addProject,
+    switchProject,
+    removeProject
+  };
+}
+
+// ============================================
+// useProjectCategories
+// ============================================
+
+/**
+ * Loads the current project's optimization categories, including the ones
+ * it defines in its config. Mount once, at the app root.
+ */
+export function useProjectCategories() {
+  const projectPath = useStore(state => state.projectPath);
+  const setCategories = useStore(state => state.setCategories);
+
+  useEffect(() => {
+    if (!projectPath) return;
+
+    let cancelled = false;
+    api.getCategories(projectPath)
+      .then(categories => {
+        if (!cancelled) setCategories(categories);
+      })
+      .catch(() => undefined);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projectPath, setCategories]);
+}
+
 // ============================================
 // useWebSocket
 // ============================================
@@ -464,7 +857,10 @@ export function useGitOperations() {
 export function useWebSocket(url: string) {
   const wsRef = useRef<WebSocket | null>(null);
   const {
+    projectPath,
     setConnected,
+    addPartialSuggestion,
+    updateAuditSummary,
     addNotification
   } = useStore();
 
@@ -487,15 +883,49 @@ export function useWebSocket(url: string) {
 
     ws.onmessage = (event) => {
       try {
-        const message = JSON.parse(event.data);
+        const message = JSON.parse(event.data) as WSMessage;
 
         // Handle different message types
         switch (message.type) {
-          case 'FILE_CHANGED':
-            addNotification('info', `File changed: ${message.payload.filePath}`);
+          case 'analysis-progress': {
+            const { analysisId, suggestion } = message.data as {
+              analysisId: string;
+              suggestion: CodeSuggestion;
+            };
+            addPartialSuggestion(analysisId, suggestion);
+            break;
+          }
+          case 'audit-started':
+          case 'audit-progress':
+            updateAuditSummary((message.data as { summary: AuditSummary }).summary);
+            break;
+          case 'audit-complete': {
+            const { summary } = message.data as { summary: AuditSummary };
+            updateAuditSummary(summary);
+            if (summary.status === 'completed') {
+              addNotification('success', `Audit finished: ${summary.completedFiles} files analyzed`);
+            } else if (summary.status === 'budget-exceeded') {
+              addNotification('warning', 'Audit paused: token budget used up');
+            }
+            break;
+          }
+          case 'audit-error': {
+            const { summary, message: error } = message.data as { summary: AuditSummary; message: string };
+            updateAuditSummary(summary);
+            addNotification('error', `Audit failed: ${error}`);
+            break;
+          }
+          case 'connected':
+          case 'subscribed':
+          case 'unsubscribed':
+          case 'pong':
+          case 'analysis-started':
+          case 'analysis-complete':
+          case 'analysis-error':
+            // Final results and errors arrive with the HTTP response
             break;
-          case 'ANALYSIS_COMPLETE':
-            // Handle analysis completion
+          case 'job-updated':
+            // Callers poll the jobs they submitted
             break;
           default:
             console.log('Unknown message type:', message.type);
@@ -508,14 +938,25 @@ export function useWebSocket(url: string) {
     return () => {
       ws.close();
     };
-  }, [url, setConnected, addNotification]);
+  }, [url, setConnected, addPartialSuggestion, updateAuditSummary, addNotification]);
 
-  const send = useCallback((type: string, payload: unknown) => {
+  const send = useCallback((type: string, data: Record<string, unknown> = {}) => {
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({ type, payload }));
+      wsRef.current.send(JSON.stringify({ type, data }));
     }
   }, []);
 
+  // Subscribe to events for the current project
+  const isConnected = useStore(state => state.isConnected);
+  useEffect(() => {
+    if (!isConnected) return;
+    if (projectPath) {
+      send('subscribe', { projectPath });
+    } else {
+      send('unsubscribe');
+    }
+  }, [isConnected, projectPath, send]);
+
   return { send };
 }
 
@@ -567,11 +1008,11 @@ export function useKeyboardShortcuts() {
         }
       }
 
-      // Number keys 1-4 for panel switching
-      if (event.key >= '1' && event.key <= '4' && (event.metaKey || event.ctrlKey)) {
+      // Number keys 1-6 for panel switching
+      if (event.key >= '1' && event.key <= '6' && (event.metaKey || event.ctrlKey)) {
         event.preventDefault();
-        const panels: Array<'inspector' | 'analysis' | 'history' | 'settings'> = [
-          'inspector', 'analysis', 'history', 'settings'
+        const panels: Array<'inspector' | 'tree' | 'analysis' | 'audit' | 'history' | 'settings'> = [
+          'inspector', 'tree', 'analysis', 'audit', 'history', 'settings'
         ];
         const panel = panels[parseInt(event.key) - 1];
         if (panel) {
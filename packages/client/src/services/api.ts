@@ -6,28 +6,46 @@
  */
 
 import type {
+  AccessibilityFinding,
   AnalysisResult,
+  AuditReport,
+  AuditSummary,
+  CategoryDefinition,
+  ChangesetPreview,
   CodeSuggestion,
+  ComponentRenderProfile,
+  DependentFile,
+  FiberInfo,
+  HookInfo,
+  ImpactReport,
+  Job,
   ModificationResult,
   GitStatus,
   BackupEntry,
   ModificationEntry,
-  OptimizationCategory
+  OptimizationCategory,
+  ProjectInfo,
+  ResolvedSource,
+  UsageReport
 } from '../types';
 
 const API_BASE = import.meta.env.VITE_API_URL || 'http://localhost:3847/api';
 
+export const WS_URL =
+  import.meta.env.VITE_WS_URL || API_BASE.replace(/^http/, 'ws').replace(/\/api\/?$/, '/ws');
+
 interface APIResponse<T> {
   success: boolean;
   data?: T;
-  error?: string;
+  error?: string | { code: string; message: string };
 }
 
 class APIError extends Error {
   constructor(
     message: string,
     public statusCode: number,
-    public details?: string
+    public details?: string,
+    public data?: unknown
   ) {
     super(message);
     this.name = 'APIError';
@@ -53,10 +71,13 @@ async function request<T>(
     const data: APIResponse<T> = await response.json();
 
     if (!response.ok || !data.success) {
+      const error = typeof data.error === 'string' ? data.error : data.error?.message;
+      // Failed modifications still carry a result (validation, test runs)
       throw new APIError(
-        data.error || 'Request failed',
+        error || 'Request failed',
         response.status,
-        data.error
+        typeof data.error === 'object' ? data.error.code : data.error,
+        data.data
       );
     }
 
@@ -83,8 +104,20 @@ export interface AnalyzeElementParams {
     name: string;
     filePath: string;
     lineNumber?: number;
+    props?: Record<string, unknown>;
+    state?: Record<string, unknown> | null;
+    hooks?: HookInfo[];
+    fiber?: FiberInfo;
   };
   goal: OptimizationCategory | string;
+  /** Correlates analysis-progress frames received over the WebSocket */
+  analysisId?: string;
+  /** Live render data for the component, sent with performance goals */
+  renderProfile?: ComponentRenderProfile;
+  /** Injector DOM audit of the component, sent with accessibility goals */
+  accessibilityFindings?: AccessibilityFinding[];
+  /** Ask the LLM again even if the server has a cached analysis */
+  noCache?: boolean;
 }
 
 export async function analyzeElement(params: AnalyzeElementParams): Promise<AnalysisResult> {
@@ -121,11 +154,153 @@ export async function analyzeComponentByName(
   );
 }
 
+export async function resolveSource(
+  projectPath: string,
+  fileName: string
+): Promise<ResolvedSource> {
+  return request<ResolvedSource>('/analysis/resolve-source', {
+    method: 'POST',
+    body: JSON.stringify({ projectPath, fileName })
+  });
+}
+
+export async function getDependents(
+  projectPath: string,
+  filePath: string,
+  exportNames?: string[]
+): Promise<DependentFile[]> {
+  const params = new URLSearchParams({ projectPath, filePath });
+  if (exportNames?.length) params.set('exports', exportNames.join(','));
+
+  return request<DependentFile[]>(`/analysis/dependents?${params}`);
+}
+
+/**
+ * Which exports and props a suggestion changes, and who uses them
+ */
+export async function getImpact(
+  projectPath: string,
+  filePath: string,
+  suggestion: CodeSuggestion
+): Promise<ImpactReport> {
+  return request<ImpactReport>('/analysis/impact', {
+    method: 'POST',
+    body: JSON.stringify({ projectPath, filePath, suggestion })
+  });
+}
+
+/**
+ * Built-in optimization categories followed by the project's own
+ */
+export async function getCategories(projectPath: string): Promise<CategoryDefinition[]> {
+  const params = new URLSearchParams({ projectPath });
+  return request<CategoryDefinition[]>(`/analysis/categories?${params}`);
+}
+
+// ============================================
+// Audit Endpoints
+// ============================================
+
+export interface StartAuditParams {
+  optimizationGoal: string;
+  category?: OptimizationCategory;
+  concurrency?: number;
+  tokenBudget?: number;
+}
+
+/**
+ * Start a project-wide audit; progress arrives over the WebSocket
+ */
+export async function startAudit(
+  projectPath: string,
+  params: StartAuditParams
+): Promise<AuditReport> {
+  return request<AuditReport>('/analysis/audits', {
+    method: 'POST',
+    body: JSON.stringify({ projectPath, ...params })
+  });
+}
+
+export async function listAudits(projectPath: string): Promise<AuditSummary[]> {
+  const params = new URLSearchParams({ projectPath });
+  return request<AuditSummary[]>(`/analysis/audits?${params}`);
+}
+
+export async function getAudit(projectPath: string, auditId: string): Promise<AuditReport> {
+  const params = new URLSearchParams({ projectPath });
+  return request<AuditReport>(`/analysis/audits/${encodeURIComponent(auditId)}?${params}`);
+}
+
+/**
+ * Continue a stopped or over-budget audit, optionally with a new budget
+ */
+export async function resumeAudit(
+  projectPath: string,
+  auditId: string,
+  options: { tokenBudget?: number; concurrency?: number } = {}
+): Promise<AuditReport> {
+  return request<AuditReport>(`/analysis/audits/${encodeURIComponent(auditId)}/resume`, {
+    method: 'POST',
+    body: JSON.stringify({ projectPath, ...options })
+  });
+}
+
+export async function stopAudit(projectPath: string, auditId: string): Promise<{ stopped: boolean }> {
+  return request<{ stopped: boolean }>(`/analysis/audits/${encodeURIComponent(auditId)}/stop`, {
+    method: 'POST',
+    body: JSON.stringify({ projectPath })
+  });
+}
+
+/**
+ * Address of the standalone HTML report, for opening in a new tab
+ */
+export function getAuditHtmlUrl(projectPath: string, auditId: string): string {
+  const params = new URLSearchParams({ projectPath, format: 'html' });
+  return `${API_BASE}/analysis/audits/${encodeURIComponent(auditId)}?${params}`;
+}
+
 export async function listReactFiles(projectPath: string): Promise<string[]> {
   const params = new URLSearchParams({ projectPath });
   return request<string[]>(`/analysis/files?${params}`);
 }
 
+// ============================================
+// Job Endpoints
+// ============================================
+
+export async function listJobs(projectPath?: string): Promise<Job[]> {
+  const params = new URLSearchParams(projectPath ? { projectPath } : {});
+  return request<Job[]>(`/jobs?${params}`);
+}
+
+export async function getJob<TResult = unknown>(jobId: string): Promise<Job<TResult>> {
+  return request<Job<TResult>>(`/jobs/${encodeURIComponent(jobId)}`);
+}
+
+export async function cancelJob(jobId: string): Promise<Job> {
+  return request<Job>(`/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' });
+}
+
+export async function retryJob(jobId: string): Promise<Job> {
+  return request<Job>(`/jobs/${encodeURIComponent(jobId)}/retry`, { method: 'POST' });
+}
+
+/**
+ * Poll a job until it succeeds, fails or is cancelled
+ */
+export async function waitForJob<TResult>(
+  job: Job<TResult>,
+  intervalMs = 1000
+): Promise<Job<TResult>> {
+  let current = job;
+  while (current.status === 'queued' || current.status === 'running') {
+    await new Promise(resolve => setTimeout(resolve, intervalMs));
+    current = await getJob<TResult>(job.id);
+  }
+  return current;
+}
+
 // ============================================
 // Modification Endpoints
 // ============================================
@@ -151,20 +326,32 @@ export async function applyModification(
 export async function applySuggestion(
   projectPath: string,
   filePath: string,
-  suggestion: CodeSuggestion
+  suggestion: CodeSuggestion,
+  componentName?: string,
+  allowBreakingChanges = false
 ): Promise<ModificationResult> {
   return request<ModificationResult>('/modification/suggestion', {
     method: 'POST',
-    body: JSON.stringify({ projectPath, filePath, suggestion })
+    body: JSON.stringify({
+      projectPath,
+      filePath,
+      suggestion,
+      ...(componentName || allowBreakingChanges
+        ? { options: { componentName, ...(allowBreakingChanges && { allowBreakingChanges }) } }
+        : {})
+    })
   });
 }
 
+/**
+ * Queue a job that applies several suggestions to one file; see waitForJob
+ */
 export async function applyMultipleSuggestions(
   projectPath: string,
   filePath: string,
   suggestions: CodeSuggestion[]
-): Promise<ModificationResult> {
-  return request<ModificationResult>('/modification/batch', {
+): Promise<Job<ModificationResult[]>> {
+  return request<Job<ModificationResult[]>>('/modification/batch', {
     method: 'POST',
     body: JSON.stringify({ projectPath, filePath, suggestions })
   });
@@ -201,12 +388,38 @@ export async function previewModification(
   });
 }
 
+/**
+ * Preview every file a multi-file suggestion touches
+ */
+export async function previewChangeset(
+  projectPath: string,
+  filePath: string,
+  suggestion: CodeSuggestion
+): Promise<ChangesetPreview> {
+  return request<ChangesetPreview>('/modification/changeset/preview', {
+    method: 'POST',
+    body: JSON.stringify({ projectPath, filePath, suggestion })
+  });
+}
+
+export interface ModificationHistoryFilters {
+  filePath?: string;
+  componentName?: string;
+  category?: OptimizationCategory;
+  status?: 'applied' | 'reverted' | 'rejected';
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
 export async function getModificationHistory(
   projectPath: string,
-  filePath?: string
+  filters: ModificationHistoryFilters = {}
 ): Promise<ModificationEntry[]> {
   const params = new URLSearchParams({ projectPath });
-  if (filePath) params.set('filePath', filePath);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
 
   return request<ModificationEntry[]>(`/modification/history?${params}`);
 }
@@ -226,6 +439,29 @@ export async function restoreBackup(
   });
 }
 
+// ============================================
+// Project Endpoints
+// ============================================
+
+export async function listProjects(): Promise<ProjectInfo[]> {
+  return request<ProjectInfo[]>('/projects');
+}
+
+export async function registerProject(
+  projectPath: string,
+  name?: string
+): Promise<ProjectInfo> {
+  return request<ProjectInfo>('/projects', {
+    method: 'POST',
+    body: JSON.stringify({ projectPath, name })
+  });
+}
+
+export async function unregisterProject(projectPath: string): Promise<{ removed: boolean }> {
+  const params = new URLSearchParams({ projectPath });
+  return request<{ removed: boolean }>(`/projects?${params}`, { method: 'DELETE' });
+}
+
 // ============================================
 // Git Endpoints
 // ============================================
@@ -327,6 +563,20 @@ export async function explainChange(
   });
 }
 
+/**
+ * Token usage and estimated cost of the project's LLM calls
+ */
+export async function getUsage(
+  projectPath: string,
+  options: { from?: string; to?: string } = {}
+): Promise<UsageReport> {
+  const params = new URLSearchParams({ projectPath });
+  if (options.from) params.set('from', options.from);
+  if (options.to) params.set('to', options.to);
+
+  return request<UsageReport>(`/llm/usage?${params}`);
+}
+
 export async function validateCode(
   projectPath: string,
   code: string,
@@ -9,12 +9,16 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import type { 
+  AuditSummary,
+  CategoryDefinition,
   SelectedElement, 
   AnalysisResult, 
   CodeSuggestion, 
   ModificationEntry,
   GitStatus,
-  OptimizationCategory 
+  OptimizationCategory,
+  ComponentRenderProfile,
+  RenderProfile
 } from '../types';
 
 interface InspectorState {
@@ -31,11 +35,22 @@ interface InspectorState {
   isAnalyzing: boolean;
   analysisError: string | null;
   selectedCategories: OptimizationCategory[];
+  /** Built-in categories and the project's own, as loaded from the server */
+  categories: CategoryDefinition[];
+  streamingAnalysisId: string | null;
+  partialSuggestions: CodeSuggestion[];
   
   // Suggestions
   selectedSuggestion: CodeSuggestion | null;
   appliedSuggestions: string[];
   
+  // Profiling
+  renderProfile: RenderProfile | null;
+  
+  // Audits
+  /** Latest progress of audits, by id, as pushed over the WebSocket */
+  auditSummaries: Record<string, AuditSummary>;
+  
   // Git
   gitStatus: GitStatus | null;
   
@@ -43,7 +58,7 @@ interface InspectorState {
   modificationHistory: ModificationEntry[];
   
   // UI State
-  activePanel: 'inspector' | 'analysis' | 'history' | 'settings';
+  activePanel: 'inspector' | 'tree' | 'analysis' | 'audit' | 'history' | 'settings';
   showApprovalDialog: boolean;
   pendingModification: CodeSuggestion | null;
   
@@ -72,12 +87,27 @@ interface InspectorActions {
   setAnalysisError: (error: string | null) => void;
   setSelectedCategories: (categories: OptimizationCategory[]) => void;
   toggleCategory: (category: OptimizationCategory) => void;
+  setCategories: (categories: CategoryDefinition[]) => void;
+  startStreamingAnalysis: (analysisId: string) => void;
+  addPartialSuggestion: (analysisId: string, suggestion: CodeSuggestion) => void;
   
   // Suggestions
   selectSuggestion: (suggestion: CodeSuggestion | null) => void;
   markSuggestionApplied: (suggestionId: string) => void;
   resetAppliedSuggestions: () => void;
   
+  // Profiling
+  applyProfileUpdate: (update: {
+    startedAt: number;
+    commitCount: number;
+    components: ComponentRenderProfile[];
+    reset?: boolean;
+  }) => void;
+  clearRenderProfile: () => void;
+  
+  // Audits
+  updateAuditSummary: (summary: AuditSummary) => void;
+  
   // Git
   setGitStatus: (status: GitStatus | null) => void;
   
@@ -99,6 +129,16 @@ interface InspectorActions {
   reset: () => void;
 }
 
+/** Shown until the project's categories have loaded */
+const BUILT_IN_CATEGORIES: CategoryDefinition[] = [
+  { id: 'performance', label: 'Performance', icon: '⚡', color: 'emerald', severity: 'warning', builtIn: true },
+  { id: 'accessibility', label: 'Accessibility', icon: '♿', color: 'blue', severity: 'warning', builtIn: true },
+  { id: 'maintainability', label: 'Maintainability', icon: '🔧', color: 'violet', severity: 'info', builtIn: true },
+  { id: 'bundle-size', label: 'Bundle Size', icon: '📦', color: 'amber', severity: 'info', builtIn: true },
+  { id: 'ux', label: 'UX', icon: '✨', color: 'rose', severity: 'info', builtIn: true },
+  { id: 'code-quality', label: 'Code Quality', icon: '💎', color: 'cyan', severity: 'info', builtIn: true }
+];
+
 const initialState: InspectorState = {
   isConnected: false,
   projectPath: null,
@@ -108,8 +148,13 @@ const initialState: InspectorState = {
   isAnalyzing: false,
   analysisError: null,
   selectedCategories: ['performance', 'accessibility', 'maintainability'],
+  categories: BUILT_IN_CATEGORIES,
+  streamingAnalysisId: null,
+  partialSuggestions: [],
   selectedSuggestion: null,
   appliedSuggestions: [],
+  renderProfile: null,
+  auditSummaries: {},
   gitStatus: null,
   modificationHistory: [],
   activePanel: 'inspector',
@@ -126,7 +171,23 @@ export const useStore = create<InspectorState & InspectorActions>()(
         
         // Connection
         setConnected: (connected) => set({ isConnected: connected }),
-        setProjectPath: (path) => set({ projectPath: path }),
+        setProjectPath: (path) => set((state) => (
+          state.projectPath === path
+            ? {}
+            : {
+                // Selection, analysis and Git state belong to the previous project
+                projectPath: path,
+                selectedElement: null,
+                analysisResult: null,
+                analysisError: null,
+                streamingAnalysisId: null,
+                partialSuggestions: [],
+                selectedSuggestion: null,
+                renderProfile: null,
+                gitStatus: null,
+                categories: BUILT_IN_CATEGORIES
+              }
+        )),
         
         // Selection
         setSelectedElement: (element) => set({ 
@@ -146,12 +207,16 @@ export const useStore = create<InspectorState & InspectorActions>()(
         setAnalysisResult: (result) => set({ 
           analysisResult: result,
           isAnalyzing: false,
-          analysisError: null
+          analysisError: null,
+          streamingAnalysisId: null,
+          partialSuggestions: []
         }),
         setAnalyzing: (analyzing) => set({ isAnalyzing: analyzing }),
         setAnalysisError: (error) => set({ 
           analysisError: error,
-          isAnalyzing: false
+          isAnalyzing: false,
+          streamingAnalysisId: null,
+          partialSuggestions: []
         }),
         setSelectedCategories: (categories) => set({ selectedCategories: categories }),
         toggleCategory: (category) => {
@@ -161,6 +226,24 @@ export const useStore = create<InspectorState & InspectorActions>()(
             : [...current, category];
           set({ selectedCategories: updated });
         },
+        setCategories: (categories) => set(state => ({
+          categories,
+          // Drop custom categories the project no longer defines
+          selectedCategories: state.selectedCategories.filter(id =>
+            categories.some(category => category.id === id)
+          )
+        })),
+        startStreamingAnalysis: (analysisId) => set({
+          streamingAnalysisId: analysisId,
+          partialSuggestions: []
+        }),
+        addPartialSuggestion: (analysisId, suggestion) => {
+          // Ignore frames from an analysis that is no longer in flight
+          if (get().streamingAnalysisId !== analysisId) return;
+          set(state => ({
+            partialSuggestions: [...state.partialSuggestions, suggestion]
+          }));
+        },
         
         // Suggestions
         selectSuggestion: (suggestion) => set({ selectedSuggestion: suggestion }),
@@ -169,6 +252,31 @@ export const useStore = create<InspectorState & InspectorActions>()(
         })),
         resetAppliedSuggestions: () => set({ appliedSuggestions: [] }),
         
+        // Profiling
+        applyProfileUpdate: (update) => set(state => {
+          // The injector sends only components that rendered since its last update
+          const previous = update.reset || state.renderProfile?.startedAt !== update.startedAt
+            ? {}
+            : state.renderProfile?.components ?? {};
+          const components = { ...previous };
+          for (const component of update.components) {
+            components[component.id] = component;
+          }
+          return {
+            renderProfile: {
+              startedAt: update.startedAt,
+              commitCount: update.commitCount,
+              components
+            }
+          };
+        }),
+        clearRenderProfile: () => set({ renderProfile: null }),
+        
+        // Audits
+        updateAuditSummary: (summary) => set(state => ({
+          auditSummaries: { ...state.auditSummaries, [summary.id]: summary }
+        })),
+        
         // Git
         setGitStatus: (status) => set({ gitStatus: status }),
         
@@ -229,6 +337,7 @@ export const useSelectedElement = () => useStore(state => state.selectedElement)
 export const useAnalysisResult = () => useStore(state => state.analysisResult);
 export const useIsAnalyzing = () => useStore(state => state.isAnalyzing);
 export const useSelectedSuggestion = () => useStore(state => state.selectedSuggestion);
+export const useCategories = () => useStore(state => state.categories);
 export const useGitStatus = () => useStore(state => state.gitStatus);
 export const useNotifications = () => useStore(state => state.notifications);
 export const useActivePanel = () => useStore(state => state.activePanel);
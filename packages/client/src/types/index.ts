@@ -10,7 +10,33 @@ export interface SelectedElement {
   filePath: string;
   lineNumber?: number;
   props?: Record<string, unknown>;
+  /** Class component state */
+  state?: Record<string, unknown> | null;
+  hooks?: HookInfo[];
+  /** The component the props, state and hooks belong to */
+  fiber?: FiberInfo;
   tagName: string;
+  /** Injector id of the selected fiber, shared with the component tree */
+  fiberId?: number;
+  /** Injector id of the component the props, state and hooks belong to */
+  componentFiberId?: number;
+}
+
+/**
+ * Runtime values captured by the injector are JSON-safe copies: functions,
+ * DOM nodes, cycles and oversized values become placeholder strings
+ */
+export interface HookInfo {
+  name: string;
+  value: unknown;
+  dependencies?: unknown[];
+}
+
+export interface FiberInfo {
+  tag: number;
+  type: string;
+  key: string | null;
+  stateNode: unknown;
 }
 
 export interface ReactFiberInfo {
@@ -22,6 +48,65 @@ export interface ReactFiberInfo {
   lineNumber?: number;
 }
 
+// Component Tree
+export type ComponentTreeNodeKind =
+  | 'root'
+  | 'composite'
+  | 'host'
+  | 'provider'
+  | 'consumer'
+  | 'portal'
+  | 'fragment'
+  | 'suspense'
+  | 'other';
+
+/** One fiber of the inspected app, in depth-first order */
+export interface ComponentTreeNode {
+  id: number;
+  parentId: number | null;
+  depth: number;
+  name: string;
+  key: string | null;
+  kind: ComponentTreeNodeKind;
+  source?: {
+    fileName: string;
+    lineNumber: number;
+  };
+}
+
+// Render Profiling
+export type RenderReason = 'mount' | 'props' | 'state' | 'hooks' | 'context' | 'parent';
+
+export interface ComponentRender {
+  commitId: number;
+  timestamp: number;
+  /** Time spent rendering the component and its subtree, in ms */
+  duration: number;
+  commitDuration: number;
+  reasons: RenderReason[];
+  changedProps: string[];
+  /** Indexes of state hooks whose value changed */
+  changedHooks: number[];
+}
+
+export interface ComponentRenderProfile {
+  /** Fiber id of the component instance */
+  id: number;
+  name: string;
+  renderCount: number;
+  mountCount: number;
+  totalDuration: number;
+  maxDuration: number;
+  recentRenders: ComponentRender[];
+  slowestRenders: ComponentRender[];
+}
+
+export interface RenderProfile {
+  startedAt: number;
+  commitCount: number;
+  components: Record<number, ComponentRenderProfile>;
+}
+
 // Optimization
 export interface OptimizationGoal {
   category: OptimizationCategory;
@@ -29,7 +114,7 @@ export interface OptimizationGoal {
   priority: 'high' | 'medium' | 'low';
 }
 
-export type OptimizationCategory = 
+export type BuiltInCategory = 
   | 'performance' 
   | 'accessibility' 
   | 'maintainability' 
@@ -37,6 +122,51 @@ export type OptimizationCategory =
   | 'ux' 
   | 'code-quality';
 
+/** A built-in category or the id of one the project defines in its config */
+export type OptimizationCategory = BuiltInCategory | (string & {});
+
+export interface CategoryDefinition {
+  id: OptimizationCategory;
+  label: string;
+  /** Emoji or short text */
+  icon: string;
+  /** Tailwind colour name */
+  color: string;
+  /** Severity of issues in this category the model leaves unclassified */
+  severity: 'error' | 'warning' | 'info';
+  builtIn: boolean;
+}
+
+// Accessibility Audit
+export type AccessibilityRule =
+  | 'color-contrast'
+  | 'accessible-name'
+  | 'heading-order'
+  | 'focus-trap'
+  | 'aria-role'
+  | 'tab-order';
+
+/** A problem the injector found in the rendered DOM */
+export interface AccessibilityFinding {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  xpath: string;
+  html: string;
+  componentName?: string;
+  source?: {
+    fileName: string;
+    lineNumber: number;
+    columnNumber?: number;
+  };
+}
+
+export interface AccessibilityAudit {
+  findings: AccessibilityFinding[];
+  checkedElements: number;
+  truncated: boolean;
+}
+
 // Analysis
 export interface AnalysisResult {
   componentName: string;
@@ -49,6 +179,9 @@ export interface AnalysisResult {
   };
   suggestions: CodeSuggestion[];
   timestamp: string;
+  /** Answered from the server's analysis cache instead of the LLM */
+  cached?: boolean;
+  cachedAt?: string;
 }
 
 export interface AnalysisIssue {
@@ -56,6 +189,11 @@ export interface AnalysisIssue {
   message: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
+  ruleId?: string;
+  /** Rendered element the issue was found on, for DOM audit findings */
+  xpath?: string;
 }
 
 export interface CodeMetrics {
@@ -80,6 +218,188 @@ export interface CodeSuggestion {
     end: number;
   };
   confidence?: number;
+  /** Changes to other files that must land with this one */
+  files?: FileChange[];
+}
+
+// Audits
+export type AuditStatus = 'running' | 'paused' | 'budget-exceeded' | 'completed';
+
+export interface AuditFileResult {
+  filePath: string;
+  componentName: string;
+  status: 'done' | 'failed';
+  summary?: string;
+  issues: Array<AnalysisIssue & { category?: OptimizationCategory }>;
+  suggestions: CodeSuggestion[];
+  error?: string;
+  tokensUsed: number;
+  score: number;
+  analyzedAt: string;
+}
+
+export interface AuditRanking {
+  componentName: string;
+  filePath: string;
+  score: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+  suggestions: number;
+}
+
+export interface AuditReport {
+  id: string;
+  optimizationGoal: string;
+  category?: OptimizationCategory;
+  status: AuditStatus;
+  createdAt: string;
+  updatedAt: string;
+  concurrency: number;
+  tokenBudget: number;
+  tokensUsed: number;
+  filePaths: string[];
+  results: AuditFileResult[];
+  /** Most severe first */
+  ranking: AuditRanking[];
+  recommendations: string[];
+}
+
+export interface AuditSummary {
+  id: string;
+  optimizationGoal: string;
+  status: AuditStatus;
+  createdAt: string;
+  updatedAt: string;
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  tokensUsed: number;
+  tokenBudget: number;
+}
+
+// Jobs
+export type JobKind = 'analysis-batch' | 'modification-batch';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job<TResult = unknown> {
+  id: string;
+  kind: JobKind;
+  projectPath: string;
+  status: JobStatus;
+  writes: boolean;
+  attempts: number;
+  progress?: {
+    completed: number;
+    total: number;
+    message?: string;
+  };
+  result?: TResult;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+// Usage Accounting
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Estimated, in USD */
+  cost: number;
+}
+
+export interface UsageEntry {
+  id: string;
+  timestamp: string;
+  route: string;
+  componentName?: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  cost: number;
+  /** Set for failed calls */
+  error?: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  byDay: Array<UsageTotals & { date: string }>;
+  byComponent: Array<UsageTotals & { componentName: string }>;
+  byRoute: Array<UsageTotals & { route: string }>;
+  budget: {
+    /** 0 means no limit */
+    budgets: { dailyCost: number; monthlyCost: number; dailyTokens: number };
+    today: UsageTotals;
+    month: UsageTotals;
+    exceeded?: string;
+  };
+  /** Models without a configured price; their calls count as $0 */
+  unpricedModels: string[];
+  recent: UsageEntry[];
+}
+
+// Import Graph
+export interface CallSite {
+  line: number;
+  kind: 'import' | 'jsx' | 'call';
+  name: string;
+}
+
+export interface DependentFile {
+  filePath: string;
+  /** Exports it uses: 'default', '*' for a namespace import, or a name */
+  imports: string[];
+  /** Barrel files the import passes through */
+  via: string[];
+  callSites: CallSite[];
+}
+
+export interface ImpactReport {
+  filePath: string;
+  removedExports: string[];
+  addedExports: string[];
+  propChanges: ApiChange[];
+  affectedExports: string[];
+  dependents: DependentFile[];
+}
+
+// Changesets
+export type FileChangeKind = 'edit' | 'replace' | 'create' | 'rename' | 'delete';
+
+export interface FileChange {
+  kind: FileChangeKind;
+  filePath: string;
+  newPath?: string;
+  originalCode?: string;
+  modifiedCode?: string;
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+/** Net effect of a changeset on one file */
+export interface FileChangeResult {
+  kind: FileChangeKind;
+  filePath: string;
+  newPath?: string;
+  /** null for created files */
+  before: string | null;
+  /** null for deleted files */
+  after: string | null;
+  validation?: ModificationValidation;
+}
+
+export interface ChangesetPreview {
+  success: boolean;
+  changesetId: string;
+  files: FileChangeResult[];
+  error?: string;
 }
 
 // Modification
@@ -90,6 +410,55 @@ export interface ModificationResult {
   commitHash?: string;
   backupId?: string;
   error?: string;
+  tests?: TestRunResult;
+  validation?: ModificationValidation;
+  /** Every file touched, when the change spans several files */
+  files?: FileChangeResult[];
+  backupGroupId?: string;
+}
+
+export interface ModificationValidation {
+  valid: boolean;
+  /** Changes to exports and component props */
+  apiChanges?: ApiChange[];
+}
+
+export type ApiChangeKind =
+  | 'export-removed'
+  | 'export-added'
+  | 'prop-removed'
+  | 'prop-added'
+  | 'prop-made-required'
+  | 'prop-made-optional'
+  | 'prop-type-changed';
+
+export interface ApiChange {
+  kind: ApiChangeKind;
+  component?: string;
+  name: string;
+  before?: string;
+  after?: string;
+  /** Whether existing callers may stop compiling */
+  breaking: boolean;
+  message: string;
+}
+
+export interface TestRunResult {
+  framework: 'jest' | 'vitest' | null;
+  /** False when no test runner was found; the change is then blocked */
+  ran: boolean;
+  /** Always false when the tests didn't run */
+  passed: boolean;
+  numTests: number;
+  numPassed: number;
+  numFailed: number;
+  durationMs: number;
+  failures: Array<{
+    testFile: string;
+    name: string;
+    message: string;
+  }>;
+  message?: string;
 }
 
 export interface ModificationEntry {
@@ -100,6 +469,9 @@ export interface ModificationEntry {
   status: 'applied' | 'reverted' | 'failed';
   commitHash?: string;
   backupId?: string;
+  /** Set when the modification spanned several files */
+  backupGroupId?: string;
+  files?: string[];
 }
 
 export interface BackupEntry {
@@ -110,6 +482,31 @@ export interface BackupEntry {
   reason?: string;
 }
 
+// Projects
+export interface ProjectInfo {
+  root: string;
+  name: string;
+  isDefault: boolean;
+  registeredAt: string;
+  lastAccessedAt: string;
+}
+
+// Source resolution
+export interface ResolvedSource {
+  filePath: string;
+  relativePath: string;
+  packageRoot: string;
+  packageName: string | null;
+  strategy:
+    | 'direct'
+    | 'vite-fs'
+    | 'root-relative'
+    | 'symlink'
+    | 'workspace-package'
+    | 'tsconfig-paths'
+    | 'suffix';
+}
+
 // Git
 export interface GitStatus {
   branch: string;
@@ -139,8 +536,15 @@ export type WSMessageType =
   | 'connected'
   | 'subscribed'
   | 'unsubscribed'
-  | 'analysis_started'
-  | 'analysis_complete'
+  | 'analysis-started'
+  | 'analysis-progress'
+  | 'analysis-complete'
+  | 'analysis-error'
+  | 'audit-started'
+  | 'audit-progress'
+  | 'audit-complete'
+  | 'audit-error'
+  | 'job-updated'
   | 'modification_started'
   | 'modification_complete'
   | 'error'
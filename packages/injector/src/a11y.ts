@@ -0,0 +1,464 @@
+/**
+ * Accessibility audit of the rendered DOM
+ *
+ * Checks what keyboard and screen reader users actually get from a subtree:
+ * text contrast, accessible names, heading levels, keyboard traps, ARIA
+ * roles and tab order. Each finding carries the element's XPath and the
+ * component whose JSX rendered it, so it can be turned into an issue at a
+ * line of source.
+ */
+
+import { getComponentName, getFiberFromElement, type FiberNode } from './fiber.js';
+import { getInspectedFiber } from './inspect.js';
+
+/** Elements checked per audit; the rest are skipped and the audit marked truncated */
+const MAX_ELEMENTS = 2000;
+
+/** Elements focused by the keyboard trap check */
+const MAX_FOCUS_CHECKS = 100;
+
+/** Opening tags are cut to this length in findings */
+const MAX_HTML_LENGTH = 120;
+
+export type AccessibilityRule =
+  | 'color-contrast'
+  | 'accessible-name'
+  | 'heading-order'
+  | 'focus-trap'
+  | 'aria-role'
+  | 'tab-order';
+
+export interface AccessibilityFinding {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  xpath: string;
+  /** Opening tag of the element */
+  html: string;
+  /** Component whose JSX created the element */
+  componentName?: string;
+  /** Where the element was created (development builds only) */
+  source?: {
+    fileName: string;
+    lineNumber: number;
+    columnNumber?: number;
+  };
+}
+
+export interface AccessibilityAudit {
+  findings: AccessibilityFinding[];
+  checkedElements: number;
+  truncated: boolean;
+}
+
+const ROLES = new Set([
+  'alert', 'alertdialog', 'application', 'article', 'banner', 'blockquote', 'button', 'caption',
+  'cell', 'checkbox', 'code', 'columnheader', 'combobox', 'complementary', 'contentinfo',
+  'definition', 'deletion', 'dialog', 'directory', 'document', 'emphasis', 'feed', 'figure',
+  'form', 'generic', 'grid', 'gridcell', 'group', 'heading', 'img', 'insertion', 'link', 'list',
+  'listbox', 'listitem', 'log', 'main', 'marquee', 'math', 'menu', 'menubar', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'meter', 'navigation', 'none', 'note', 'option',
+  'paragraph', 'presentation', 'progressbar', 'radio', 'radiogroup', 'region', 'row',
+  'rowgroup', 'rowheader', 'scrollbar', 'search', 'searchbox', 'separator', 'slider',
+  'spinbutton', 'status', 'strong', 'subscript', 'superscript', 'switch', 'tab', 'table',
+  'tablist', 'tabpanel', 'term', 'textbox', 'time', 'timer', 'toolbar', 'tooltip', 'tree',
+  'treegrid', 'treeitem',
+]);
+
+/** Roles users operate, which must be reachable with the keyboard */
+const INTERACTIVE_ROLES = new Set([
+  'button', 'checkbox', 'combobox', 'link', 'menuitem', 'menuitemcheckbox', 'menuitemradio',
+  'option', 'radio', 'searchbox', 'slider', 'spinbutton', 'switch', 'tab', 'textbox', 'treeitem',
+]);
+
+/** Roles whose accessible name can come from their text */
+const NAME_FROM_CONTENT_ROLES = new Set([
+  'button', 'cell', 'checkbox', 'columnheader', 'gridcell', 'heading', 'link', 'menuitem',
+  'menuitemcheckbox', 'menuitemradio', 'option', 'radio', 'row', 'rowheader', 'switch', 'tab',
+  'tooltip', 'treeitem',
+]);
+
+const NATIVELY_FOCUSABLE = 'a[href], area[href], button, input, select, textarea, iframe, summary, [contenteditable=""], [contenteditable="true"], audio[controls], video[controls]';
+
+const IMPLICIT_ROLES: Record<string, string> = {
+  a: 'link',
+  button: 'button',
+  h1: 'heading',
+  h2: 'heading',
+  h3: 'heading',
+  h4: 'heading',
+  h5: 'heading',
+  h6: 'heading',
+  img: 'img',
+  select: 'combobox',
+  textarea: 'textbox',
+};
+
+const INPUT_ROLES: Record<string, string> = {
+  button: 'button',
+  checkbox: 'checkbox',
+  image: 'button',
+  radio: 'radio',
+  range: 'slider',
+  reset: 'button',
+  submit: 'button',
+};
+
+/**
+ * XPath of an element from the document root, e.g. /html/body/div[2]/button[1]
+ */
+export function getXPath(element: Element): string {
+  const steps: string[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const tag = current.tagName.toLowerCase();
+    let index = 1;
+    for (let sibling = current.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+      if (sibling.tagName === current.tagName) index++;
+    }
+    steps.unshift(current.parentElement ? `${tag}[${index}]` : tag);
+  }
+  return `/${steps.join('/')}`;
+}
+
+function openingTag(element: Element): string {
+  const html = element.outerHTML;
+  const tag = html.slice(0, html.indexOf('>') + 1) || `<${element.tagName.toLowerCase()}>`;
+  return tag.length > MAX_HTML_LENGTH ? `${tag.slice(0, MAX_HTML_LENGTH)}…` : tag;
+}
+
+/**
+ * The component that created an element and where. For DOM elements,
+ * `_debugOwner` is the component whose JSX they came from.
+ */
+function describeOwner(element: Element): Pick<AccessibilityFinding, 'componentName' | 'source'> {
+  const fiber = getFiberFromElement(element);
+  if (!fiber) return {};
+
+  const owner: FiberNode = fiber._debugOwner ?? getInspectedFiber(fiber);
+  const source = fiber._debugSource;
+  return {
+    componentName: getComponentName(owner),
+    ...(source && {
+      source: {
+        fileName: source.fileName,
+        lineNumber: source.lineNumber,
+        ...(source.columnNumber !== undefined && { columnNumber: source.columnNumber })
+      }
+    })
+  };
+}
+
+function roleOf(element: Element): string | null {
+  const explicit = element.getAttribute('role')?.trim().split(/\s+/)[0];
+  if (explicit) return explicit;
+
+  const tag = element.tagName.toLowerCase();
+  if (tag === 'a') return element.hasAttribute('href') ? 'link' : null;
+  if (tag === 'input') {
+    const type = (element as HTMLInputElement).type;
+    return type === 'hidden' ? null : INPUT_ROLES[type] ?? 'textbox';
+  }
+  return IMPLICIT_ROLES[tag] ?? null;
+}
+
+function isHidden(element: Element): boolean {
+  if (element.closest('[aria-hidden="true"], [hidden], [inert]')) return true;
+  if (element.getClientRects().length === 0) return true;
+  return getComputedStyle(element).visibility === 'hidden';
+}
+
+function isDisabled(element: Element): boolean {
+  return (element as HTMLButtonElement).disabled === true;
+}
+
+function isFocusable(element: Element): boolean {
+  if (isDisabled(element)) return false;
+  if (element.matches(NATIVELY_FOCUSABLE)) {
+    return !(element instanceof HTMLInputElement && element.type === 'hidden');
+  }
+  return element.hasAttribute('tabindex');
+}
+
+function isTabbable(element: Element): boolean {
+  return isFocusable(element) && (element as HTMLElement).tabIndex >= 0;
+}
+
+/**
+ * Text a screen reader would read for the contents of an element
+ */
+function contentText(element: Element): string {
+  let text = '';
+  for (const node of Array.from(element.childNodes)) {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+    } else if (node instanceof Element && node.getAttribute('aria-hidden') !== 'true') {
+      const label = node.getAttribute('aria-label')?.trim();
+      if (label) text += ` ${label} `;
+      else if (node instanceof HTMLImageElement) text += ` ${node.alt} `;
+      else text += contentText(node);
+    }
+  }
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Accessible name, following the main steps of the accname algorithm:
+ * aria-labelledby, aria-label, native labels and alt text, content, title
+ */
+function accessibleName(element: Element, role: string | null): string {
+  const labelledBy = element.getAttribute('aria-labelledby');
+  if (labelledBy) {
+    const text = labelledBy
+      .split(/\s+/)
+      .map((id) => document.getElementById(id)?.textContent ?? '')
+      .join(' ')
+      .trim();
+    if (text) return text;
+  }
+
+  const label = element.getAttribute('aria-label')?.trim();
+  if (label) return label;
+
+  if (element instanceof HTMLImageElement) return element.alt.trim();
+
+  if (element instanceof HTMLInputElement || element instanceof HTMLSelectElement || element instanceof HTMLTextAreaElement) {
+    const labels = Array.from(element.labels ?? []).map((l) => contentText(l)).join(' ').trim();
+    if (labels) return labels;
+    if (element instanceof HTMLInputElement) {
+      if (['button', 'submit', 'reset'].includes(element.type) && (element.value || element.type !== 'button')) {
+        return element.value || element.type;
+      }
+      if (element.type === 'image' && element.alt) return element.alt;
+    }
+  } else if (role && NAME_FROM_CONTENT_ROLES.has(role)) {
+    const text = contentText(element);
+    if (text) return text;
+  }
+
+  return element.getAttribute('title')?.trim() ?? '';
+}
+
+type Report = (element: Element, rule: AccessibilityRule, severity: AccessibilityFinding['severity'], message: string) => void;
+
+function checkAccessibleName(element: Element, role: string | null, report: Report): void {
+  const tag = element.tagName.toLowerCase();
+
+  if (tag === 'img') {
+    // alt="" marks an image as decorative
+    if (!element.hasAttribute('alt') && !element.getAttribute('aria-label') && !element.getAttribute('aria-labelledby')) {
+      report(element, 'accessible-name', 'error', '<img> has no alt text; add alt="" if it is decorative');
+    }
+    return;
+  }
+
+  if (tag === 'iframe' && !accessibleName(element, role)) {
+    report(element, 'accessible-name', 'warning', '<iframe> has no title describing its content');
+    return;
+  }
+
+  const needsName = role !== null && (INTERACTIVE_ROLES.has(role) || role === 'heading' || (role === 'img' && tag !== 'img'));
+  if (needsName && !accessibleName(element, role)) {
+    const what = element.hasAttribute('role') ? `role="${role}"` : `<${tag}>`;
+    report(element, 'accessible-name', 'error', `${what} has no accessible name; add visible text, aria-label or a <label>`);
+  }
+}
+
+function checkRole(element: Element, role: string | null, report: Report): void {
+  const explicit = element.getAttribute('role')?.trim();
+
+  if (explicit) {
+    const unknown = explicit.split(/\s+/).filter((r) => !ROLES.has(r));
+    if (unknown.length > 0) {
+      report(element, 'aria-role', 'error', `Unknown ARIA role "${unknown.join(' ')}"`);
+    }
+    if (role && INTERACTIVE_ROLES.has(role) && !isFocusable(element) && !isDisabled(element)) {
+      report(element, 'aria-role', 'error', `role="${role}" on an element that can't be focused; add tabIndex={0} or use a native element`);
+    }
+    if ((role === 'presentation' || role === 'none') && isFocusable(element)) {
+      report(element, 'aria-role', 'warning', `role="${role}" is ignored on a focusable element`);
+    }
+  }
+
+  if (element.getAttribute('aria-hidden') === 'true') {
+    const focusable = isTabbable(element) ? element : Array.from(element.querySelectorAll(NATIVELY_FOCUSABLE + ', [tabindex]')).find(isTabbable);
+    if (focusable) {
+      report(element, 'aria-role', 'error', 'aria-hidden="true" hides focusable content from screen readers, but keyboard users can still reach it');
+    }
+  }
+}
+
+function checkTabOrder(element: Element, role: string | null, report: Report): void {
+  const tabIndex = Number(element.getAttribute('tabindex'));
+  if (tabIndex > 0) {
+    report(element, 'tab-order', 'warning', `tabIndex={${tabIndex}} moves the element out of the page's Tab order; use 0 and order the DOM instead`);
+  }
+
+  // A click handler on a plain element, from the props React rendered
+  const props = getFiberFromElement(element)?.memoizedProps;
+  const clickable = typeof props?.onClick === 'function' || typeof props?.onMouseDown === 'function';
+  if (clickable && !isFocusable(element) && !(role && INTERACTIVE_ROLES.has(role)) && element.tagName !== 'LABEL') {
+    report(element, 'tab-order', 'error', `<${element.tagName.toLowerCase()}> has a click handler but can't be reached with the keyboard; use a <button>`);
+  }
+}
+
+function checkHeadingOrder(headings: Element[], report: Report): void {
+  let previous: number | null = null;
+  for (const heading of headings) {
+    const level = /^H[1-6]$/.test(heading.tagName)
+      ? Number(heading.tagName[1])
+      : Number(heading.getAttribute('aria-level')) || 2;
+
+    if (previous !== null && level > previous + 1) {
+      report(heading, 'heading-order', 'warning', `Heading level jumps from ${previous} to ${level}; screen reader users navigate by these levels`);
+    }
+    previous = level;
+  }
+}
+
+type RGBA = [number, number, number, number];
+
+function parseColor(value: string): RGBA | null {
+  const match = value.match(/^rgba?\(([^)]+)\)$/);
+  if (!match) return null;
+  const parts = match[1]!.split(/[\s,/]+/).filter(Boolean).map(Number);
+  if (parts.length < 3 || parts.some(Number.isNaN)) return null;
+  return [parts[0]!, parts[1]!, parts[2]!, parts[3] ?? 1];
+}
+
+function blend([r, g, b, a]: RGBA, [br, bg, bb]: RGBA): RGBA {
+  return [r * a + br * (1 - a), g * a + bg * (1 - a), b * a + bb * (1 - a), 1];
+}
+
+function luminance([r, g, b]: RGBA): number {
+  const channel = (value: number) => {
+    const c = value / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  };
+  return 0.2126 * channel(r) + 0.7152 * channel(g) + 0.0722 * channel(b);
+}
+
+/**
+ * The solid color behind an element, or null when a background image or
+ * an unparseable color makes it unknowable
+ */
+function backgroundBehind(element: Element): RGBA | null {
+  const layers: RGBA[] = [];
+  for (let current: Element | null = element; current; current = current.parentElement) {
+    const style = getComputedStyle(current);
+    if (style.backgroundImage !== 'none') return null;
+    const color = parseColor(style.backgroundColor);
+    if (!color) return null;
+    if (color[3] > 0) layers.push(color);
+    if (color[3] >= 1) break;
+  }
+
+  // Composite from the page's white canvas up
+  return layers.reduceRight<RGBA>((below, layer) => blend(layer, below), [255, 255, 255, 1]);
+}
+
+function checkContrast(element: Element, report: Report): void {
+  const hasText = Array.from(element.childNodes).some(
+    (node) => node.nodeType === Node.TEXT_NODE && node.textContent?.trim()
+  );
+  if (!hasText) return;
+
+  const style = getComputedStyle(element);
+  const foreground = parseColor(style.color);
+  const background = backgroundBehind(element);
+  if (!foreground || !background) return;
+
+  const text = blend(foreground, background);
+  const [lighter, darker] = [luminance(text), luminance(background)].sort((a, b) => b - a) as [number, number];
+  const ratio = (lighter + 0.05) / (darker + 0.05);
+
+  const fontSize = parseFloat(style.fontSize);
+  const isLarge = fontSize >= 24 || (fontSize >= 18.66 && Number(style.fontWeight) >= 700);
+  const required = isLarge ? 3 : 4.5;
+
+  if (ratio < required) {
+    report(element, 'color-contrast', 'error', `Text contrast is ${ratio.toFixed(2)}:1, below the ${required}:1 WCAG AA minimum (${style.color} on ${style.backgroundColor})`);
+  }
+}
+
+/**
+ * Press Tab on each tabbable element and see whether the app swallows it.
+ * Focus traps are expected inside modal dialogs, so those are skipped.
+ * This runs the app's own focus and key handlers.
+ */
+function checkFocusTraps(elements: Element[], report: Report): void {
+  const previous = document.activeElement as HTMLElement | null;
+
+  try {
+    for (const element of elements.filter(isTabbable).slice(0, MAX_FOCUS_CHECKS)) {
+      if (element.closest('[aria-modal="true"], dialog[open]')) continue;
+
+      (element as HTMLElement).focus({ preventScroll: true });
+      if (document.activeElement !== element) continue;
+
+      const event = new KeyboardEvent('keydown', { key: 'Tab', code: 'Tab', bubbles: true, cancelable: true });
+      element.dispatchEvent(event);
+      if (event.defaultPrevented) {
+        report(element, 'focus-trap', 'error', 'Pressing Tab here is cancelled, so keyboard users can\'t move focus on');
+      }
+    }
+  } finally {
+    if (previous && previous !== document.body) {
+      previous.focus({ preventScroll: true });
+    } else {
+      (document.activeElement as HTMLElement | null)?.blur();
+    }
+  }
+}
+
+/**
+ * Audit the given elements and everything inside them
+ */
+export function auditAccessibility(roots: Element[]): AccessibilityAudit {
+  const elements: Element[] = [];
+  let truncated = false;
+
+  for (const root of roots) {
+    if (!root.isConnected) continue;
+    for (const element of [root, ...Array.from(root.querySelectorAll('*'))]) {
+      if (elements.length >= MAX_ELEMENTS) {
+        truncated = true;
+        break;
+      }
+      elements.push(element);
+    }
+  }
+
+  const findings: AccessibilityFinding[] = [];
+  const report: Report = (element, rule, severity, message) => {
+    findings.push({
+      rule,
+      severity,
+      message,
+      xpath: getXPath(element),
+      html: openingTag(element),
+      ...describeOwner(element)
+    });
+  };
+
+  const visible = elements.filter((element) => !isHidden(element));
+  const headings: Element[] = [];
+
+  for (const element of elements) {
+    // aria-hidden subtrees are still reachable with the keyboard
+    checkRole(element, roleOf(element), report);
+  }
+
+  for (const element of visible) {
+    const role = roleOf(element);
+    if (role === 'heading') headings.push(element);
+
+    checkAccessibleName(element, role, report);
+    checkTabOrder(element, role, report);
+    checkContrast(element, report);
+  }
+
+  checkHeadingOrder(headings, report);
+  checkFocusTraps(visible, report);
+
+  return { findings, checkedElements: elements.length, truncated };
+}
@@ -0,0 +1,131 @@
+/**
+ * React Fiber internals shared by the inspector and the profiler
+ */
+
+/** A hook on a function component's `memoizedState` list */
+export interface HookState {
+  memoizedState: unknown;
+  queue: unknown;
+  next: HookState | null;
+}
+
+export interface FiberNode {
+  tag: number;
+  key: string | null;
+  type: string | Function | null;
+  stateNode: HTMLElement | null;
+  return: FiberNode | null;
+  child: FiberNode | null;
+  sibling: FiberNode | null;
+  alternate: FiberNode | null;
+  flags: number;
+  memoizedProps: Record<string, unknown>;
+  memoizedState: unknown;
+  dependencies?: { firstContext: unknown } | null;
+  /** Render time of this fiber and its subtree (development builds only) */
+  actualDuration?: number;
+  _debugSource?: {
+    fileName: string;
+    lineNumber: number;
+    columnNumber?: number;
+  };
+  _debugOwner?: FiberNode;
+}
+
+/** The container-level root React passes to the DevTools hook on commit */
+export interface FiberRoot {
+  current: FiberNode;
+}
+
+/** Fiber tags the injector distinguishes */
+export const FiberTags = {
+  FunctionComponent: 0,
+  ClassComponent: 1,
+  HostRoot: 3,
+  HostPortal: 4,
+  HostComponent: 5,
+  HostText: 6,
+  Fragment: 7,
+  Mode: 8,
+  ContextConsumer: 9,
+  ContextProvider: 10,
+  ForwardRef: 11,
+  Profiler: 12,
+  SuspenseComponent: 13,
+  MemoComponent: 14,
+  SimpleMemoComponent: 15,
+  LazyComponent: 16,
+} as const;
+
+const COMPOSITE_TAGS: number[] = [
+  FiberTags.FunctionComponent,
+  FiberTags.ClassComponent,
+  FiberTags.ForwardRef,
+  FiberTags.MemoComponent,
+  FiberTags.SimpleMemoComponent,
+];
+
+/** Set on fibers whose render function ran during the last render */
+export const PERFORMED_WORK_FLAG = 0b1;
+
+export function isCompositeFiber(fiber: FiberNode): boolean {
+  return COMPOSITE_TAGS.includes(fiber.tag);
+}
+
+/** Roots seen by the DevTools hook */
+export const fiberRoots = new Set<FiberRoot>();
+
+const fiberIds = new WeakMap<FiberNode, number>();
+let nextFiberId = 1;
+
+/**
+ * Stable id for a fiber. React swaps a fiber with its alternate on every
+ * commit, so both share one id.
+ */
+export function getFiberId(fiber: FiberNode): number {
+  let id = findFiberId(fiber);
+  if (id === undefined) {
+    id = nextFiberId++;
+  }
+  fiberIds.set(fiber, id);
+  if (fiber.alternate) fiberIds.set(fiber.alternate, id);
+  return id;
+}
+
+/**
+ * The id `getFiberId` gave a fiber, without assigning one
+ */
+export function findFiberId(fiber: FiberNode): number | undefined {
+  return fiberIds.get(fiber) ?? (fiber.alternate ? fiberIds.get(fiber.alternate) : undefined);
+}
+
+/**
+ * The fiber React attached to a DOM node, if any
+ */
+export function getFiberFromElement(element: Element): FiberNode | null {
+  const key = Object.keys(element).find((k) => k.startsWith('__reactFiber$'));
+  // @ts-ignore
+  return key ? (element[key] as FiberNode) : null;
+}
+
+/**
+ * Helper to extract component name from fiber type
+ */
+export function getComponentName(fiber: FiberNode): string {
+  const { type } = fiber;
+
+  if (!type) return 'Unknown';
+  if (typeof type === 'string') return type;
+  if (typeof type === 'function') {
+    return (type as { displayName?: string; name?: string }).displayName || type.name || 'Anonymous';
+  }
+  if (typeof type === 'object') {
+    // @ts-ignore
+    if (type.displayName) return type.displayName;
+    // @ts-ignore
+    if (type.render) return getComponentName({ ...fiber, type: type.render });
+    // @ts-ignore
+    if (type.type) return getComponentName({ ...fiber, type: type.type });
+  }
+  return 'Anonymous';
+}
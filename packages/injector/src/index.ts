@@ -6,29 +6,26 @@
  * the parent frame (the dev tool) via postMessage.
  */
 
-// Types for React Fiber internals
-interface FiberNode {
-  tag: number;
-  type: string | Function | null;
-  stateNode: HTMLElement | null;
-  return: FiberNode | null;
-  child: FiberNode | null;
-  sibling: FiberNode | null;
-  memoizedProps: Record<string, unknown>;
-  memoizedState: unknown;
-  _debugSource?: {
-    fileName: string;
-    lineNumber: number;
-    columnNumber?: number;
-  };
-  _debugOwner?: FiberNode;
-}
+import { auditAccessibility } from './a11y.js';
+import { getComponentName, getFiberFromElement, getFiberId, type FiberNode } from './fiber.js';
+import { installProfiler, onCommit, resetProfile, setProfilingEnabled } from './profiler.js';
+import { captureFiberValues, getInspectedFiber } from './inspect.js';
+import { getFiberById, getFiberRect, getFiberSource, getHostElements, serializeTree } from './tree.js';
+
+/** Delay before a watched tree is re-sent after a commit */
+const TREE_REFRESH_MS = 300;
 
 interface ReactDevInsightState {
   isInspecting: boolean;
   hoveredElement: HTMLElement | null;
   overlay: HTMLDivElement | null;
   tooltip: HTMLDivElement | null;
+  /** Overlay for the node highlighted from the tree explorer */
+  highlight: HTMLDivElement | null;
+  stopWatchingTree: (() => void) | null;
+  treeRefreshTimer: ReturnType<typeof setTimeout> | null;
+  /** Last fiber sent with ELEMENT_SELECTED, found by id without a tree */
+  selectedFiber: FiberNode | null;
 }
 
 // State
@@ -36,7 +33,11 @@ const state: ReactDevInsightState = {
   isInspecting: false,
   hoveredElement: null,
   overlay: null,
-  tooltip: null
+  tooltip: null,
+  highlight: null,
+  stopWatchingTree: null,
+  treeRefreshTimer: null,
+  selectedFiber: null
 };
 
 /**
@@ -89,32 +90,12 @@ function getSourceFromElement(element: HTMLElement) {
   return null;
 }
 
-/**
- * Helper to extract component name from fiber type
- */
-function getComponentName(fiber: FiberNode): string {
-  const { type } = fiber;
-
-  if (!type) return 'Unknown';
-  if (typeof type === 'string') return type;
-  if (typeof type === 'function') {
-    return (type as { displayName?: string; name?: string }).displayName || type.name || 'Anonymous';
-  }
-  if (typeof type === 'object') {
-    // @ts-ignore
-    if (type.displayName) return type.displayName;
-    // @ts-ignore
-    if (type.type) return getComponentName({ ...fiber, type: type.type });
-  }
-  return 'Anonymous';
-}
-
 /**
  * Create the highlight overlay element
  */
-function createOverlay(): HTMLDivElement {
+function createOverlay(id = 'react-dev-insight-overlay'): HTMLDivElement {
   const overlay = document.createElement('div');
-  overlay.id = 'react-dev-insight-overlay';
+  overlay.id = id;
   overlay.style.cssText = `
     position: fixed;
     pointer-events: none;
@@ -155,17 +136,16 @@ function createTooltip(): HTMLDivElement {
 }
 
 /**
- * Position the overlay over an element
+ * Position an overlay over a rect
  */
-function positionOverlay(element: HTMLElement): void {
-  if (!state.overlay) return;
-
-  const rect = element.getBoundingClientRect();
-  state.overlay.style.top = `${rect.top}px`;
-  state.overlay.style.left = `${rect.left}px`;
-  state.overlay.style.width = `${rect.width}px`;
-  state.overlay.style.height = `${rect.height}px`;
-  state.overlay.style.display = 'block';
+function positionOverlay(overlay: HTMLDivElement | null, rect: DOMRect): void {
+  if (!overlay) return;
+
+  overlay.style.top = `${rect.top}px`;
+  overlay.style.left = `${rect.left}px`;
+  overlay.style.width = `${rect.width}px`;
+  overlay.style.height = `${rect.height}px`;
+  overlay.style.display = 'block';
 }
 
 /**
@@ -217,15 +197,19 @@ function handleMouseMove(event: MouseEvent): void {
   state.hoveredElement = element;
 
   const sourceInfo = getSourceFromElement(element);
+  positionOverlay(state.overlay, element.getBoundingClientRect());
 
   if (sourceInfo) {
-    positionOverlay(element);
     positionTooltip(event.clientX, event.clientY, sourceInfo.componentName, sourceInfo.fileName);
   } else {
     // Show native element info
-    positionOverlay(element);
     positionTooltip(event.clientX, event.clientY, element.tagName.toLowerCase());
   }
+
+  const fiber = getFiberFromElement(element);
+  if (fiber) {
+    window.parent.postMessage({ type: 'NODE_HOVERED', payload: { fiberId: getFiberId(fiber) } }, '*');
+  }
 }
 
 /**
@@ -239,6 +223,9 @@ function handleClick(event: MouseEvent): void {
 
   const element = state.hoveredElement || (event.target as HTMLElement);
   const sourceInfo = getSourceFromElement(element);
+  const fiber = getFiberFromElement(element);
+
+  state.selectedFiber = fiber;
 
   if (sourceInfo) {
     window.parent.postMessage({
@@ -247,7 +234,12 @@ function handleClick(event: MouseEvent): void {
         componentName: sourceInfo.componentName,
         filePath: sourceInfo.fileName,
         lineNumber: sourceInfo.lineNumber,
-        tagName: element.tagName.toLowerCase()
+        tagName: element.tagName.toLowerCase(),
+        ...(fiber && {
+          fiberId: getFiberId(fiber),
+          componentFiberId: getFiberId(getInspectedFiber(fiber)),
+          ...captureFiberValues(fiber)
+        })
       }
     }, '*');
   } else {
@@ -322,6 +314,102 @@ function stopInspection(): void {
   }
 }
 
+/**
+ * Send the serialized component tree to the parent frame
+ */
+function postComponentTree(): void {
+  const { nodes, truncated } = serializeTree();
+  window.parent.postMessage({
+    type: 'COMPONENT_TREE',
+    payload: { nodes, truncated }
+  }, '*');
+}
+
+/**
+ * Re-send the tree shortly after each commit until unwatched
+ */
+function watchComponentTree(enabled: boolean): void {
+  state.stopWatchingTree?.();
+  state.stopWatchingTree = null;
+  if (!enabled) return;
+
+  state.stopWatchingTree = onCommit(() => {
+    if (state.treeRefreshTimer) return;
+    state.treeRefreshTimer = setTimeout(() => {
+      state.treeRefreshTimer = null;
+      postComponentTree();
+    }, TREE_REFRESH_MS);
+  });
+}
+
+/**
+ * Outline a tree node in the page. Nodes that render nothing visible
+ * (providers, effects-only components) clear the highlight instead.
+ */
+function highlightNode(id: number, scrollIntoView: boolean): void {
+  const fiber = getFiberById(id);
+  if (fiber && scrollIntoView) {
+    getHostElements(fiber)[0]?.scrollIntoView({ block: 'nearest' });
+  }
+
+  const rect = fiber && getFiberRect(fiber);
+  if (!rect) {
+    clearHighlight();
+    return;
+  }
+
+  state.highlight ??= createOverlay('react-dev-insight-highlight');
+  positionOverlay(state.highlight, rect);
+}
+
+function clearHighlight(): void {
+  if (state.highlight) {
+    state.highlight.remove();
+    state.highlight = null;
+  }
+}
+
+/**
+ * Select a tree node as if it had been clicked in the page
+ */
+function selectNode(id: number): void {
+  const fiber = getFiberById(id);
+  if (!fiber) return;
+
+  const source = getFiberSource(fiber);
+  const element = getHostElements(fiber)[0];
+  state.selectedFiber = fiber;
+
+  window.parent.postMessage({
+    type: 'ELEMENT_SELECTED',
+    payload: {
+      componentName: getComponentName(fiber),
+      filePath: source?.fileName ?? 'Native HTML Element',
+      ...(source && { lineNumber: source.lineNumber }),
+      tagName: element ? element.tagName.toLowerCase() : '',
+      fiberId: id,
+      componentFiberId: getFiberId(getInspectedFiber(fiber)),
+      ...captureFiberValues(fiber)
+    }
+  }, '*');
+}
+
+/**
+ * Audit the DOM of a component (the one owning the element, for DOM nodes)
+ * and send the findings to the parent frame. Without an id, or when the
+ * node is gone, the whole page is audited.
+ */
+function postAccessibilityAudit(id: number | undefined, requestId: unknown): void {
+  const selected = state.selectedFiber && getFiberId(state.selectedFiber) === id ? state.selectedFiber : null;
+  const fiber = id === undefined ? null : getFiberById(id) ?? selected;
+  const roots = fiber ? getHostElements(getInspectedFiber(fiber)) : [document.body];
+
+  window.parent.postMessage({
+    type: 'ACCESSIBILITY_AUDIT',
+    payload: { requestId, fiberId: id ?? null, ...auditAccessibility(roots) }
+  }, '*');
+}
+
 /**
  * Handle messages from parent frame
  */
@@ -335,6 +423,33 @@ function handleMessage(event: MessageEvent): void {
     case 'STOP_INSPECTION':
       stopInspection();
       break;
+    case 'START_PROFILING':
+      setProfilingEnabled(true);
+      break;
+    case 'STOP_PROFILING':
+      setProfilingEnabled(false);
+      break;
+    case 'RESET_PROFILE':
+      resetProfile();
+      break;
+    case 'GET_COMPONENT_TREE':
+      postComponentTree();
+      break;
+    case 'WATCH_COMPONENT_TREE':
+      watchComponentTree(Boolean(event.data.payload?.enabled));
+      break;
+    case 'HIGHLIGHT_NODE':
+      highlightNode(event.data.payload?.id, Boolean(event.data.payload?.scrollIntoView));
+      break;
+    case 'CLEAR_HIGHLIGHT':
+      clearHighlight();
+      break;
+    case 'SELECT_NODE':
+      selectNode(event.data.payload?.id);
+      break;
+    case 'RUN_ACCESSIBILITY_AUDIT':
+      postAccessibilityAudit(event.data.payload?.id, event.data.payload?.requestId);
+      break;
     case 'PING':
       window.parent.postMessage({ type: 'PONG' }, '*');
       break;
@@ -354,6 +469,9 @@ function initialize(): void {
   console.log('[React Dev Insight Pro] Injector initialized');
 }
 
+// The profiler must be in place before React connects to the DevTools hook
+installProfiler();
+
 // Auto-initialize when script loads
 if (document.readyState === 'loading') {
   document.addEventListener('DOMContentLoaded', initialize);
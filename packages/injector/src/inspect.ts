@@ -0,0 +1,249 @@
+/**
+ * Runtime value capture
+ *
+ * Serializes a component's props, state and hooks so they can be posted to
+ * the dev tool. Values are arbitrary app data, so the output is bounded in
+ * depth and size, and anything that cannot cross postMessage (functions,
+ * DOM nodes, cycles) is replaced with a readable placeholder string.
+ */
+
+import {
+  getComponentName,
+  isCompositeFiber,
+  FiberTags,
+  type FiberNode,
+  type HookState,
+} from './fiber.js';
+
+/** Nesting below this is summarized */
+const MAX_DEPTH = 4;
+
+/** Object keys and array items kept per level */
+const MAX_ENTRIES = 50;
+
+/** Longer strings are cut */
+const MAX_STRING_LENGTH = 500;
+
+/** Effect hook tags from React's HookFlags */
+const HookEffectTags = {
+  Insertion: 0b0010,
+  Layout: 0b0100,
+} as const;
+
+export interface HookInfo {
+  name: string;
+  value: unknown;
+  dependencies?: unknown[];
+}
+
+export interface InspectedComponent {
+  props: Record<string, unknown>;
+  state: Record<string, unknown> | null;
+  hooks: HookInfo[];
+  fiber: {
+    tag: number;
+    type: string;
+    key: string | null;
+    stateNode: unknown;
+  };
+}
+
+function describeElement(element: Element): string {
+  const id = element.id ? `#${element.id}` : '';
+  const className = typeof element.className === 'string' && element.className
+    ? `.${element.className.trim().split(/\s+/).join('.')}`
+    : '';
+  return `[Element <${element.tagName.toLowerCase()}${id}${className}>]`;
+}
+
+function entriesSummary(count: number): string {
+  return `… ${count} more`;
+}
+
+/**
+ * JSON-safe copy of `value`
+ */
+export function serializeValue(value: unknown, depth = 0, seen = new WeakSet<object>()): unknown {
+  switch (typeof value) {
+    case 'string':
+      return value.length > MAX_STRING_LENGTH
+        ? `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} chars)`
+        : value;
+    case 'number':
+      return Number.isFinite(value) ? value : String(value);
+    case 'boolean':
+      return value;
+    case 'undefined':
+      return '[undefined]';
+    case 'bigint':
+      return `${value}n`;
+    case 'symbol':
+      return `[${value.toString()}]`;
+    case 'function':
+      return `[Function ${value.name || 'anonymous'}]`;
+  }
+
+  if (value === null) return null;
+  const object = value as Record<string, unknown>;
+
+  if (seen.has(object)) return '[Circular]';
+
+  // React elements, e.g. `children` props
+  if (typeof object.$$typeof === 'symbol') {
+    const type = object.type as FiberNode['type'];
+    const name = typeof type === 'string' ? type : getComponentName({ type } as FiberNode);
+    return `[<${name} />]`;
+  }
+  if (typeof Element !== 'undefined' && object instanceof Element) return describeElement(object);
+  if (typeof Window !== 'undefined' && object instanceof Window) return '[Window]';
+  if (object instanceof Date) return `[Date ${Number.isNaN(object.getTime()) ? 'Invalid' : object.toISOString()}]`;
+  if (object instanceof RegExp) return `[RegExp ${object.toString()}]`;
+  if (object instanceof Error) return `[${object.name}: ${object.message}]`;
+  if (object instanceof Promise) return '[Promise]';
+
+  if (depth >= MAX_DEPTH) {
+    if (Array.isArray(object)) return `[Array(${object.length})]`;
+    if (object instanceof Map) return `[Map(${object.size})]`;
+    if (object instanceof Set) return `[Set(${object.size})]`;
+    return `[${object.constructor?.name || 'Object'}]`;
+  }
+
+  seen.add(object);
+  try {
+    if (Array.isArray(object) || object instanceof Set) {
+      const items = [...object];
+      const serialized = items.slice(0, MAX_ENTRIES).map((item) => serializeValue(item, depth + 1, seen));
+      if (items.length > MAX_ENTRIES) serialized.push(entriesSummary(items.length - MAX_ENTRIES));
+      return serialized;
+    }
+
+    const entries: Array<[string, unknown]> = object instanceof Map
+      ? [...object.entries()].map(([key, item]) => [String(key), item])
+      : Object.keys(object).map((key) => [key, readProperty(object, key)]);
+
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of entries.slice(0, MAX_ENTRIES)) {
+      result[key] = serializeValue(item, depth + 1, seen);
+    }
+    if (entries.length > MAX_ENTRIES) {
+      result['…'] = entriesSummary(entries.length - MAX_ENTRIES);
+    }
+    return result;
+  } finally {
+    seen.delete(object);
+  }
+}
+
+/** Getters can throw */
+function readProperty(object: Record<string, unknown>, key: string): unknown {
+  try {
+    return object[key];
+  } catch {
+    return '[Unreadable]';
+  }
+}
+
+/**
+ * Name a hook from the shape React leaves on it. Works for development
+ * builds; production builds fall back to the shape alone.
+ */
+function describeHook(hook: HookState): HookInfo {
+  const state: unknown = hook.memoizedState;
+  const queue = hook.queue as { lastRenderedReducer?: { name?: string } } | null;
+
+  if (queue) {
+    const isReducer = queue.lastRenderedReducer?.name !== 'basicStateReducer';
+    return { name: isReducer ? 'useReducer' : 'useState', value: serializeValue(state) };
+  }
+
+  if (state && typeof state === 'object' && !Array.isArray(state)) {
+    if ('create' in state && 'tag' in state) {
+      const tag = state.tag as number;
+      const name = tag & HookEffectTags.Layout
+        ? 'useLayoutEffect'
+        : tag & HookEffectTags.Insertion ? 'useInsertionEffect' : 'useEffect';
+      const deps = (state as { deps?: unknown[] | null }).deps;
+      return {
+        name,
+        value: serializeValue(state.create),
+        ...(deps && { dependencies: deps.map((dep) => serializeValue(dep, 1)) })
+      };
+    }
+    if (Object.keys(state).length === 1 && 'current' in state) {
+      return { name: 'useRef', value: serializeValue(state.current) };
+    }
+  }
+
+  // useMemo and useCallback store [value, deps]
+  if (Array.isArray(state) && state.length === 2 && (state[1] === null || Array.isArray(state[1]))) {
+    const [memoized, deps] = state as [unknown, unknown[] | null];
+    return {
+      name: typeof memoized === 'function' ? 'useCallback' : 'useMemo',
+      value: serializeValue(memoized),
+      ...(deps && { dependencies: deps.map((dep) => serializeValue(dep, 1)) })
+    };
+  }
+
+  if (typeof state === 'string' && state.startsWith(':')) {
+    return { name: 'useId', value: state };
+  }
+
+  return { name: 'unknown', value: serializeValue(state) };
+}
+
+function inspectHooks(fiber: FiberNode): HookInfo[] {
+  const hooks: HookInfo[] = [];
+  for (let hook = fiber.memoizedState as HookState | null; hook; hook = hook.next) {
+    hooks.push(describeHook(hook));
+  }
+  return hooks;
+}
+
+/**
+ * The fiber whose values describe `fiber`: itself for components and other
+ * non-DOM nodes picked from the tree, else the closest component above it
+ */
+export function getInspectedFiber(fiber: FiberNode): FiberNode {
+  if (fiber.tag !== FiberTags.HostComponent) return fiber;
+  for (let current = fiber.return; current; current = current.return) {
+    if (isCompositeFiber(current)) return current;
+  }
+  return fiber;
+}
+
+/**
+ * Capture props, state and hooks of a fiber
+ */
+export function inspectFiber(fiber: FiberNode): InspectedComponent {
+  const isClass = fiber.tag === FiberTags.ClassComponent;
+  const hasHooks = fiber.tag === FiberTags.FunctionComponent
+    || fiber.tag === FiberTags.ForwardRef
+    || fiber.tag === FiberTags.SimpleMemoComponent;
+
+  return {
+    props: serializeValue(fiber.memoizedProps ?? {}) as Record<string, unknown>,
+    state: isClass && fiber.memoizedState
+      ? serializeValue(fiber.memoizedState) as Record<string, unknown>
+      : null,
+    hooks: hasHooks ? inspectHooks(fiber) : [],
+    fiber: {
+      tag: fiber.tag,
+      type: getComponentName(fiber),
+      key: fiber.key,
+      stateNode: fiber.stateNode instanceof Element ? describeElement(fiber.stateNode) : null
+    }
+  };
+}
+
+/**
+ * `inspectFiber` for message payloads: values come from app code (proxies,
+ * exotic getters), so a failure drops the values instead of the message
+ */
+export function captureFiberValues(fiber: FiberNode): Partial<InspectedComponent> {
+  try {
+    return inspectFiber(getInspectedFiber(fiber));
+  } catch (error) {
+    console.warn('[React Dev Insight Pro] Could not capture component values:', error);
+    return {};
+  }
+}
@@ -0,0 +1,335 @@
+/**
+ * Re-render profiler
+ *
+ * Hooks into the React DevTools global hook to record every commit: how
+ * long it took, which components rendered and what changed for each of
+ * them. Aggregated per component instance and streamed to the dev tool as
+ * PROFILE_UPDATE messages.
+ */
+
+import {
+  getComponentName,
+  isCompositeFiber,
+  FiberTags,
+  PERFORMED_WORK_FLAG,
+  fiberRoots,
+  findFiberId,
+  getFiberId,
+  type FiberNode,
+  type FiberRoot,
+  type HookState,
+} from './fiber.js';
+
+/** How often batched profile changes are posted to the parent frame */
+const FLUSH_INTERVAL_MS = 500;
+
+/** Renders kept per component for "why did this render" */
+const RECENT_RENDERS = 10;
+
+/** Slowest renders kept per component */
+const SLOWEST_RENDERS = 5;
+
+type RenderReason = 'mount' | 'props' | 'state' | 'hooks' | 'context' | 'parent';
+
+interface ComponentRender {
+  commitId: number;
+  timestamp: number;
+  /** Time spent rendering this component and its subtree */
+  duration: number;
+  /** Total duration of the commit this render was part of */
+  commitDuration: number;
+  reasons: RenderReason[];
+  changedProps: string[];
+  /** Indexes of state hooks whose value changed */
+  changedHooks: number[];
+}
+
+interface ComponentProfile {
+  /** Fiber id of the component instance, shared with the component tree */
+  id: number;
+  name: string;
+  renderCount: number;
+  mountCount: number;
+  totalDuration: number;
+  maxDuration: number;
+  recentRenders: ComponentRender[];
+  slowestRenders: ComponentRender[];
+}
+
+interface DevToolsHook {
+  renderers: Map<number, unknown>;
+  supportsFiber: boolean;
+  inject(renderer: unknown): number;
+  onCommitFiberRoot(rendererId: number, root: FiberRoot, ...rest: unknown[]): void;
+  onCommitFiberUnmount(rendererId: number, fiber: FiberNode): void;
+  [key: string]: unknown;
+}
+
+declare global {
+  interface Window {
+    __REACT_DEVTOOLS_GLOBAL_HOOK__?: DevToolsHook;
+  }
+}
+
+const profiler = {
+  enabled: true,
+  installed: false,
+  commitCount: 0,
+  startedAt: Date.now(),
+  /** Keyed by fiber id so instances of one component are told apart */
+  components: new Map<number, ComponentProfile>(),
+  changed: new Set<ComponentProfile>(),
+  flushTimer: null as ReturnType<typeof setTimeout> | null,
+  commitListeners: new Set<(root: FiberRoot) => void>(),
+};
+
+/**
+ * Keys whose values differ between two props objects
+ */
+function changedKeys(prev: Record<string, unknown>, next: Record<string, unknown>): string[] {
+  const keys = new Set([...Object.keys(prev ?? {}), ...Object.keys(next ?? {})]);
+  return [...keys].filter((key) => !Object.is(prev?.[key], next?.[key]));
+}
+
+/**
+ * Indexes of state/reducer hooks whose value changed. Effect and memo hooks
+ * have no queue and are recreated every render, so they are skipped.
+ */
+function changedHookIndexes(prev: unknown, next: unknown): number[] {
+  const changed: number[] = [];
+  let prevHook = prev as HookState | null;
+  let nextHook = next as HookState | null;
+  let index = 0;
+
+  while (prevHook && nextHook) {
+    if (nextHook.queue && !Object.is(prevHook.memoizedState, nextHook.memoizedState)) {
+      changed.push(index);
+    }
+    prevHook = prevHook.next;
+    nextHook = nextHook.next;
+    index++;
+  }
+
+  return changed;
+}
+
+/**
+ * Work out why a composite fiber rendered in this commit, or null if it
+ * bailed out
+ */
+function describeRender(
+  fiber: FiberNode
+): Pick<ComponentRender, 'reasons' | 'changedProps' | 'changedHooks'> | null {
+  const prev = fiber.alternate;
+  if (!prev) {
+    return { reasons: ['mount'], changedProps: [], changedHooks: [] };
+  }
+  if ((fiber.flags & PERFORMED_WORK_FLAG) === 0) {
+    return null;
+  }
+
+  const reasons: RenderReason[] = [];
+  const changedProps =
+    prev.memoizedProps === fiber.memoizedProps ? [] : changedKeys(prev.memoizedProps, fiber.memoizedProps);
+  let changedHooks: number[] = [];
+
+  if (changedProps.length > 0) reasons.push('props');
+
+  if (fiber.tag === FiberTags.ClassComponent) {
+    if (prev.memoizedState !== fiber.memoizedState) reasons.push('state');
+  } else {
+    changedHooks = changedHookIndexes(prev.memoizedState, fiber.memoizedState);
+    if (changedHooks.length > 0) reasons.push('hooks');
+  }
+
+  if (reasons.length === 0) {
+    // Same props object means the parent did not re-create this element
+    const sameElement = prev.memoizedProps === fiber.memoizedProps;
+    reasons.push(sameElement && fiber.dependencies?.firstContext ? 'context' : 'parent');
+  }
+
+  return { reasons, changedProps, changedHooks };
+}
+
+function getProfile(fiber: FiberNode): ComponentProfile | null {
+  const type = fiber.type;
+  if (!type || typeof type === 'string') return null;
+
+  const id = getFiberId(fiber);
+  let profile = profiler.components.get(id);
+  if (!profile) {
+    profile = {
+      id,
+      name: getComponentName(fiber),
+      renderCount: 0,
+      mountCount: 0,
+      totalDuration: 0,
+      maxDuration: 0,
+      recentRenders: [],
+      slowestRenders: [],
+    };
+    profiler.components.set(id, profile);
+  }
+  return profile;
+}
+
+function recordRender(profile: ComponentProfile, render: ComponentRender): void {
+  profile.renderCount++;
+  if (render.reasons.includes('mount')) profile.mountCount++;
+  profile.totalDuration += render.duration;
+  profile.maxDuration = Math.max(profile.maxDuration, render.duration);
+
+  profile.recentRenders = [render, ...profile.recentRenders].slice(0, RECENT_RENDERS);
+  profile.slowestRenders = [...profile.slowestRenders, render]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, SLOWEST_RENDERS);
+
+  profiler.changed.add(profile);
+}
+
+/**
+ * Walk the committed tree and record every component that rendered.
+ * Subtrees whose children were reused from the previous tree bailed out
+ * entirely and are skipped.
+ */
+function recordCommit(root: FiberRoot): void {
+  const commitId = ++profiler.commitCount;
+  const timestamp = Date.now();
+  const commitDuration = root.current.actualDuration ?? 0;
+
+  const stack: FiberNode[] = root.current.child ? [root.current.child] : [];
+  while (stack.length > 0) {
+    const fiber = stack.pop()!;
+    if (fiber.sibling) stack.push(fiber.sibling);
+
+    if (isCompositeFiber(fiber)) {
+      const render = describeRender(fiber);
+      const profile = render && getProfile(fiber);
+      if (render && profile) {
+        recordRender(profile, {
+          commitId,
+          timestamp,
+          duration: fiber.actualDuration ?? 0,
+          commitDuration,
+          ...render,
+        });
+      }
+    }
+
+    if (fiber.child && (!fiber.alternate || fiber.child !== fiber.alternate.child)) {
+      stack.push(fiber.child);
+    }
+  }
+
+  scheduleFlush();
+}
+
+function scheduleFlush(): void {
+  if (profiler.flushTimer || profiler.changed.size === 0) return;
+  profiler.flushTimer = setTimeout(flushProfile, FLUSH_INTERVAL_MS);
+}
+
+/**
+ * Post the components that changed since the last flush
+ */
+function flushProfile(): void {
+  profiler.flushTimer = null;
+  const components = [...profiler.changed];
+  profiler.changed.clear();
+
+  window.parent.postMessage({
+    type: 'PROFILE_UPDATE',
+    payload: {
+      startedAt: profiler.startedAt,
+      commitCount: profiler.commitCount,
+      components
+    }
+  }, '*');
+}
+
+/**
+ * Wrap the DevTools hook's commit callback, creating a minimal hook when
+ * the extension is not installed. React only connects to a hook that exists
+ * before it loads, so load the injector first to profile the initial mount.
+ */
+export function installProfiler(): void {
+  if (profiler.installed) return;
+
+  let hook = window.__REACT_DEVTOOLS_GLOBAL_HOOK__;
+  if (!hook) {
+    let nextRendererId = 0;
+    hook = {
+      renderers: new Map(),
+      supportsFiber: true,
+      inject(renderer: unknown) {
+        const id = ++nextRendererId;
+        this.renderers.set(id, renderer);
+        return id;
+      },
+      onCommitFiberRoot() {},
+      onCommitFiberUnmount() {},
+      checkDCE() {},
+    };
+    window.__REACT_DEVTOOLS_GLOBAL_HOOK__ = hook;
+  }
+
+  const original = hook.onCommitFiberRoot;
+  hook.onCommitFiberRoot = function (rendererId, root, ...rest) {
+    // Unmounting a root commits it with nothing rendered
+    if (root.current.child) {
+      fiberRoots.add(root);
+    } else {
+      fiberRoots.delete(root);
+    }
+    try {
+      profiler.commitListeners.forEach((listener) => listener(root));
+      if (profiler.enabled) recordCommit(root);
+    } catch (error) {
+      // Profiling must never break the inspected app
+      console.warn('[React Dev Insight Pro] Profiler error:', error);
+    }
+    return original.call(this, rendererId, root, ...rest);
+  };
+
+  const originalUnmount = hook.onCommitFiberUnmount;
+  hook.onCommitFiberUnmount = function (rendererId, fiber) {
+    // The dev tool keeps what it was sent; only the injector's copy goes
+    const id = findFiberId(fiber);
+    if (id !== undefined) profiler.components.delete(id);
+    return originalUnmount.call(this, rendererId, fiber);
+  };
+
+  profiler.installed = true;
+}
+
+/**
+ * Call `listener` after every commit, whether or not profiling is enabled
+ */
+export function onCommit(listener: (root: FiberRoot) => void): () => void {
+  profiler.commitListeners.add(listener);
+  return () => profiler.commitListeners.delete(listener);
+}
+
+export function setProfilingEnabled(enabled: boolean): void {
+  profiler.enabled = enabled;
+}
+
+/**
+ * Drop all recorded data and tell the dev tool to do the same
+ */
+export function resetProfile(): void {
+  profiler.components.clear();
+  profiler.changed.clear();
+  profiler.commitCount = 0;
+  profiler.startedAt = Date.now();
+
+  window.parent.postMessage({
+    type: 'PROFILE_UPDATE',
+    payload: {
+      startedAt: profiler.startedAt,
+      commitCount: 0,
+      components: [],
+      reset: true
+    }
+  }, '*');
+}
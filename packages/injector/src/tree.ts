@@ -0,0 +1,228 @@
+/**
+ * Component tree serialization
+ *
+ * Flattens the committed fiber tree into a list of nodes the dev tool can
+ * render as an explorer, and maps node ids back to fibers and DOM nodes so
+ * the explorer can highlight and select them.
+ */
+
+import {
+  getComponentName,
+  getFiberId,
+  isCompositeFiber,
+  fiberRoots,
+  FiberTags,
+  type FiberNode,
+  type FiberRoot,
+} from './fiber.js';
+
+/** Nodes beyond this are dropped and the tree is marked truncated */
+const MAX_TREE_NODES = 5000;
+
+export type TreeNodeKind =
+  | 'root'
+  | 'composite'
+  | 'host'
+  | 'provider'
+  | 'consumer'
+  | 'portal'
+  | 'fragment'
+  | 'suspense'
+  | 'other';
+
+export interface TreeNode {
+  id: number;
+  parentId: number | null;
+  depth: number;
+  name: string;
+  key: string | null;
+  kind: TreeNodeKind;
+  source?: {
+    fileName: string;
+    lineNumber: number;
+  };
+}
+
+/** Fibers from the last serialization, by node id */
+let fibersById = new Map<number, FiberNode>();
+
+function nodeKind(fiber: FiberNode): TreeNodeKind {
+  if (isCompositeFiber(fiber)) return 'composite';
+
+  switch (fiber.tag) {
+    case FiberTags.HostRoot:
+      return 'root';
+    case FiberTags.HostComponent:
+      return 'host';
+    case FiberTags.HostPortal:
+      return 'portal';
+    case FiberTags.ContextProvider:
+      return 'provider';
+    case FiberTags.ContextConsumer:
+      return 'consumer';
+    case FiberTags.Fragment:
+      return 'fragment';
+    case FiberTags.SuspenseComponent:
+      return 'suspense';
+    default:
+      return 'other';
+  }
+}
+
+function nodeName(fiber: FiberNode, kind: TreeNodeKind): string {
+  const type = fiber.type as { _context?: { displayName?: string }; displayName?: string } | null;
+
+  switch (kind) {
+    case 'root':
+      return 'Root';
+    case 'portal':
+      return 'Portal';
+    case 'fragment':
+      return 'Fragment';
+    case 'suspense':
+      return 'Suspense';
+    case 'provider':
+      return `${type?._context?.displayName ?? type?.displayName ?? 'Context'}.Provider`;
+    case 'consumer':
+      return `${type?._context?.displayName ?? type?.displayName ?? 'Context'}.Consumer`;
+    default:
+      break;
+  }
+
+  if (fiber.tag === FiberTags.Mode) return 'StrictMode';
+  if (fiber.tag === FiberTags.Profiler) return 'Profiler';
+  return getComponentName(fiber);
+}
+
+/**
+ * Roots seen by the DevTools hook, or found on DOM containers when the
+ * injector loaded after React
+ */
+function findRoots(): FiberRoot[] {
+  const roots = [...fiberRoots].filter((root) => root.current.child);
+  if (roots.length > 0) return roots;
+
+  const found = new Set<FiberRoot>();
+  for (const element of Array.from(document.body.querySelectorAll('*'))) {
+    const key = Object.keys(element).find((k) => k.startsWith('__reactContainer$'));
+    if (!key) continue;
+    // @ts-ignore
+    const hostRoot = element[key] as FiberNode | null;
+    const root = hostRoot?.stateNode as unknown as FiberRoot | null;
+    if (root?.current) found.add(root);
+  }
+  return [...found];
+}
+
+/**
+ * Children of a fiber, in render order
+ */
+function childrenOf(fiber: FiberNode): FiberNode[] {
+  const children: FiberNode[] = [];
+  for (let child = fiber.child; child; child = child.sibling) {
+    children.push(child);
+  }
+  return children;
+}
+
+/**
+ * Serialize every mounted root into a flat, depth-first list of nodes.
+ * Text nodes are omitted.
+ */
+export function serializeTree(): { nodes: TreeNode[]; truncated: boolean } {
+  const nodes: TreeNode[] = [];
+  const byId = new Map<number, FiberNode>();
+  let truncated = false;
+
+  const stack: Array<{ fiber: FiberNode; parentId: number | null; depth: number }> = findRoots()
+    .map((root) => ({ fiber: root.current, parentId: null, depth: 0 }))
+    .reverse();
+
+  while (stack.length > 0) {
+    const { fiber, parentId, depth } = stack.pop()!;
+    if (fiber.tag === FiberTags.HostText) continue;
+
+    if (nodes.length >= MAX_TREE_NODES) {
+      truncated = true;
+      break;
+    }
+
+    const id = getFiberId(fiber);
+    const kind = nodeKind(fiber);
+    byId.set(id, fiber);
+    nodes.push({
+      id,
+      parentId,
+      depth,
+      name: nodeName(fiber, kind),
+      key: fiber.key,
+      kind,
+      ...(fiber._debugSource && {
+        source: {
+          fileName: fiber._debugSource.fileName,
+          lineNumber: fiber._debugSource.lineNumber
+        }
+      })
+    });
+
+    const children = childrenOf(fiber);
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push({ fiber: children[i]!, parentId: id, depth: depth + 1 });
+    }
+  }
+
+  fibersById = byId;
+  return { nodes, truncated };
+}
+
+export function getFiberById(id: number): FiberNode | null {
+  return fibersById.get(id) ?? null;
+}
+
+/**
+ * The outermost DOM elements a fiber renders
+ */
+export function getHostElements(fiber: FiberNode): HTMLElement[] {
+  if (fiber.tag === FiberTags.HostComponent && fiber.stateNode) {
+    return [fiber.stateNode];
+  }
+
+  const elements: HTMLElement[] = [];
+  const stack = childrenOf(fiber).reverse();
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    if (current.tag === FiberTags.HostComponent && current.stateNode) {
+      elements.push(current.stateNode);
+      continue;
+    }
+    stack.push(...childrenOf(current).reverse());
+  }
+  return elements;
+}
+
+/**
+ * Bounding box around all of a fiber's DOM elements, or null when it
+ * renders nothing visible
+ */
+export function getFiberRect(fiber: FiberNode): DOMRect | null {
+  const rects = getHostElements(fiber)
+    .map((element) => element.getBoundingClientRect())
+    .filter((rect) => rect.width > 0 || rect.height > 0);
+  if (rects.length === 0) return null;
+
+  const left = Math.min(...rects.map((r) => r.left));
+  const top = Math.min(...rects.map((r) => r.top));
+  const right = Math.max(...rects.map((r) => r.right));
+  const bottom = Math.max(...rects.map((r) => r.bottom));
+  return new DOMRect(left, top, right - left, bottom - top);
+}
+
+/**
+ * Source location for a fiber: its own, or the nearest ancestor's
+ */
+export function getFiberSource(fiber: FiberNode): FiberNode['_debugSource'] | null {
+  for (let current: FiberNode | null = fiber; current; current = current.return) {
+    if (current._debugSource) return current._debugSource;
+  }
+  return null;
+}
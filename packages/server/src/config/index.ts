@@ -1,9 +1,20 @@
 import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { join, resolve } from 'path';
 import { z } from 'zod';
 import type { Config } from '../types/index.js';
 import 'dotenv/config';
 
+const BUILT_IN_CATEGORY_IDS = [
+  'performance',
+  'accessibility',
+  'maintainability',
+  'bundle-size',
+  'ux',
+  'code-quality',
+] as const;
+
+const CategoryIdSchema = z.string().regex(/^[a-z][a-z0-9-]*$/, 'must be a lowercase slug');
+
 // Configuration schema using Zod for validation
 const ConfigSchema = z.object({
   git: z.object({
@@ -13,26 +24,59 @@ const ConfigSchema = z.object({
     commitMessagePrefix: z.string().default('[React Dev Insight]'),
   }),
   llm: z.object({
-    provider: z.enum(['anthropic', 'openai']).default('openai'),
+    provider: z.enum(['anthropic', 'openai', 'mock']).default('openai'),
     model: z.string().default('gpt-4'),
     temperature: z.number().min(0).max(2).default(0.2),
     maxTokens: z.number().positive().default(4096),
     maxChangesPerRequest: z.number().positive().default(5),
+    fixtures: z.object({
+      dir: z.string().default('.react-dev-insight/llm-fixtures'),
+      record: z.boolean().default(false),
+    }),
+    promptsDir: z.string().default('.react-dev-insight/prompts'),
+    cache: z.object({
+      enabled: z.boolean().default(true),
+      ttlHours: z.number().positive().default(168),
+      maxSizeMB: z.number().positive().default(50),
+    }),
   }),
   optimization: z.object({
-    allowedCategories: z.array(
-      z.enum([
-        'performance',
-        'accessibility',
-        'maintainability',
-        'bundle-size',
-        'ux',
-        'code-quality',
-      ])
-    ).default(['performance', 'accessibility', 'maintainability']),
+    allowedCategories: z.array(CategoryIdSchema).default(['performance', 'accessibility', 'maintainability']),
+    customCategories: z.array(
+      z.object({
+        id: CategoryIdSchema,
+        label: z.string().min(1),
+        prompt: z.string().min(1),
+        icon: z.string().default('🏷️'),
+        color: z.string().regex(/^[a-z]+$/, 'must be a Tailwind colour name').default('slate'),
+        severity: z.enum(['error', 'warning', 'info']).default('warning'),
+      })
+    ).default([]),
     requireReview: z.boolean().default(true),
     autoRunTests: z.boolean().default(false),
+    testTimeout: z.number().positive().default(120000),
     autoFormat: z.boolean().default(true),
+  }).superRefine((optimization, ctx) => {
+    const ids = new Set<string>(BUILT_IN_CATEGORY_IDS);
+    optimization.customCategories.forEach((category, index) => {
+      if (ids.has(category.id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['customCategories', index, 'id'],
+          message: `Category "${category.id}" is already defined`,
+        });
+      }
+      ids.add(category.id);
+    });
+    optimization.allowedCategories.forEach((id, index) => {
+      if (!ids.has(id)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['allowedCategories', index],
+          message: `Unknown category "${id}"`,
+        });
+      }
+    });
   }),
   server: z.object({
     port: z.number().positive().default(3847),
@@ -48,6 +92,23 @@ const ConfigSchema = z.object({
     showLineNumbers: z.boolean().default(true),
     diffStyle: z.enum(['split', 'unified']).default('split'),
   }),
+  audit: z.object({
+    concurrency: z.number().int().positive().default(2),
+    tokenBudget: z.number().positive().default(500000),
+  }),
+  usage: z.object({
+    prices: z.record(
+      z.object({
+        input: z.number().min(0),
+        output: z.number().min(0),
+      })
+    ),
+    budgets: z.object({
+      dailyCost: z.number().min(0).default(0),
+      monthlyCost: z.number().min(0).default(0),
+      dailyTokens: z.number().int().min(0).default(0),
+    }),
+  }),
 });
 
 const DEFAULT_CONFIG: Config = {
@@ -63,11 +124,23 @@ const DEFAULT_CONFIG: Config = {
     temperature: 0.2,
     maxTokens: 4096,
     maxChangesPerRequest: 5,
+    fixtures: {
+      dir: '.react-dev-insight/llm-fixtures',
+      record: false,
+    },
+    promptsDir: '.react-dev-insight/prompts',
+    cache: {
+      enabled: true,
+      ttlHours: 168,
+      maxSizeMB: 50,
+    },
   },
   optimization: {
     allowedCategories: ['performance', 'accessibility', 'maintainability'],
+    customCategories: [],
     requireReview: true,
     autoRunTests: false,
+    testTimeout: 120000,
     autoFormat: true,
   },
   server: {
@@ -84,6 +157,28 @@ const DEFAULT_CONFIG: Config = {
     showLineNumbers: true,
     diffStyle: 'split',
   },
+  audit: {
+    concurrency: 2,
+    tokenBudget: 500000,
+  },
+  usage: {
+    prices: {
+      'gpt-4': { input: 30, output: 60 },
+      'gpt-4-turbo': { input: 10, output: 30 },
+      'gpt-4o': { input: 2.5, output: 10 },
+      'gpt-4o-mini': { input: 0.15, output: 0.6 },
+      'claude-sonnet-4': { input: 3, output: 15 },
+      'claude-3-7-sonnet': { input: 3, output: 15 },
+      'claude-3-5-sonnet': { input: 3, output: 15 },
+      'claude-3-5-haiku': { input: 0.8, output: 4 },
+      'claude-3-opus': { input: 15, output: 75 },
+    },
+    budgets: {
+      dailyCost: 0,
+      monthlyCost: 0,
+      dailyTokens: 0,
+    },
+  },
 };
 
 const CONFIG_FILE_NAMES = [
@@ -92,8 +187,8 @@ const CONFIG_FILE_NAMES = [
   'react-dev-insight.config.json',
 ];
 
-let cachedConfig: Config | null = null;
-let cachedProjectPath: string | null = null;
+// Configs are cached per resolved project root
+const configCache = new Map<string, Config>();
 
 /**
  * Find and load configuration file from project directory
@@ -160,11 +255,11 @@ function deepMerge<T extends Record<string, unknown>>(
  * Load configuration with caching
  */
 export function loadConfig(projectPath?: string): Config {
-  const effectivePath = projectPath ?? process.cwd();
+  const effectivePath = resolve(projectPath ?? process.cwd());
 
-  // Return cached config if path matches
-  if (cachedConfig && cachedProjectPath === effectivePath) {
-    return cachedConfig;
+  const cached = configCache.get(effectivePath);
+  if (cached) {
+    return cached;
   }
 
   // Find and load config file
@@ -178,34 +273,49 @@ export function loadConfig(projectPath?: string): Config {
   if (process.env.LLM_MODEL_NAME) {
     mergedConfig.llm.model = process.env.LLM_MODEL_NAME;
   }
+  if (process.env.LLM_PROVIDER) {
+    mergedConfig.llm.provider = process.env.LLM_PROVIDER as Config['llm']['provider'];
+  }
+  if (process.env.LLM_FIXTURES_DIR || process.env.LLM_RECORD_FIXTURES) {
+    mergedConfig.llm.fixtures = {
+      ...mergedConfig.llm.fixtures,
+      ...(process.env.LLM_FIXTURES_DIR && { dir: process.env.LLM_FIXTURES_DIR }),
+      ...(process.env.LLM_RECORD_FIXTURES && { record: process.env.LLM_RECORD_FIXTURES === 'true' || process.env.LLM_RECORD_FIXTURES === '1' }),
+    };
+  }
 
   // Validate with Zod
   const validationResult = ConfigSchema.safeParse(mergedConfig);
 
+  let config: Config;
   if (!validationResult.success) {
     console.warn('Config validation warnings:', validationResult.error.issues);
-    cachedConfig = DEFAULT_CONFIG;
+    config = DEFAULT_CONFIG;
   } else {
-    cachedConfig = validationResult.data as Config;
+    config = validationResult.data as Config;
   }
 
-  cachedProjectPath = effectivePath;
-  return cachedConfig;
+  configCache.set(effectivePath, config);
+  return config;
 }
 
 /**
- * Get current configuration (uses cached if available)
+ * Get configuration for a project, or the server's working directory
+ * (uses cached if available)
  */
-export function getConfig(): Config {
-  return cachedConfig ?? loadConfig();
+export function getConfig(projectPath?: string): Config {
+  return loadConfig(projectPath);
 }
 
 /**
- * Clear configuration cache
+ * Clear configuration cache for one project, or all projects
  */
-export function clearConfigCache(): void {
-  cachedConfig = null;
-  cachedProjectPath = null;
+export function clearConfigCache(projectPath?: string): void {
+  if (projectPath) {
+    configCache.delete(resolve(projectPath));
+  } else {
+    configCache.clear();
+  }
 }
 
 /**
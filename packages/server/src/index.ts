@@ -7,156 +7,10 @@
 
 import 'dotenv/config';
 import http from 'http';
-import { WebSocketServer, WebSocket } from 'ws';
 import { createApp } from './app';
 import { loadConfig } from './config';
-import { WebSocketMessage } from './types';
-
-// WebSocket client tracking
-interface WSClient {
-  id: string;
-  ws: WebSocket;
-  projectPath?: string;
-  lastActivity: Date;
-}
-
-const clients = new Map<string, WSClient>();
-
-/**
- * Broadcast message to all connected clients
- */
-function broadcast(message: WebSocketMessage, filterFn?: (client: WSClient) => boolean): void {
-  const messageStr = JSON.stringify(message);
-
-  clients.forEach(client => {
-    if (client.ws.readyState === WebSocket.OPEN) {
-      if (!filterFn || filterFn(client)) {
-        client.ws.send(messageStr);
-      }
-    }
-  });
-}
-
-/**
- * Broadcast to clients watching a specific project
- */
-function broadcastToProject(projectPath: string, message: WebSocketMessage): void {
-  broadcast(message, client => client.projectPath === projectPath);
-}
-
-/**
- * Handle incoming WebSocket message
- */
-function handleMessage(client: WSClient, data: string): void {
-  try {
-    const message: WebSocketMessage = JSON.parse(data);
-    client.lastActivity = new Date();
-
-    switch (message.type) {
-      case 'subscribe':
-        // Subscribe to project updates
-        if (message.data && 'projectPath' in message.data) {
-          client.projectPath = (message.data as { projectPath: string }).projectPath;
-          client.ws.send(JSON.stringify({
-            type: 'subscribed',
-            data: { projectPath: client.projectPath }
-          }));
-        }
-        break;
-
-      case 'unsubscribe':
-        // Unsubscribe from project updates
-        // Unsubscribe from project updates
-        delete client.projectPath;
-        client.ws.send(JSON.stringify({
-          type: 'unsubscribed',
-          data: {}
-        }));
-        break;
-
-      case 'ping':
-        // Keep-alive ping
-        client.ws.send(JSON.stringify({
-          type: 'pong',
-          data: { timestamp: Date.now() }
-        }));
-        break;
-
-      default:
-        console.log(`Unknown message type: ${message.type}`);
-    }
-  } catch (error) {
-    console.error('Error handling WebSocket message:', error);
-    client.ws.send(JSON.stringify({
-      type: 'error',
-      data: { message: 'Invalid message format' }
-    }));
-  }
-}
-
-/**
- * Setup WebSocket server
- */
-function setupWebSocket(server: http.Server): WebSocketServer {
-  const wss = new WebSocketServer({
-    server,
-    path: '/ws'
-  });
-
-  wss.on('connection', (ws: WebSocket, _req) => {
-    const clientId = `ws_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    const client: WSClient = {
-      id: clientId,
-      ws,
-      lastActivity: new Date()
-    };
-
-    clients.set(clientId, client);
-    console.log(`WebSocket client connected: ${clientId}`);
-
-    // Send welcome message
-    ws.send(JSON.stringify({
-      type: 'connected',
-      data: {
-        clientId,
-        timestamp: Date.now()
-      }
-    }));
-
-    ws.on('message', (data: Buffer) => {
-      handleMessage(client, data.toString());
-    });
-
-    ws.on('close', () => {
-      clients.delete(clientId);
-      console.log(`WebSocket client disconnected: ${clientId}`);
-    });
-
-    ws.on('error', (error) => {
-      console.error(`WebSocket error for client ${clientId}:`, error);
-      clients.delete(clientId);
-    });
-  });
-
-  // Cleanup inactive clients every 30 seconds
-  setInterval(() => {
-    const now = new Date();
-    const timeout = 5 * 60 * 1000; // 5 minutes
-
-    clients.forEach((client, id) => {
-      const inactive = now.getTime() - client.lastActivity.getTime() > timeout;
-
-      if (inactive || client.ws.readyState !== WebSocket.OPEN) {
-        client.ws.terminate();
-        clients.delete(id);
-        console.log(`Cleaned up inactive client: ${id}`);
-      }
-    });
-  }, 30000);
-
-  return wss;
-}
+import { resolveApiKey, resolveBaseURL } from './services/llmProviders';
+import { broadcast, broadcastToProject, clients, setupWebSocket } from './websocket';
 
 /**
  * Start the server
@@ -181,15 +35,24 @@ async function startServer(): Promise<void> {
       console.log(`Health:    http://${host}:${port}/api/health`);
       console.log('================================');
 
-      const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
-      if (!apiKey) {
-        console.log('\n⚠️  LLM_API_KEY or OPENAI_API_KEY not set');
+      const apiKey = resolveApiKey(config.llm.provider);
+      if (config.llm.provider === 'mock') {
+        console.log('\n🧪 Mock LLM provider (offline)');
+        console.log(`   Fixtures: ${config.llm.fixtures.dir}`);
+      } else if (!apiKey) {
+        console.log(`\n⚠️  No API key set for provider "${config.llm.provider}"`);
+        console.log('   Set LLM_API_KEY (or OPENAI_API_KEY / ANTHROPIC_API_KEY)');
         console.log('   AI features will be limited to basic analysis');
       } else {
         console.log('\n✅ AI features enabled');
-        console.log(`   Model: ${config.llm.model}`);
-        if (process.env.LLM_BASE_URL) {
-          console.log(`   Base URL: ${process.env.LLM_BASE_URL}`);
+        console.log(`   Provider: ${config.llm.provider}`);
+        console.log(`   Model: ${process.env.LLM_MODEL_NAME || config.llm.model}`);
+        const baseURL = resolveBaseURL(config.llm.provider);
+        if (baseURL) {
+          console.log(`   Base URL: ${baseURL}`);
+        }
+        if (config.llm.fixtures.record) {
+          console.log(`   Recording fixtures to: ${config.llm.fixtures.dir}`);
         }
       }
 
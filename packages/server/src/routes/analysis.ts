@@ -1,15 +1,88 @@
 import { Router, Request, Response } from 'express';
+import { randomUUID } from 'crypto';
+import { getConfig } from '../config/index.js';
+import { getAuditService, type AuditListener } from '../services/auditService.js';
 import { getCodeAnalyzer } from '../services/codeAnalyzer.js';
+import { getCodeModifier } from '../services/codeModifier.js';
 import { getFileSystemService } from '../services/fileSystem.js';
-import type { AnalysisRequest, APIResponse, AnalysisResult, BoundingRect } from '../types/index.js';
+import { getImportGraph } from '../services/importGraph.js';
+import { getJobQueue } from '../services/jobQueue.js';
+import { LLMProviderError } from '../services/llmProviders.js';
+import { getProject } from '../services/projectRegistry.js';
+import { getSourceResolver } from '../services/sourceResolver.js';
+import { renderAuditHtml } from '../utils/auditReport.js';
+import { listCategories } from '../utils/categories.js';
+import { broadcastToProject } from '../websocket.js';
+import type {
+  AnalysisBatchParams,
+  AnalysisRequest,
+  APIResponse,
+  AnalysisResult,
+  AuditReport,
+  AuditRequest,
+  AuditSummary,
+  BoundingRect,
+  CategoryDefinition,
+  CodeSuggestion,
+  DependentFile,
+  ImpactReport,
+  Job,
+  ResolvedSource,
+} from '../types/index.js';
 
 const router = Router();
 
+/**
+ * Forward audit progress to WebSocket clients watching the project
+ */
+function auditListener(projectPath: string): AuditListener {
+  return {
+    onProgress: (summary, result) => {
+      broadcastToProject(projectPath, {
+        type: 'audit-progress',
+        data: {
+          auditId: summary.id,
+          summary,
+          file: {
+            filePath: result.filePath,
+            componentName: result.componentName,
+            status: result.status,
+            score: result.score,
+          },
+        },
+      });
+    },
+    onComplete: (summary) => {
+      broadcastToProject(projectPath, {
+        type: 'audit-complete',
+        data: { auditId: summary.id, summary },
+      });
+    },
+    onError: (summary, message) => {
+      broadcastToProject(projectPath, {
+        type: 'audit-error',
+        data: { auditId: summary.id, summary, message },
+      });
+    },
+  };
+}
+
+/**
+ * Whether an optional limit from a request body is a positive number
+ */
+function isValidLimit(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && value > 0);
+}
+
 /**
  * POST /api/analysis/element
- * Analyze a selected element and its React component
+ * Analyze a selected element and its React component. Set noCache to ask
+ * the LLM again instead of reusing a cached analysis of the same code.
  */
 router.post('/element', async (req: Request, res: Response) => {
+  let analysisId: string | undefined;
+  let projectPath = getProject().root;
+
   try {
     const request = req.body as AnalysisRequest;
 
@@ -26,8 +99,36 @@ router.post('/element', async (req: Request, res: Response) => {
       return;
     }
 
+    // Progress is pushed to WebSocket clients subscribed to this project
+    analysisId = request.analysisId || randomUUID();
+    projectPath = getProject(request.projectPath).root;
+
+    broadcastToProject(projectPath, {
+      type: 'analysis-started',
+      data: {
+        analysisId,
+        componentName: request.componentInfo.name,
+        filePath: request.componentInfo.filePath,
+      },
+    });
+
     const analyzer = getCodeAnalyzer(request.projectPath);
-    const result = await analyzer.analyzeElement(request);
+    const result = await analyzer.analyzeElement(request, {
+      analysisId,
+      ...(request.stream !== false && {
+        onSuggestion: (suggestion, index) => {
+          broadcastToProject(projectPath, {
+            type: 'analysis-progress',
+            data: { analysisId, index, suggestion },
+          });
+        },
+      }),
+    });
+
+    broadcastToProject(projectPath, {
+      type: 'analysis-complete',
+      data: { analysisId, result },
+    });
 
     const response: APIResponse<AnalysisResult> = {
       success: true,
@@ -37,14 +138,23 @@ router.post('/element', async (req: Request, res: Response) => {
     res.json(response);
   } catch (error) {
     console.error('Analysis error:', error);
+    if (analysisId) {
+      broadcastToProject(projectPath, {
+        type: 'analysis-error',
+        data: {
+          analysisId,
+          message: error instanceof Error ? error.message : 'Analysis failed',
+        },
+      });
+    }
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'ANALYSIS_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'ANALYSIS_ERROR',
         message: error instanceof Error ? error.message : 'Analysis failed',
       },
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -54,7 +164,7 @@ router.post('/element', async (req: Request, res: Response) => {
  */
 router.post('/file', async (req: Request, res: Response) => {
   try {
-    const { filePath, optimizationGoal, category, projectPath } = req.body;
+    const { filePath, optimizationGoal, category, projectPath, noCache } = req.body;
 
     if (!filePath || !optimizationGoal) {
       const response: APIResponse<null> = {
@@ -102,7 +212,8 @@ router.post('/file', async (req: Request, res: Response) => {
       optimizationGoal,
       category,
       projectPath,
-    });
+      noCache: noCache === true,
+    }, { route: '/analysis/file' });
 
     const response: APIResponse<AnalysisResult> = {
       success: true,
@@ -115,11 +226,11 @@ router.post('/file', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'ANALYSIS_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'ANALYSIS_ERROR',
         message: error instanceof Error ? error.message : 'Analysis failed',
       },
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -192,13 +303,194 @@ router.get('/component/:name', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/analysis/resolve-source
+ * Map a runtime source path from the injector to an editable project file
+ */
+router.post('/resolve-source', async (req: Request, res: Response) => {
+  try {
+    const { fileName, projectPath } = req.body as { fileName?: string; projectPath?: string };
+
+    if (!fileName || typeof fileName !== 'string') {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required field: fileName',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = getSourceResolver(projectPath).resolve(fileName);
+
+    if (!result.success) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'SOURCE_NOT_RESOLVED',
+          message: result.error,
+        },
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    const response: APIResponse<ResolvedSource> = {
+      success: true,
+      data: result.source,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Source resolution error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'RESOLVE_ERROR',
+        message: error instanceof Error ? error.message : 'Source resolution failed',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /api/analysis/dependents
+ * List the files that import a file, with their call sites. `exports`
+ * (comma-separated, 'default' for the default export) narrows the result
+ * to files using those exports.
+ */
+router.get('/dependents', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, filePath, exports } = req.query as {
+      projectPath?: string;
+      filePath?: string;
+      exports?: string;
+    };
+
+    if (!filePath) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required query parameter: filePath',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const exportNames = exports?.split(',').map((e) => e.trim()).filter(Boolean);
+    const dependents = getImportGraph(projectPath).getDependents(filePath, exportNames);
+
+    const response: APIResponse<DependentFile[]> = {
+      success: true,
+      data: dependents,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Dependents error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'ANALYSIS_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to find dependents',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/analysis/impact
+ * Report which exports and component props a suggestion changes, and the
+ * files that use them
+ */
+router.post('/impact', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, filePath, suggestion } = req.body as {
+      projectPath?: string;
+      filePath?: string;
+      suggestion?: CodeSuggestion;
+    };
+
+    if (!filePath || !suggestion) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required fields: filePath and suggestion',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const current = getFileSystemService(projectPath).readFile(filePath);
+    if (!current.success || current.content === undefined) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'FILE_ERROR',
+          message: current.error || 'Failed to read file',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const preview = await getCodeModifier(projectPath).previewModification(
+      current.content,
+      suggestion.originalCode,
+      suggestion.modifiedCode,
+      { filename: filePath, lineStart: suggestion.lineStart, lineEnd: suggestion.lineEnd }
+    );
+    if (!preview.success || preview.preview === undefined) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'PREVIEW_FAILED',
+          message: preview.error || 'Could not apply the suggestion to the file',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const report = getImportGraph(projectPath).getImpact(filePath, current.content, preview.preview);
+
+    const response: APIResponse<ImpactReport> = {
+      success: true,
+      data: report,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Impact analysis error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'ANALYSIS_ERROR',
+        message: error instanceof Error ? error.message : 'Impact analysis failed',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
 /**
  * POST /api/analysis/batch
- * Analyze multiple components
+ * Queue a job that analyzes multiple components. Poll /api/jobs/:id or
+ * watch for job-updated messages for progress and the results.
  */
 router.post('/batch', async (req: Request, res: Response) => {
   try {
-    const { filePaths, optimizationGoal, projectPath } = req.body;
+    const { filePaths, optimizationGoal, category, noCache, projectPath } = req.body as AnalysisBatchParams & {
+      projectPath?: string;
+    };
 
     if (!filePaths || !Array.isArray(filePaths) || !optimizationGoal) {
       const response: APIResponse<null> = {
@@ -212,15 +504,18 @@ router.post('/batch', async (req: Request, res: Response) => {
       return;
     }
 
-    const analyzer = getCodeAnalyzer(projectPath);
-    const results = await analyzer.analyzeMultiple(filePaths, optimizationGoal);
+    const job = getJobQueue().submit<AnalysisBatchParams>(
+      'analysis-batch',
+      { filePaths, optimizationGoal, ...(category && { category }), ...(noCache === true && { noCache }) },
+      { ...(projectPath && { projectPath }) }
+    );
 
-    const response: APIResponse<AnalysisResult[]> = {
+    const response: APIResponse<Job> = {
       success: true,
-      data: results,
+      data: job,
     };
 
-    res.json(response);
+    res.status(202).json(response);
   } catch (error) {
     console.error('Batch analysis error:', error);
     const response: APIResponse<null> = {
@@ -234,6 +529,217 @@ router.post('/batch', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/analysis/audits
+ * Start an audit of every React file in the project. Progress is pushed
+ * over WebSocket; the report is returned as soon as it is created.
+ */
+router.post('/audits', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, ...request } = req.body as AuditRequest & { projectPath?: string };
+
+    if (!request.optimizationGoal || !isValidLimit(request.concurrency) || !isValidLimit(request.tokenBudget)) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required field optimizationGoal, or concurrency/tokenBudget is not a positive number',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const root = getProject(projectPath).root;
+    const audits = getAuditService(projectPath);
+    const report = audits.start(request, auditListener(root));
+
+    broadcastToProject(root, {
+      type: 'audit-started',
+      data: { auditId: report.id, summary: audits.summarize(report) },
+    });
+
+    const response: APIResponse<AuditReport> = {
+      success: true,
+      data: report,
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    console.error('Audit start error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'AUDIT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to start audit',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /api/analysis/audits
+ * List saved audits, newest first
+ */
+router.get('/audits', async (req: Request, res: Response) => {
+  try {
+    const { projectPath } = req.query;
+    const summaries = getAuditService(projectPath as string | undefined).list();
+
+    const response: APIResponse<AuditSummary[]> = {
+      success: true,
+      data: summaries,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Audit listing error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'AUDIT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to list audits',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * GET /api/analysis/audits/:id
+ * Get a full audit report. Add `format=html` for the HTML report.
+ */
+router.get('/audits/:id', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, format } = req.query;
+    const audits = getAuditService(projectPath as string | undefined);
+    const id = req.params.id ?? '';
+    const report = audits.get(id);
+
+    if (!report) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: `Audit "${id}" not found`,
+        },
+      };
+      res.status(404).json(response);
+      return;
+    }
+
+    if (format === 'html') {
+      res.type('html').send(renderAuditHtml(report));
+      return;
+    }
+
+    const response: APIResponse<AuditReport> = {
+      success: true,
+      data: report,
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Audit lookup error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'AUDIT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to load audit',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/analysis/audits/:id/resume
+ * Continue a paused, over-budget or interrupted audit
+ */
+router.post('/audits/:id/resume', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, tokenBudget, concurrency } = req.body as {
+      projectPath?: string;
+      tokenBudget?: number;
+      concurrency?: number;
+    };
+
+    if (!isValidLimit(concurrency) || !isValidLimit(tokenBudget)) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'concurrency and tokenBudget must be positive numbers',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const root = getProject(projectPath).root;
+    const result = getAuditService(projectPath).resume(
+      req.params.id ?? '',
+      {
+        ...(tokenBudget !== undefined && { tokenBudget }),
+        ...(concurrency !== undefined && { concurrency }),
+      },
+      auditListener(root)
+    );
+
+    if (!result.success || !result.report) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'AUDIT_ERROR',
+          message: result.error || 'Failed to resume audit',
+        },
+      };
+      res.status(result.error === 'Audit not found' ? 404 : 409).json(response);
+      return;
+    }
+
+    const response: APIResponse<AuditReport> = {
+      success: true,
+      data: result.report,
+    };
+
+    res.status(202).json(response);
+  } catch (error) {
+    console.error('Audit resume error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'AUDIT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to resume audit',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/analysis/audits/:id/stop
+ * Stop a running audit once the files in progress finish
+ */
+router.post('/audits/:id/stop', async (req: Request, res: Response) => {
+  const { projectPath } = req.body as { projectPath?: string };
+  const stopped = getAuditService(projectPath).stop(req.params.id ?? '');
+
+  const response: APIResponse<{ stopped: boolean }> = {
+    success: stopped,
+    data: { stopped },
+    ...(!stopped && {
+      error: {
+        code: 'NOT_RUNNING',
+        message: 'Audit is not running',
+      },
+    }),
+  };
+
+  res.status(stopped ? 200 : 409).json(response);
+});
+
 /**
  * GET /api/analysis/files
  * List all React files in the project
@@ -263,4 +769,21 @@ router.get('/files', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/analysis/categories
+ * List the optimization categories: the built-in ones, then the project's
+ * own from optimization.customCategories
+ */
+router.get('/categories', (req: Request, res: Response) => {
+  const projectPath = typeof req.query.projectPath === 'string' ? req.query.projectPath : undefined;
+  const config = getConfig(getProject(projectPath).root);
+
+  const response: APIResponse<CategoryDefinition[]> = {
+    success: true,
+    data: listCategories(config.optimization.customCategories),
+  };
+
+  res.json(response);
+});
+
 export default router;
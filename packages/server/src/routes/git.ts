@@ -6,21 +6,11 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { getGitService, GitService } from '../services/gitService';
+import { getGitService } from '../services/gitService';
 import { APIResponse, GitStatus } from '../types';
 
 const router = Router();
 
-// Cache for GitService instances per project
-const gitServiceCache = new Map<string, GitService>();
-
-function getGitServiceForProject(projectPath: string): GitService {
-  if (!gitServiceCache.has(projectPath)) {
-    gitServiceCache.set(projectPath, getGitService(projectPath));
-  }
-  return gitServiceCache.get(projectPath)!;
-}
-
 /**
  * GET /api/git/status
  * Get current Git repository status
@@ -40,7 +30,7 @@ router.get('/status', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     const status = await gitService.getStatus();
 
     const response: APIResponse<GitStatus> = {
@@ -102,7 +92,7 @@ router.post('/commit', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     const commitResult = await gitService.commit(message, files);
 
     if (!commitResult.success || !commitResult.hash) {
@@ -164,7 +154,7 @@ router.post('/revert', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     await gitService.revertCommit(commitHash);
 
     const response: APIResponse<{ reverted: boolean; commitHash: string }> = {
@@ -215,7 +205,7 @@ router.post('/reset-file', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     await gitService.resetFile(filePath);
 
     const response: APIResponse<{ reset: boolean; filePath: string }> = {
@@ -257,7 +247,7 @@ router.get('/history', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     const history = await gitService.getHistory({
       maxCount: limit,
       ...(filePath && { file: filePath })
@@ -312,7 +302,7 @@ router.get('/diff', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     const diff = await gitService.getFileDiff(filePath);
 
     const response: APIResponse<typeof diff> = {
@@ -363,7 +353,7 @@ router.post('/branch', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     const branchResult = await gitService.createBranch(branchName, usePrefix);
 
     if (!branchResult.success) {
@@ -414,7 +404,7 @@ router.post('/stash', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     await gitService.stash(message);
 
     const response: APIResponse<{ stashed: boolean }> = {
@@ -454,7 +444,7 @@ router.post('/stash-pop', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     await gitService.stashPop();
 
     const response: APIResponse<{ popped: boolean }> = {
@@ -506,7 +496,7 @@ router.get('/uncommitted', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    const gitService = getGitServiceForProject(projectPath);
+    const gitService = getGitService(projectPath);
     const hasChanges = await gitService.hasUncommittedChanges(filePath);
 
     const response: APIResponse<{ hasUncommittedChanges: boolean; filePath: string }> = {
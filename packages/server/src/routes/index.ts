@@ -10,6 +10,8 @@ import analysisRoutes from './analysis';
 import modificationRoutes from './modification';
 import gitRoutes from './git';
 import llmRoutes from './llm';
+import projectRoutes from './projects';
+import jobRoutes from './jobs';
 
 const router = Router();
 
@@ -18,6 +20,8 @@ router.use('/analysis', analysisRoutes);
 router.use('/modification', modificationRoutes);
 router.use('/git', gitRoutes);
 router.use('/llm', llmRoutes);
+router.use('/projects', projectRoutes);
+router.use('/jobs', jobRoutes);
 
 // Health check endpoint
 // Health check endpoint
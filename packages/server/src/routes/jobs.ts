@@ -0,0 +1,111 @@
+/**
+ * Job Routes
+ *
+ * Status, cancellation and retry for background jobs. Jobs are submitted
+ * by the batch endpoints under /analysis and /modification; every change
+ * to a job is also pushed to the project's WebSocket clients.
+ */
+
+import { Router, Request, Response } from 'express';
+import { getJobQueue } from '../services/jobQueue.js';
+import { broadcastToProject } from '../websocket.js';
+import type { APIResponse, Job } from '../types/index.js';
+
+const router = Router();
+
+getJobQueue().onUpdate((job) => {
+  broadcastToProject(job.projectPath, {
+    type: 'job-updated',
+    data: { jobId: job.id, job },
+  });
+});
+
+/**
+ * Respond to a cancel or retry with the job, or the reason it was refused
+ */
+function sendJobAction(
+  res: Response,
+  result: { success: boolean; job?: Job; error?: string },
+  code: string
+): void {
+  if (!result.job) {
+    const response: APIResponse<null> = {
+      success: false,
+      error: { code: 'NOT_FOUND', message: result.error || 'Job not found' },
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  if (!result.success) {
+    const response: APIResponse<null> = {
+      success: false,
+      error: { code, message: result.error || 'Job cannot be changed' },
+    };
+    res.status(409).json(response);
+    return;
+  }
+
+  const response: APIResponse<Job> = {
+    success: true,
+    data: result.job,
+  };
+  res.json(response);
+}
+
+/**
+ * GET /api/jobs
+ * List jobs, newest first. Pass projectPath to see one project's jobs.
+ */
+router.get('/', (req: Request, res: Response) => {
+  const projectPath = typeof req.query.projectPath === 'string' ? req.query.projectPath : undefined;
+
+  const response: APIResponse<Job[]> = {
+    success: true,
+    data: getJobQueue().list(projectPath),
+  };
+
+  res.json(response);
+});
+
+/**
+ * GET /api/jobs/:id
+ * Get a job's status, progress and, once finished, its result
+ */
+router.get('/:id', (req: Request, res: Response) => {
+  const job = getJobQueue().get(req.params.id ?? '');
+
+  if (!job) {
+    const response: APIResponse<null> = {
+      success: false,
+      error: { code: 'NOT_FOUND', message: 'Job not found' },
+    };
+    res.status(404).json(response);
+    return;
+  }
+
+  const response: APIResponse<Job> = {
+    success: true,
+    data: job,
+  };
+
+  res.json(response);
+});
+
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancel a queued or running job
+ */
+router.post('/:id/cancel', (req: Request, res: Response) => {
+  sendJobAction(res, getJobQueue().cancel(req.params.id ?? ''), 'NOT_CANCELLABLE');
+});
+
+/**
+ * POST /api/jobs/:id/retry
+ * Run a failed or cancelled job again
+ */
+router.post('/:id/retry', (req: Request, res: Response) => {
+  sendJobAction(res, getJobQueue().retry(req.params.id ?? ''), 'NOT_RETRYABLE');
+});
+
+export default router;
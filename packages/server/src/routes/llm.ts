@@ -7,10 +7,21 @@
 
 import { Router, Request, Response } from 'express';
 import { getLLMService, LLMService } from '../services/llmService';
-import { APIResponse, OptimizationCategory } from '../types';
+import { LLMProviderError, resolveApiKey, resolveBaseURL } from '../services/llmProviders';
+import {
+  AnalysisRequest,
+  APIResponse,
+  LLMCallContext,
+  OptimizationCategory,
+  PromptPreview,
+  UsageReport,
+} from '../types';
 import { loadConfig } from '../config';
-import type { ClientOptions } from 'openai';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { getCodeAnalyzer } from '../services/codeAnalyzer';
+import { getPromptTemplates } from '../services/promptTemplates';
+import { getProject } from '../services/projectRegistry';
+import { getUsageLedger } from '../services/usageLedger';
+import { isKnownCategory } from '../utils/categories';
 
 const router = Router();
 
@@ -24,13 +35,24 @@ async function getLLMServiceInstance(): Promise<LLMService> {
   return llmService;
 }
 
+/**
+ * Who a call is made for, as recorded in the usage ledger
+ */
+function callContext(projectPath: unknown, route: string, componentName?: unknown): LLMCallContext {
+  return {
+    projectPath: getProject(typeof projectPath === 'string' ? projectPath : undefined).root,
+    route,
+    ...(typeof componentName === 'string' && componentName && { componentName }),
+  };
+}
+
 /**
  * POST /api/llm/analyze
  * Analyze code and generate optimization suggestions
  */
 router.post('/analyze', async (req: Request, res: Response) => {
   try {
-    const { code, goal, componentName, filePath, context } = req.body;
+    const { code, goal, componentName, filePath, context, projectPath } = req.body;
 
     if (!code || typeof code !== 'string') {
       const response: APIResponse<null> = {
@@ -60,7 +82,9 @@ router.post('/analyze', async (req: Request, res: Response) => {
       filePath: filePath || '',
       code,
       optimizationGoal: goal,
-      ...context
+      prompts: getPromptTemplates(projectPath).load().overrides,
+      ...context,
+      context: callContext(projectPath, '/llm/analyze', componentName)
     });
 
     const response: APIResponse<typeof result> = {
@@ -73,11 +97,11 @@ router.post('/analyze', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'ANALYSIS_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'ANALYSIS_ERROR',
         message: error instanceof Error ? error.message : 'Failed to analyze code'
       }
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -87,7 +111,7 @@ router.post('/analyze', async (req: Request, res: Response) => {
  */
 router.post('/validate', async (req: Request, res: Response) => {
   try {
-    const { originalCode, modifiedCode, goal } = req.body;
+    const { originalCode, modifiedCode, goal, projectPath } = req.body;
 
     if (!originalCode || typeof originalCode !== 'string') {
       const response: APIResponse<null> = {
@@ -115,7 +139,8 @@ router.post('/validate', async (req: Request, res: Response) => {
     const result = await service.validateModification({
       originalCode,
       modifiedCode,
-      suggestionTitle: goal || 'Code modification'
+      suggestionTitle: goal || 'Code modification',
+      context: callContext(projectPath, '/llm/validate')
     });
 
     const response: APIResponse<typeof result> = {
@@ -128,11 +153,11 @@ router.post('/validate', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'VALIDATION_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'VALIDATION_ERROR',
         message: error instanceof Error ? error.message : 'Failed to validate code'
       }
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -142,7 +167,7 @@ router.post('/validate', async (req: Request, res: Response) => {
  */
 router.post('/commit-message', async (req: Request, res: Response) => {
   try {
-    const { originalCode, modifiedCode, goal, componentName } = req.body;
+    const { originalCode, modifiedCode, goal, componentName, projectPath } = req.body;
 
     if (!originalCode || typeof originalCode !== 'string') {
       const response: APIResponse<null> = {
@@ -173,7 +198,8 @@ router.post('/commit-message', async (req: Request, res: Response) => {
         title: goal || 'Code optimization',
         category: 'code-quality',
         description: 'Code modification'
-      }]
+      }],
+      context: callContext(projectPath, '/llm/commit-message', componentName)
     });
 
     const response: APIResponse<{ message: string }> = {
@@ -186,11 +212,11 @@ router.post('/commit-message', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'COMMIT_MESSAGE_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'COMMIT_MESSAGE_ERROR',
         message: error instanceof Error ? error.message : 'Failed to generate commit message'
       }
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -200,7 +226,7 @@ router.post('/commit-message', async (req: Request, res: Response) => {
  */
 router.post('/explain', async (req: Request, res: Response) => {
   try {
-    const { originalCode, modifiedCode, goal } = req.body;
+    const { originalCode, modifiedCode, goal, projectPath } = req.body;
 
     if (!originalCode || typeof originalCode !== 'string') {
       const response: APIResponse<null> = {
@@ -225,14 +251,15 @@ router.post('/explain', async (req: Request, res: Response) => {
     }
 
     const service = await getLLMServiceInstance();
-    const validCategories: OptimizationCategory[] = ['performance', 'accessibility', 'maintainability', 'bundle-size', 'ux', 'code-quality'];
-    const category: OptimizationCategory = (goal && validCategories.includes(goal as OptimizationCategory))
-      ? (goal as OptimizationCategory)
+    const customCategories = loadConfig(getProject(projectPath).root).optimization.customCategories;
+    const category: OptimizationCategory = (typeof goal === 'string' && isKnownCategory(goal, customCategories))
+      ? goal
       : 'code-quality';
     const explanation = await service.explainChange({
       originalCode,
       modifiedCode,
-      category
+      category,
+      context: callContext(projectPath, '/llm/explain')
     });
 
     const response: APIResponse<{ explanation: string }> = {
@@ -245,11 +272,11 @@ router.post('/explain', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'EXPLANATION_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'EXPLANATION_ERROR',
         message: error instanceof Error ? error.message : 'Failed to explain change'
       }
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -259,7 +286,7 @@ router.post('/explain', async (req: Request, res: Response) => {
  */
 router.post('/suggest-related', async (req: Request, res: Response) => {
   try {
-    const { code, appliedChanges } = req.body;
+    const { code, appliedChanges, projectPath } = req.body;
 
     if (!code || typeof code !== 'string') {
       const response: APIResponse<null> = {
@@ -289,7 +316,8 @@ router.post('/suggest-related', async (req: Request, res: Response) => {
       appliedChanges: appliedChanges.map((change: any) => ({
         title: change.title || change,
         category: change.category || 'code-quality'
-      }))
+      })),
+      context: callContext(projectPath, '/llm/suggest-related')
     });
 
     const response: APIResponse<{ suggestions: string[] }> = {
@@ -302,11 +330,11 @@ router.post('/suggest-related', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'SUGGESTION_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'SUGGESTION_ERROR',
         message: error instanceof Error ? error.message : 'Failed to suggest related changes'
       }
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
@@ -317,8 +345,9 @@ router.post('/suggest-related', async (req: Request, res: Response) => {
 router.get('/status', async (_req: Request, res: Response) => {
   try {
     const config = await loadConfig();
-    const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
-    const hasApiKey = !!apiKey;
+    const hasApiKey = !!resolveApiKey(config.llm.provider);
+    const baseURL = resolveBaseURL(config.llm.provider);
+    const service = await getLLMServiceInstance();
 
     const response: APIResponse<{
       available: boolean;
@@ -329,11 +358,11 @@ router.get('/status', async (_req: Request, res: Response) => {
     }> = {
       success: true,
       data: {
-        available: hasApiKey,
+        available: service.isAvailable(),
         provider: config.llm.provider,
         model: process.env.LLM_MODEL_NAME || config.llm.model,
         hasApiKey,
-        ...(process.env.LLM_BASE_URL ? { baseURL: process.env.LLM_BASE_URL } : {})
+        ...(baseURL ? { baseURL } : {})
       }
     };
 
@@ -350,13 +379,122 @@ router.get('/status', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/llm/usage
+ * Token usage and estimated cost of a project's LLM calls, by day,
+ * component and route, with its budget status. from/to are ISO dates and
+ * default to the last 30 days.
+ */
+router.get('/usage', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, from, to } = req.query as Record<string, string | undefined>;
+
+    const query: { from?: Date; to?: Date } = {};
+    for (const [key, value] of [['from', from], ['to', to]] as const) {
+      if (!value) continue;
+      const date = new Date(value);
+      if (Number.isNaN(date.getTime())) {
+        const response: APIResponse<null> = {
+          success: false,
+          error: {
+            code: 'INVALID_INPUT',
+            message: `Invalid date for ${key}: ${value}`
+          }
+        };
+        return res.status(400).json(response);
+      }
+      query[key] = date;
+    }
+
+    const response: APIResponse<UsageReport> = {
+      success: true,
+      data: getUsageLedger(projectPath).getReport(query)
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Usage report error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'USAGE_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to read usage'
+      }
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/llm/prompt-preview
+ * Render the system and analysis prompts an analysis would send, with the
+ * project's prompt templates applied, without calling the LLM. Takes the
+ * same body as /api/analysis/element, or just a filePath.
+ */
+router.post('/prompt-preview', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, filePath, componentName, ...request } = req.body as Partial<AnalysisRequest> & {
+      filePath?: string;
+      componentName?: string;
+    };
+    const componentInfo = request.componentInfo ?? (filePath
+      ? {
+          name: componentName || '',
+          displayName: null,
+          filePath,
+          lineNumber: null,
+          columnNumber: null,
+          props: {},
+          state: null,
+          hooks: [],
+          fiber: null
+        }
+      : undefined);
+
+    if (!componentInfo || !request.optimizationGoal) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_INPUT',
+          message: 'optimizationGoal and either componentInfo or filePath are required'
+        }
+      };
+      return res.status(400).json(response);
+    }
+
+    const preview = await getCodeAnalyzer(projectPath).previewPrompt({
+      ...request,
+      elementInfo: request.elementInfo ?? ({} as AnalysisRequest['elementInfo']),
+      componentInfo,
+      optimizationGoal: request.optimizationGoal,
+      projectPath: getProject(projectPath).root
+    });
+
+    const response: APIResponse<PromptPreview> = {
+      success: true,
+      data: preview
+    };
+
+    res.json(response);
+  } catch (error) {
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'PREVIEW_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to render prompt'
+      }
+    };
+    res.status(500).json(response);
+  }
+});
+
 /**
  * POST /api/llm/custom-prompt
  * Send a custom prompt to the LLM (advanced usage)
  */
 router.post('/custom-prompt', async (req: Request, res: Response) => {
   try {
-    const { systemPrompt, userPrompt, maxTokens = 2048 } = req.body;
+    const { systemPrompt, userPrompt, maxTokens = 2048, projectPath } = req.body;
 
     if (!userPrompt || typeof userPrompt !== 'string') {
       const response: APIResponse<null> = {
@@ -369,49 +507,25 @@ router.post('/custom-prompt', async (req: Request, res: Response) => {
       return res.status(400).json(response);
     }
 
-    // Check if API key is available
-    const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
-    if (!apiKey) {
+    const service = await getLLMServiceInstance();
+    if (!service.isAvailable()) {
       const response: APIResponse<null> = {
         success: false,
         error: {
           code: 'CONFIGURATION_ERROR',
-          message: 'LLM_API_KEY or OPENAI_API_KEY not configured'
+          message: 'No API key configured for the selected LLM provider'
         }
       };
       return res.status(503).json(response);
     }
 
-    const config = await loadConfig();
-    const OpenAI = (await import('openai')).default;
-    const clientConfig: ClientOptions = {
-      apiKey,
-    };
-    if (process.env.LLM_BASE_URL) {
-      clientConfig.baseURL = process.env.LLM_BASE_URL;
-    }
-    const client = new OpenAI(clientConfig);
-
-    const messages: ChatCompletionMessageParam[] = [];
-    if (systemPrompt) {
-      messages.push({
-        role: 'system',
-        content: systemPrompt,
-      });
-    }
-    messages.push({
-      role: 'user',
-      content: userPrompt,
-    });
-
-    const completion = await client.chat.completions.create({
-      model: process.env.LLM_MODEL_NAME || config.llm.model,
-      max_tokens: maxTokens,
-      messages,
+    const completion = await service.sendRequest({
+      systemPrompt: systemPrompt || '',
+      prompt: userPrompt,
+      maxTokens,
+      context: callContext(projectPath, '/llm/custom-prompt'),
     });
 
-    const responseText = completion.choices[0]?.message?.content || '';
-
     const response: APIResponse<{
       response: string;
       usage: {
@@ -421,11 +535,8 @@ router.post('/custom-prompt', async (req: Request, res: Response) => {
     }> = {
       success: true,
       data: {
-        response: responseText,
-        usage: {
-          inputTokens: completion.usage?.prompt_tokens || 0,
-          outputTokens: completion.usage?.completion_tokens || 0
-        }
+        response: completion.content,
+        usage: completion.usage
       }
     };
 
@@ -434,11 +545,11 @@ router.post('/custom-prompt', async (req: Request, res: Response) => {
     const response: APIResponse<null> = {
       success: false,
       error: {
-        code: 'PROMPT_ERROR',
+        code: error instanceof LLMProviderError ? error.code : 'PROMPT_ERROR',
         message: error instanceof Error ? error.message : 'Failed to process custom prompt'
       }
     };
-    res.status(500).json(response);
+    res.status(error instanceof LLMProviderError ? error.httpStatus : 500).json(response);
   }
 });
 
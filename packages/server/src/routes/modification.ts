@@ -1,12 +1,27 @@
 import { Router, Request, Response } from 'express';
+import { getConfig } from '../config/index.js';
 import { getCodeModifier } from '../services/codeModifier.js';
 import { getBackupService } from '../services/backupService.js';
 import { getFileSystemService } from '../services/fileSystem.js';
+import { getJobQueue } from '../services/jobQueue.js';
+import { getProject } from '../services/projectRegistry.js';
+import { isKnownCategory } from '../utils/categories.js';
 import type {
   ModificationRequest,
   ModificationResult,
   CodeSuggestion,
   APIResponse,
+  Changeset,
+  ChangesetRequest,
+  ChangesetResult,
+  CustomCategoryConfig,
+  FormatReport,
+  HistoryQuery,
+  Job,
+  ModificationBatchParams,
+  ModificationStatus,
+  PatchConflict,
+  PatchReport,
 } from '../types/index.js';
 
 const router = Router();
@@ -35,7 +50,9 @@ router.post('/apply', async (req: Request, res: Response) => {
     }
 
     const modifier = getCodeModifier(projectPath);
-    const result = await modifier.applyModification(request);
+    const result = await getJobQueue().withWriteLock(projectPath, () =>
+      modifier.applyModification(request)
+    );
 
     const response: APIResponse<ModificationResult> = {
       success: result.success,
@@ -78,6 +95,8 @@ router.post('/suggestion', async (req: Request, res: Response) => {
         createBranch?: boolean;
         branchName?: string;
         customCommitMessage?: string;
+        componentName?: string;
+        allowBreakingChanges?: boolean;
       };
     };
 
@@ -93,8 +112,22 @@ router.post('/suggestion', async (req: Request, res: Response) => {
       return;
     }
 
+    if (!suggestion.files?.length && !suggestion.originalCode?.trim()) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required field: suggestion.originalCode',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     const modifier = getCodeModifier(projectPath);
-    const result = await modifier.applySuggestion(filePath, suggestion, options);
+    const result = await getJobQueue().withWriteLock(projectPath, () =>
+      modifier.applySuggestion(filePath, suggestion, options)
+    );
 
     const response: APIResponse<ModificationResult> = {
       success: result.success,
@@ -125,7 +158,8 @@ router.post('/suggestion', async (req: Request, res: Response) => {
 
 /**
  * POST /api/modification/batch
- * Apply multiple suggestions at once
+ * Queue a job that applies multiple suggestions to one file. Write jobs
+ * for the same project run one at a time.
  */
 router.post('/batch', async (req: Request, res: Response) => {
   try {
@@ -136,6 +170,7 @@ router.post('/batch', async (req: Request, res: Response) => {
       options?: {
         createBranch?: boolean;
         branchName?: string;
+        allowBreakingChanges?: boolean;
       };
     };
 
@@ -151,29 +186,18 @@ router.post('/batch', async (req: Request, res: Response) => {
       return;
     }
 
-    const modifier = getCodeModifier(projectPath);
-    const results = await modifier.applyMultipleSuggestions(
-      filePath,
-      suggestions,
-      options
+    const job = getJobQueue().submit<ModificationBatchParams>(
+      'modification-batch',
+      { filePath, suggestions, ...options },
+      { ...(projectPath && { projectPath }), writes: true }
     );
 
-    const allSuccessful = results.every((r) => r.success);
-
-    const response: APIResponse<ModificationResult[]> = {
-      success: allSuccessful,
-      data: results,
-      ...(allSuccessful
-        ? {}
-        : {
-            error: {
-              code: 'PARTIAL_FAILURE',
-              message: 'Some modifications failed',
-            },
-          }),
+    const response: APIResponse<Job> = {
+      success: true,
+      data: job,
     };
 
-    res.status(allSuccessful ? 200 : 207).json(response);
+    res.status(202).json(response);
   } catch (error) {
     console.error('Batch modification error:', error);
     const response: APIResponse<null> = {
@@ -211,7 +235,9 @@ router.post('/revert', async (req: Request, res: Response) => {
     }
 
     const modifier = getCodeModifier(projectPath);
-    const result = await modifier.revertModification(modificationId);
+    const result = await getJobQueue().withWriteLock(projectPath, () =>
+      modifier.revertModification(modificationId)
+    );
 
     const response: APIResponse<{ reverted: boolean }> = {
       success: result.success,
@@ -246,11 +272,13 @@ router.post('/revert', async (req: Request, res: Response) => {
  */
 router.post('/preview', async (req: Request, res: Response) => {
   try {
-    const { projectPath, filePath, originalCode, modifiedCode } = req.body as {
+    const { projectPath, filePath, originalCode, modifiedCode, lineStart, lineEnd } = req.body as {
       projectPath?: string;
       filePath: string;
       originalCode: string;
       modifiedCode: string;
+      lineStart?: number;
+      lineEnd?: number;
     };
 
     if (!filePath || !originalCode || !modifiedCode) {
@@ -281,15 +309,30 @@ router.post('/preview', async (req: Request, res: Response) => {
     }
 
     const modifier = getCodeModifier(projectPath);
-    const preview = modifier.previewModification(
+    const preview = await modifier.previewModification(
       currentContent.content,
       originalCode,
-      modifiedCode
+      modifiedCode,
+      {
+        filename: filePath,
+        ...(lineStart !== undefined && { lineStart }),
+        ...(lineEnd !== undefined && { lineEnd }),
+      }
     );
 
-    const response: APIResponse<{ preview: string | undefined }> = {
+    const response: APIResponse<{
+      preview: string | undefined;
+      patch: PatchReport | undefined;
+      conflict: PatchConflict | undefined;
+      format: FormatReport | undefined;
+    }> = {
       success: preview.success,
-      data: { preview: preview.preview },
+      data: {
+        preview: preview.preview,
+        patch: preview.patch,
+        conflict: preview.conflict,
+        format: preview.format,
+      },
       ...(preview.success
         ? {}
         : {
@@ -315,20 +358,191 @@ router.post('/preview', async (req: Request, res: Response) => {
 });
 
 /**
- * GET /api/modification/history
- * Get modification history
+ * POST /api/modification/changeset/preview
+ * Preview every file a changeset touches. Accepts a changeset, or a
+ * suggestion with extra files plus the file it was made for.
  */
-router.get('/history', async (req: Request, res: Response) => {
+router.post('/changeset/preview', async (req: Request, res: Response) => {
   try {
-    const { projectPath, filePath } = req.query as {
+    const { projectPath, changeset, filePath, suggestion, allowBreakingChanges } = req.body as {
       projectPath?: string;
+      changeset?: Changeset;
       filePath?: string;
+      suggestion?: CodeSuggestion;
+      allowBreakingChanges?: boolean;
+    };
+
+    const modifier = getCodeModifier(projectPath);
+    const target =
+      changeset ?? (filePath && suggestion ? modifier.changesetFromSuggestion(filePath, suggestion) : null);
+
+    if (!target || !Array.isArray(target.changes)) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required fields: changeset, or filePath and suggestion',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = await modifier.previewChangeset(target, Boolean(allowBreakingChanges));
+
+    const response: APIResponse<ChangesetResult> = {
+      success: result.success,
+      data: result,
+      ...(result.success
+        ? {}
+        : {
+            error: {
+              code: 'PREVIEW_FAILED',
+              message: result.error || 'Preview generation failed',
+            },
+          }),
+    };
+
+    res.status(result.success ? 200 : 400).json(response);
+  } catch (error) {
+    console.error('Changeset preview error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'PREVIEW_ERROR',
+        message: error instanceof Error ? error.message : 'Preview failed',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * POST /api/modification/changeset
+ * Apply a multi-file changeset atomically
+ */
+router.post('/changeset', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, ...request } = req.body as ChangesetRequest & {
+      projectPath?: string;
     };
 
+    if (!request.changeset?.id || !Array.isArray(request.changeset.changes)) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required fields: changeset.id, changeset.changes',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const modifier = getCodeModifier(projectPath);
+    const result = await getJobQueue().withWriteLock(projectPath, () => modifier.applyChangeset(request));
+
+    const response: APIResponse<ChangesetResult> = {
+      success: result.success,
+      data: result,
+      ...(result.success
+        ? {}
+        : {
+            error: {
+              code: 'MODIFICATION_FAILED',
+              message: result.error || 'Changeset failed',
+            },
+          }),
+    };
+
+    res.status(result.success ? 200 : 400).json(response);
+  } catch (error) {
+    console.error('Changeset error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'MODIFICATION_ERROR',
+        message: error instanceof Error ? error.message : 'Changeset failed',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+const HISTORY_STATUSES: ModificationStatus[] = ['applied', 'reverted', 'rejected'];
+
+/**
+ * Parse history filters from the query string, returning an error message
+ * for the first invalid one
+ */
+function parseHistoryQuery(
+  params: Record<string, string | undefined>,
+  customCategories: CustomCategoryConfig[]
+): { query: HistoryQuery } | { error: string } {
+  const query: HistoryQuery = {};
+
+  if (params.filePath) query.filePath = params.filePath;
+  if (params.componentName) query.componentName = params.componentName;
+
+  if (params.category) {
+    if (!isKnownCategory(params.category, customCategories)) {
+      return { error: `Invalid category: ${params.category}` };
+    }
+    query.category = params.category;
+  }
+
+  if (params.status) {
+    if (!HISTORY_STATUSES.includes(params.status as ModificationStatus)) {
+      return { error: `Invalid status: ${params.status}` };
+    }
+    query.status = params.status as ModificationStatus;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params[key];
+    if (!value) continue;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      return { error: `Invalid date for ${key}: ${value}` };
+    }
+    query[key] = date;
+  }
+
+  if (params.limit) {
+    const limit = Number(params.limit);
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: `Invalid limit: ${params.limit}` };
+    }
+    query.limit = limit;
+  }
+
+  return { query };
+}
+
+/**
+ * GET /api/modification/history
+ * Get modification history, filtered by filePath, componentName, category,
+ * status, from/to (ISO dates) and limit
+ */
+router.get('/history', async (req: Request, res: Response) => {
+  try {
+    const { projectPath, ...params } = req.query as Record<string, string | undefined>;
+
+    const parsed = parseHistoryQuery(params, getConfig(getProject(projectPath).root).optimization.customCategories);
+    if ('error' in parsed) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: parsed.error,
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
     const modifier = getCodeModifier(projectPath);
-    const history = filePath
-      ? modifier.getFileHistory(filePath)
-      : modifier.getHistory();
+    const history = modifier.getHistory(parsed.query);
 
     const response: APIResponse<typeof history> = {
       success: true,
@@ -386,21 +600,22 @@ router.get('/backups', async (req: Request, res: Response) => {
 
 /**
  * POST /api/modification/restore
- * Restore from a backup
+ * Restore from a backup, or every file in a backup group
  */
 router.post('/restore', async (req: Request, res: Response) => {
   try {
-    const { projectPath, backupId } = req.body as {
+    const { projectPath, backupId, backupGroupId } = req.body as {
       projectPath?: string;
-      backupId: string;
+      backupId?: string;
+      backupGroupId?: string;
     };
 
-    if (!backupId) {
+    if (!backupId && !backupGroupId) {
       const response: APIResponse<null> = {
         success: false,
         error: {
           code: 'INVALID_REQUEST',
-          message: 'Missing required field: backupId',
+          message: 'Missing required field: backupId or backupGroupId',
         },
       };
       res.status(400).json(response);
@@ -408,7 +623,9 @@ router.post('/restore', async (req: Request, res: Response) => {
     }
 
     const backup = getBackupService(projectPath);
-    const result = await backup.restoreBackup(backupId);
+    const result = await getJobQueue().withWriteLock(projectPath, () =>
+      backupGroupId ? backup.restoreBackupGroup(backupGroupId) : backup.restoreBackup(backupId!)
+    );
 
     const response: APIResponse<{ restored: boolean }> = {
       success: result.success,
@@ -0,0 +1,116 @@
+/**
+ * Project Routes
+ *
+ * Lists and registers the projects this server is working with, so
+ * several projects can be inspected side by side.
+ */
+
+import { Router, Request, Response } from 'express';
+import { getProjectRegistry } from '../services/projectRegistry.js';
+import type { APIResponse, ProjectInfo } from '../types/index.js';
+
+const router = Router();
+
+/**
+ * GET /api/projects
+ * List registered projects, most recently used first
+ */
+router.get('/', (_req: Request, res: Response) => {
+  const response: APIResponse<ProjectInfo[]> = {
+    success: true,
+    data: getProjectRegistry().list(),
+  };
+
+  res.json(response);
+});
+
+/**
+ * POST /api/projects
+ * Register a project root
+ */
+router.post('/', (req: Request, res: Response) => {
+  try {
+    const { projectPath, name, makeDefault } = req.body as {
+      projectPath: string;
+      name?: string;
+      makeDefault?: boolean;
+    };
+
+    if (!projectPath) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Missing required field: projectPath',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const result = getProjectRegistry().register(projectPath, {
+      ...(name && { name }),
+      ...(makeDefault !== undefined && { makeDefault }),
+    });
+
+    if (!result.success || !result.project) {
+      const response: APIResponse<null> = {
+        success: false,
+        error: {
+          code: 'INVALID_PROJECT',
+          message: result.error || 'Failed to register project',
+        },
+      };
+      res.status(400).json(response);
+      return;
+    }
+
+    const response: APIResponse<ProjectInfo> = {
+      success: true,
+      data: result.project,
+    };
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Project registration error:', error);
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'PROJECT_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to register project',
+      },
+    };
+    res.status(500).json(response);
+  }
+});
+
+/**
+ * DELETE /api/projects
+ * Unregister a project and release its services
+ */
+router.delete('/', (req: Request, res: Response) => {
+  const projectPath = (req.query.projectPath as string) || (req.body as { projectPath?: string })?.projectPath;
+
+  if (!projectPath) {
+    const response: APIResponse<null> = {
+      success: false,
+      error: {
+        code: 'INVALID_REQUEST',
+        message: 'projectPath is required',
+      },
+    };
+    res.status(400).json(response);
+    return;
+  }
+
+  const removed = getProjectRegistry().unregister(projectPath);
+
+  const response: APIResponse<{ removed: boolean }> = {
+    success: true,
+    data: { removed },
+  };
+
+  res.json(response);
+});
+
+export default router;
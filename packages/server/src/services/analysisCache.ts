@@ -0,0 +1,159 @@
+import { createHash } from 'crypto';
+import {
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  renameSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { getConfig } from '../config/index.js';
+import { getProject } from './projectRegistry.js';
+import { PROMPT_VERSION } from '../utils/prompts.js';
+import type {
+  CodeAnalysis,
+  CodeSuggestion,
+  OptimizationCategory,
+  PromptOverrides,
+} from '../types/index.js';
+
+/** What makes two analyses interchangeable */
+export interface AnalysisCacheKey {
+  model: string;
+  /** The project's prompt templates, part of the template version */
+  prompts?: PromptOverrides;
+  code: string;
+  goal: string;
+  category?: OptimizationCategory;
+}
+
+export interface CachedAnalysis {
+  analysis: CodeAnalysis;
+  suggestions: CodeSuggestion[];
+  createdAt: Date;
+}
+
+interface CacheFile {
+  createdAt: string;
+  model: string;
+  analysis: CodeAnalysis;
+  suggestions: CodeSuggestion[];
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+/**
+ * Analysis Cache. Stores the LLM's answer to an analysis on disk, one file
+ * per key next to the backup manifest. The key covers the model, the prompt template
+ * version, a hash of the component's code, the goal and the category, so
+ * re-selecting an unchanged component doesn't pay for the same answer
+ * twice. Runtime context such as props or render profiles is not part of
+ * the key. Entries expire after llm.cache.ttlHours, and the oldest are
+ * removed once the cache grows beyond llm.cache.maxSizeMB.
+ */
+export class AnalysisCache {
+  private projectPath: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+  }
+
+  isEnabled(): boolean {
+    return getConfig(this.projectPath).llm.cache.enabled;
+  }
+
+  get(key: AnalysisCacheKey): CachedAnalysis | null {
+    const filePath = join(this.dir(), `${this.hash(key)}.json`);
+    if (!existsSync(filePath)) {
+      return null;
+    }
+
+    try {
+      const file = JSON.parse(readFileSync(filePath, 'utf-8')) as CacheFile;
+      const createdAt = new Date(file.createdAt);
+      if (Date.now() - createdAt.getTime() > this.ttl()) {
+        unlinkSync(filePath);
+        return null;
+      }
+      return { analysis: file.analysis, suggestions: file.suggestions, createdAt };
+    } catch (error) {
+      console.warn(`Ignoring unreadable analysis cache entry ${filePath}:`, error);
+      return null;
+    }
+  }
+
+  set(key: AnalysisCacheKey, value: { analysis: CodeAnalysis; suggestions: CodeSuggestion[] }): void {
+    const dir = this.dir();
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const file: CacheFile = {
+      createdAt: new Date().toISOString(),
+      model: key.model,
+      analysis: value.analysis,
+      suggestions: value.suggestions,
+    };
+
+    const filePath = join(dir, `${this.hash(key)}.json`);
+    const tempPath = `${filePath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file));
+    renameSync(tempPath, filePath);
+
+    this.prune();
+  }
+
+  /**
+   * Remove expired entries, then the oldest ones until the cache fits
+   * within its size limit
+   */
+  private prune(): void {
+    const dir = this.dir();
+    const { maxSizeMB } = getConfig(this.projectPath).llm.cache;
+    const now = Date.now();
+
+    const entries = readdirSync(dir)
+      .filter((name) => name.endsWith('.json'))
+      .map((name) => {
+        const path = join(dir, name);
+        const stats = statSync(path);
+        return { path, size: stats.size, modifiedAt: stats.mtimeMs };
+      })
+      .sort((a, b) => b.modifiedAt - a.modifiedAt);
+
+    let totalSize = 0;
+    for (const entry of entries) {
+      const expired = now - entry.modifiedAt > this.ttl();
+      if (!expired) {
+        totalSize += entry.size;
+      }
+      if (expired || totalSize > maxSizeMB * 1024 * 1024) {
+        unlinkSync(entry.path);
+      }
+    }
+  }
+
+  private hash(key: AnalysisCacheKey): string {
+    const templateVersion = sha256(`${PROMPT_VERSION}:${JSON.stringify(key.prompts ?? {})}`);
+    return sha256(
+      JSON.stringify([key.model, templateVersion, sha256(key.code), key.goal, key.category ?? null])
+    );
+  }
+
+  private dir(): string {
+    return join(this.projectPath, getConfig(this.projectPath).backup.backupDir, 'analysis-cache');
+  }
+
+  private ttl(): number {
+    return getConfig(this.projectPath).llm.cache.ttlHours * 60 * 60 * 1000;
+  }
+}
+
+export function getAnalysisCache(projectPath?: string): AnalysisCache {
+  return getProject(projectPath).service('analysisCache', (root) => new AnalysisCache(root));
+}
@@ -0,0 +1,364 @@
+import { randomUUID } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { getConfig } from '../config/index.js';
+import { getCodeAnalyzer, type CodeAnalyzerService } from './codeAnalyzer.js';
+import { getFileSystemService } from './fileSystem.js';
+import { getLLMService } from './llmService.js';
+import { getProject } from './projectRegistry.js';
+import { getPromptTemplates } from './promptTemplates.js';
+import { rankAuditResults, renderAuditHtml, scoreIssues } from '../utils/auditReport.js';
+import { extractComponentCode } from '../utils/parser.js';
+import type {
+  AuditFileResult,
+  AuditReport,
+  AuditRequest,
+  AuditSummary,
+} from '../types/index.js';
+
+/** Upper bound on files analyzed at once, whatever the request asks for */
+const MAX_CONCURRENCY = 8;
+
+/** Highest-ranked components sent to the batch prompt for recommendations */
+const MAX_RECOMMENDATION_COMPONENTS = 5;
+
+/**
+ * Callbacks for a running audit, e.g. to forward progress over WebSocket
+ */
+export interface AuditListener {
+  onProgress?: (summary: AuditSummary, result: AuditFileResult) => void;
+  onComplete?: (summary: AuditSummary) => void;
+  onError?: (summary: AuditSummary, message: string) => void;
+}
+
+/**
+ * Audit Service. Analyzes every React file in the project with limited
+ * concurrency and a token budget. The report is saved after each file, so
+ * an audit that was stopped, ran out of budget or was interrupted by a
+ * restart can be resumed where it left off.
+ */
+export class AuditService {
+  private projectPath: string;
+  private auditDir: string;
+  /** Audits running in this process; `stopped` is checked before each file */
+  private running = new Map<string, { stopped: boolean }>();
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+    const config = getConfig(this.projectPath);
+    this.auditDir = join(projectPath, config.backup.backupDir, 'audits');
+  }
+
+  /**
+   * Start an audit of every React file. Returns once the report is saved;
+   * files are analyzed in the background.
+   */
+  start(request: AuditRequest, listener: AuditListener = {}): AuditReport {
+    const config = getConfig(this.projectPath);
+    const fs = getFileSystemService(this.projectPath);
+    const now = new Date();
+
+    const report: AuditReport = {
+      id: randomUUID(),
+      optimizationGoal: request.optimizationGoal,
+      ...(request.category && { category: request.category }),
+      status: 'running',
+      createdAt: now,
+      updatedAt: now,
+      concurrency: this.clampConcurrency(request.concurrency ?? config.audit.concurrency),
+      tokenBudget: request.tokenBudget ?? config.audit.tokenBudget,
+      tokensUsed: 0,
+      filePaths: fs.findReactFiles().map((file) => file.relativePath).sort(),
+      results: [],
+      ranking: [],
+      recommendations: [],
+    };
+
+    this.save(report);
+    this.launch(report, listener);
+    return report;
+  }
+
+  /**
+   * Continue an audit with the files that have not been analyzed yet,
+   * including ones that failed. A new budget replaces the old one.
+   */
+  resume(
+    id: string,
+    options: { tokenBudget?: number; concurrency?: number } = {},
+    listener: AuditListener = {}
+  ): { success: boolean; report?: AuditReport; error?: string } {
+    const report = this.get(id);
+
+    if (!report) {
+      return { success: false, error: 'Audit not found' };
+    }
+    if (this.running.has(id)) {
+      return { success: false, error: 'Audit is already running' };
+    }
+    if (report.status === 'completed' && report.results.every((r) => r.status === 'done')) {
+      return { success: false, error: 'Audit is already complete' };
+    }
+
+    if (options.tokenBudget !== undefined) {
+      report.tokenBudget = options.tokenBudget;
+    }
+    if (options.concurrency !== undefined) {
+      report.concurrency = this.clampConcurrency(options.concurrency);
+    }
+    if (report.tokensUsed >= report.tokenBudget) {
+      return { success: false, error: `Token budget of ${report.tokenBudget} is already used up` };
+    }
+
+    report.status = 'running';
+    report.updatedAt = new Date();
+    this.save(report);
+    this.launch(report, listener);
+    return { success: true, report };
+  }
+
+  /**
+   * Stop a running audit after the files in progress finish
+   */
+  stop(id: string): boolean {
+    const handle = this.running.get(id);
+    if (!handle) {
+      return false;
+    }
+    handle.stopped = true;
+    return true;
+  }
+
+  /**
+   * Load a saved report. A report saved as running that isn't running in
+   * this process was interrupted, and is reported as paused.
+   */
+  get(id: string): AuditReport | null {
+    // Ids become file names
+    if (!/^[\w-]+$/.test(id)) {
+      return null;
+    }
+
+    const reportPath = join(this.auditDir, `${id}.json`);
+    if (!existsSync(reportPath)) {
+      return null;
+    }
+
+    try {
+      const report = JSON.parse(readFileSync(reportPath, 'utf-8')) as AuditReport;
+      // JSON stores dates as strings
+      report.createdAt = new Date(report.createdAt);
+      report.updatedAt = new Date(report.updatedAt);
+      report.results = report.results.map((r) => ({ ...r, analyzedAt: new Date(r.analyzedAt) }));
+
+      if (report.status === 'running' && !this.running.has(id)) {
+        report.status = 'paused';
+      }
+      return report;
+    } catch (error) {
+      console.warn(`Failed to read audit report at ${reportPath}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * All saved audits, newest first
+   */
+  list(): AuditSummary[] {
+    if (!existsSync(this.auditDir)) {
+      return [];
+    }
+
+    return readdirSync(this.auditDir)
+      .filter((file) => file.endsWith('.json'))
+      .map((file) => this.get(file.slice(0, -'.json'.length)))
+      .filter((report): report is AuditReport => report !== null)
+      .map((report) => this.summarize(report))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  summarize(report: AuditReport): AuditSummary {
+    return {
+      id: report.id,
+      optimizationGoal: report.optimizationGoal,
+      status: report.status,
+      createdAt: report.createdAt,
+      updatedAt: report.updatedAt,
+      totalFiles: report.filePaths.length,
+      completedFiles: report.results.filter((r) => r.status === 'done').length,
+      failedFiles: report.results.filter((r) => r.status === 'failed').length,
+      tokensUsed: report.tokensUsed,
+      tokenBudget: report.tokenBudget,
+    };
+  }
+
+  /**
+   * Run an audit in the background and report how it ended to the listener
+   */
+  private launch(report: AuditReport, listener: AuditListener): void {
+    const handle = { stopped: false };
+    this.running.set(report.id, handle);
+
+    this.run(report, handle, listener)
+      .then(() => {
+        // Cleared before listeners run, so they can resume straight away
+        this.running.delete(report.id);
+        listener.onComplete?.(this.summarize(report));
+      })
+      .catch((error) => {
+        console.error(`Audit ${report.id} failed:`, error);
+        this.running.delete(report.id);
+        report.status = 'paused';
+        report.updatedAt = new Date();
+        this.save(report);
+        listener.onError?.(this.summarize(report), error instanceof Error ? error.message : 'Audit failed');
+      });
+  }
+
+  /**
+   * Analyze the remaining files with a pool of workers. The budget is
+   * checked before each file starts, so files already in flight may take
+   * the total slightly over it.
+   */
+  private async run(
+    report: AuditReport,
+    handle: { stopped: boolean },
+    listener: AuditListener
+  ): Promise<void> {
+    const analyzer = getCodeAnalyzer(this.projectPath);
+    const done = new Set(report.results.filter((r) => r.status === 'done').map((r) => r.filePath));
+    const queue = report.filePaths.filter((filePath) => !done.has(filePath));
+    const overBudget = () => report.tokensUsed >= report.tokenBudget;
+
+    const worker = async () => {
+      while (!handle.stopped && !overBudget()) {
+        const filePath = queue.shift();
+        if (filePath === undefined) return;
+
+        const result = await this.analyzeFile(analyzer, report, filePath);
+        report.results = [...report.results.filter((r) => r.filePath !== filePath), result];
+        report.tokensUsed += result.tokensUsed;
+        report.ranking = rankAuditResults(report.results);
+        report.updatedAt = new Date();
+        this.save(report);
+        listener.onProgress?.(this.summarize(report), result);
+      }
+    };
+    await Promise.all(Array.from({ length: report.concurrency }, worker));
+
+    if (queue.length > 0) {
+      report.status = handle.stopped ? 'paused' : 'budget-exceeded';
+    } else {
+      if (!overBudget()) {
+        report.recommendations = await this.recommend(report);
+      }
+      report.status = 'completed';
+    }
+
+    report.updatedAt = new Date();
+    this.save(report);
+  }
+
+  /**
+   * Analyze one file. Failures are recorded in the result, not thrown.
+   */
+  private async analyzeFile(
+    analyzer: CodeAnalyzerService,
+    report: AuditReport,
+    filePath: string
+  ): Promise<AuditFileResult> {
+    try {
+      const analysis = await analyzer.analyzeFile(filePath, report.optimizationGoal, report.category, { route: '/analysis/audits' });
+      const issues = analysis.analysis.issues;
+
+      return {
+        filePath,
+        componentName: analysis.componentName,
+        status: 'done',
+        summary: analysis.analysis.summary,
+        issues,
+        suggestions: analysis.suggestions,
+        tokensUsed: analysis.usage ? analysis.usage.inputTokens + analysis.usage.outputTokens : 0,
+        score: scoreIssues(issues),
+        analyzedAt: new Date(),
+      };
+    } catch (error) {
+      return {
+        filePath,
+        componentName: 'Unknown',
+        status: 'failed',
+        issues: [],
+        suggestions: [],
+        error: error instanceof Error ? error.message : 'Analysis failed',
+        tokensUsed: 0,
+        score: 0,
+        analyzedAt: new Date(),
+      };
+    }
+  }
+
+  /**
+   * Cross-component recommendations for the highest-ranked components,
+   * from the batch analysis prompt
+   */
+  private async recommend(report: AuditReport): Promise<string[]> {
+    const llm = getLLMService();
+    if (!llm.isAvailable()) {
+      return [];
+    }
+
+    const fs = getFileSystemService(this.projectPath);
+    const components = report.ranking
+      .filter((entry) => entry.score > 0)
+      .slice(0, MAX_RECOMMENDATION_COMPONENTS)
+      .flatMap((entry) => {
+        const read = fs.readFile(entry.filePath);
+        if (!read.success || !read.content) return [];
+        const code = extractComponentCode(read.content, entry.componentName, entry.filePath) ?? read.content;
+        return [{ name: entry.componentName, filePath: entry.filePath, code }];
+      });
+
+    // Patterns across components need more than one component
+    if (components.length < 2) {
+      return [];
+    }
+
+    try {
+      const { recommendations, usage } = await llm.analyzeBatch({
+        components,
+        goal: report.optimizationGoal,
+        prompts: getPromptTemplates(this.projectPath).load().overrides,
+        context: { projectPath: this.projectPath, route: '/analysis/audits' },
+      });
+      report.tokensUsed += usage.inputTokens + usage.outputTokens;
+      return recommendations;
+    } catch (error) {
+      console.warn(`Audit ${report.id}: batch recommendations failed:`, error);
+      return [];
+    }
+  }
+
+  private clampConcurrency(concurrency: number): number {
+    return Math.min(Math.max(Math.floor(concurrency) || 1, 1), MAX_CONCURRENCY);
+  }
+
+  /**
+   * Write the JSON report atomically, plus an HTML copy beside it
+   */
+  private save(report: AuditReport): void {
+    if (!existsSync(this.auditDir)) {
+      mkdirSync(this.auditDir, { recursive: true });
+    }
+
+    const reportPath = join(this.auditDir, `${report.id}.json`);
+    const tempPath = `${reportPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(report, null, 2));
+    renameSync(tempPath, reportPath);
+
+    writeFileSync(join(this.auditDir, `${report.id}.html`), renderAuditHtml(report));
+  }
+}
+
+export function getAuditService(projectPath?: string): AuditService {
+  return getProject(projectPath).service('audit', (root) => new AuditService(root));
+}
@@ -11,6 +11,7 @@ import {
 import { join, basename } from 'path';
 import { getConfig } from '../config/index.js';
 import { getFileSystemService } from './fileSystem.js';
+import { getProject } from './projectRegistry.js';
 import type { BackupEntry } from '../types/index.js';
 
 interface BackupManifest {
@@ -29,7 +30,7 @@ export class BackupService {
 
   constructor(projectPath: string) {
     this.projectPath = projectPath;
-    const config = getConfig();
+    const config = getConfig(this.projectPath);
     this.backupDir = join(projectPath, config.backup.backupDir);
     this.manifestPath = join(this.backupDir, 'manifest.json');
     this.manifest = this.loadManifest();
@@ -69,7 +70,7 @@ export class BackupService {
     filePath: string,
     reason: string
   ): Promise<BackupEntry | null> {
-    const config = getConfig();
+    const config = getConfig(this.projectPath);
 
     if (!config.backup.enabled) {
       return null;
@@ -83,29 +84,8 @@ export class BackupService {
       return null;
     }
 
-    // Generate unique backup filename
-    const id = randomUUID();
-    const timestamp = new Date();
-    const originalName = basename(filePath);
-    const backupFileName = `${timestamp.getTime()}-${id}-${originalName}`;
-    const backupPath = join(this.backupDir, backupFileName);
-
     try {
-      // Write backup file
-      writeFileSync(backupPath, readResult.content, 'utf-8');
-
-      // Create backup entry
-      const entry: BackupEntry = {
-        id,
-        filePath,
-        backupPath,
-        timestamp,
-        originalContent: readResult.content,
-        reason,
-      };
-
-      // Add to manifest
-      this.manifest.entries.push(entry);
+      const entry = this.writeEntry(filePath, readResult.content, reason);
 
       // Enforce max backups limit
       await this.enforceMaxBackups();
@@ -120,6 +100,86 @@ export class BackupService {
     }
   }
 
+  /**
+   * Back up several files as one group, so a multi-file change can be
+   * restored in one step. Files that don't exist yet are recorded too;
+   * restoring the group deletes them. Returns the group id.
+   */
+  async createBackupGroup(filePaths: string[], reason: string): Promise<string | null> {
+    const config = getConfig(this.projectPath);
+
+    if (!config.backup.enabled) {
+      return null;
+    }
+
+    const fs = getFileSystemService(this.projectPath);
+    const groupId = randomUUID();
+    const group = { groupId, groupSize: filePaths.length };
+    const entries: BackupEntry[] = [];
+
+    try {
+      for (const filePath of filePaths) {
+        if (!fs.exists(filePath)) {
+          entries.push(this.writeEntry(filePath, '', reason, { ...group, absent: true }));
+          continue;
+        }
+
+        const readResult = fs.readFile(filePath);
+        if (!readResult.success || readResult.content === undefined) {
+          throw new Error(readResult.error || `Failed to read ${filePath}`);
+        }
+        entries.push(this.writeEntry(filePath, readResult.content, reason, group));
+      }
+    } catch (error) {
+      console.error(`Failed to create backup group: ${error}`);
+      entries.forEach((entry) => this.deleteBackup(entry.id));
+      return null;
+    }
+
+    // A group must survive whole, so trimming happens after it is complete
+    // and never removes the group just taken
+    await this.enforceMaxBackups(groupId);
+    this.saveManifest();
+
+    return groupId;
+  }
+
+  /**
+   * Write a backup file and add its manifest entry (the manifest is saved
+   * by the caller)
+   */
+  private writeEntry(
+    filePath: string,
+    content: string,
+    reason: string,
+    group: { groupId: string; groupSize: number; absent?: boolean } | null = null
+  ): BackupEntry {
+    // Generate unique backup filename
+    const id = randomUUID();
+    const timestamp = new Date();
+    const originalName = basename(filePath);
+    const backupFileName = `${timestamp.getTime()}-${id}-${originalName}`;
+    const backupPath = join(this.backupDir, backupFileName);
+
+    if (!group?.absent) {
+      writeFileSync(backupPath, content, 'utf-8');
+    }
+
+    const entry: BackupEntry = {
+      id,
+      filePath,
+      backupPath,
+      timestamp,
+      originalContent: content,
+      reason,
+      ...(group && { groupId: group.groupId, groupSize: group.groupSize }),
+      ...(group?.absent && { absent: true }),
+    };
+
+    this.manifest.entries.push(entry);
+    return entry;
+  }
+
   /**
    * Restore a file from a backup
    */
@@ -133,6 +193,10 @@ export class BackupService {
       return { success: false, error: 'Backup not found' };
     }
 
+    if (entry.absent) {
+      return getFileSystemService(this.projectPath).deleteFile(entry.filePath);
+    }
+
     try {
       // Read backup content
       let content: string;
@@ -165,6 +229,49 @@ export class BackupService {
     }
   }
 
+  /**
+   * Restore every file in a backup group. All files are attempted even if
+   * one fails, so the project ends up as close to the original as possible.
+   * A group that has lost some of its backups is not restored at all, since
+   * restoring part of it (e.g. only deleting the new file of a rename) would
+   * lose data.
+   */
+  async restoreBackupGroup(groupId: string): Promise<{
+    success: boolean;
+    error?: string;
+  }> {
+    const entries = this.getBackupGroup(groupId);
+
+    if (entries.length === 0) {
+      return { success: false, error: 'Backup group not found' };
+    }
+
+    const expected = entries[0]?.groupSize;
+    if (expected !== undefined && entries.length < expected) {
+      return {
+        success: false,
+        error: `Backup group is incomplete: ${entries.length} of ${expected} backups remain`,
+      };
+    }
+
+    const errors: string[] = [];
+    for (const entry of entries) {
+      const result = await this.restoreBackup(entry.id);
+      if (!result.success) {
+        errors.push(`${entry.filePath}: ${result.error || 'restore failed'}`);
+      }
+    }
+
+    return errors.length === 0 ? { success: true } : { success: false, error: errors.join('; ') };
+  }
+
+  /**
+   * Get the backups taken together for one changeset
+   */
+  getBackupGroup(groupId: string): BackupEntry[] {
+    return this.manifest.entries.filter((e) => e.groupId === groupId);
+  }
+
   /**
    * Get all backups for a specific file
    */
@@ -220,21 +327,34 @@ export class BackupService {
   }
 
   /**
-   * Enforce maximum backup limit
+   * Enforce maximum backup limit. The oldest backups go first; a group is
+   * removed whole, and `keepGroupId` is never removed, even if it alone
+   * exceeds the limit.
    */
-  private async enforceMaxBackups(): Promise<void> {
-    const config = getConfig();
+  private async enforceMaxBackups(keepGroupId?: string): Promise<void> {
+    const config = getConfig(this.projectPath);
     const maxBackups = config.backup.maxBackups;
 
     while (this.manifest.entries.length > maxBackups) {
-      // Remove oldest backup
-      const oldest = this.manifest.entries.shift();
-      if (oldest && existsSync(oldest.backupPath)) {
-        try {
-          unlinkSync(oldest.backupPath);
-        } catch {
-          // Ignore errors
-        }
+      const oldest = this.manifest.entries.find((e) => !keepGroupId || e.groupId !== keepGroupId);
+      if (!oldest) {
+        break;
+      }
+
+      const evicted = oldest.groupId
+        ? this.manifest.entries.filter((e) => e.groupId === oldest.groupId)
+        : [oldest];
+      this.manifest.entries = this.manifest.entries.filter((e) => !evicted.includes(e));
+      evicted.forEach((entry) => this.removeBackupFile(entry));
+    }
+  }
+
+  private removeBackupFile(entry: BackupEntry): void {
+    if (existsSync(entry.backupPath)) {
+      try {
+        unlinkSync(entry.backupPath);
+      } catch {
+        // Ignore errors
       }
     }
   }
@@ -248,17 +368,18 @@ export class BackupService {
 
     let deletedCount = 0;
 
+    // A group goes as soon as any of its backups is old enough, so it is
+    // never split
+    const expiredGroups = new Set(
+      this.manifest.entries
+        .filter((entry) => entry.groupId && new Date(entry.timestamp) < cutoffDate)
+        .map((entry) => entry.groupId)
+    );
+
     this.manifest.entries = this.manifest.entries.filter((entry) => {
       const entryDate = new Date(entry.timestamp);
-      if (entryDate < cutoffDate) {
-        // Delete backup file
-        if (existsSync(entry.backupPath)) {
-          try {
-            unlinkSync(entry.backupPath);
-          } catch {
-            // Ignore errors
-          }
-        }
+      if (entryDate < cutoffDate || (entry.groupId && expiredGroups.has(entry.groupId))) {
+        this.removeBackupFile(entry);
         deletedCount++;
         return false;
       }
@@ -329,7 +450,7 @@ export class BackupService {
     const issues: string[] = [];
 
     this.manifest.entries.forEach((entry) => {
-      if (!existsSync(entry.backupPath)) {
+      if (!entry.absent && !existsSync(entry.backupPath)) {
         if (!entry.originalContent) {
           issues.push(`Backup file missing and no cached content: ${entry.id}`);
         }
@@ -340,9 +461,11 @@ export class BackupService {
     if (existsSync(this.backupDir)) {
       const files = readdirSync(this.backupDir);
       const manifestPaths = new Set(this.manifest.entries.map((e) => basename(e.backupPath)));
+      // Bookkeeping files that live alongside the backups
+      const knownFiles = new Set(['manifest.json', 'history.json', 'audits']);
 
       files.forEach((file) => {
-        if (file !== 'manifest.json' && !manifestPaths.has(file)) {
+        if (!knownFiles.has(file) && !manifestPaths.has(file)) {
           issues.push(`Orphaned backup file: ${file}`);
         }
       });
@@ -355,21 +478,6 @@ export class BackupService {
   }
 }
 
-// Singleton instance
-let defaultInstance: BackupService | null = null;
-
 export function getBackupService(projectPath?: string): BackupService {
-  if (projectPath) {
-    return new BackupService(projectPath);
-  }
-
-  if (!defaultInstance) {
-    defaultInstance = new BackupService(process.cwd());
-  }
-
-  return defaultInstance;
-}
-
-export function setBackupProjectPath(projectPath: string): void {
-  defaultInstance = new BackupService(projectPath);
+  return getProject(projectPath).service('backup', (root) => new BackupService(root));
 }
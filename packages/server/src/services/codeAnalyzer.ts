@@ -1,17 +1,42 @@
 import { randomUUID } from 'crypto';
+import { getConfig } from '../config/index.js';
+import { getAnalysisCache, type AnalysisCacheKey } from './analysisCache.js';
 import { getFileSystemService } from './fileSystem.js';
-import { getLLMService } from './llmService.js';
-import { analyzeReactComponent, extractComponentCode } from '../utils/parser.js';
+import { getLLMService, type AnalyzeComponentParams } from './llmService.js';
+import { getPromptTemplates } from './promptTemplates.js';
+import { getProject } from './projectRegistry.js';
+import { getSourceResolver } from './sourceResolver.js';
+import {
+  analyzeReactComponent,
+  extractComponentCode,
+  findComponentBoundaries,
+} from '../utils/parser.js';
+import { applyDefaultSeverity } from '../utils/categories.js';
+import { buildAnalysisMessages } from '../utils/prompts.js';
+import { findingToIssue, findingToSuggestion, lintCode } from '../utils/ruleEngine.js';
 import type {
+  AccessibilityFinding,
   AnalysisRequest,
   AnalysisResult,
   CodeSuggestion,
   ElementInfo,
   CodeAnalysis,
+  CodeIssue,
   CodeMetrics,
   OptimizationCategory,
+  PromptPreview,
 } from '../types/index.js';
 
+/**
+ * Whether a request asks for performance work, by category or goal text
+ */
+function isPerformanceGoal(request: AnalysisRequest): boolean {
+  return (
+    request.category === 'performance' ||
+    /perf|render|slow|memo/i.test(request.optimizationGoal)
+  );
+}
+
 /**
  * Code Analyzer Service for inspecting and analyzing React components
  */
@@ -25,9 +50,135 @@ export class CodeAnalyzerService {
   /**
    * Analyze an element and its corresponding React component
    */
-  async analyzeElement(request: AnalysisRequest): Promise<AnalysisResult> {
-    const fs = getFileSystemService(this.projectPath);
+  async analyzeElement(
+    request: AnalysisRequest,
+    options: {
+      analysisId?: string;
+      onSuggestion?: (suggestion: CodeSuggestion, index: number) => void;
+      /** Recorded with the LLM usage; defaults to /analysis/element */
+      route?: string;
+    } = {}
+  ): Promise<AnalysisResult> {
     const llm = getLLMService();
+    const {
+      filePath,
+      sourceCode,
+      componentName,
+      componentCode,
+      metrics,
+      promptParams,
+      domFindings,
+    } = await this.prepare(request);
+
+    // Get AI analysis if available
+    let aiAnalysis: {
+      analysis: CodeAnalysis;
+      suggestions: CodeSuggestion[];
+      usage?: AnalysisResult['usage'];
+    };
+    let cachedAt: Date | undefined;
+
+    if (llm.isAvailable()) {
+      const cache = getAnalysisCache(this.projectPath);
+      const cacheKey: AnalysisCacheKey = {
+        model: llm.getProviderInfo()?.model ?? '',
+        ...(promptParams.prompts && { prompts: promptParams.prompts }),
+        code: promptParams.code,
+        goal: promptParams.optimizationGoal,
+        ...(promptParams.category !== undefined && { category: promptParams.category }),
+      };
+      const useCache = cache.isEnabled() && !request.noCache;
+      const hit = useCache ? cache.get(cacheKey) : null;
+
+      if (hit) {
+        // History records suggestions by id, so a replayed answer gets new ones
+        const suggestions = hit.suggestions.map((suggestion) => ({ ...suggestion, id: randomUUID() }));
+        suggestions.forEach((suggestion, index) => options.onSuggestion?.(suggestion, index));
+        aiAnalysis = { analysis: hit.analysis, suggestions };
+        cachedAt = hit.createdAt;
+      } else {
+        aiAnalysis = await llm.analyzeComponent(
+          {
+            ...promptParams,
+            context: {
+              projectPath: this.projectPath,
+              route: options.route ?? '/analysis/element',
+              componentName: promptParams.componentName,
+            },
+          },
+          options.onSuggestion
+        );
+        // A bypassed lookup still refreshes the entry; only the model's own
+        // answer is stored, before the additions below
+        if (cache.isEnabled()) {
+          try {
+            cache.set(cacheKey, { analysis: aiAnalysis.analysis, suggestions: aiAnalysis.suggestions });
+          } catch (error) {
+            console.warn('Failed to cache analysis:', error);
+          }
+        }
+      }
+
+      aiAnalysis.analysis.issues = applyDefaultSeverity(
+        aiAnalysis.analysis.issues,
+        getConfig(this.projectPath).optimization.customCategories
+      );
+
+      // Hook dependency bugs are found reliably by scope analysis, so they are
+      // reported alongside the model's findings
+      const hookFindings = this.runLintRules(sourceCode, filePath, componentName, ['exhaustive-deps']);
+      aiAnalysis.analysis.issues.push(...hookFindings.issues);
+      aiAnalysis.suggestions.push(...hookFindings.suggestions);
+    } else {
+      // Fallback to basic analysis without AI
+      aiAnalysis = this.performBasicAnalysis(sourceCode, metrics, filePath, componentName);
+    }
+
+    aiAnalysis.analysis.issues.push(
+      ...domFindings.map(({ finding, line }) => this.accessibilityIssue(finding, line))
+    );
+
+    return {
+      id: options.analysisId || randomUUID(),
+      timestamp: new Date(),
+      componentName: componentName || 'Unknown',
+      filePath,
+      originalCode: componentCode,
+      analysis: aiAnalysis.analysis,
+      suggestions: aiAnalysis.suggestions,
+      ...(aiAnalysis.usage && { usage: aiAnalysis.usage }),
+      ...(cachedAt && { cached: true, cachedAt }),
+    };
+  }
+
+  /**
+   * Render the prompts an analysis would send, without calling the LLM
+   */
+  async previewPrompt(request: AnalysisRequest): Promise<PromptPreview> {
+    const { promptParams } = await this.prepare(request);
+    const { overrides, files, errors } = getPromptTemplates(this.projectPath).load();
+
+    return {
+      ...buildAnalysisMessages(promptParams, overrides),
+      templates: files,
+      errors,
+    };
+  }
+
+  /**
+   * Resolve and read the component's file and gather everything the
+   * prompt is built from
+   */
+  private async prepare(request: AnalysisRequest): Promise<{
+    filePath: string;
+    sourceCode: string;
+    componentName: string | null;
+    componentCode: string;
+    metrics: CodeMetrics;
+    promptParams: AnalyzeComponentParams;
+    domFindings: Array<{ finding: AccessibilityFinding; line: number }>;
+  }> {
+    const fs = getFileSystemService(this.projectPath);
 
     // Find the source file
     let filePath = request.componentInfo.filePath;
@@ -56,6 +207,13 @@ export class CodeAnalyzerService {
       throw new Error(`Component file path not provided for component: ${name}`);
     }
 
+    // Map the runtime source path (workspace package, Vite /@fs/, alias) to a project file
+    const resolved = getSourceResolver(this.projectPath).resolve(filePath);
+    if (!resolved.success) {
+      throw new Error(resolved.error);
+    }
+    filePath = resolved.source.filePath;
+
     // Read the source file
     const readResult = fs.readFile(filePath);
     if (!readResult.success || !readResult.content) {
@@ -81,129 +239,43 @@ export class CodeAnalyzerService {
       }
     }
 
-    // Get AI analysis if available
-    let aiAnalysis: { analysis: CodeAnalysis; suggestions: CodeSuggestion[] };
+    // DOM findings from JSX in this file become issues at their lines
+    const domFindings = this.findingsInFile(request.accessibilityFindings ?? [], filePath);
 
-    if (llm.isAvailable()) {
-      const analyzeParams: {
-        componentName: string;
-        filePath: string;
-        code: string;
-        optimizationGoal: string;
-        category?: OptimizationCategory;
-        componentInfo?: typeof request.componentInfo;
-        metrics?: typeof parseResult.metrics;
-      } = {
-        componentName: componentName || 'Unknown',
-        filePath,
-        code: componentCode,
-        optimizationGoal: request.optimizationGoal,
-        componentInfo: request.componentInfo,
-        metrics: parseResult.metrics,
-      };
-      if (request.category !== undefined) {
-        analyzeParams.category = request.category;
-      }
-      aiAnalysis = await llm.analyzeComponent(analyzeParams);
-    } else {
-      // Fallback to basic analysis without AI
-      aiAnalysis = this.performBasicAnalysis(componentCode, parseResult.metrics);
-    }
+    const promptParams: AnalyzeComponentParams = {
+      componentName: componentName || 'Unknown',
+      filePath,
+      code: componentCode,
+      optimizationGoal: request.optimizationGoal,
+      ...(request.category !== undefined && { category: request.category }),
+      componentInfo: request.componentInfo,
+      metrics: parseResult.metrics,
+      ...(request.renderProfile && isPerformanceGoal(request) && { renderProfile: request.renderProfile }),
+      ...(domFindings.length > 0 && { accessibilityFindings: domFindings.map(({ finding }) => finding) }),
+      prompts: getPromptTemplates(this.projectPath).load().overrides,
+    };
 
     return {
-      id: randomUUID(),
-      timestamp: new Date(),
-      componentName: componentName || 'Unknown',
       filePath,
-      originalCode: componentCode,
-      analysis: aiAnalysis.analysis,
-      suggestions: aiAnalysis.suggestions,
+      sourceCode,
+      componentName: componentName || null,
+      componentCode,
+      metrics: parseResult.metrics,
+      promptParams,
+      domFindings,
     };
   }
 
   /**
-   * Perform basic analysis without AI
+   * Perform basic analysis without AI: lint rules plus metric thresholds
    */
   private performBasicAnalysis(
-    code: string,
-    metrics: CodeMetrics
+    sourceCode: string,
+    metrics: CodeMetrics,
+    filePath: string,
+    componentName?: string | null
   ): { analysis: CodeAnalysis; suggestions: CodeSuggestion[] } {
-    const issues: CodeAnalysis['issues'] = [];
-    const suggestions: CodeSuggestion[] = [];
-
-    // Check for common issues
-
-    // Check for missing React.memo
-    if (!code.includes('React.memo') && !code.includes('memo(')) {
-      if (code.includes('props') || /function\s+\w+\s*\(\s*{/.test(code)) {
-        suggestions.push({
-          id: `basic-memo-${Date.now()}`,
-          title: 'Consider using React.memo',
-          description:
-            'This component might benefit from memoization to prevent unnecessary re-renders',
-          category: 'performance',
-          priority: 'medium',
-          originalCode: '',
-          modifiedCode: '',
-          explanation:
-            'React.memo can help prevent unnecessary re-renders when props have not changed.',
-          lineStart: 1,
-          lineEnd: 1,
-          confidence: 0.6,
-        });
-      }
-    }
-
-    // Check for inline functions in JSX
-    const inlineFunctionPattern = /onClick=\{.*=>/;
-    if (inlineFunctionPattern.test(code)) {
-      issues.push({
-        type: 'warning',
-        message: 'Inline function in JSX may cause unnecessary re-renders',
-        category: 'performance',
-      });
-    }
-
-    // Check for missing ARIA attributes on interactive elements
-    const buttonWithoutAria = /<button[^>]*(?!aria-)[^>]*>/i;
-    if (buttonWithoutAria.test(code) && !code.includes('aria-label')) {
-      issues.push({
-        type: 'info',
-        message: 'Consider adding ARIA attributes for accessibility',
-        category: 'accessibility',
-      });
-    }
-
-    // Check for console.log
-    if (code.includes('console.log')) {
-      issues.push({
-        type: 'warning',
-        message: 'Console.log statement found - remove before production',
-        category: 'code-quality',
-      });
-    }
-
-    // Check for useEffect without cleanup
-    const useEffectPattern = /useEffect\s*\(\s*\(\)\s*=>\s*\{[^}]*\}\s*,/;
-    const useEffectCleanupPattern = /useEffect\s*\(\s*\(\)\s*=>\s*\{[^}]*return/;
-    if (useEffectPattern.test(code) && !useEffectCleanupPattern.test(code)) {
-      issues.push({
-        type: 'info',
-        message:
-          'useEffect without cleanup function - ensure no subscriptions or timers need cleanup',
-        category: 'code-quality',
-      });
-    }
-
-    // Check for missing key prop in map
-    const mapWithoutKey = /\.map\s*\([^)]*\)\s*=>\s*\(/;
-    if (mapWithoutKey.test(code) && !code.includes('key=')) {
-      issues.push({
-        type: 'warning',
-        message: 'List items may be missing key prop',
-        category: 'performance',
-      });
-    }
+    const { issues, suggestions } = this.runLintRules(sourceCode, filePath, componentName);
 
     // Check for high complexity
     if (metrics.complexity > 15) {
@@ -233,6 +305,78 @@ export class CodeAnalyzerService {
     };
   }
 
+  /**
+   * Run lint rules over the file, keeping findings inside the selected component
+   */
+  private runLintRules(
+    sourceCode: string,
+    filePath: string,
+    componentName?: string | null,
+    rules?: string[]
+  ): { issues: CodeIssue[]; suggestions: CodeSuggestion[] } {
+    const issues: CodeIssue[] = [];
+    const suggestions: CodeSuggestion[] = [];
+
+    const boundary = componentName
+      ? findComponentBoundaries(sourceCode, filePath).find((b) => b.name === componentName)
+      : undefined;
+
+    try {
+      const findings = lintCode(sourceCode, {
+        filename: filePath,
+        ...(boundary && { lines: { start: boundary.start, end: boundary.end } }),
+        ...(rules && { rules }),
+      });
+
+      for (const finding of findings) {
+        issues.push(findingToIssue(finding));
+        const suggestion = findingToSuggestion(sourceCode, finding);
+        if (suggestion) {
+          suggestions.push(suggestion);
+        }
+      }
+    } catch (error) {
+      console.warn(`[CodeAnalyzer] Lint rules failed for ${filePath}:`, error);
+    }
+
+    return { issues, suggestions };
+  }
+
+  /**
+   * Findings whose JSX is in `filePath`, with the line it starts on. Source
+   * paths are runtime paths, so they are resolved like selected elements'.
+   */
+  private findingsInFile(
+    findings: AccessibilityFinding[],
+    filePath: string
+  ): Array<{ finding: AccessibilityFinding; line: number }> {
+    const resolver = getSourceResolver(this.projectPath);
+    const resolved = new Map<string, string | null>();
+
+    return findings.flatMap((finding) => {
+      if (!finding.source) return [];
+
+      const { fileName, lineNumber } = finding.source;
+      if (!resolved.has(fileName)) {
+        const result = resolver.resolve(fileName);
+        resolved.set(fileName, result.success ? result.source.filePath : null);
+      }
+      return resolved.get(fileName) === filePath ? [{ finding, line: lineNumber }] : [];
+    });
+  }
+
+  private accessibilityIssue(finding: AccessibilityFinding, line: number): CodeIssue {
+    return {
+      type: finding.severity,
+      message: finding.message,
+      line,
+      ...(finding.source?.columnNumber !== undefined && { column: finding.source.columnNumber }),
+      category: 'accessibility',
+      ruleId: `a11y/${finding.rule}`,
+      xpath: finding.xpath,
+    };
+  }
+
   /**
    * Find the source file for a component
    */
@@ -284,39 +428,33 @@ export class CodeAnalyzerService {
   }
 
   /**
-   * Batch analyze multiple components
+   * Analyze a whole file without a selected element; the component is the
+   * one the parser finds first
    */
-  async analyzeMultiple(
-    componentPaths: string[],
-    goal: string
-  ): Promise<AnalysisResult[]> {
-    const results: AnalysisResult[] = [];
-
-    for (const filePath of componentPaths) {
-      try {
-        const result = await this.analyzeElement({
-          elementInfo: {} as ElementInfo,
-          componentInfo: {
-            name: '',
-            displayName: null,
-            filePath,
-            lineNumber: null,
-            columnNumber: null,
-            props: {},
-            state: null,
-            hooks: [],
-            fiber: null,
-          },
-          optimizationGoal: goal,
-          projectPath: this.projectPath,
-        });
-        results.push(result);
-      } catch (error) {
-        console.error(`Failed to analyze ${filePath}:`, error);
-      }
-    }
-
-    return results;
+  async analyzeFile(
+    filePath: string,
+    goal: string,
+    category?: OptimizationCategory,
+    options: { route?: string; noCache?: boolean } = {}
+  ): Promise<AnalysisResult> {
+    return this.analyzeElement({
+      elementInfo: {} as ElementInfo,
+      componentInfo: {
+        name: '',
+        displayName: null,
+        filePath,
+        lineNumber: null,
+        columnNumber: null,
+        props: {},
+        state: null,
+        hooks: [],
+        fiber: null,
+      },
+      optimizationGoal: goal,
+      projectPath: this.projectPath,
+      ...(category && { category }),
+      ...(options.noCache && { noCache: true }),
+    }, options.route ? { route: options.route } : {});
   }
 
   /**
@@ -347,21 +485,6 @@ export class CodeAnalyzerService {
   }
 }
 
-// Singleton instance
-let instance: CodeAnalyzerService | null = null;
-
 export function getCodeAnalyzer(projectPath?: string): CodeAnalyzerService {
-  if (projectPath) {
-    return new CodeAnalyzerService(projectPath);
-  }
-
-  if (!instance) {
-    instance = new CodeAnalyzerService(process.cwd());
-  }
-
-  return instance;
-}
-
-export function setAnalyzerProjectPath(projectPath: string): void {
-  instance = new CodeAnalyzerService(projectPath);
+  return getProject(projectPath).service('analyzer', (root) => new CodeAnalyzerService(root));
 }
@@ -2,21 +2,66 @@ import { getFileSystemService } from './fileSystem.js';
 import { getGitService } from './gitService.js';
 import { getBackupService } from './backupService.js';
 import { getLLMService } from './llmService.js';
-import { validateCode, validateModification } from '../utils/validation.js';
+import { getTestRunner } from './testRunner.js';
+import { getFormatter } from './formatter.js';
+import { getHistoryStore } from './historyStore.js';
+import { getProject } from './projectRegistry.js';
+import { preservesPublicAPI, validateCode, validateModification } from '../utils/validation.js';
+import {
+  checkFileTypes,
+  checkFilesTypes,
+  findNewTypeErrors,
+  formatTypeErrors,
+} from '../utils/typeCheck.js';
+import { locatePatch, applyPatch, type PatchHints } from '../utils/patcher.js';
 import { getConfig } from '../config/index.js';
 import type {
+  ApiChange,
   ModificationRequest,
   ModificationResult,
+  Changeset,
+  ChangesetRequest,
+  ChangesetResult,
   CodeSuggestion,
+  FileChangeResult,
+  FormatReport,
+  HistoryQuery,
   ModificationHistory,
+  PatchConflict,
+  PatchReport,
+  TestRunResult,
+  TypeDiagnostic,
+  ValidationResult,
 } from '../types/index.js';
 
+/** One file as a changeset leaves it; null content means the file is absent */
+interface StagedFile {
+  path: string;
+  before: string | null;
+  after: string | null;
+  patch?: PatchReport;
+  format?: FormatReport;
+  validation?: ValidationResult;
+}
+
+/**
+ * A changeset applied in memory. Files are keyed by absolute path, in the
+ * order they were first touched.
+ */
+interface StagedChangeset {
+  success: boolean;
+  error?: string;
+  files: Map<string, StagedFile>;
+  /** Source and destination keys of each rename, for reporting */
+  renames: Array<{ from: string; to: string }>;
+  conflict?: PatchConflict;
+}
+
 /**
  * Code Modifier Service for applying AI-suggested changes
  */
 export class CodeModifierService {
   private projectPath: string;
-  private history: ModificationHistory[] = [];
 
   constructor(projectPath: string) {
     this.projectPath = projectPath;
@@ -26,7 +71,7 @@ export class CodeModifierService {
    * Apply a code modification with full safety checks
    */
   async applyModification(request: ModificationRequest): Promise<ModificationResult> {
-    const config = getConfig();
+    const config = getConfig(this.projectPath);
     const fs = getFileSystemService(this.projectPath);
     const git = getGitService(this.projectPath);
     const backup = getBackupService(this.projectPath);
@@ -55,34 +100,65 @@ export class CodeModifierService {
       };
     }
 
-    // Step 3: Verify original code matches
-    if (!currentContent.content.includes(request.originalCode)) {
+    // Step 3: Locate the original code, anchored to the suggestion's lines
+    const location = locatePatch(currentContent.content, request.originalCode, {
+      filename: request.filePath,
+      ...(request.lineStart !== undefined && { lineStart: request.lineStart }),
+      ...(request.lineEnd !== undefined && { lineEnd: request.lineEnd }),
+    });
+    if (!location.success) {
       return {
         success: false,
         filePath: request.filePath,
-        error: 'Original code not found in file. The file may have been modified.',
+        error: location.conflict.message,
         validation: { valid: false, syntaxErrors: [], typeErrors: [], lintErrors: [] },
+        conflict: location.conflict,
       };
     }
+    const patch = location.report;
 
-    // Step 4: Generate new file content
-    const newContent = currentContent.content.replace(
-      request.originalCode,
-      request.modifiedCode
-    );
+    // Step 4: Generate new file content, formatted with the project's tools
+    let newContent = applyPatch(currentContent.content, location, request.modifiedCode);
+    let format: FormatReport | undefined;
+    if (config.optimization.autoFormat) {
+      const formatted = await getFormatter(this.projectPath).format(request.filePath, newContent);
+      newContent = formatted.content;
+      format = formatted.report;
+    }
 
     // Step 5: Validate the modification
-    const validation = validateCode(newContent, request.filePath);
+    const validation = validateCode(newContent, request.filePath, {
+      projectPath: this.projectPath,
+    });
     if (!validation.valid) {
       return {
         success: false,
         filePath: request.filePath,
         error: 'Modified code has syntax errors',
         validation,
+        patch,
+        ...(format && { format }),
+      };
+    }
+
+    // Step 6: Refuse edits that introduce new type errors
+    const newTypeErrors = this.findIntroducedTypeErrors(
+      request.filePath,
+      currentContent.content,
+      validation
+    );
+    if (newTypeErrors.length > 0) {
+      return {
+        success: false,
+        filePath: request.filePath,
+        error: `Modification introduces ${newTypeErrors.length} new type error(s): ${formatTypeErrors(newTypeErrors)}`,
+        validation,
+        patch,
+        ...(format && { format }),
       };
     }
 
-    // Step 6: Additional safety validation
+    // Step 7: Additional safety validation
     const safetyCheck = validateModification(
       request.originalCode,
       request.modifiedCode,
@@ -94,16 +170,33 @@ export class CodeModifierService {
         filePath: request.filePath,
         error: `Unsafe modification: ${safetyCheck.issues.join(', ')}`,
         validation,
+        patch,
+        ...(format && { format }),
+      };
+    }
+
+    const publicAPI = preservesPublicAPI(currentContent.content, newContent, request.filePath);
+    if (publicAPI.changes.length > 0) {
+      validation.apiChanges = publicAPI.changes;
+    }
+    if (!publicAPI.preserved && !request.allowBreakingChanges) {
+      return {
+        success: false,
+        filePath: request.filePath,
+        error: this.breakingChangeError(publicAPI.changes),
+        validation,
+        patch,
+        ...(format && { format }),
       };
     }
 
-    // Step 7: Create backup
+    // Step 8: Create backup
     const backupEntry = await backup.createBackup(
       request.filePath,
       `Before applying: ${request.commitMessage || 'AI modification'}`
     );
 
-    // Step 8: Create branch if requested
+    // Step 9: Create branch if requested
     if (request.createBranch && request.branchName) {
       const branchResult = await git.createBranch(request.branchName, true);
       if (!branchResult.success) {
@@ -112,12 +205,14 @@ export class CodeModifierService {
           filePath: request.filePath,
           error: `Failed to create branch: ${branchResult.error}`,
           validation,
+          patch,
+          ...(format && { format }),
           ...(backupEntry?.backupPath && { backupPath: backupEntry.backupPath }),
         };
       }
     }
 
-    // Step 9: Write the modified file
+    // Step 10: Write the modified file
     const writeResult = fs.writeFile(request.filePath, newContent);
     if (!writeResult.success) {
       // Attempt to restore from backup
@@ -130,11 +225,32 @@ export class CodeModifierService {
         filePath: request.filePath,
         error: writeResult.error || 'Failed to write file',
         validation,
+        patch,
+        ...(format && { format }),
         ...(backupEntry?.backupPath && { backupPath: backupEntry.backupPath }),
       };
     }
 
-    // Step 10: Create Git commit if configured
+    // Step 11: Run related tests and roll back if they fail
+    let tests: TestRunResult | undefined;
+    if (config.optimization.autoRunTests) {
+      tests = await getTestRunner(this.projectPath).runRelatedTests(request.filePath);
+      if (!tests.passed) {
+        await this.rollback(request.filePath, currentContent.content, backupEntry?.id);
+        return {
+          success: false,
+          filePath: request.filePath,
+          error: this.testGateError(tests, 'change rolled back'),
+          validation,
+          patch,
+          ...(format && { format }),
+          tests,
+          ...(backupEntry?.backupPath && { backupPath: backupEntry.backupPath }),
+        };
+      }
+    }
+
+    // Step 12: Create Git commit if configured
     let commitHash: string | undefined;
     if (config.git.autoCommit) {
       const commitMessage =
@@ -154,6 +270,9 @@ export class CodeModifierService {
       ...(backupEntry?.backupPath && { backupPath: backupEntry.backupPath }),
       ...(commitHash && { commitHash }),
       validation,
+      patch,
+      ...(format && { format }),
+      ...(tests && { tests }),
     };
   }
 
@@ -167,10 +286,33 @@ export class CodeModifierService {
       createBranch?: boolean;
       branchName?: string;
       customCommitMessage?: string;
+      componentName?: string;
+      allowBreakingChanges?: boolean;
     } = {}
   ): Promise<ModificationResult> {
     const llm = getLLMService();
 
+    // Without the code it replaces, a single-file suggestion can't be placed
+    if (!suggestion.files?.length && !suggestion.originalCode?.trim()) {
+      return {
+        success: false,
+        filePath,
+        error: 'Suggestion has no original code to replace',
+        validation: { valid: false, syntaxErrors: [], typeErrors: [], lintErrors: [] },
+      };
+    }
+
+    try {
+      getHistoryStore(this.projectPath).assertWritable();
+    } catch (error) {
+      return {
+        success: false,
+        filePath,
+        error: error instanceof Error ? error.message : 'Modification history is unavailable',
+        validation: { valid: false, syntaxErrors: [], typeErrors: [], lintErrors: [] },
+      };
+    }
+
     // Generate commit message if LLM is available
     let commitMessage = options.customCommitMessage;
     if (!commitMessage && llm.isAvailable()) {
@@ -183,30 +325,53 @@ export class CodeModifierService {
             description: suggestion.description,
           },
         ],
+        context: {
+          projectPath: this.projectPath,
+          route: '/modification/suggestion',
+          ...(options.componentName && { componentName: options.componentName }),
+        },
       });
     }
 
-    const result = await this.applyModification({
-      suggestionId: suggestion.id,
-      filePath,
-      originalCode: suggestion.originalCode,
-      modifiedCode: suggestion.modifiedCode,
-      ...(commitMessage && { commitMessage }),
-      ...(options.createBranch !== undefined && { createBranch: options.createBranch }),
-      ...(options.branchName && { branchName: options.branchName }),
-    });
+    // Suggestions that touch other files go through one changeset
+    const result = suggestion.files?.length
+      ? this.toModificationResult(
+          filePath,
+          await this.writeChangeset({
+            changeset: this.changesetFromSuggestion(filePath, suggestion),
+            ...(commitMessage && { commitMessage }),
+            ...(options.createBranch !== undefined && { createBranch: options.createBranch }),
+            ...(options.branchName && { branchName: options.branchName }),
+            ...(options.allowBreakingChanges && { allowBreakingChanges: true }),
+          })
+        )
+      : await this.applyModification({
+          suggestionId: suggestion.id,
+          filePath,
+          originalCode: suggestion.originalCode,
+          modifiedCode: suggestion.modifiedCode,
+          ...(commitMessage && { commitMessage }),
+          ...(options.createBranch !== undefined && { createBranch: options.createBranch }),
+          ...(options.branchName && { branchName: options.branchName }),
+          lineStart: suggestion.lineStart,
+          lineEnd: suggestion.lineEnd,
+          ...(options.allowBreakingChanges && { allowBreakingChanges: true }),
+        });
 
-    // Record in history
-    this.history.push({
+    this.recordHistory({
       id: suggestion.id,
       timestamp: new Date(),
       filePath,
-      componentName: '', // Would need to be passed in
+      componentName: options.componentName || '',
       optimizationGoal: suggestion.description,
       category: suggestion.category,
       status: result.success ? 'applied' : 'rejected',
       ...(result.commitHash && { commitHash: result.commitHash }),
       ...(result.backupPath && { backupPath: result.backupPath }),
+      ...(result.backupGroupId && { backupGroupId: result.backupGroupId }),
+      ...(result.files?.length && {
+        files: result.files.flatMap((f) => (f.newPath ? [f.filePath, f.newPath] : [f.filePath])),
+      }),
       suggestion,
     });
 
@@ -222,6 +387,7 @@ export class CodeModifierService {
     options: {
       createBranch?: boolean;
       branchName?: string;
+      allowBreakingChanges?: boolean;
     } = {}
   ): Promise<ModificationResult[]> {
     const results: ModificationResult[] = [];
@@ -247,32 +413,48 @@ export class CodeModifierService {
 
     // Apply each suggestion
     for (const suggestion of sortedSuggestions) {
-      // Check if original code still exists in current content
-      if (!currentContent.includes(suggestion.originalCode)) {
+      // Locate the original code in the partially patched content
+      const location = locatePatch(currentContent, suggestion.originalCode, {
+        filename: filePath,
+        lineStart: suggestion.lineStart,
+        lineEnd: suggestion.lineEnd,
+      });
+      if (!location.success) {
         results.push({
           success: false,
           filePath,
-          error: 'Original code not found - may conflict with other changes',
+          error: `${location.conflict.message} - may conflict with other changes`,
           validation: { valid: true, syntaxErrors: [], typeErrors: [], lintErrors: [] },
+          conflict: location.conflict,
         });
         continue;
       }
 
       // Apply the change
-      currentContent = currentContent.replace(
-        suggestion.originalCode,
-        suggestion.modifiedCode
-      );
+      currentContent = applyPatch(currentContent, location, suggestion.modifiedCode);
 
       results.push({
         success: true,
         filePath,
         validation: { valid: true, syntaxErrors: [], typeErrors: [], lintErrors: [] },
+        patch: location.report,
+      });
+    }
+
+    // Format the combined result with the project's tools
+    const config = getConfig(this.projectPath);
+    if (config.optimization.autoFormat) {
+      const formatted = await getFormatter(this.projectPath).format(filePath, currentContent);
+      currentContent = formatted.content;
+      results.forEach((r) => {
+        r.format = formatted.report;
       });
     }
 
     // Validate final content
-    const finalValidation = validateCode(currentContent, filePath);
+    const finalValidation = validateCode(currentContent, filePath, {
+      projectPath: this.projectPath,
+    });
     if (!finalValidation.valid) {
       // Rollback - don't apply any changes
       return suggestions.map(() => ({
@@ -283,10 +465,36 @@ export class CodeModifierService {
       }));
     }
 
+    const newTypeErrors = this.findIntroducedTypeErrors(
+      filePath,
+      initialContent.content,
+      finalValidation
+    );
+    if (newTypeErrors.length > 0) {
+      return suggestions.map(() => ({
+        success: false,
+        filePath,
+        error: `Combined changes introduce ${newTypeErrors.length} new type error(s): ${formatTypeErrors(newTypeErrors)}`,
+        validation: finalValidation,
+      }));
+    }
+
+    const publicAPI = preservesPublicAPI(initialContent.content, currentContent, filePath);
+    if (publicAPI.changes.length > 0) {
+      finalValidation.apiChanges = publicAPI.changes;
+    }
+    if (!publicAPI.preserved && !options.allowBreakingChanges) {
+      return suggestions.map(() => ({
+        success: false,
+        filePath,
+        error: this.breakingChangeError(publicAPI.changes),
+        validation: finalValidation,
+      }));
+    }
+
     // Write final content and commit
     const backup = getBackupService(this.projectPath);
     const git = getGitService(this.projectPath);
-    const config = getConfig();
 
     // Create backup
     const backupEntry = await backup.createBackup(
@@ -312,6 +520,23 @@ export class CodeModifierService {
       }));
     }
 
+    // Run related tests and roll back if they fail
+    if (config.optimization.autoRunTests) {
+      const tests = await getTestRunner(this.projectPath).runRelatedTests(filePath);
+      results.forEach((r) => {
+        r.tests = tests;
+      });
+
+      if (!tests.passed) {
+        await this.rollback(filePath, initialContent.content, backupEntry?.id);
+        return results.map((r) => ({
+          ...r,
+          success: false,
+          error: this.testGateError(tests, 'changes rolled back'),
+        }));
+      }
+    }
+
     // Commit changes
     if (config.git.autoCommit) {
       const llm = getLLMService();
@@ -325,6 +550,7 @@ export class CodeModifierService {
             category: s.category,
             description: s.description,
           })),
+          context: { projectPath: this.projectPath, route: '/modification/batch' },
         });
       }
 
@@ -348,6 +574,533 @@ export class CodeModifierService {
     return results;
   }
 
+  /**
+   * Turn a suggestion that spans several files into a changeset. The
+   * suggestion's own edit comes first, followed by its extra file changes.
+   */
+  changesetFromSuggestion(filePath: string, suggestion: CodeSuggestion): Changeset {
+    // An edit without originalCode is refused when staged rather than dropped
+    const hasMainEdit = suggestion.originalCode.trim() !== '' || suggestion.modifiedCode.trim() !== '';
+
+    return {
+      id: suggestion.id,
+      title: suggestion.title,
+      description: suggestion.description,
+      changes: [
+        ...(hasMainEdit
+          ? [{
+              kind: 'edit' as const,
+              filePath,
+              originalCode: suggestion.originalCode,
+              modifiedCode: suggestion.modifiedCode,
+              lineStart: suggestion.lineStart,
+              lineEnd: suggestion.lineEnd,
+            }]
+          : []),
+        ...(suggestion.files ?? []),
+      ],
+    };
+  }
+
+  /**
+   * Show what a changeset would do to every file, without writing anything
+   */
+  async previewChangeset(changeset: Changeset, allowBreakingChanges = false): Promise<ChangesetResult> {
+    const staged = await this.stageChangeset(changeset, allowBreakingChanges);
+    return {
+      success: staged.success,
+      changesetId: changeset.id,
+      files: this.describeStaged(staged),
+      ...(staged.error && { error: staged.error }),
+    };
+  }
+
+  /**
+   * Apply a changeset that did not come from a suggestion, recording it in
+   * the modification history so it can be reverted
+   */
+  async applyChangeset(request: ChangesetRequest): Promise<ChangesetResult> {
+    const { changeset } = request;
+
+    try {
+      getHistoryStore(this.projectPath).assertWritable();
+    } catch (error) {
+      return {
+        success: false,
+        changesetId: changeset.id,
+        files: [],
+        error: error instanceof Error ? error.message : 'Modification history is unavailable',
+      };
+    }
+
+    const result = await this.writeChangeset(request);
+
+    this.recordHistory({
+      id: changeset.id,
+      timestamp: new Date(),
+      filePath: changeset.changes[0]?.filePath ?? '',
+      componentName: '',
+      optimizationGoal: changeset.description || changeset.title,
+      category: 'code-quality',
+      status: result.success ? 'applied' : 'rejected',
+      ...(result.commitHash && { commitHash: result.commitHash }),
+      ...(result.backupGroupId && { backupGroupId: result.backupGroupId }),
+      files: result.files.flatMap((f) => (f.newPath ? [f.filePath, f.newPath] : [f.filePath])),
+      suggestion: {
+        id: changeset.id,
+        title: changeset.title,
+        description: changeset.description || '',
+        category: 'code-quality',
+        priority: 'medium',
+        originalCode: '',
+        modifiedCode: '',
+        explanation: '',
+        lineStart: 1,
+        lineEnd: 1,
+        confidence: 1,
+        files: changeset.changes,
+      },
+    });
+
+    return result;
+  }
+
+  /**
+   * Write a multi-file changeset atomically: every file is validated before
+   * any is written, all of them share one backup group and one commit, and
+   * a failure part-way restores them all
+   */
+  private async writeChangeset(request: ChangesetRequest): Promise<ChangesetResult> {
+    const { changeset } = request;
+    const config = getConfig(this.projectPath);
+    const fs = getFileSystemService(this.projectPath);
+    const git = getGitService(this.projectPath);
+    const backup = getBackupService(this.projectPath);
+
+    const fail = (
+      error: string,
+      files: FileChangeResult[] = [],
+      extra: Partial<ChangesetResult> = {}
+    ): ChangesetResult => ({
+      success: false,
+      changesetId: changeset.id,
+      files,
+      error,
+      ...extra,
+    });
+
+    // Step 1: Check Git working directory for every existing file involved
+    if (config.git.requireCleanWorkingDir) {
+      const paths = changeset.changes.flatMap((c) => (c.newPath ? [c.filePath, c.newPath] : [c.filePath]));
+      for (const path of paths) {
+        if (fs.exists(path) && (await git.hasUncommittedChanges(path))) {
+          return fail(`${path} has uncommitted changes. Please commit or stash them first.`);
+        }
+      }
+    }
+
+    // Step 2: Apply, format and validate every change in memory
+    const staged = await this.stageChangeset(changeset, Boolean(request.allowBreakingChanges));
+    const files = this.describeStaged(staged);
+    if (!staged.success) {
+      return fail(staged.error || 'Changeset could not be applied', files);
+    }
+
+    const changed = [...staged.files.values()].filter((f) => f.before !== f.after);
+    if (changed.length === 0) {
+      return fail('Changeset makes no changes', files);
+    }
+
+    // Step 3: Back up every touched file, including ones about to be created
+    const backupGroupId = await backup.createBackupGroup(
+      changed.map((f) => f.path),
+      `Before applying: ${request.commitMessage || changeset.title}`
+    );
+    const groupInfo = backupGroupId ? { backupGroupId } : {};
+
+    // Step 4: Create branch if requested
+    if (request.createBranch && request.branchName) {
+      const branchResult = await git.createBranch(request.branchName, true);
+      if (!branchResult.success) {
+        return fail(`Failed to create branch: ${branchResult.error}`, files, groupInfo);
+      }
+    }
+
+    // Step 5: Write all files, restoring everything on the first failure
+    for (const file of changed) {
+      const writeResult = file.after === null ? fs.deleteFile(file.path) : fs.writeFile(file.path, file.after);
+      if (!writeResult.success) {
+        await this.rollbackChangeset(changed, backupGroupId);
+        return fail(`${file.path}: ${writeResult.error || 'Failed to write file'}`, files, groupInfo);
+      }
+    }
+
+    // Step 6: Run tests related to each written file and roll back if any fail
+    let tests: TestRunResult | undefined;
+    if (config.optimization.autoRunTests) {
+      for (const file of changed.filter((f) => f.after !== null)) {
+        tests = await getTestRunner(this.projectPath).runRelatedTests(file.path);
+        if (!tests.passed) {
+          await this.rollbackChangeset(changed, backupGroupId);
+          return fail(
+            this.testGateError(tests, 'changeset rolled back'),
+            files,
+            { ...groupInfo, tests }
+          );
+        }
+      }
+    }
+
+    // Step 7: One commit covering every file, including deletions
+    let commitHash: string | undefined;
+    if (config.git.autoCommit) {
+      const commitResult = await git.commit(
+        request.commitMessage || changeset.title,
+        changed.map((f) => f.path)
+      );
+      if (commitResult.success) {
+        commitHash = commitResult.hash;
+      } else {
+        console.warn('Failed to create commit:', commitResult.error);
+      }
+    }
+
+    return {
+      success: true,
+      changesetId: changeset.id,
+      files,
+      ...groupInfo,
+      ...(commitHash && { commitHash }),
+      ...(tests && { tests }),
+    };
+  }
+
+  /**
+   * Apply a changeset's operations in memory, then format and validate
+   * every touched file. Type checks overlay all new contents at once so
+   * imports of created or renamed files resolve.
+   */
+  private async stageChangeset(
+    changeset: Changeset,
+    allowBreakingChanges: boolean
+  ): Promise<StagedChangeset> {
+    const config = getConfig(this.projectPath);
+    const fs = getFileSystemService(this.projectPath);
+    const files = new Map<string, StagedFile>();
+    const renames: Array<{ from: string; to: string }> = [];
+
+    const fail = (error: string, conflict?: PatchConflict): StagedChangeset => ({
+      success: false,
+      error,
+      files,
+      renames,
+      ...(conflict && { conflict }),
+    });
+
+    // Load each file once; later changes see earlier ones
+    const load = (path: string): StagedFile | string => {
+      const key = fs.resolvePath(path);
+      const existing = files.get(key);
+      if (existing) return existing;
+
+      if (!fs.isWithinProject(path)) {
+        return `${path}: Path is outside project directory`;
+      }
+      let content: string | null = null;
+      if (fs.exists(path)) {
+        const read = fs.readFile(path);
+        if (!read.success || read.content === undefined) {
+          return `${path}: ${read.error || 'Failed to read file'}`;
+        }
+        content = read.content;
+      }
+
+      const file: StagedFile = { path, before: content, after: content };
+      files.set(key, file);
+      return file;
+    };
+
+    if (changeset.changes.length === 0) {
+      return fail('Changeset has no changes');
+    }
+
+    // Step 1: Apply each operation to the in-memory files
+    for (const change of changeset.changes) {
+      const file = load(change.filePath);
+      if (typeof file === 'string') return fail(file);
+
+      switch (change.kind) {
+        case 'edit': {
+          if (file.after === null) return fail(`${change.filePath}: File does not exist`);
+          if (change.modifiedCode === undefined) return fail(`${change.filePath}: Edit has no modifiedCode`);
+          if (!change.originalCode?.trim()) {
+            return fail(`${change.filePath}: Edit has no originalCode; use a replace to rewrite the whole file`);
+          }
+
+          const location = locatePatch(file.after, change.originalCode, {
+            filename: change.filePath,
+            ...(change.lineStart !== undefined && { lineStart: change.lineStart }),
+            ...(change.lineEnd !== undefined && { lineEnd: change.lineEnd }),
+          });
+          if (!location.success) {
+            return fail(`${change.filePath}: ${location.conflict.message}`, location.conflict);
+          }
+          file.after = applyPatch(file.after, location, change.modifiedCode);
+          file.patch = location.report;
+          break;
+        }
+
+        case 'replace':
+          if (file.after === null) return fail(`${change.filePath}: File does not exist`);
+          if (change.modifiedCode === undefined) return fail(`${change.filePath}: Replace has no content`);
+          file.after = change.modifiedCode;
+          break;
+
+        case 'create':
+          if (file.after !== null) return fail(`${change.filePath}: File already exists`);
+          if (change.modifiedCode === undefined) return fail(`${change.filePath}: Create has no content`);
+          file.after = change.modifiedCode;
+          break;
+
+        case 'rename': {
+          if (!change.newPath) return fail(`${change.filePath}: Rename has no newPath`);
+          if (file.after === null) return fail(`${change.filePath}: File does not exist`);
+
+          const target = load(change.newPath);
+          if (typeof target === 'string') return fail(target);
+          if (target.after !== null) return fail(`${change.newPath}: File already exists`);
+
+          target.after = change.modifiedCode ?? file.after;
+          file.after = null;
+          renames.push({ from: fs.resolvePath(change.filePath), to: fs.resolvePath(change.newPath) });
+          break;
+        }
+
+        case 'delete':
+          if (file.after === null) return fail(`${change.filePath}: File does not exist`);
+          file.after = null;
+          break;
+
+        default:
+          return fail(`${change.filePath}: Unknown change kind "${(change as { kind: string }).kind}"`);
+      }
+    }
+
+    const changed = [...files.entries()].filter(([, f]) => f.after !== null && f.after !== f.before);
+
+    // Step 2: Format written files with the project's tools
+    if (config.optimization.autoFormat) {
+      for (const [, file] of changed) {
+        const formatted = await getFormatter(this.projectPath).format(file.path, file.after!);
+        file.after = formatted.content;
+        file.format = formatted.report;
+      }
+    }
+
+    // Step 3: Syntax and lint checks per file
+    for (const [, file] of changed) {
+      file.validation = validateCode(file.after!, file.path);
+      if (!file.validation.valid) {
+        return fail(`${file.path}: Modified code has syntax errors`);
+      }
+    }
+
+    // Step 4: Type-check all files together, refusing new errors
+    const after = checkFilesTypes(
+      new Map([...files.entries()].filter(([, f]) => f.before !== f.after).map(([key, f]) => [key, f.after]))
+    );
+    const baseline = checkFilesTypes(
+      new Map(changed.filter(([, f]) => f.before !== null).map(([key, f]) => [key, f.before]))
+    );
+    for (const [key, file] of changed) {
+      const typeErrors = after.get(key) ?? [];
+      file.validation = { ...file.validation!, typeErrors };
+
+      const introduced = findNewTypeErrors(baseline.get(key) ?? [], typeErrors);
+      if (introduced.length > 0) {
+        return fail(
+          `${file.path}: Changeset introduces ${introduced.length} new type error(s): ${formatTypeErrors(introduced)}`
+        );
+      }
+    }
+
+    // Step 5: Additional safety validation of edited files
+    for (const [, file] of changed) {
+      if (file.before === null) continue;
+      const safetyCheck = validateModification(file.before, file.after!, file.path);
+      if (!safetyCheck.safe) {
+        return fail(`${file.path}: Unsafe modification: ${safetyCheck.issues.join(', ')}`);
+      }
+
+      const publicAPI = preservesPublicAPI(file.before, file.after!, file.path);
+      if (publicAPI.changes.length > 0) {
+        file.validation = { ...file.validation!, apiChanges: publicAPI.changes };
+      }
+      if (!publicAPI.preserved && !allowBreakingChanges) {
+        return fail(`${file.path}: ${this.breakingChangeError(publicAPI.changes)}`);
+      }
+    }
+
+    return { success: true, files, renames };
+  }
+
+  /**
+   * Report a staged changeset per file. A rename is one entry, with the
+   * content it had before and the content it ends up with.
+   */
+  private describeStaged(staged: StagedChangeset): FileChangeResult[] {
+    const renamedTo = new Map(staged.renames.map((r) => [r.from, r.to]));
+    const renamedFrom = new Set(staged.renames.map((r) => r.to));
+    const results: FileChangeResult[] = [];
+
+    for (const [key, file] of staged.files) {
+      if (renamedFrom.has(key)) continue;
+
+      const target = staged.files.get(renamedTo.get(key) ?? '');
+      const final = target ?? file;
+      const kind = target ? 'rename' : file.before === null ? 'create' : file.after === null ? 'delete' : 'edit';
+
+      results.push({
+        kind,
+        filePath: file.path,
+        ...(target && { newPath: target.path }),
+        before: file.before,
+        after: final.after,
+        ...((final.patch ?? file.patch) && { patch: (final.patch ?? file.patch)! }),
+        ...(final.validation && { validation: final.validation }),
+        ...(final.format && { format: final.format }),
+      });
+    }
+
+    // The conflict belongs to the last file touched before staging stopped
+    const last = results[results.length - 1];
+    if (staged.conflict && last) {
+      last.conflict = staged.conflict;
+    }
+
+    return results;
+  }
+
+  /**
+   * Restore every file a changeset touched, via its backup group when one
+   * was taken, or from the contents read before writing
+   */
+  private async rollbackChangeset(files: StagedFile[], backupGroupId: string | null): Promise<void> {
+    if (backupGroupId) {
+      const restoreResult = await getBackupService(this.projectPath).restoreBackupGroup(backupGroupId);
+      if (restoreResult.success) {
+        return;
+      }
+      console.warn('Failed to restore changeset backup group:', restoreResult.error);
+    }
+
+    const fs = getFileSystemService(this.projectPath);
+    for (const file of files) {
+      const result = file.before === null ? fs.deleteFile(file.path) : fs.writeFile(file.path, file.before);
+      if (!result.success) {
+        console.error(`Failed to roll back ${file.path}:`, result.error);
+      }
+    }
+  }
+
+  /**
+   * Report a changeset result in the single-file shape, centred on the
+   * file the suggestion was made for
+   */
+  private toModificationResult(filePath: string, result: ChangesetResult): ModificationResult {
+    const fs = getFileSystemService(this.projectPath);
+    const main = result.files.find((f) => fs.resolvePath(f.filePath) === fs.resolvePath(filePath));
+
+    return {
+      success: result.success,
+      filePath,
+      ...(result.error && { error: result.error }),
+      validation: main?.validation ?? {
+        valid: result.success,
+        syntaxErrors: [],
+        typeErrors: [],
+        lintErrors: [],
+      },
+      ...(main?.patch && { patch: main.patch }),
+      ...(main?.conflict && { conflict: main.conflict }),
+      ...(main?.format && { format: main.format }),
+      ...(result.commitHash && { commitHash: result.commitHash }),
+      ...(result.tests && { tests: result.tests }),
+      files: result.files,
+      ...(result.backupGroupId && { backupGroupId: result.backupGroupId }),
+    };
+  }
+
+  /**
+   * Record a modification in history. The files are already written by
+   * now, so a failure here is logged rather than failing the change.
+   */
+  private recordHistory(entry: ModificationHistory): void {
+    try {
+      getHistoryStore(this.projectPath).record(entry);
+    } catch (error) {
+      console.warn(`Failed to record modification ${entry.id} in history:`, error);
+    }
+  }
+
+  /**
+   * Error for a change the test gate rejected. Tests that couldn't run
+   * (no Jest or Vitest found) block the change rather than count as a pass.
+   */
+  private testGateError(tests: TestRunResult, outcome: string): string {
+    return tests.ran
+      ? `Related tests failed, ${outcome}: ${tests.message || `${tests.numFailed} failing test(s)`}`
+      : `Related tests could not be run, ${outcome}: ${tests.message || 'no test runner found'}`;
+  }
+
+  /**
+   * Restore a file after a failed post-write check, via its backup when
+   * one was taken (backups can be disabled in config)
+   */
+  private async rollback(
+    filePath: string,
+    originalContent: string,
+    backupId?: string
+  ): Promise<void> {
+    if (backupId) {
+      const restoreResult = await getBackupService(this.projectPath).restoreBackup(backupId);
+      if (restoreResult.success) {
+        return;
+      }
+      console.warn(`Failed to restore backup for ${filePath}:`, restoreResult.error);
+    }
+
+    const writeResult = getFileSystemService(this.projectPath).writeFile(filePath, originalContent);
+    if (!writeResult.success) {
+      console.error(`Failed to roll back ${filePath}:`, writeResult.error);
+    }
+  }
+
+  /**
+   * Error for a change blocked by breaking API changes
+   */
+  private breakingChangeError(changes: ApiChange[]): string {
+    const breaking = changes.filter((c) => c.breaking).map((c) => c.message);
+    return `Breaking API change: ${breaking.join('; ')}. Allow breaking changes to apply anyway.`;
+  }
+
+  /**
+   * Type errors in the validated content that weren't already in the file
+   */
+  private findIntroducedTypeErrors(
+    filePath: string,
+    originalContent: string,
+    validation: ValidationResult
+  ): TypeDiagnostic[] {
+    if (validation.typeErrors.length === 0) {
+      return [];
+    }
+
+    const fs = getFileSystemService(this.projectPath);
+    const baseline = checkFileTypes(fs.resolvePath(filePath), originalContent) ?? [];
+    return findNewTypeErrors(baseline, validation.typeErrors);
+  }
+
   /**
    * Revert a previously applied modification
    */
@@ -355,7 +1108,8 @@ export class CodeModifierService {
     success: boolean;
     error?: string;
   }> {
-    const historyEntry = this.history.find((h) => h.id === modificationId);
+    const history = getHistoryStore(this.projectPath);
+    const historyEntry = history.get(modificationId);
 
     if (!historyEntry) {
       return { success: false, error: 'Modification not found in history' };
@@ -368,13 +1122,26 @@ export class CodeModifierService {
     const git = getGitService(this.projectPath);
     const backup = getBackupService(this.projectPath);
 
-    // Try to restore from backup first
+    // Multi-file modifications restore every file from their backup group
+    if (historyEntry.backupGroupId) {
+      const restoreResult = await backup.restoreBackupGroup(historyEntry.backupGroupId);
+      if (restoreResult.success) {
+        history.updateStatus(modificationId, 'reverted');
+        return { success: true };
+      }
+    }
+
+    // Try to restore from the backup taken for this modification first. Any
+    // other backup of the file may belong to a different modification.
     if (historyEntry.backupPath) {
-      const latestBackup = backup.getLatestBackup(historyEntry.filePath);
-      if (latestBackup) {
-        const restoreResult = await backup.restoreBackup(latestBackup.id);
+      const entryBackup =
+        backup
+          .getBackupsForFile(historyEntry.filePath)
+          .find((b) => b.backupPath === historyEntry.backupPath);
+      if (entryBackup) {
+        const restoreResult = await backup.restoreBackup(entryBackup.id);
         if (restoreResult.success) {
-          historyEntry.status = 'reverted';
+          history.updateStatus(modificationId, 'reverted');
           return { success: true };
         }
       }
@@ -384,7 +1151,7 @@ export class CodeModifierService {
     if (historyEntry.commitHash) {
       const revertResult = await git.revertCommit(historyEntry.commitHash);
       if (revertResult.success) {
-        historyEntry.status = 'reverted';
+        history.updateStatus(modificationId, 'reverted');
         return { success: true };
       }
       return {
@@ -400,72 +1167,63 @@ export class CodeModifierService {
   }
 
   /**
-   * Get modification history
+   * Get modification history, optionally filtered
    */
-  getHistory(): ModificationHistory[] {
-    return [...this.history].sort(
-      (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
+  getHistory(query: HistoryQuery = {}): ModificationHistory[] {
+    return getHistoryStore(this.projectPath).query(query);
   }
 
   /**
    * Get history for a specific file
    */
   getFileHistory(filePath: string): ModificationHistory[] {
-    return this.history
-      .filter((h) => h.filePath === filePath)
-      .sort(
-        (a, b) =>
-          new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-      );
+    return this.getHistory({ filePath });
   }
 
   /**
    * Preview what a modification would look like
    */
-  previewModification(
+  async previewModification(
     currentCode: string,
     originalCode: string,
-    modifiedCode: string
-  ): {
+    modifiedCode: string,
+    hints: PatchHints = {}
+  ): Promise<{
     success: boolean;
     preview?: string;
     error?: string;
-  } {
-    if (!currentCode.includes(originalCode)) {
+    patch?: PatchReport;
+    conflict?: PatchConflict;
+    format?: FormatReport;
+  }> {
+    const location = locatePatch(currentCode, originalCode, hints);
+    if (!location.success) {
       return {
         success: false,
-        error: 'Original code not found in current content',
+        error: location.conflict.message,
+        conflict: location.conflict,
       };
     }
 
-    const preview = currentCode.replace(originalCode, modifiedCode);
-    return { success: true, preview };
+    const preview = applyPatch(currentCode, location, modifiedCode);
+
+    // Show the diff as it would actually be written
+    if (getConfig(this.projectPath).optimization.autoFormat && hints.filename) {
+      const formatted = await getFormatter(this.projectPath).format(hints.filename, preview);
+      return { success: true, preview: formatted.content, patch: location.report, format: formatted.report };
+    }
+
+    return { success: true, preview, patch: location.report };
   }
 
   /**
    * Clear modification history
    */
   clearHistory(): void {
-    this.history = [];
+    getHistoryStore(this.projectPath).clear();
   }
 }
 
-// Singleton instance
-let instance: CodeModifierService | null = null;
-
 export function getCodeModifier(projectPath?: string): CodeModifierService {
-  if (projectPath) {
-    return new CodeModifierService(projectPath);
-  }
-
-  if (!instance) {
-    instance = new CodeModifierService(process.cwd());
-  }
-
-  return instance;
-}
-
-export function setModifierProjectPath(projectPath: string): void {
-  instance = new CodeModifierService(projectPath);
+  return getProject(projectPath).service('modifier', (root) => new CodeModifierService(root));
 }
@@ -10,6 +10,8 @@ import {
 } from 'fs';
 import { join, dirname, relative, extname, basename } from 'path';
 import { getConfig } from '../config/index.js';
+import { getProject } from './projectRegistry.js';
+import { getSourceResolver } from './sourceResolver.js';
 
 interface FileInfo {
   path: string;
@@ -68,12 +70,18 @@ export class FileSystemService {
   }
 
   /**
-   * Check if a path is within the project directory (security check)
+   * Check if a path is within the project directory, or is a component
+   * source resolved outside it (security check)
    */
   isWithinProject(filePath: string): boolean {
     const resolved = this.resolvePath(filePath);
     const relative = this.getRelativePath(resolved);
-    return !relative.startsWith('..') && !relative.startsWith('/');
+    if (!relative.startsWith('..') && !relative.startsWith('/')) {
+      return true;
+    }
+    // A component's source in a sibling workspace package is editable too,
+    // once it has been resolved from the page; the rest of the workspace is not
+    return getSourceResolver(this.projectPath).isResolvedSource(resolved);
   }
 
   /**
@@ -373,7 +381,7 @@ export class FileSystemService {
    * Create backup directory
    */
   ensureBackupDir(): string {
-    const config = getConfig();
+    const config = getConfig(this.projectPath);
     const backupDir = this.resolvePath(config.backup.backupDir);
 
     if (!existsSync(backupDir)) {
@@ -384,21 +392,6 @@ export class FileSystemService {
   }
 }
 
-// Singleton instance for convenience
-let defaultInstance: FileSystemService | null = null;
-
 export function getFileSystemService(projectPath?: string): FileSystemService {
-  if (projectPath) {
-    return new FileSystemService(projectPath);
-  }
-
-  if (!defaultInstance) {
-    defaultInstance = new FileSystemService(process.cwd());
-  }
-
-  return defaultInstance;
-}
-
-export function setProjectPath(projectPath: string): void {
-  defaultInstance = new FileSystemService(projectPath);
+  return getProject(projectPath).service('fileSystem', (root) => new FileSystemService(root));
 }
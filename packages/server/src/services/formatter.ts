@@ -0,0 +1,161 @@
+import { createRequire } from 'module';
+import { join } from 'path';
+import { getFileSystemService } from './fileSystem.js';
+import { getProject } from './projectRegistry.js';
+import type { FormatReport, FormatStepStatus } from '../types/index.js';
+
+/**
+ * Minimal surface of the Prettier API we use (v2 is sync, v3 async)
+ */
+interface PrettierModule {
+  format(source: string, options: Record<string, unknown>): string | Promise<string>;
+  resolveConfig(filePath: string): Promise<Record<string, unknown> | null>;
+  getFileInfo(
+    filePath: string,
+    options?: { ignorePath?: string }
+  ): Promise<{ ignored: boolean; inferredParser: string | null }>;
+}
+
+/**
+ * Minimal surface of the ESLint class we use
+ */
+interface ESLintInstance {
+  isPathIgnored(filePath: string): Promise<boolean>;
+  lintText(
+    code: string,
+    options: { filePath: string }
+  ): Promise<Array<{ output?: string; errorCount: number }>>;
+}
+
+interface ESLintModule {
+  ESLint: new (options: { cwd: string; fix: boolean }) => ESLintInstance;
+  loadESLint?: () => Promise<new (options: { cwd: string; fix: boolean }) => ESLintInstance>;
+}
+
+/**
+ * Formatter Service that runs content through the target project's own
+ * Prettier and ESLint --fix, so AI edits match the project's style
+ */
+export class FormatterService {
+  private projectPath: string;
+  private projectRequire: NodeRequire;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+    // Resolve tools from the target project, not from this server
+    this.projectRequire = createRequire(join(projectPath, 'package.json'));
+  }
+
+  /**
+   * Load a package installed in the target project, or null if absent
+   */
+  private loadProjectModule<T>(name: string): T | null {
+    try {
+      return this.projectRequire(this.projectRequire.resolve(name)) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Format content as it would be written to filePath. Never throws;
+   * on failure the content is returned unchanged with the reason.
+   */
+  async format(filePath: string, content: string): Promise<{ content: string; report: FormatReport }> {
+    const fs = getFileSystemService(this.projectPath);
+    const absolutePath = fs.resolvePath(filePath);
+    const messages: string[] = [];
+
+    let current = content;
+
+    const prettier = await this.runPrettier(absolutePath, current, messages);
+    current = prettier.content;
+
+    const eslint = await this.runESLint(absolutePath, current, messages);
+    current = eslint.content;
+
+    return {
+      content: current,
+      report: {
+        prettier: prettier.status,
+        eslint: eslint.status,
+        changed: current !== content,
+        messages,
+      },
+    };
+  }
+
+  private async runPrettier(
+    absolutePath: string,
+    content: string,
+    messages: string[]
+  ): Promise<{ content: string; status: FormatStepStatus }> {
+    const prettier = this.loadProjectModule<PrettierModule>('prettier');
+    if (!prettier) {
+      return { content, status: 'skipped' };
+    }
+
+    try {
+      const fileInfo = await prettier.getFileInfo(absolutePath, {
+        ignorePath: join(this.projectPath, '.prettierignore'),
+      });
+      if (fileInfo.ignored || !fileInfo.inferredParser) {
+        return { content, status: 'skipped' };
+      }
+
+      // Only format projects that opted in with a Prettier config
+      const options = await prettier.resolveConfig(absolutePath);
+      if (!options) {
+        messages.push('Prettier is installed but no config was found');
+        return { content, status: 'skipped' };
+      }
+
+      const formatted = await prettier.format(content, { ...options, filepath: absolutePath });
+      return { content: formatted, status: formatted === content ? 'unchanged' : 'formatted' };
+    } catch (error) {
+      messages.push(`Prettier failed: ${error instanceof Error ? error.message : String(error)}`);
+      return { content, status: 'failed' };
+    }
+  }
+
+  private async runESLint(
+    absolutePath: string,
+    content: string,
+    messages: string[]
+  ): Promise<{ content: string; status: FormatStepStatus }> {
+    const eslintModule = this.loadProjectModule<ESLintModule>('eslint');
+    if (!eslintModule) {
+      return { content, status: 'skipped' };
+    }
+
+    try {
+      // loadESLint (v8.57+) picks flat or legacy config the way the CLI does
+      const ESLint = eslintModule.loadESLint
+        ? await eslintModule.loadESLint()
+        : eslintModule.ESLint;
+      const eslint = new ESLint({ cwd: this.projectPath, fix: true });
+
+      if (await eslint.isPathIgnored(absolutePath)) {
+        return { content, status: 'skipped' };
+      }
+
+      const [result] = await eslint.lintText(content, { filePath: absolutePath });
+      if (result?.output === undefined || result.output === content) {
+        return { content, status: 'unchanged' };
+      }
+      return { content: result.output, status: 'formatted' };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      // Installed (e.g. transitively) but not configured for this project
+      if (/No ESLint configuration|Could not find config file/i.test(message)) {
+        return { content, status: 'skipped' };
+      }
+      messages.push(`ESLint --fix failed: ${message}`);
+      return { content, status: 'failed' };
+    }
+  }
+}
+
+export function getFormatter(projectPath?: string): FormatterService {
+  return getProject(projectPath).service('formatter', (root) => new FormatterService(root));
+}
@@ -1,14 +1,17 @@
 import simpleGit, { SimpleGit, StatusResult, LogResult } from 'simple-git';
 import { getConfig } from '../config/index.js';
+import { getProject } from './projectRegistry.js';
 import type { GitStatus, GitCommit, GitDiff } from '../types/index.js';
 
 /**
  * Git Service for version control operations
  */
 export class GitService {
+  private projectPath: string;
   private git: SimpleGit;
 
   constructor(projectPath: string) {
+    this.projectPath = projectPath;
     this.git = simpleGit(projectPath);
   }
 
@@ -83,7 +86,7 @@ export class GitService {
     error?: string;
   }> {
     try {
-      const config = getConfig();
+      const config = getConfig(this.projectPath);
       const fullBranchName = `${config.git.branchPrefix}${branchName}`;
 
       if (checkout) {
@@ -146,7 +149,7 @@ export class GitService {
     error?: string;
   }> {
     try {
-      const config = getConfig();
+      const config = getConfig(this.projectPath);
       const fullMessage = `${config.git.commitMessagePrefix} ${message}`;
 
       if (files && files.length > 0) {
@@ -378,21 +381,6 @@ export class GitService {
   }
 }
 
-// Singleton instance
-let defaultInstance: GitService | null = null;
-
 export function getGitService(projectPath?: string): GitService {
-  if (projectPath) {
-    return new GitService(projectPath);
-  }
-
-  if (!defaultInstance) {
-    defaultInstance = new GitService(process.cwd());
-  }
-
-  return defaultInstance;
-}
-
-export function setGitProjectPath(projectPath: string): void {
-  defaultInstance = new GitService(projectPath);
+  return getProject(projectPath).service('git', (root) => new GitService(root));
 }
@@ -0,0 +1,197 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getConfig } from '../config/index.js';
+import { getFileSystemService } from './fileSystem.js';
+import { getProject } from './projectRegistry.js';
+import type { HistoryQuery, ModificationHistory, ModificationStatus } from '../types/index.js';
+
+/** Bump when the on-disk shape changes, and add a migration below */
+export const HISTORY_SCHEMA_VERSION = 1;
+
+/** Oldest entries are dropped beyond this */
+const MAX_HISTORY_ENTRIES = 500;
+
+interface HistoryFile {
+  schemaVersion: number;
+  entries: ModificationHistory[];
+}
+
+/**
+ * Migrations keyed by the version they upgrade from. Version 0 is a bare
+ * array of entries, as returned by GET /api/modification/history.
+ */
+const migrations: Record<number, (data: unknown) => unknown> = {
+  0: (data) => ({
+    schemaVersion: 1,
+    entries: Array.isArray(data) ? data : [],
+  }),
+};
+
+/**
+ * History Store for persisting modification history per project,
+ * next to the backup manifest so it survives server restarts
+ */
+export class HistoryStore {
+  private projectPath: string;
+  private historyPath: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+    const config = getConfig(this.projectPath);
+    this.historyPath = join(projectPath, config.backup.backupDir, 'history.json');
+  }
+
+  /**
+   * Read the history file, migrating older schemas in place
+   */
+  private load(): HistoryFile {
+    if (!existsSync(this.historyPath)) {
+      return { schemaVersion: HISTORY_SCHEMA_VERSION, entries: [] };
+    }
+
+    let data: unknown;
+    try {
+      data = JSON.parse(readFileSync(this.historyPath, 'utf-8'));
+    } catch (error) {
+      // Moved aside so the next record doesn't save over it
+      const corruptPath = `${this.historyPath}.corrupt-${Date.now()}`;
+      renameSync(this.historyPath, corruptPath);
+      console.warn(`Unreadable modification history moved to ${corruptPath}:`, error);
+      return { schemaVersion: HISTORY_SCHEMA_VERSION, entries: [] };
+    }
+
+    let version = this.getVersion(data);
+    if (version > HISTORY_SCHEMA_VERSION) {
+      throw new Error(
+        `Modification history uses schema v${version}, but this server only supports v${HISTORY_SCHEMA_VERSION}`
+      );
+    }
+
+    const migrated = version < HISTORY_SCHEMA_VERSION;
+    while (version < HISTORY_SCHEMA_VERSION) {
+      const migrate = migrations[version];
+      if (!migrate) {
+        throw new Error(`No migration for modification history schema v${version}`);
+      }
+      data = migrate(data);
+      version = this.getVersion(data);
+    }
+
+    const file = data as HistoryFile;
+    // JSON stores dates as strings
+    file.entries = file.entries.map((entry) => ({ ...entry, timestamp: new Date(entry.timestamp) }));
+
+    if (migrated) {
+      this.save(file);
+    }
+
+    return file;
+  }
+
+  private getVersion(data: unknown): number {
+    if (data && typeof data === 'object' && 'schemaVersion' in data) {
+      return Number((data as { schemaVersion: unknown }).schemaVersion);
+    }
+    return 0;
+  }
+
+  /**
+   * Write the history file atomically so a crash can't truncate it
+   */
+  private save(file: HistoryFile): void {
+    const dir = dirname(this.historyPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    const tempPath = `${this.historyPath}.tmp`;
+    writeFileSync(tempPath, JSON.stringify(file, null, 2));
+    renameSync(tempPath, this.historyPath);
+  }
+
+  /**
+   * Throw if this server can't read the history, e.g. it was written by a
+   * newer version. Checked before files are changed, so a change never
+   * lands on disk without a history entry to revert it by.
+   */
+  assertWritable(): void {
+    this.load();
+  }
+
+  /**
+   * Record a modification. An entry with the same id is replaced.
+   */
+  record(entry: ModificationHistory): void {
+    const file = this.load();
+    file.entries = file.entries.filter((e) => e.id !== entry.id);
+    file.entries.push(entry);
+
+    if (file.entries.length > MAX_HISTORY_ENTRIES) {
+      file.entries = file.entries
+        .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+        .slice(-MAX_HISTORY_ENTRIES);
+    }
+
+    this.save(file);
+  }
+
+  /**
+   * Get a single entry by modification id
+   */
+  get(id: string): ModificationHistory | null {
+    return this.load().entries.find((e) => e.id === id) || null;
+  }
+
+  /**
+   * Update the status of an entry
+   */
+  updateStatus(id: string, status: ModificationStatus): boolean {
+    const file = this.load();
+    const entry = file.entries.find((e) => e.id === id);
+    if (!entry) {
+      return false;
+    }
+
+    entry.status = status;
+    this.save(file);
+    return true;
+  }
+
+  /**
+   * Query history, newest first. A file filter also matches the other
+   * files of a multi-file modification.
+   */
+  query(query: HistoryQuery = {}): ModificationHistory[] {
+    const fs = getFileSystemService(this.projectPath);
+    const filePath = query.filePath && fs.resolvePath(query.filePath);
+    const from = query.from?.getTime();
+    const to = query.to?.getTime();
+
+    const entries = this.load()
+      .entries.filter((entry) => {
+        const time = entry.timestamp.getTime();
+        return (
+          (!filePath || [entry.filePath, ...(entry.files ?? [])].some((f) => fs.resolvePath(f) === filePath)) &&
+          (!query.componentName || entry.componentName === query.componentName) &&
+          (!query.category || entry.category === query.category) &&
+          (!query.status || entry.status === query.status) &&
+          (from === undefined || time >= from) &&
+          (to === undefined || time <= to)
+        );
+      })
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return query.limit !== undefined ? entries.slice(0, query.limit) : entries;
+  }
+
+  /**
+   * Remove all history for the project
+   */
+  clear(): void {
+    this.save({ schemaVersion: HISTORY_SCHEMA_VERSION, entries: [] });
+  }
+}
+
+export function getHistoryStore(projectPath?: string): HistoryStore {
+  return getProject(projectPath).service('history', (root) => new HistoryStore(root));
+}
@@ -0,0 +1,247 @@
+import { relative, resolve } from 'path';
+import { getFileSystemService } from './fileSystem.js';
+import { getSourceResolver } from './sourceResolver.js';
+import { getProject } from './projectRegistry.js';
+import {
+  analyzeReactComponent,
+  findBindingUsages,
+  type BindingUsage,
+  type ExportInfo,
+  type ImportInfo,
+} from '../utils/parser.js';
+import { diffComponentProps, extractComponentProps } from '../utils/propTypes.js';
+import type { CallSite, DependentFile, ImpactReport } from '../types/index.js';
+
+/**
+ * One parsed file in the graph, reused while its mtime is unchanged
+ */
+interface GraphNode {
+  mtimeMs: number;
+  /** Imports with the project file each resolves to, if any */
+  imports: Array<ImportInfo & { resolved: string | null }>;
+  exports: ExportInfo[];
+  usages: BindingUsage[];
+}
+
+/**
+ * The name an export is imported by: 'default' or its own name
+ */
+function exportKey(exportInfo: ExportInfo): string {
+  return exportInfo.isDefault ? 'default' : exportInfo.name;
+}
+
+/**
+ * Import Graph Service. Parses every source file in the project into its
+ * imports and exports so reverse edges ("who imports this file") can be
+ * answered, following re-exports through barrel files.
+ */
+export class ImportGraphService {
+  private projectPath: string;
+  private nodes = new Map<string, GraphNode>();
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+  }
+
+  /**
+   * Bring the graph up to date, reparsing only files whose mtime changed
+   */
+  private refresh(): void {
+    const fs = getFileSystemService(this.projectPath);
+    const files = fs.findReactFiles();
+    const seen = new Set<string>();
+
+    for (const file of files) {
+      const filePath = resolve(file.path);
+      seen.add(filePath);
+
+      const mtimeMs = file.modifiedAt.getTime();
+      if (this.nodes.get(filePath)?.mtimeMs === mtimeMs) continue;
+
+      const read = fs.readFile(filePath);
+      this.nodes.set(filePath, this.parse(filePath, read.content ?? '', mtimeMs));
+    }
+
+    for (const filePath of this.nodes.keys()) {
+      if (!seen.has(filePath)) this.nodes.delete(filePath);
+    }
+  }
+
+  /**
+   * Parse one file into a graph node. Files that don't parse have no edges.
+   */
+  private parse(filePath: string, content: string, mtimeMs: number): GraphNode {
+    const resolver = getSourceResolver(this.projectPath);
+
+    try {
+      const parsed = analyzeReactComponent(content, filePath);
+      return {
+        mtimeMs,
+        imports: parsed.imports.map((imp) => {
+          const resolved = resolver.resolveImport(imp.source, filePath);
+          return { ...imp, resolved: resolved ? resolve(resolved) : null };
+        }),
+        exports: parsed.exports,
+        usages: findBindingUsages(parsed.ast),
+      };
+    } catch {
+      return { mtimeMs, imports: [], exports: [], usages: [] };
+    }
+  }
+
+  /**
+   * Files that import from `filePath`. With `exportNames`, only files using
+   * one of those exports ('default' for the default export) are returned.
+   */
+  getDependents(filePath: string, exportNames?: string[]): DependentFile[] {
+    this.refresh();
+
+    const target = resolve(getFileSystemService(this.projectPath).resolvePath(filePath));
+    const dependents = new Map<string, DependentFile>();
+    this.collectDependents(target, exportNames ? new Set(exportNames) : null, [], new Set([target]), dependents);
+
+    return [...dependents.values()]
+      .map((dependent) => ({ ...dependent, callSites: dependent.callSites.sort((a, b) => a.line - b.line) }))
+      .sort((a, b) => a.filePath.localeCompare(b.filePath));
+  }
+
+  /**
+   * Walk reverse edges into `target`. Re-exports are followed with the names
+   * they forward; every other import is recorded with its call sites.
+   */
+  private collectDependents(
+    target: string,
+    names: Set<string> | null,
+    via: string[],
+    visited: Set<string>,
+    dependents: Map<string, DependentFile>
+  ): void {
+    for (const [filePath, node] of this.nodes) {
+      if (filePath === target) continue;
+
+      for (const imp of node.imports) {
+        if (imp.resolved !== target) continue;
+
+        const bindings = imp.bindings.filter(
+          (b) => names === null || b.imported === '*' || names.has(b.imported)
+        );
+        // Side-effect imports (`import './styles'`) only count when every dependent is wanted
+        if (bindings.length === 0 && names !== null) continue;
+
+        if (imp.reExport) {
+          if (visited.has(filePath)) continue;
+          visited.add(filePath);
+
+          // `export *` forwards the same names; `export { a as b }` renames them
+          const forwarded = bindings.some((b) => b.imported === '*' && b.local === '*')
+            ? names
+            : new Set(bindings.map((b) => b.local));
+          this.collectDependents(filePath, forwarded, [this.relativePath(filePath), ...via], visited, dependents);
+          continue;
+        }
+
+        const relativePath = this.relativePath(filePath);
+        const entry = dependents.get(filePath) ?? { filePath: relativePath, imports: [], via: [], callSites: [] };
+        dependents.set(filePath, entry);
+        via.forEach((barrel) => !entry.via.includes(barrel) && entry.via.push(barrel));
+
+        entry.callSites.push({ line: imp.line, kind: 'import', name: imp.source });
+        for (const binding of bindings) {
+          if (!entry.imports.includes(binding.imported)) entry.imports.push(binding.imported);
+          entry.callSites.push(...this.findCallSites(node, binding, names));
+        }
+      }
+    }
+  }
+
+  /**
+   * Renders and calls of an imported binding. Namespace imports match
+   * `Namespace.member` for the wanted members.
+   */
+  private findCallSites(
+    node: GraphNode,
+    binding: { imported: string; local: string },
+    names: Set<string> | null
+  ): CallSite[] {
+    return node.usages
+      .filter((usage) => {
+        if (binding.imported !== '*') return usage.name === binding.local;
+
+        const [namespace, member] = usage.name.split('.');
+        return namespace === binding.local && member !== undefined && (names === null || names.has(member));
+      })
+      .map((usage) => ({ line: usage.line, kind: usage.kind, name: usage.name }));
+  }
+
+  /**
+   * Compare a file before and after a change and find the dependents of
+   * any export that was removed or whose component props changed in a
+   * breaking way
+   */
+  getImpact(filePath: string, before: string, after: string): ImpactReport {
+    const describe = (code: string) => {
+      try {
+        return {
+          exports: analyzeReactComponent(code, filePath).exports,
+          props: extractComponentProps(code, filePath),
+        };
+      } catch {
+        return null;
+      }
+    };
+
+    const previous = describe(before);
+    const next = describe(after);
+    const empty: ImpactReport = {
+      filePath,
+      removedExports: [],
+      addedExports: [],
+      propChanges: [],
+      affectedExports: [],
+      dependents: [],
+    };
+    // Code that doesn't parse has no reliable exports to compare
+    if (!previous || !next) {
+      return empty;
+    }
+
+    const exportsBefore = new Set(previous.exports.map(exportKey));
+    const exportsAfter = new Set(next.exports.map(exportKey));
+    const removedExports = [...exportsBefore].filter((e) => !exportsAfter.has(e));
+    const addedExports = [...exportsAfter].filter((e) => !exportsBefore.has(e));
+
+    const propChanges = diffComponentProps(previous.props, next.props);
+
+    // A breaking props change affects every export of that component
+    const brokenComponents = new Set(propChanges.filter((c) => c.breaking).map((c) => c.component));
+    const componentExports = previous.exports
+      .filter((e) => brokenComponents.has(e.name))
+      .map(exportKey)
+      .filter((e) => exportsAfter.has(e));
+    const affectedExports = [...new Set([...removedExports, ...componentExports])];
+
+    return {
+      ...empty,
+      removedExports,
+      addedExports,
+      propChanges,
+      affectedExports,
+      dependents: affectedExports.length > 0 ? this.getDependents(filePath, affectedExports) : [],
+    };
+  }
+
+  private relativePath(filePath: string): string {
+    return relative(resolve(this.projectPath), filePath);
+  }
+
+  /**
+   * Drop all cached parses
+   */
+  clear(): void {
+    this.nodes.clear();
+  }
+}
+
+export function getImportGraph(projectPath?: string): ImportGraphService {
+  return getProject(projectPath).service('importGraph', (root) => new ImportGraphService(root));
+}
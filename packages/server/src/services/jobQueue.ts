@@ -0,0 +1,339 @@
+import { randomUUID } from 'crypto';
+import { getCodeAnalyzer } from './codeAnalyzer.js';
+import { getCodeModifier } from './codeModifier.js';
+import { getProject } from './projectRegistry.js';
+import type {
+  AnalysisBatchParams,
+  AnalysisBatchResult,
+  Job,
+  JobKind,
+  JobProgress,
+  ModificationBatchParams,
+  ModificationResult,
+} from '../types/index.js';
+
+/** Jobs running at once across all projects */
+const MAX_RUNNING = 4;
+
+/** Finished jobs kept for polling; older ones are dropped first */
+const MAX_FINISHED = 100;
+
+export interface JobContext {
+  /** Aborted when the job is cancelled; handlers stop at the next safe point */
+  signal: AbortSignal;
+  reportProgress: (progress: JobProgress) => void;
+}
+
+export type JobHandler<TParams = unknown, TResult = unknown> = (
+  job: Job<TParams, TResult>,
+  context: JobContext
+) => Promise<TResult>;
+
+export type JobListener = (job: Job) => void;
+
+/**
+ * Job Queue. Runs long analysis and modification work outside the HTTP
+ * request that submitted it. Jobs that write files are run one at a time
+ * per project, and take turns with synchronous writes made through
+ * `withWriteLock`; everything else runs as soon as a slot is free. Jobs
+ * are kept in memory, so they don't survive a server restart.
+ */
+export class JobQueue {
+  private jobs = new Map<string, Job>();
+  private handlers = new Map<JobKind, JobHandler>();
+  /** Running jobs and the controllers that cancel them */
+  private running = new Map<string, AbortController>();
+  /** Projects a synchronous write currently holds */
+  private locked = new Set<string>();
+  /** Synchronous writes waiting for their project, oldest first */
+  private lockWaiters: Array<{ projectPath: string; acquire: () => void }> = [];
+  private listeners = new Set<JobListener>();
+
+  /**
+   * Set the function that does the work for a kind of job
+   */
+  register<TParams, TResult>(kind: JobKind, handler: JobHandler<TParams, TResult>): void {
+    this.handlers.set(kind, handler as JobHandler);
+  }
+
+  /**
+   * Be told about every change to every job. Returns an unsubscribe function.
+   */
+  onUpdate(listener: JobListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Queue a job; it starts as soon as a slot is free
+   */
+  submit<TParams>(
+    kind: JobKind,
+    params: TParams,
+    options: { projectPath?: string; writes?: boolean } = {}
+  ): Job<TParams> {
+    if (!this.handlers.has(kind)) {
+      throw new Error(`No handler registered for job kind: ${kind}`);
+    }
+
+    const job: Job<TParams> = {
+      id: randomUUID(),
+      kind,
+      projectPath: getProject(options.projectPath).root,
+      status: 'queued',
+      writes: options.writes ?? false,
+      params,
+      attempts: 0,
+      createdAt: new Date(),
+    };
+
+    this.jobs.set(job.id, job);
+    this.notify(job);
+    this.pump();
+    return job;
+  }
+
+  get(id: string): Job | null {
+    return this.jobs.get(id) ?? null;
+  }
+
+  /**
+   * Jobs newest first, optionally for one project only
+   */
+  list(projectPath?: string): Job[] {
+    const root = projectPath ? getProject(projectPath).root : undefined;
+    return [...this.jobs.values()]
+      .filter((job) => !root || job.projectPath === root)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  /**
+   * Cancel a job. A queued job is cancelled at once; a running one is
+   * signalled and ends as cancelled when its handler returns. A running
+   * write job can't be stopped part-way, so it is not cancellable.
+   */
+  cancel(id: string): { success: boolean; job?: Job; error?: string } {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return { success: false, error: 'Job not found' };
+    }
+
+    if (job.status === 'queued') {
+      this.finish(job, 'cancelled');
+      this.pump();
+      return { success: true, job };
+    }
+
+    if (job.status === 'running' && job.writes) {
+      return { success: false, job, error: 'Job is writing files and can no longer be cancelled' };
+    }
+
+    const controller = this.running.get(id);
+    if (job.status === 'running' && controller) {
+      controller.abort();
+      return { success: true, job };
+    }
+
+    return { success: false, job, error: `Job is already ${job.status}` };
+  }
+
+  /**
+   * Queue a failed or cancelled job again with the same id and params
+   */
+  retry(id: string): { success: boolean; job?: Job; error?: string } {
+    const job = this.jobs.get(id);
+    if (!job) {
+      return { success: false, error: 'Job not found' };
+    }
+    if (job.status !== 'failed' && job.status !== 'cancelled') {
+      return { success: false, job, error: `Only failed or cancelled jobs can be retried, this one is ${job.status}` };
+    }
+
+    job.status = 'queued';
+    delete job.progress;
+    delete job.result;
+    delete job.error;
+    delete job.startedAt;
+    delete job.finishedAt;
+
+    this.notify(job);
+    this.pump();
+    return { success: true, job };
+  }
+
+  /**
+   * Run a write outside the queue, such as a synchronous apply request. It
+   * waits for the project's running write job or earlier synchronous write,
+   * and the project's write jobs wait for it.
+   */
+  async withWriteLock<T>(projectPath: string | undefined, write: () => Promise<T>): Promise<T> {
+    const root = getProject(projectPath).root;
+    await new Promise<void>((acquire) => {
+      this.lockWaiters.push({ projectPath: root, acquire });
+      this.pump();
+    });
+
+    try {
+      return await write();
+    } finally {
+      this.locked.delete(root);
+      this.pump();
+    }
+  }
+
+  /**
+   * Hand out write locks, then start queued jobs, oldest first, while there
+   * are free slots. A write job waits while its project is being written.
+   */
+  private pump(): void {
+    // Synchronous writes don't take a slot, only their project's turn
+    for (const waiter of [...this.lockWaiters]) {
+      if (this.isWriting(waiter.projectPath)) continue;
+      this.lockWaiters.splice(this.lockWaiters.indexOf(waiter), 1);
+      this.locked.add(waiter.projectPath);
+      waiter.acquire();
+    }
+
+    const queued = [...this.jobs.values()]
+      .filter((job) => job.status === 'queued')
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+
+    for (const job of queued) {
+      if (this.running.size >= MAX_RUNNING) {
+        return;
+      }
+      if (job.writes && this.isWriting(job.projectPath)) {
+        continue;
+      }
+      this.execute(job);
+    }
+  }
+
+  private isWriting(projectPath: string): boolean {
+    if (this.locked.has(projectPath)) return true;
+    return [...this.running.keys()].some((id) => {
+      const job = this.jobs.get(id);
+      return job?.writes && job.projectPath === projectPath;
+    });
+  }
+
+  private execute(job: Job): void {
+    const handler = this.handlers.get(job.kind);
+    const controller = new AbortController();
+    this.running.set(job.id, controller);
+
+    job.status = 'running';
+    job.attempts += 1;
+    job.startedAt = new Date();
+    this.notify(job);
+
+    const context: JobContext = {
+      signal: controller.signal,
+      reportProgress: (progress) => {
+        job.progress = progress;
+        this.notify(job);
+      },
+    };
+
+    Promise.resolve()
+      .then(() => handler!(job, context))
+      .then((result) => {
+        job.result = result;
+        this.finish(job, controller.signal.aborted ? 'cancelled' : 'succeeded');
+      })
+      .catch((error) => {
+        console.error(`Job ${job.id} (${job.kind}) failed:`, error);
+        if (controller.signal.aborted) {
+          this.finish(job, 'cancelled');
+        } else {
+          job.error = error instanceof Error ? error.message : 'Job failed';
+          this.finish(job, 'failed');
+        }
+      })
+      .finally(() => {
+        this.running.delete(job.id);
+        this.pump();
+      });
+  }
+
+  private finish(job: Job, status: 'succeeded' | 'failed' | 'cancelled'): void {
+    job.status = status;
+    job.finishedAt = new Date();
+    this.notify(job);
+    this.prune();
+  }
+
+  private prune(): void {
+    const finished = [...this.jobs.values()]
+      .filter((job) => job.finishedAt)
+      .sort((a, b) => b.finishedAt!.getTime() - a.finishedAt!.getTime());
+
+    for (const job of finished.slice(MAX_FINISHED)) {
+      this.jobs.delete(job.id);
+    }
+  }
+
+  private notify(job: Job): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(job);
+      } catch (error) {
+        console.warn('Job listener failed:', error);
+      }
+    }
+  }
+}
+
+/**
+ * Analyze files one by one. A file that fails is recorded and skipped;
+ * on cancel the files analyzed so far are kept as the result.
+ */
+const analysisBatch: JobHandler<AnalysisBatchParams, AnalysisBatchResult> = async (job, { signal, reportProgress }) => {
+  const analyzer = getCodeAnalyzer(job.projectPath);
+  const { filePaths, optimizationGoal, category, noCache } = job.params;
+  const result: AnalysisBatchResult = { results: [], failures: [] };
+
+  for (const [index, filePath] of filePaths.entries()) {
+    if (signal.aborted) break;
+    reportProgress({ completed: index, total: filePaths.length, message: filePath });
+
+    try {
+      result.results.push(await analyzer.analyzeFile(filePath, optimizationGoal, category, {
+        route: '/analysis/batch',
+        ...(noCache && { noCache }),
+      }));
+    } catch (error) {
+      result.failures.push({
+        filePath,
+        error: error instanceof Error ? error.message : 'Analysis failed',
+      });
+    }
+  }
+
+  reportProgress({
+    completed: result.results.length + result.failures.length,
+    total: filePaths.length,
+  });
+  return result;
+};
+
+/**
+ * Apply suggestions to one file. The file is written once, so the job can
+ * only be cancelled before it starts.
+ */
+const modificationBatch: JobHandler<ModificationBatchParams, ModificationResult[]> = async (job) => {
+  const { filePath, suggestions, ...options } = job.params;
+  return getCodeModifier(job.projectPath).applyMultipleSuggestions(filePath, suggestions, options);
+};
+
+// Singleton instance
+let instance: JobQueue | null = null;
+
+export function getJobQueue(): JobQueue {
+  if (!instance) {
+    instance = new JobQueue();
+    instance.register('analysis-batch', analysisBatch);
+    instance.register('modification-batch', modificationBatch);
+  }
+  return instance;
+}
@@ -0,0 +1,377 @@
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import type { ClientOptions } from 'openai';
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
+import { MockProvider, RecordingProvider } from './llmFixtures.js';
+import type { LLMConfig, LLMRequest, LLMResponse } from '../types/index.js';
+
+export type LLMProviderName = LLMConfig['provider'];
+
+export type LLMErrorCode =
+  | 'AUTHENTICATION_ERROR'
+  | 'PERMISSION_DENIED'
+  | 'RATE_LIMITED'
+  | 'CONTEXT_LENGTH_EXCEEDED'
+  | 'INVALID_REQUEST'
+  | 'OVERLOADED'
+  | 'PROVIDER_ERROR'
+  | 'NETWORK_ERROR'
+  | 'BUDGET_EXCEEDED';
+
+/**
+ * Normalized error thrown by every provider so callers never have to
+ * know which vendor SDK produced it
+ */
+export class LLMProviderError extends Error {
+  /** Tokens the vendor had counted before the call failed, if any */
+  usage?: LLMResponse['usage'];
+
+  constructor(
+    message: string,
+    public code: LLMErrorCode,
+    public provider: LLMProviderName,
+    public status?: number
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  /**
+   * HTTP status the API routes should answer with
+   */
+  get httpStatus(): number {
+    switch (this.code) {
+      case 'AUTHENTICATION_ERROR':
+      case 'PERMISSION_DENIED':
+        return 502;
+      case 'RATE_LIMITED':
+      case 'BUDGET_EXCEEDED':
+        return 429;
+      case 'CONTEXT_LENGTH_EXCEEDED':
+      case 'INVALID_REQUEST':
+        return 400;
+      case 'OVERLOADED':
+        return 503;
+      default:
+        return 502;
+    }
+  }
+}
+
+/**
+ * Settings resolved from config and environment for a single provider
+ */
+export interface ProviderSettings {
+  apiKey: string;
+  model: string;
+  baseURL?: string;
+  maxTokens: number;
+  temperature: number;
+}
+
+/**
+ * A vendor backend behind LLMService.sendRequest()
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  complete(request: LLMRequest): Promise<LLMResponse>;
+  /**
+   * Same as complete(), but calls onText with each text delta as it arrives
+   */
+  stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse>;
+}
+
+/**
+ * Classify an HTTP status and vendor message into a normalized error code
+ */
+function classifyStatus(status: number | undefined, message: string): LLMErrorCode {
+  if (status === undefined) return 'NETWORK_ERROR';
+  if (status === 401) return 'AUTHENTICATION_ERROR';
+  if (status === 403) return 'PERMISSION_DENIED';
+  if (status === 429) return 'RATE_LIMITED';
+  if (status === 529 || status === 503) return 'OVERLOADED';
+  if (status === 400 || status === 413 || status === 422 || status === 404) {
+    return /context length|maximum context|too many tokens|prompt is too long/i.test(message)
+      ? 'CONTEXT_LENGTH_EXCEEDED'
+      : 'INVALID_REQUEST';
+  }
+  return 'PROVIDER_ERROR';
+}
+
+/**
+ * OpenAI (and OpenAI-compatible) chat completions provider
+ */
+export class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  private client: OpenAI;
+  private settings: ProviderSettings;
+
+  constructor(settings: ProviderSettings) {
+    this.settings = settings;
+    this.model = settings.model;
+
+    const clientConfig: ClientOptions = {
+      apiKey: settings.apiKey,
+    };
+    if (settings.baseURL) {
+      clientConfig.baseURL = settings.baseURL;
+    }
+    this.client = new OpenAI(clientConfig);
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      const response = await this.client.chat.completions.create({
+        model: this.model,
+        max_tokens: request.maxTokens ?? this.settings.maxTokens,
+        temperature: request.temperature ?? this.settings.temperature,
+        messages: this.buildMessages(request),
+      });
+
+      return {
+        content: response.choices[0]?.message?.content || '',
+        usage: {
+          inputTokens: response.usage?.prompt_tokens || 0,
+          outputTokens: response.usage?.completion_tokens || 0,
+        },
+        model: response.model,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    try {
+      const stream = await this.client.chat.completions.create({
+        model: this.model,
+        max_tokens: request.maxTokens ?? this.settings.maxTokens,
+        temperature: request.temperature ?? this.settings.temperature,
+        messages: this.buildMessages(request),
+        stream: true,
+        stream_options: { include_usage: true },
+      });
+
+      let content = '';
+      let model = this.model;
+      let inputTokens = 0;
+      let outputTokens = 0;
+
+      for await (const chunk of stream) {
+        model = chunk.model || model;
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onText(delta);
+        }
+        // Usage arrives on the final chunk, which has no choices
+        if (chunk.usage) {
+          inputTokens = chunk.usage.prompt_tokens;
+          outputTokens = chunk.usage.completion_tokens;
+        }
+      }
+
+      return {
+        content,
+        usage: { inputTokens, outputTokens },
+        model,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  private buildMessages(request: LLMRequest): ChatCompletionMessageParam[] {
+    const messages: ChatCompletionMessageParam[] = [];
+
+    // OpenAI carries the system prompt as the first message
+    if (request.systemPrompt) {
+      messages.push({
+        role: 'system',
+        content: request.systemPrompt,
+      });
+    }
+
+    messages.push({
+      role: 'user',
+      content: request.prompt,
+    });
+
+    return messages;
+  }
+
+  private normalizeError(error: unknown): LLMProviderError {
+    if (error instanceof OpenAI.APIError) {
+      const code =
+        error.code === 'context_length_exceeded'
+          ? 'CONTEXT_LENGTH_EXCEEDED'
+          : classifyStatus(error.status, error.message);
+      return new LLMProviderError(error.message, code, this.name, error.status);
+    }
+    return new LLMProviderError(
+      error instanceof Error ? error.message : 'OpenAI request failed',
+      'NETWORK_ERROR',
+      this.name
+    );
+  }
+}
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+  readonly model: string;
+  private client: Anthropic;
+  private settings: ProviderSettings;
+
+  constructor(settings: ProviderSettings) {
+    this.settings = settings;
+    this.model = settings.model;
+    this.client = new Anthropic({
+      apiKey: settings.apiKey,
+      ...(settings.baseURL && { baseURL: settings.baseURL }),
+    });
+  }
+
+  async complete(request: LLMRequest): Promise<LLMResponse> {
+    try {
+      // Anthropic takes the system prompt as a top-level field, not a message,
+      // and requires max_tokens on every request
+      const response = await this.client.messages.create({
+        model: this.model,
+        max_tokens: request.maxTokens ?? this.settings.maxTokens,
+        temperature: request.temperature ?? this.settings.temperature,
+        ...(request.systemPrompt && { system: request.systemPrompt }),
+        messages: [{ role: 'user', content: request.prompt }],
+      });
+
+      const content = response.content
+        .map((block) => (block.type === 'text' ? block.text : ''))
+        .join('');
+
+      return {
+        content,
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+        model: response.model,
+      };
+    } catch (error) {
+      throw this.normalizeError(error);
+    }
+  }
+
+  async stream(request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    // Errors surface from finalMessage(), not from starting the stream
+    const stream = this.client.messages.stream({
+      model: this.model,
+      max_tokens: request.maxTokens ?? this.settings.maxTokens,
+      temperature: request.temperature ?? this.settings.temperature,
+      ...(request.systemPrompt && { system: request.systemPrompt }),
+      messages: [{ role: 'user', content: request.prompt }],
+    });
+
+    try {
+      stream.on('text', (delta) => onText(delta));
+      const response = await stream.finalMessage();
+
+      return {
+        content: response.content
+          .map((block) => (block.type === 'text' ? block.text : ''))
+          .join(''),
+        usage: {
+          inputTokens: response.usage.input_tokens,
+          outputTokens: response.usage.output_tokens,
+        },
+        model: response.model,
+      };
+    } catch (error) {
+      const normalized = this.normalizeError(error);
+      // Input tokens are counted once the message starts, even if it is cut off
+      const usage = stream.currentMessage?.usage;
+      if (usage) {
+        normalized.usage = { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+      }
+      throw normalized;
+    }
+  }
+
+  private normalizeError(error: unknown): LLMProviderError {
+    if (error instanceof Anthropic.APIError) {
+      return new LLMProviderError(
+        error.message,
+        classifyStatus(error.status, error.message),
+        this.name,
+        error.status
+      );
+    }
+    return new LLMProviderError(
+      error instanceof Error ? error.message : 'Anthropic request failed',
+      'NETWORK_ERROR',
+      this.name
+    );
+  }
+}
+
+/**
+ * Resolve the API key for a provider from the environment
+ */
+export function resolveApiKey(provider: LLMProviderName): string | undefined {
+  if (provider === 'mock') {
+    return undefined;
+  }
+  if (provider === 'anthropic') {
+    return process.env.ANTHROPIC_API_KEY || process.env.LLM_API_KEY;
+  }
+  return process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
+}
+
+/**
+ * Resolve the endpoint override for a provider from the environment.
+ * LLM_BASE_URL points at an OpenAI-compatible API, so it never applies
+ * to Anthropic.
+ */
+export function resolveBaseURL(provider: LLMProviderName): string | undefined {
+  if (provider === 'mock') {
+    return undefined;
+  }
+  if (provider === 'anthropic') {
+    return process.env.ANTHROPIC_BASE_URL || undefined;
+  }
+  return process.env.LLM_BASE_URL || undefined;
+}
+
+/**
+ * Build the provider selected in config, or null when no API key is set
+ */
+export function createProvider(config: LLMConfig): LLMProvider | null {
+  if (config.provider === 'mock') {
+    return new MockProvider(config.fixtures.dir);
+  }
+
+  const apiKey = resolveApiKey(config.provider);
+  if (!apiKey) {
+    return null;
+  }
+
+  const baseURL = resolveBaseURL(config.provider);
+  const settings: ProviderSettings = {
+    apiKey,
+    model: process.env.LLM_MODEL_NAME || config.model,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    ...(baseURL && { baseURL }),
+  };
+
+  const provider =
+    config.provider === 'anthropic'
+      ? new AnthropicProvider(settings)
+      : new OpenAIProvider(settings);
+
+  // Capture real sessions so the mock provider can replay them
+  return config.fixtures.record ? new RecordingProvider(provider, config.fixtures.dir) : provider;
+}
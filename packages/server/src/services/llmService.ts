@@ -1,9 +1,17 @@
-import OpenAI from 'openai';
-import type { ClientOptions } from 'openai';
-import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions';
 import { getConfig } from '../config/index.js';
-import { SYSTEM_PROMPT, buildAnalysisPrompt, buildCommitMessagePrompt } from '../utils/prompts.js';
+import {
+  buildAnalysisMessages,
+  buildBatchAnalysisPrompt,
+  buildCommitMessagePrompt,
+  buildSystemPrompt,
+} from '../utils/prompts.js';
+import { JSONArrayStreamParser } from '../utils/streamParser.js';
+import { createProvider, LLMProviderError, type LLMProvider } from './llmProviders.js';
+import { getProject } from './projectRegistry.js';
+import { getUsageLedger } from './usageLedger.js';
 import type {
+  AccessibilityFinding,
+  LLMCallContext,
   LLMRequest,
   LLMResponse,
   CodeSuggestion,
@@ -11,47 +19,58 @@ import type {
   OptimizationCategory,
   ComponentInfo,
   CodeMetrics,
+  ComponentRenderProfile,
+  PromptOverrides,
 } from '../types/index.js';
 
+export interface AnalyzeComponentParams {
+  componentName: string;
+  filePath: string;
+  code: string;
+  optimizationGoal: string;
+  category?: OptimizationCategory;
+  componentInfo?: ComponentInfo;
+  metrics?: CodeMetrics;
+  renderProfile?: ComponentRenderProfile;
+  accessibilityFindings?: AccessibilityFinding[];
+  /** The project's prompt templates */
+  prompts?: PromptOverrides;
+  context?: LLMCallContext;
+}
+
 interface AnalysisResponse {
   analysis: CodeAnalysis;
   suggestions: CodeSuggestion[];
+  usage?: LLMResponse['usage'];
 }
 
 /**
  * LLM Service for AI-powered code analysis and suggestions
  */
 export class LLMService {
-  private openai: OpenAI | null = null;
-  private initialized = false;
-  private baseURL: string | undefined;
-  private model: string = 'gpt-3.5-turbo';
+  private provider: LLMProvider | null = null;
 
-  constructor() {
-    this.initialize();
+  /**
+   * Uses the provider selected in config unless one is given
+   */
+  constructor(provider?: LLMProvider) {
+    if (provider) {
+      this.provider = provider;
+    } else {
+      this.initialize();
+    }
   }
 
   /**
-   * Initialize the LLM client
+   * Initialize the provider selected in config
    */
   private initialize(): void {
-    const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY;
-    this.baseURL = process.env.LLM_BASE_URL;
     const config = getConfig();
-    this.model = process.env.LLM_MODEL_NAME || config.llm.model;
+    this.provider = createProvider(config.llm);
 
-    if (apiKey) {
-      const clientConfig: ClientOptions = {
-        apiKey,
-      };
-      if (this.baseURL) {
-        clientConfig.baseURL = this.baseURL;
-      }
-      this.openai = new OpenAI(clientConfig);
-      this.initialized = true;
-    } else {
+    if (!this.provider) {
       console.warn(
-        'LLM_API_KEY or OPENAI_API_KEY not found. LLM features will be disabled.'
+        `No API key found for LLM provider "${config.llm.provider}". LLM features will be disabled.`
       );
     }
   }
@@ -60,84 +79,214 @@ export class LLMService {
    * Check if LLM service is available
    */
   isAvailable(): boolean {
-    return this.initialized && this.openai !== null;
+    return this.provider !== null;
+  }
+
+  /**
+   * Get the active provider name and model
+   */
+  getProviderInfo(): { provider: string; model: string } | null {
+    if (!this.provider) {
+      return null;
+    }
+    return { provider: this.provider.name, model: this.provider.model };
   }
 
   /**
    * Send a raw request to the LLM
    */
   async sendRequest(request: LLMRequest): Promise<LLMResponse> {
-    if (!this.openai) {
-      throw new Error('LLM service not initialized. Set LLM_API_KEY or OPENAI_API_KEY.');
+    if (!this.provider) {
+      throw new Error(
+        'LLM service not initialized. Set LLM_API_KEY (or OPENAI_API_KEY / ANTHROPIC_API_KEY), or use LLM_PROVIDER=mock.'
+      );
     }
 
-    const config = getConfig();
-    const messages: ChatCompletionMessageParam[] = [];
+    const provider = this.provider;
+    return this.metered(provider, request, () => provider.complete(request));
+  }
 
-    if (request.systemPrompt) {
-      messages.push({
-        role: 'system',
-        content: request.systemPrompt,
-      });
+  /**
+   * Send a request and receive the completion incrementally
+   */
+  async sendStreamingRequest(
+    request: LLMRequest,
+    onText: (delta: string) => void
+  ): Promise<LLMResponse> {
+    if (!this.provider) {
+      throw new Error(
+        'LLM service not initialized. Set LLM_API_KEY (or OPENAI_API_KEY / ANTHROPIC_API_KEY), or use LLM_PROVIDER=mock.'
+      );
     }
 
-    messages.push({
-      role: 'user',
-      content: request.prompt,
-    });
-
-    const response = await this.openai.chat.completions.create({
-      model: this.model,
-      max_tokens: request.maxTokens ?? config.llm.maxTokens,
-      temperature: request.temperature ?? config.llm.temperature,
-      messages,
-    });
+    const provider = this.provider;
+    return this.metered(provider, request, () => provider.stream(request, onText));
+  }
 
-    const content = response.choices[0]?.message?.content || '';
+  /**
+   * Refuse a call once the project's budget is used up, and record the
+   * usage of every call that goes through, including failed ones. Calls
+   * without a context are charged to the default project.
+   */
+  private async metered(
+    provider: LLMProvider,
+    request: LLMRequest,
+    call: () => Promise<LLMResponse>
+  ): Promise<LLMResponse> {
+    const context = request.context ?? { projectPath: getProject().root, route: 'unknown' };
+    const ledger = getUsageLedger(context.projectPath);
+
+    const { exceeded } = ledger.getBudgetStatus();
+    if (exceeded) {
+      throw new LLMProviderError(exceeded, 'BUDGET_EXCEEDED', provider.name);
+    }
 
-    return {
-      content,
-      usage: {
-        inputTokens: response.usage?.prompt_tokens || 0,
-        outputTokens: response.usage?.completion_tokens || 0,
-      },
-      model: response.model,
+    const startedAt = Date.now();
+    const record = (model: string, usage: LLMResponse['usage'], error?: string) => {
+      try {
+        ledger.record({
+          route: context.route,
+          ...(context.componentName && { componentName: context.componentName }),
+          provider: provider.name,
+          model,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          latencyMs: Date.now() - startedAt,
+          ...(error && { error }),
+        });
+      } catch (recordError) {
+        console.warn('Failed to record LLM usage:', recordError);
+      }
     };
+
+    let response: LLMResponse;
+    try {
+      response = await call();
+    } catch (error) {
+      // A failed call may still have been billed, e.g. a stream cut off part-way
+      record(
+        provider.model,
+        (error instanceof LLMProviderError && error.usage) || { inputTokens: 0, outputTokens: 0 },
+        error instanceof Error ? error.message : 'LLM request failed'
+      );
+      throw error;
+    }
+
+    record(response.model || provider.model, response.usage);
+    return response;
   }
 
   /**
-   * Analyze a React component and generate optimization suggestions
+   * Analyze a React component and generate optimization suggestions.
+   * When onSuggestion is given the completion is streamed and each
+   * suggestion is reported as soon as it has been parsed.
    */
-  async analyzeComponent(params: {
-    componentName: string;
-    filePath: string;
-    code: string;
-    optimizationGoal: string;
-    category?: OptimizationCategory;
-    componentInfo?: ComponentInfo;
-    metrics?: CodeMetrics;
-  }): Promise<AnalysisResponse> {
+  async analyzeComponent(
+    params: AnalyzeComponentParams,
+    onSuggestion?: (suggestion: CodeSuggestion, index: number) => void
+  ): Promise<AnalysisResponse> {
     if (!this.isAvailable()) {
       throw new Error('LLM service not available');
     }
 
-    const prompt = buildAnalysisPrompt(params);
-
-    const response = await this.sendRequest({
+    const { systemPrompt, prompt } = buildAnalysisMessages(params, params.prompts);
+    const request: LLMRequest = {
       prompt,
-      systemPrompt: SYSTEM_PROMPT,
-    });
+      systemPrompt,
+      ...(params.context && { context: params.context }),
+    };
+    const idPrefix = `suggestion-${Date.now()}`;
+    const streamed: CodeSuggestion[] = [];
+
+    let response: LLMResponse;
+    if (onSuggestion) {
+      const parser = new JSONArrayStreamParser('suggestions');
+      response = await this.sendStreamingRequest(request, (delta) => {
+        for (const raw of parser.push(delta)) {
+          const index = streamed.length;
+          const suggestion = this.normalizeSuggestion(raw as Partial<CodeSuggestion>);
+          suggestion.id = suggestion.id || `${idPrefix}-${index}`;
+          streamed.push(suggestion);
+          onSuggestion(suggestion, index);
+        }
+      });
+    } else {
+      response = await this.sendRequest(request);
+    }
 
     // Parse JSON response
     const parsed = this.parseAnalysisResponse(response.content);
 
-    // Generate unique IDs for suggestions
+    // Keep what was already streamed if the full response didn't parse
+    if (parsed.suggestions.length === 0 && streamed.length > 0) {
+      parsed.suggestions = streamed;
+    }
+
+    // Generate unique IDs for suggestions (matching any streamed ones)
     parsed.suggestions = parsed.suggestions.map((suggestion, index) => ({
       ...suggestion,
-      id: suggestion.id || `suggestion-${Date.now()}-${index}`,
+      id: suggestion.id || `${idPrefix}-${index}`,
     }));
 
-    return parsed;
+    return { ...parsed, usage: response.usage };
+  }
+
+  /**
+   * Look across several components for shared patterns and cross-cutting
+   * improvements
+   */
+  async analyzeBatch(params: {
+    components: Array<{
+      name: string;
+      filePath: string;
+      code: string;
+    }>;
+    goal: string;
+    prompts?: PromptOverrides;
+    context?: LLMCallContext;
+  }): Promise<{ recommendations: string[]; usage: LLMResponse['usage'] }> {
+    if (!this.isAvailable()) {
+      throw new Error('LLM service not available');
+    }
+
+    const response = await this.sendRequest({
+      prompt: buildBatchAnalysisPrompt(params),
+      systemPrompt: buildSystemPrompt(params.prompts, { goal: params.goal }),
+      ...(params.context && { context: params.context }),
+    });
+
+    let recommendations: string[] = [];
+    try {
+      const jsonMatch = response.content.match(/\{[\s\S]*\}/);
+      const parsed = jsonMatch ? JSON.parse(jsonMatch[0]) : null;
+      if (Array.isArray(parsed?.recommendations)) {
+        recommendations = parsed.recommendations.filter((r: unknown): r is string => typeof r === 'string');
+      }
+    } catch (error) {
+      console.error('Failed to parse batch analysis response:', error);
+    }
+
+    return { recommendations, usage: response.usage };
+  }
+
+  /**
+   * Fill in defaults for a suggestion object produced by the LLM
+   */
+  private normalizeSuggestion(s: Partial<CodeSuggestion>): CodeSuggestion {
+    return {
+      id: s.id || '',
+      title: s.title || 'Untitled suggestion',
+      description: s.description || '',
+      category: s.category || 'code-quality',
+      priority: s.priority || 'medium',
+      originalCode: s.originalCode || '',
+      modifiedCode: s.modifiedCode || '',
+      explanation: s.explanation || '',
+      lineStart: s.lineStart || 1,
+      lineEnd: s.lineEnd || 1,
+      confidence: s.confidence || 0.5,
+      ...(Array.isArray(s.files) && s.files.length > 0 && { files: s.files }),
+    };
   }
 
   /**
@@ -169,19 +318,9 @@ export class LLMService {
             exports: [],
           },
         },
-        suggestions: (parsed.suggestions || []).map((s: Partial<CodeSuggestion>) => ({
-          id: s.id || '',
-          title: s.title || 'Untitled suggestion',
-          description: s.description || '',
-          category: s.category || 'code-quality',
-          priority: s.priority || 'medium',
-          originalCode: s.originalCode || '',
-          modifiedCode: s.modifiedCode || '',
-          explanation: s.explanation || '',
-          lineStart: s.lineStart || 1,
-          lineEnd: s.lineEnd || 1,
-          confidence: s.confidence || 0.5,
-        })),
+        suggestions: (parsed.suggestions || []).map((s: Partial<CodeSuggestion>) =>
+          this.normalizeSuggestion(s)
+        ),
       };
     } catch (error) {
       console.error('Failed to parse LLM response:', error);
@@ -220,23 +359,35 @@ export class LLMService {
       category: OptimizationCategory;
       description: string;
     }>;
+    context?: LLMCallContext;
   }): Promise<string> {
+    // Fallback commit message
+    const categories = [...new Set(params.changes.map((c) => c.category))];
+    const fallback = `Optimize ${params.filePath}: ${categories.join(', ')}`;
+
     if (!this.isAvailable()) {
-      // Fallback commit message
-      const categories = [...new Set(params.changes.map((c) => c.category))];
-      return `Optimize ${params.filePath}: ${categories.join(', ')}`;
+      return fallback;
     }
 
     const prompt = buildCommitMessagePrompt(params);
 
-    const response = await this.sendRequest({
-      prompt,
-      systemPrompt:
-        'You are a helpful assistant that generates concise, conventional Git commit messages.',
-      maxTokens: 256,
-    });
+    try {
+      const response = await this.sendRequest({
+        prompt,
+        systemPrompt:
+          'You are a helpful assistant that generates concise, conventional Git commit messages.',
+        maxTokens: 256,
+        ...(params.context && { context: params.context }),
+      });
 
-    return response.content.trim();
+      return response.content.trim();
+    } catch (error) {
+      // An exhausted budget shouldn't stop a change from being committed
+      if (error instanceof LLMProviderError && error.code === 'BUDGET_EXCEEDED') {
+        return fallback;
+      }
+      throw error;
+    }
   }
 
   /**
@@ -246,6 +397,7 @@ export class LLMService {
     originalCode: string;
     modifiedCode: string;
     suggestionTitle: string;
+    context?: LLMCallContext;
   }): Promise<{
     valid: boolean;
     issues: string[];
@@ -280,6 +432,7 @@ Respond with JSON: {"valid": boolean, "issues": string[], "suggestions": string[
         prompt,
         systemPrompt: 'You are a code review assistant. Respond only with valid JSON.',
         maxTokens: 512,
+        ...(params.context && { context: params.context }),
       });
 
       const jsonMatch = response.content.match(/\{[\s\S]*\}/);
@@ -300,6 +453,7 @@ Respond with JSON: {"valid": boolean, "issues": string[], "suggestions": string[
     originalCode: string;
     modifiedCode: string;
     category: OptimizationCategory;
+    context?: LLMCallContext;
   }): Promise<string> {
     if (!this.isAvailable()) {
       return 'LLM service not available for explanation generation.';
@@ -322,6 +476,7 @@ ${params.modifiedCode}
       systemPrompt:
         'Provide brief, clear explanations of code changes. Focus on the practical benefits.',
       maxTokens: 256,
+      ...(params.context && { context: params.context }),
     });
 
     return response.content.trim();
@@ -336,6 +491,7 @@ ${params.modifiedCode}
       category: OptimizationCategory;
     }>;
     componentCode: string;
+    context?: LLMCallContext;
   }): Promise<string[]> {
     if (!this.isAvailable()) {
       return [];
@@ -361,6 +517,7 @@ Suggest 2-3 related improvements. Respond with a JSON array of strings: ["sugges
         systemPrompt:
           'Suggest related code improvements. Be specific and actionable. Respond only with a JSON array.',
         maxTokens: 256,
+        ...(params.context && { context: params.context }),
       });
 
       const jsonMatch = response.content.match(/\[[\s\S]*\]/);
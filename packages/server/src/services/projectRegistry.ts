@@ -0,0 +1,176 @@
+import { existsSync, readFileSync, statSync } from 'fs';
+import { basename, join, resolve } from 'path';
+import { clearConfigCache } from '../config/index.js';
+import type { ProjectInfo } from '../types/index.js';
+
+/**
+ * A registered project and the services bound to its root
+ */
+export class ProjectContext {
+  readonly root: string;
+  name: string;
+  readonly registeredAt = new Date();
+  lastAccessedAt = new Date();
+  private services = new Map<string, unknown>();
+
+  constructor(root: string, name?: string) {
+    this.root = root;
+    this.name = name || readPackageName(root) || basename(root);
+  }
+
+  /**
+   * Get this project's instance of a service, creating it on first use
+   */
+  service<T>(key: string, create: (root: string) => T): T {
+    let instance = this.services.get(key) as T | undefined;
+    if (instance === undefined) {
+      instance = create(this.root);
+      this.services.set(key, instance);
+    }
+    return instance;
+  }
+
+  toInfo(isDefault: boolean): ProjectInfo {
+    return {
+      root: this.root,
+      name: this.name,
+      isDefault,
+      registeredAt: this.registeredAt,
+      lastAccessedAt: this.lastAccessedAt,
+    };
+  }
+}
+
+/**
+ * Read the name from a project's package.json, if it has one
+ */
+function readPackageName(root: string): string | null {
+  try {
+    const pkg = JSON.parse(readFileSync(join(root, 'package.json'), 'utf-8')) as { name?: unknown };
+    return typeof pkg.name === 'string' && pkg.name ? pkg.name : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Unregistered projects whose services are kept between requests */
+const MAX_UNREGISTERED = 8;
+
+/**
+ * Project Registry keyed by resolved project root, so each project gets
+ * its own set of services instead of sharing one swapped-out default.
+ * Projects are registered only through `register`; any other root a
+ * request names gets a context from a small pool of recently used ones,
+ * which isn't listed and drops its least recently used entry when full.
+ */
+export class ProjectRegistry {
+  private projects = new Map<string, ProjectContext>();
+  /** Unregistered contexts, least recently used first */
+  private unregistered = new Map<string, ProjectContext>();
+  private defaultRoot: string;
+
+  constructor(defaultRoot: string) {
+    this.defaultRoot = resolve(defaultRoot);
+  }
+
+  /**
+   * Get a project's context. Without a path the default project (the
+   * server's working directory unless changed) is used. A root that isn't
+   * registered is not registered by this.
+   */
+  get(projectPath?: string): ProjectContext {
+    const root = projectPath ? resolve(projectPath) : this.defaultRoot;
+
+    let project = this.projects.get(root) ?? this.unregistered.get(root);
+    if (!project) {
+      project = new ProjectContext(root);
+    }
+    if (!this.projects.has(root)) {
+      // Re-inserted to mark it as most recently used
+      this.unregistered.delete(root);
+      this.unregistered.set(root, project);
+      if (this.unregistered.size > MAX_UNREGISTERED) {
+        const [oldest] = this.unregistered.keys();
+        this.unregistered.delete(oldest!);
+      }
+    }
+
+    project.lastAccessedAt = new Date();
+    return project;
+  }
+
+  /**
+   * Explicitly register a project, validating that its root exists
+   */
+  register(
+    projectPath: string,
+    options: { name?: string; makeDefault?: boolean } = {}
+  ): { success: boolean; project?: ProjectInfo; error?: string } {
+    const root = resolve(projectPath);
+
+    if (!existsSync(root) || !statSync(root).isDirectory()) {
+      return { success: false, error: `Project root is not a directory: ${root}` };
+    }
+
+    let project = this.projects.get(root);
+    if (!project) {
+      // Keep the services of a project that was already in use
+      project = this.unregistered.get(root) ?? new ProjectContext(root, options.name);
+      this.unregistered.delete(root);
+      this.projects.set(root, project);
+    }
+    if (options.name) {
+      project.name = options.name;
+    }
+
+    // Pick up config changes when a project is (re-)registered
+    clearConfigCache(root);
+
+    if (options.makeDefault) {
+      this.defaultRoot = root;
+    }
+
+    return { success: true, project: project.toInfo(root === this.defaultRoot) };
+  }
+
+  /**
+   * Remove a project and drop its services
+   */
+  unregister(projectPath: string): boolean {
+    const root = resolve(projectPath);
+    clearConfigCache(root);
+    this.unregistered.delete(root);
+    return this.projects.delete(root);
+  }
+
+  /**
+   * List registered projects, most recently used first
+   */
+  list(): ProjectInfo[] {
+    return [...this.projects.values()]
+      .sort((a, b) => b.lastAccessedAt.getTime() - a.lastAccessedAt.getTime())
+      .map((project) => project.toInfo(project.root === this.defaultRoot));
+  }
+
+  getDefaultRoot(): string {
+    return this.defaultRoot;
+  }
+}
+
+// Singleton instance
+let registry: ProjectRegistry | null = null;
+
+export function getProjectRegistry(): ProjectRegistry {
+  if (!registry) {
+    registry = new ProjectRegistry(process.cwd());
+  }
+
+  return registry;
+}
+
+/**
+ * Get the context for a project (or the default project)
+ */
+export function getProject(projectPath?: string): ProjectContext {
+  return getProjectRegistry().get(projectPath);
+}
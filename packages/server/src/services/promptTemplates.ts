@@ -0,0 +1,162 @@
+import { existsSync, readFileSync, readdirSync, statSync } from 'fs';
+import { join, relative } from 'path';
+import { getConfig } from '../config/index.js';
+import { getProject } from './projectRegistry.js';
+import { listCategories } from '../utils/categories.js';
+import { PROMPT_VARIABLES, findTemplateVariables } from '../utils/prompts.js';
+import type { OptimizationCategory, PromptOverrides } from '../types/index.js';
+
+export interface LoadedPrompts {
+  overrides: PromptOverrides;
+  /** Files that were applied, relative to the project root */
+  files: string[];
+  /** Files that failed validation and were skipped */
+  errors: string[];
+}
+
+/**
+ * Prompt Template Service. Loads a project's prompt templates from the
+ * prompts directory (llm.promptsDir):
+ *
+ *   system.md, system.append.md              the system prompt
+ *   analysis.md, analysis.append.md          the analysis request
+ *   categories/<category>[.append].md        one category's guidelines
+ *
+ * A plain file replaces the built-in prompt and an `.append.md` file is
+ * added after it. Templates are validated when loaded; invalid ones are
+ * skipped with a warning. Files are read again when they change.
+ *
+ * The project's custom categories (optimization.customCategories) are
+ * passed along with the templates and may have category files too.
+ */
+export class PromptTemplateService {
+  private projectPath: string;
+  private cache: { signature: string; prompts: LoadedPrompts } | null = null;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+  }
+
+  load(): LoadedPrompts {
+    const config = getConfig(this.projectPath);
+    const dir = join(this.projectPath, config.llm.promptsDir);
+    const files = this.listFiles(dir);
+    const customCategories = config.optimization.customCategories;
+    const signature = [
+      JSON.stringify(customCategories),
+      ...files.map(({ path, mtimeMs }) => `${path}:${mtimeMs}`),
+    ].join('|');
+
+    if (this.cache?.signature === signature) {
+      return this.cache.prompts;
+    }
+
+    const prompts: LoadedPrompts = {
+      overrides: customCategories.length > 0 ? { customCategories } : {},
+      files: [],
+      errors: [],
+    };
+    const categories = listCategories(customCategories).map((category) => category.id);
+    for (const { path: file } of files) {
+      let template: string;
+      try {
+        template = readFileSync(file, 'utf-8').trim();
+      } catch {
+        // Deleted since it was listed
+        continue;
+      }
+
+      const name = relative(dir, file).split('\\').join('/');
+      const displayPath = relative(this.projectPath, file);
+      const error = this.apply(prompts.overrides, name, template, categories);
+
+      if (error) {
+        prompts.errors.push(`${displayPath}: ${error}`);
+      } else {
+        prompts.files.push(displayPath);
+      }
+    }
+
+    if (prompts.errors.length > 0) {
+      console.warn(`Skipped invalid prompt templates:\n  ${prompts.errors.join('\n  ')}`);
+    }
+
+    this.cache = { signature, prompts };
+    return prompts;
+  }
+
+  /**
+   * Markdown files in the prompts directory and its categories folder,
+   * with their modification times. A file deleted while listing is left out.
+   */
+  private listFiles(dir: string): Array<{ path: string; mtimeMs: number }> {
+    const read = (path: string) =>
+      existsSync(path)
+        ? readdirSync(path)
+            .filter((file) => file.endsWith('.md'))
+            .map((file) => join(path, file))
+            .sort()
+        : [];
+
+    return [...read(dir), ...read(join(dir, 'categories'))].flatMap((path) => {
+      try {
+        return [{ path, mtimeMs: statSync(path).mtimeMs }];
+      } catch {
+        return [];
+      }
+    });
+  }
+
+  /**
+   * Validate one template and add it to the overrides. Returns why it was
+   * rejected, if it was.
+   */
+  private apply(
+    overrides: PromptOverrides,
+    name: string,
+    template: string,
+    categories: OptimizationCategory[]
+  ): string | null {
+    const match = name.match(/^(?:(system|analysis)|categories\/([\w-]+))(\.append)?\.md$/);
+    if (!match) {
+      return 'unknown template; expected system.md, analysis.md or categories/<category>.md, optionally as .append.md';
+    }
+
+    const [, prompt, category, append] = match;
+    if (category && !categories.includes(category)) {
+      return `unknown category "${category}"; expected one of ${categories.join(', ')}`;
+    }
+    if (!template) {
+      return 'template is empty';
+    }
+
+    const unknown = findTemplateVariables(template).filter(
+      (variable) => !(PROMPT_VARIABLES as readonly string[]).includes(variable)
+    );
+    if (unknown.length > 0) {
+      return `unknown variable(s) ${unknown.map((v) => `{{${v}}}`).join(', ')}; available: ${PROMPT_VARIABLES.join(', ')}`;
+    }
+
+    // A replacement must still give the model what the response parser needs
+    if (prompt === 'analysis' && !append && !findTemplateVariables(template).includes('code')) {
+      return 'a replacement analysis prompt must include {{code}}';
+    }
+    if (prompt === 'system' && !append && !template.includes('"suggestions"')) {
+      return 'a replacement system prompt must describe the JSON response format, including "suggestions"';
+    }
+
+    if (prompt === 'system') {
+      overrides[append ? 'systemAppend' : 'system'] = template;
+    } else if (prompt === 'analysis') {
+      overrides[append ? 'analysisAppend' : 'analysis'] = template;
+    } else {
+      const key = append ? 'categoryAppends' : 'categories';
+      overrides[key] = { ...overrides[key], [category as string]: template };
+    }
+    return null;
+  }
+}
+
+export function getPromptTemplates(projectPath?: string): PromptTemplateService {
+  return getProject(projectPath).service('prompts', (root) => new PromptTemplateService(root));
+}
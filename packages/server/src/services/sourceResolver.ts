@@ -0,0 +1,471 @@
+import ts from 'typescript';
+import { existsSync, readdirSync, readFileSync, realpathSync, statSync } from 'fs';
+import { dirname, isAbsolute, join, relative, resolve, sep } from 'path';
+import { getProject } from './projectRegistry.js';
+import type {
+  ResolvedSource,
+  SourceResolutionStrategy,
+  WorkspacePackage,
+} from '../types/index.js';
+
+/** Extensions tried when an alias or package path omits one */
+const PROBE_SUFFIXES = ['', '.tsx', '.ts', '.jsx', '.js', '/index.tsx', '/index.ts', '/index.jsx', '/index.js'];
+
+/** How deep `**` in a workspace pattern descends */
+const MAX_GLOB_DEPTH = 4;
+
+interface PathAlias {
+  prefix: string;
+  suffix: string;
+  hasWildcard: boolean;
+  substitutions: string[];
+  baseDir: string;
+}
+
+type ResolveResult =
+  | { success: true; source: ResolvedSource }
+  | { success: false; error: string };
+
+function isDirectory(path: string): boolean {
+  try {
+    return statSync(path).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function isFile(path: string): boolean {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
+
+function isInside(root: string, filePath: string): boolean {
+  const rel = relative(root, filePath);
+  return rel === '' || (!rel.startsWith('..') && !isAbsolute(rel));
+}
+
+function readJSON<T>(path: string): T | null {
+  try {
+    return JSON.parse(readFileSync(path, 'utf-8')) as T;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the `packages` list from pnpm-workspace.yaml (block or flow style)
+ */
+function readPnpmWorkspacePatterns(filePath: string): string[] {
+  const patterns: string[] = [];
+  let inPackages = false;
+
+  for (const line of readFileSync(filePath, 'utf-8').split(/\r?\n/)) {
+    const flow = line.match(/^packages:\s*\[(.*)\]/);
+    if (flow?.[1] !== undefined) {
+      return flow[1]
+        .split(',')
+        .map((p) => p.trim().replace(/^['"]|['"]$/g, ''))
+        .filter(Boolean);
+    }
+
+    if (/^packages:\s*$/.test(line)) {
+      inPackages = true;
+      continue;
+    }
+
+    if (inPackages) {
+      const item = line.match(/^\s*-\s*['"]?([^'"#]+?)['"]?\s*(#.*)?$/);
+      if (item?.[1]) {
+        patterns.push(item[1]);
+      } else if (/^\S/.test(line)) {
+        inPackages = false;
+      }
+    }
+  }
+
+  return patterns;
+}
+
+/**
+ * Expand a workspace glob (`packages/*`, `apps/**`) to directories
+ */
+function expandWorkspacePattern(root: string, pattern: string): string[] {
+  const segments = pattern.replace(/^\.\//, '').replace(/\/+$/, '').split('/');
+  let dirs = [root];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const dir of dirs) {
+      if (segment === '**') {
+        next.push(dir, ...listSubdirectories(dir, MAX_GLOB_DEPTH));
+      } else if (segment.includes('*')) {
+        const matcher = new RegExp(
+          `^${segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')}$`
+        );
+        next.push(...listSubdirectories(dir, 1).filter((d) => matcher.test(d.slice(dir.length + 1))));
+      } else if (isDirectory(join(dir, segment))) {
+        next.push(join(dir, segment));
+      }
+    }
+    dirs = next;
+  }
+
+  return dirs;
+}
+
+function listSubdirectories(dir: string, depth: number): string[] {
+  if (depth <= 0) return [];
+
+  let entries: string[];
+  try {
+    entries = readdirSync(dir);
+  } catch {
+    return [];
+  }
+
+  const result: string[] = [];
+  for (const entry of entries) {
+    if (entry === 'node_modules' || entry.startsWith('.')) continue;
+    const full = join(dir, entry);
+    if (!isDirectory(full)) continue;
+    result.push(full, ...listSubdirectories(full, depth - 1));
+  }
+  return result;
+}
+
+/**
+ * Source Resolver for mapping runtime source locations (React's
+ * `_debugSource.fileName`) back to files the server may edit. Understands
+ * npm/yarn/pnpm workspaces, tsconfig path aliases and Vite `/@fs/` URLs.
+ */
+export class SourceResolver {
+  private projectPath: string;
+  private workspaceRoot: string | null = null;
+  private packages: WorkspacePackage[] | null = null;
+  private aliases: PathAlias[] | null = null;
+  /** Files `resolve` has returned, the only ones outside the project that may be opened */
+  private resolvedFiles = new Set<string>();
+
+  constructor(projectPath: string) {
+    this.projectPath = resolve(projectPath);
+  }
+
+  /**
+   * Find the workspace root containing the project and its packages
+   */
+  getWorkspacePackages(): WorkspacePackage[] {
+    if (this.packages) {
+      return this.packages;
+    }
+
+    const packages = new Map<string, WorkspacePackage>();
+    let dir = this.projectPath;
+
+    while (true) {
+      const patterns = this.readWorkspacePatterns(dir);
+      if (patterns) {
+        this.workspaceRoot = dir;
+        const excluded = patterns
+          .filter((p) => p.startsWith('!'))
+          .flatMap((p) => expandWorkspacePattern(dir, p.slice(1)));
+
+        for (const pattern of patterns.filter((p) => !p.startsWith('!'))) {
+          for (const root of expandWorkspacePattern(dir, pattern)) {
+            if (excluded.includes(root) || packages.has(root)) continue;
+            const pkg = readJSON<{ name?: string }>(join(root, 'package.json'));
+            if (pkg) {
+              packages.set(root, { name: pkg.name ?? null, root });
+            }
+          }
+        }
+        break;
+      }
+
+      const parent = dirname(dir);
+      if (parent === dir) break;
+      dir = parent;
+    }
+
+    this.packages = [...packages.values()];
+    return this.packages;
+  }
+
+  private readWorkspacePatterns(dir: string): string[] | null {
+    const pnpmWorkspace = join(dir, 'pnpm-workspace.yaml');
+    if (existsSync(pnpmWorkspace)) {
+      return readPnpmWorkspacePatterns(pnpmWorkspace);
+    }
+
+    const pkg = readJSON<{ workspaces?: string[] | { packages?: string[] } }>(join(dir, 'package.json'));
+    if (!pkg?.workspaces) {
+      return null;
+    }
+    return Array.isArray(pkg.workspaces) ? pkg.workspaces : pkg.workspaces.packages ?? [];
+  }
+
+  /**
+   * Roots the server may edit: the project and its sibling workspace packages
+   */
+  getEditableRoots(): string[] {
+    const roots = [this.projectPath];
+    for (const pkg of this.getWorkspacePackages()) {
+      if (!roots.some((root) => isInside(root, pkg.root))) {
+        roots.push(pkg.root);
+      }
+    }
+    return roots;
+  }
+
+  /**
+   * Check whether a file may be edited. Dependencies under node_modules never can.
+   */
+  isEditable(filePath: string): boolean {
+    const absolute = resolve(filePath);
+    if (absolute.split(sep).includes('node_modules')) {
+      return false;
+    }
+    return this.getEditableRoots().some((root) => isInside(root, absolute));
+  }
+
+  /**
+   * Check whether a file was returned by `resolve` and may still be edited
+   */
+  isResolvedSource(filePath: string): boolean {
+    const absolute = resolve(filePath);
+    return this.resolvedFiles.has(absolute) && this.isEditable(absolute);
+  }
+
+  /**
+   * Map a runtime source location to an editable file
+   */
+  resolve(fileName: string): ResolveResult {
+    let raw = fileName.trim().replace(/^file:\/\//, '').replace(/[?#].*$/, '');
+    let strategy: SourceResolutionStrategy = 'direct';
+
+    if (!raw) {
+      return { success: false, error: 'Empty source path' };
+    }
+
+    // Vite serves files outside its root as /@fs/<absolute path>
+    if (raw.startsWith('/@fs/')) {
+      raw = raw.slice('/@fs'.length);
+      // /@fs/C:/... on Windows
+      if (/^\/[A-Za-z]:\//.test(raw)) raw = raw.slice(1);
+      strategy = 'vite-fs';
+    }
+
+    if (isAbsolute(raw) && isFile(raw)) {
+      return this.accept(raw, strategy);
+    }
+
+    // Vite root-relative URL (/src/App.tsx), or a path relative to the project
+    const projectRelative = join(this.projectPath, raw);
+    if (isFile(projectRelative)) {
+      return this.accept(projectRelative, raw.startsWith('/') ? 'root-relative' : 'direct');
+    }
+
+    const fromPackage = this.resolveWorkspaceSpecifier(raw);
+    if (fromPackage) {
+      return this.accept(fromPackage, 'workspace-package');
+    }
+
+    const fromAlias = this.resolveAlias(raw);
+    if (fromAlias) {
+      return this.accept(fromAlias, 'tsconfig-paths');
+    }
+
+    return this.resolveBySuffix(raw);
+  }
+
+  /**
+   * Resolve an import specifier written in `fromFile` to a source file.
+   * Relative paths, workspace packages and tsconfig aliases are followed;
+   * anything else is treated as an external dependency and yields null.
+   */
+  resolveImport(specifier: string, fromFile: string): string | null {
+    if (specifier.startsWith('.')) {
+      return this.probe(resolve(dirname(fromFile), specifier));
+    }
+    return this.resolveWorkspaceSpecifier(specifier) ?? this.resolveAlias(specifier);
+  }
+
+  /**
+   * Canonicalize a found file and check it may be edited
+   */
+  private accept(filePath: string, strategy: SourceResolutionStrategy): ResolveResult {
+    let absolute = resolve(filePath);
+
+    // Workspace packages are usually symlinked into node_modules
+    try {
+      const real = realpathSync(absolute);
+      if (real !== absolute) {
+        absolute = real;
+        if (strategy === 'direct') strategy = 'symlink';
+      }
+    } catch {
+      // Keep the unresolved path
+    }
+
+    if (!this.isEditable(absolute)) {
+      return {
+        success: false,
+        error: `Source file is outside the project and its workspace packages: ${absolute}`,
+      };
+    }
+
+    this.resolvedFiles.add(absolute);
+
+    const owner = [...this.getWorkspacePackages()]
+      .filter((pkg) => isInside(pkg.root, absolute))
+      .sort((a, b) => b.root.length - a.root.length)[0];
+
+    return {
+      success: true,
+      source: {
+        filePath: absolute,
+        relativePath: relative(this.projectPath, absolute),
+        packageRoot: owner?.root ?? this.projectPath,
+        packageName: owner?.name ?? readJSON<{ name?: string }>(join(this.projectPath, 'package.json'))?.name ?? null,
+        strategy,
+      },
+    };
+  }
+
+  /**
+   * Resolve `@scope/ui/src/Button.tsx` against workspace package names
+   */
+  private resolveWorkspaceSpecifier(specifier: string): string | null {
+    for (const pkg of this.getWorkspacePackages()) {
+      if (!pkg.name) continue;
+      if (specifier === pkg.name || specifier.startsWith(`${pkg.name}/`)) {
+        const found = this.probe(join(pkg.root, specifier.slice(pkg.name.length)));
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Resolve a tsconfig `paths` alias such as `@/components/Button`
+   */
+  private resolveAlias(specifier: string): string | null {
+    for (const alias of this.getAliases()) {
+      const matches = alias.hasWildcard
+        ? specifier.startsWith(alias.prefix) &&
+          specifier.endsWith(alias.suffix) &&
+          specifier.length >= alias.prefix.length + alias.suffix.length
+        : specifier === alias.prefix;
+      if (!matches) continue;
+
+      const star = alias.hasWildcard
+        ? specifier.slice(alias.prefix.length, specifier.length - alias.suffix.length)
+        : '';
+      for (const substitution of alias.substitutions) {
+        const found = this.probe(resolve(alias.baseDir, substitution.replace('*', star)));
+        if (found) return found;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Collect `paths` from the project's tsconfig and the configs it references
+   */
+  private getAliases(): PathAlias[] {
+    if (this.aliases) {
+      return this.aliases;
+    }
+
+    const aliases: PathAlias[] = [];
+    const configPath = ts.findConfigFile(this.projectPath, ts.sys.fileExists);
+    const queue = configPath ? [configPath] : [];
+    const seen = new Set<string>();
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (seen.has(current)) continue;
+      seen.add(current);
+
+      const read = ts.readConfigFile(current, ts.sys.readFile);
+      if (read.error) continue;
+      const parsed = ts.parseJsonConfigFileContent(read.config, ts.sys, dirname(current));
+
+      const baseDir = parsed.options.baseUrl ?? dirname(current);
+      for (const [pattern, substitutions] of Object.entries(parsed.options.paths ?? {})) {
+        const star = pattern.indexOf('*');
+        aliases.push({
+          prefix: star === -1 ? pattern : pattern.slice(0, star),
+          suffix: star === -1 ? '' : pattern.slice(star + 1),
+          hasWildcard: star !== -1,
+          substitutions,
+          baseDir,
+        });
+      }
+
+      for (const reference of parsed.projectReferences ?? []) {
+        queue.push(ts.resolveProjectReferencePath(reference));
+      }
+    }
+
+    // Longest prefix wins, as in TypeScript
+    this.aliases = aliases.sort((a, b) => b.prefix.length - a.prefix.length);
+    return this.aliases;
+  }
+
+  /**
+   * Last resort for paths recorded on another machine or in a container:
+   * match the longest trailing segments (at least two) under an editable root
+   */
+  private resolveBySuffix(raw: string): ResolveResult {
+    const segments = raw.split(/[\\/]+/).filter(Boolean);
+    const roots = this.workspaceRoot ? [this.workspaceRoot, ...this.getEditableRoots()] : this.getEditableRoots();
+
+    for (let start = 0; start <= segments.length - 2; start++) {
+      const suffix = segments.slice(start).join('/');
+      const matches = new Set<string>();
+      for (const root of roots) {
+        const candidate = join(root, suffix);
+        if (isFile(candidate) && this.isEditable(candidate)) {
+          matches.add(resolve(candidate));
+        }
+      }
+
+      if (matches.size === 1) {
+        return this.accept([...matches][0]!, 'suffix');
+      }
+      if (matches.size > 1) {
+        return {
+          success: false,
+          error: `Source path ${raw} is ambiguous: ${[...matches].join(', ')}`,
+        };
+      }
+    }
+
+    return { success: false, error: `Could not map source path to a project file: ${raw}` };
+  }
+
+  private probe(basePath: string): string | null {
+    for (const suffix of PROBE_SUFFIXES) {
+      if (isFile(basePath + suffix)) {
+        return basePath + suffix;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Forget cached workspace and tsconfig information
+   */
+  refresh(): void {
+    this.workspaceRoot = null;
+    this.packages = null;
+    this.aliases = null;
+  }
+}
+
+export function getSourceResolver(projectPath?: string): SourceResolver {
+  return getProject(projectPath).service('sourceResolver', (root) => new SourceResolver(root));
+}
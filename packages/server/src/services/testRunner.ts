@@ -0,0 +1,270 @@
+import { execFile } from 'child_process';
+import { existsSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
+import { getConfig } from '../config/index.js';
+import { getFileSystemService } from './fileSystem.js';
+import { getProject } from './projectRegistry.js';
+import type { TestFailure, TestFramework, TestRunResult } from '../types/index.js';
+
+/** Longest failure message kept per test */
+const MAX_FAILURE_MESSAGE = 2000;
+
+/**
+ * Subset of the Jest JSON report (Vitest's json reporter uses the same shape)
+ */
+interface JSONTestReport {
+  numTotalTests?: number;
+  numPassedTests?: number;
+  numFailedTests?: number;
+  testResults?: Array<{
+    name: string;
+    status?: string;
+    message?: string;
+    assertionResults?: Array<{
+      fullName?: string;
+      title?: string;
+      status: string;
+      failureMessages?: string[];
+    }>;
+  }>;
+}
+
+/**
+ * Test Runner Service for running a project's own tests against a change
+ */
+export class TestRunnerService {
+  private projectPath: string;
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+  }
+
+  /**
+   * Detect Jest or Vitest from the project's package.json
+   */
+  detectFramework(): TestFramework | null {
+    const packageJsonPath = join(this.projectPath, 'package.json');
+    if (!existsSync(packageJsonPath)) {
+      return null;
+    }
+
+    try {
+      const pkg = JSON.parse(readFileSync(packageJsonPath, 'utf-8')) as {
+        scripts?: Record<string, string>;
+        dependencies?: Record<string, string>;
+        devDependencies?: Record<string, string>;
+      };
+
+      // The test script is the most reliable signal
+      const testScript = pkg.scripts?.test ?? '';
+      if (/\bvitest\b/.test(testScript)) return 'vitest';
+      if (/\bjest\b/.test(testScript)) return 'jest';
+
+      const deps = { ...pkg.dependencies, ...pkg.devDependencies };
+      if (deps.vitest) return 'vitest';
+      if (deps.jest) return 'jest';
+    } catch (error) {
+      console.warn('Failed to read package.json for test detection:', error);
+    }
+
+    return null;
+  }
+
+  /**
+   * Find a runner binary in node_modules/.bin, walking up for monorepos
+   */
+  private findBinary(name: string): string | null {
+    const binary = process.platform === 'win32' ? `${name}.cmd` : name;
+    let dir = this.projectPath;
+
+    while (true) {
+      const candidate = join(dir, 'node_modules', '.bin', binary);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+      const parent = dirname(dir);
+      if (parent === dir) {
+        return null;
+      }
+      dir = parent;
+    }
+  }
+
+  /**
+   * Run the tests related to a file and report the results
+   */
+  async runRelatedTests(filePath: string): Promise<TestRunResult> {
+    const config = getConfig(this.projectPath);
+    const fs = getFileSystemService(this.projectPath);
+    const absolutePath = fs.resolvePath(filePath);
+    const startedAt = Date.now();
+
+    const framework = this.detectFramework();
+    if (!framework) {
+      return this.skipped(null, 'No Jest or Vitest setup found in package.json');
+    }
+
+    const binary = this.findBinary(framework);
+    if (!binary) {
+      return this.skipped(framework, `${framework} is not installed in node_modules`);
+    }
+
+    const outputFile = join(tmpdir(), `react-dev-insight-tests-${randomUUID()}.json`);
+    const args =
+      framework === 'jest'
+        ? ['--findRelatedTests', absolutePath, '--json', `--outputFile=${outputFile}`, '--passWithNoTests', '--ci']
+        : ['related', absolutePath, '--run', '--reporter=json', `--outputFile=${outputFile}`, '--passWithNoTests'];
+
+    const run = await this.execute(binary, args, config.optimization.testTimeout);
+
+    try {
+      if (run.timedOut) {
+        return this.failed(
+          framework,
+          startedAt,
+          `Tests timed out after ${config.optimization.testTimeout}ms`
+        );
+      }
+
+      if (!existsSync(outputFile)) {
+        return this.failed(
+          framework,
+          startedAt,
+          `${framework} did not produce a report: ${this.tail(run.stderr || run.stdout)}`
+        );
+      }
+
+      const report = JSON.parse(readFileSync(outputFile, 'utf-8')) as JSONTestReport;
+      return this.toResult(framework, report, startedAt);
+    } catch (error) {
+      return this.failed(
+        framework,
+        startedAt,
+        `Failed to read test report: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      rmSync(outputFile, { force: true });
+    }
+  }
+
+  /**
+   * Run a command, resolving (never rejecting) with its output
+   */
+  private execute(
+    binary: string,
+    args: string[],
+    timeout: number
+  ): Promise<{ stdout: string; stderr: string; timedOut: boolean }> {
+    return new Promise((resolve) => {
+      execFile(
+        binary,
+        args,
+        {
+          cwd: this.projectPath,
+          timeout,
+          maxBuffer: 10 * 1024 * 1024,
+          env: { ...process.env, CI: 'true', FORCE_COLOR: '0' },
+        },
+        (error, stdout, stderr) => {
+          // A non-zero exit just means tests failed; the report says which
+          const timedOut = !!error && 'killed' in error && !!error.killed;
+          resolve({ stdout: String(stdout), stderr: String(stderr), timedOut });
+        }
+      );
+    });
+  }
+
+  /**
+   * Convert a JSON report into a TestRunResult
+   */
+  private toResult(
+    framework: TestFramework,
+    report: JSONTestReport,
+    startedAt: number
+  ): TestRunResult {
+    const failures: TestFailure[] = [];
+
+    for (const file of report.testResults ?? []) {
+      const failedAssertions = (file.assertionResults ?? []).filter((a) => a.status === 'failed');
+
+      for (const assertion of failedAssertions) {
+        failures.push({
+          testFile: file.name,
+          name: assertion.fullName || assertion.title || 'Unnamed test',
+          message: this.cleanMessage((assertion.failureMessages ?? []).join('\n')),
+        });
+      }
+
+      // A suite that failed to load has no assertion results
+      if (file.status === 'failed' && failedAssertions.length === 0) {
+        failures.push({
+          testFile: file.name,
+          name: 'Test suite failed to run',
+          message: this.cleanMessage(file.message ?? ''),
+        });
+      }
+    }
+
+    const numFailed = report.numFailedTests ?? 0;
+
+    return {
+      framework,
+      ran: true,
+      passed: failures.length === 0 && numFailed === 0,
+      numTests: report.numTotalTests ?? 0,
+      numPassed: report.numPassedTests ?? 0,
+      numFailed,
+      durationMs: Date.now() - startedAt,
+      failures,
+      ...((report.numTotalTests ?? 0) === 0 &&
+        failures.length === 0 && { message: 'No related tests found' }),
+    };
+  }
+
+  /**
+   * Tests that never ran haven't passed; the gate treats this as a failure
+   */
+  private skipped(framework: TestFramework | null, message: string): TestRunResult {
+    return {
+      framework,
+      ran: false,
+      passed: false,
+      numTests: 0,
+      numPassed: 0,
+      numFailed: 0,
+      durationMs: 0,
+      failures: [],
+      message,
+    };
+  }
+
+  private failed(framework: TestFramework, startedAt: number, message: string): TestRunResult {
+    return {
+      framework,
+      ran: true,
+      passed: false,
+      numTests: 0,
+      numPassed: 0,
+      numFailed: 0,
+      durationMs: Date.now() - startedAt,
+      failures: [],
+      message,
+    };
+  }
+
+  private cleanMessage(message: string): string {
+    const plain = message.replace(/\u001b\[[0-9;]*m/g, '');
+    return plain.length > MAX_FAILURE_MESSAGE ? `${plain.slice(0, MAX_FAILURE_MESSAGE)}…` : plain;
+  }
+
+  private tail(output: string): string {
+    const trimmed = output.trim();
+    return trimmed.length > 500 ? `…${trimmed.slice(-500)}` : trimmed || 'no output';
+  }
+}
+
+export function getTestRunner(projectPath?: string): TestRunnerService {
+  return getProject(projectPath).service('testRunner', (root) => new TestRunnerService(root));
+}
@@ -0,0 +1,205 @@
+import { randomUUID } from 'crypto';
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { getConfig } from '../config/index.js';
+import { getProject } from './projectRegistry.js';
+import type {
+  ModelPrice,
+  UsageBudgetStatus,
+  UsageEntry,
+  UsageReport,
+  UsageTotals,
+} from '../types/index.js';
+
+/** Oldest entries are dropped beyond this */
+const MAX_USAGE_ENTRIES = 20000;
+
+/** Entries listed in a report's recent calls */
+const RECENT_ENTRIES = 20;
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, entry: UsageEntry): UsageTotals {
+  totals.calls += 1;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.cost += entry.cost;
+  return totals;
+}
+
+/**
+ * Totals per key, most expensive first
+ */
+function groupTotals<K extends string>(
+  entries: UsageEntry[],
+  keyName: K,
+  keyOf: (entry: UsageEntry) => string
+): Array<UsageTotals & Record<K, string>> {
+  const groups = new Map<string, UsageTotals>();
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    groups.set(key, addToTotals(groups.get(key) ?? emptyTotals(), entry));
+  }
+
+  return [...groups]
+    .map(([key, totals]) => ({ ...totals, [keyName]: key }) as UsageTotals & Record<K, string>)
+    .sort((a, b) => b.cost - a.cost || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+}
+
+/**
+ * Usage Ledger. Records every LLM call made for a project, one JSON line
+ * per call next to the backup manifest, and enforces the project's
+ * usage.budgets before new calls are made.
+ */
+export class UsageLedger {
+  private projectPath: string;
+  private ledgerPath: string;
+  private entries: UsageEntry[] | null = null;
+  /** Models already warned about, so each is reported once */
+  private warnedUnpriced = new Set<string>();
+
+  constructor(projectPath: string) {
+    this.projectPath = projectPath;
+    const config = getConfig(this.projectPath);
+    this.ledgerPath = join(projectPath, config.backup.backupDir, 'usage.jsonl');
+  }
+
+  /**
+   * Record a finished or failed call, pricing it from usage.prices
+   */
+  record(call: Omit<UsageEntry, 'id' | 'timestamp' | 'cost'>): UsageEntry {
+    const price = this.findPrice(call.model);
+    if (!price && !this.warnedUnpriced.has(call.model)) {
+      this.warnedUnpriced.add(call.model);
+      console.warn(`No usage.prices entry matches model "${call.model}"; its calls are counted as $0`);
+    }
+    const entry: UsageEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...call,
+      cost: price
+        ? (call.inputTokens * price.input + call.outputTokens * price.output) / 1_000_000
+        : 0,
+    };
+
+    const entries = this.load();
+    entries.push(entry);
+
+    const dir = dirname(this.ledgerPath);
+    if (!existsSync(dir)) {
+      mkdirSync(dir, { recursive: true });
+    }
+
+    if (entries.length > MAX_USAGE_ENTRIES) {
+      this.entries = entries.slice(-MAX_USAGE_ENTRIES);
+      const tempPath = `${this.ledgerPath}.tmp`;
+      writeFileSync(tempPath, this.entries.map((e) => JSON.stringify(e)).join('\n') + '\n');
+      renameSync(tempPath, this.ledgerPath);
+    } else {
+      appendFileSync(this.ledgerPath, JSON.stringify(entry) + '\n');
+    }
+
+    return entry;
+  }
+
+  /**
+   * Spending today and this month against the project's budgets
+   */
+  getBudgetStatus(now = new Date()): UsageBudgetStatus {
+    const { budgets } = getConfig(this.projectPath).usage;
+    const day = now.toISOString().slice(0, 10);
+    const month = day.slice(0, 7);
+
+    const today = emptyTotals();
+    const thisMonth = emptyTotals();
+    for (const entry of this.load()) {
+      if (entry.timestamp.startsWith(month)) addToTotals(thisMonth, entry);
+      if (entry.timestamp.startsWith(day)) addToTotals(today, entry);
+    }
+
+    let exceeded: string | undefined;
+    if (budgets.dailyCost > 0 && today.cost >= budgets.dailyCost) {
+      exceeded = `Daily LLM budget of $${budgets.dailyCost.toFixed(2)} used up ($${today.cost.toFixed(2)} spent today)`;
+    } else if (budgets.monthlyCost > 0 && thisMonth.cost >= budgets.monthlyCost) {
+      exceeded = `Monthly LLM budget of $${budgets.monthlyCost.toFixed(2)} used up ($${thisMonth.cost.toFixed(2)} spent this month)`;
+    } else if (budgets.dailyTokens > 0 && today.inputTokens + today.outputTokens >= budgets.dailyTokens) {
+      exceeded = `Daily LLM budget of ${budgets.dailyTokens} tokens used up`;
+    }
+
+    return {
+      budgets,
+      today,
+      month: thisMonth,
+      ...(exceeded && { exceeded }),
+    };
+  }
+
+  /**
+   * Totals for a period, by day, component and route
+   */
+  getReport(query: { from?: Date; to?: Date } = {}): UsageReport {
+    const to = query.to ?? new Date();
+    const from = query.from ?? new Date(to.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+    const entries = this.load().filter((entry) => {
+      const time = new Date(entry.timestamp).getTime();
+      return time >= from.getTime() && time <= to.getTime();
+    });
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals: entries.reduce(addToTotals, emptyTotals()),
+      byDay: groupTotals(entries, 'date', (entry) => entry.timestamp.slice(0, 10)).sort((a, b) =>
+        a.date.localeCompare(b.date)
+      ),
+      byComponent: groupTotals(entries, 'componentName', (entry) => entry.componentName ?? '(none)'),
+      byRoute: groupTotals(entries, 'route', (entry) => entry.route),
+      budget: this.getBudgetStatus(),
+      unpricedModels: [...new Set(entries.map((entry) => entry.model))].filter((model) => !this.findPrice(model)),
+      recent: entries.slice(-RECENT_ENTRIES).reverse(),
+    };
+  }
+
+  /**
+   * Price of a model: an exact entry in usage.prices, or else the longest
+   * entry the model name starts with, so "gpt-4o-2024-08-06" uses "gpt-4o"
+   */
+  private findPrice(model: string): ModelPrice | undefined {
+    const { prices } = getConfig(this.projectPath).usage;
+    if (prices[model]) {
+      return prices[model];
+    }
+
+    const prefix = Object.keys(prices)
+      .filter((name) => model.startsWith(name))
+      .sort((a, b) => b.length - a.length)[0];
+    return prefix ? prices[prefix] : undefined;
+  }
+
+  private load(): UsageEntry[] {
+    if (this.entries) {
+      return this.entries;
+    }
+
+    this.entries = [];
+    if (existsSync(this.ledgerPath)) {
+      for (const line of readFileSync(this.ledgerPath, 'utf-8').split('\n')) {
+        if (!line.trim()) continue;
+        try {
+          this.entries.push(JSON.parse(line) as UsageEntry);
+        } catch {
+          // A line cut short by a crash; the rest of the ledger is still good
+        }
+      }
+    }
+
+    return this.entries;
+  }
+}
+
+export function getUsageLedger(projectPath?: string): UsageLedger {
+  return getProject(projectPath).service('usage', (root) => new UsageLedger(root));
+}
@@ -7,6 +7,8 @@ export interface Config {
   server: ServerConfig;
   backup: BackupConfig;
   ui: UIConfig;
+  audit: AuditConfig;
+  usage: UsageConfig;
 }
 
 export interface GitConfig {
@@ -17,17 +19,41 @@ export interface GitConfig {
 }
 
 export interface LLMConfig {
-  provider: 'anthropic' | 'openai';
+  /** 'mock' replays recorded fixtures and canned responses, with no network access */
+  provider: 'anthropic' | 'openai' | 'mock';
   model: string;
   temperature: number;
   maxTokens: number;
   maxChangesPerRequest: number;
+  fixtures: LLMFixturesConfig;
+  /** Project prompt templates, relative to the project root */
+  promptsDir: string;
+  cache: LLMCacheConfig;
+}
+
+export interface LLMCacheConfig {
+  enabled: boolean;
+  /** Hours before a cached analysis is asked for again */
+  ttlHours: number;
+  /** Oldest entries are removed beyond this size */
+  maxSizeMB: number;
+}
+
+export interface LLMFixturesConfig {
+  /** Where fixtures are read and recorded, relative to the server's working directory */
+  dir: string;
+  /** Capture every real request/response pair as a fixture */
+  record: boolean;
 }
 
 export interface OptimizationConfig {
   allowedCategories: OptimizationCategory[];
+  /** Project-specific categories, offered alongside the built-in ones */
+  customCategories: CustomCategoryConfig[];
   requireReview: boolean;
   autoRunTests: boolean;
+  /** Milliseconds before a related-test run is aborted */
+  testTimeout: number;
   autoFormat: boolean;
 }
 
@@ -48,7 +74,35 @@ export interface UIConfig {
   diffStyle: 'split' | 'unified';
 }
 
-export type OptimizationCategory =
+export interface AuditConfig {
+  /** Files analyzed at the same time */
+  concurrency: number;
+  /** LLM tokens (input and output) an audit may use before it pauses */
+  tokenBudget: number;
+}
+
+export interface UsageConfig {
+  /** USD per million tokens, keyed by model name or a prefix of it */
+  prices: Record<string, ModelPrice>;
+  budgets: UsageBudgets;
+}
+
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+/** Limits on a project's LLM use; 0 means no limit */
+export interface UsageBudgets {
+  /** USD per day (UTC) */
+  dailyCost: number;
+  /** USD per calendar month (UTC) */
+  monthlyCost: number;
+  /** Input plus output tokens per day (UTC) */
+  dailyTokens: number;
+}
+
+export type BuiltInCategory =
   | 'performance'
   | 'accessibility'
   | 'maintainability'
@@ -56,6 +110,28 @@ export type OptimizationCategory =
   | 'ux'
   | 'code-quality';
 
+/** A built-in category or the id of one from optimization.customCategories */
+export type OptimizationCategory = BuiltInCategory | (string & {});
+
+export interface CustomCategoryConfig {
+  /** Lowercase slug, e.g. "i18n" */
+  id: string;
+  label: string;
+  /** Guidelines given to the model when the category is in focus */
+  prompt: string;
+  /** Emoji or short text shown in the category selector */
+  icon: string;
+  /** Tailwind colour name, e.g. "teal" */
+  color: string;
+  /** Severity of issues in this category the model leaves unclassified */
+  severity: CodeIssue['type'];
+}
+
+/** A category as offered to the client */
+export interface CategoryDefinition extends Omit<CustomCategoryConfig, 'prompt'> {
+  builtIn: boolean;
+}
+
 // Element and Component Types
 export interface BoundingRect {
   x: number;
@@ -103,6 +179,61 @@ export interface FiberInfo {
   stateNode: unknown;
 }
 
+// Render Profiling Types
+export type RenderReason = 'mount' | 'props' | 'state' | 'hooks' | 'context' | 'parent';
+
+export interface ComponentRender {
+  commitId: number;
+  timestamp: number;
+  /** Time spent rendering the component and its subtree, in ms */
+  duration: number;
+  commitDuration: number;
+  reasons: RenderReason[];
+  changedProps: string[];
+  /** Indexes of state hooks whose value changed */
+  changedHooks: number[];
+}
+
+/** Live re-render data the injector collected for one component instance */
+export interface ComponentRenderProfile {
+  /** Fiber id of the component instance */
+  id: number;
+  name: string;
+  renderCount: number;
+  mountCount: number;
+  totalDuration: number;
+  maxDuration: number;
+  recentRenders: ComponentRender[];
+  slowestRenders: ComponentRender[];
+}
+
+// Accessibility Audit Types
+export type AccessibilityRule =
+  | 'color-contrast'
+  | 'accessible-name'
+  | 'heading-order'
+  | 'focus-trap'
+  | 'aria-role'
+  | 'tab-order';
+
+/** A problem the injector found in the rendered DOM */
+export interface AccessibilityFinding {
+  rule: AccessibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+  xpath: string;
+  /** Opening tag of the element */
+  html: string;
+  /** Component whose JSX created the element */
+  componentName?: string;
+  /** Runtime path and line of that JSX (development builds only) */
+  source?: {
+    fileName: string;
+    lineNumber: number;
+    columnNumber?: number;
+  };
+}
+
 // Analysis Types
 export interface AnalysisRequest {
   elementInfo: ElementInfo;
@@ -110,6 +241,16 @@ export interface AnalysisRequest {
   optimizationGoal: string;
   category?: OptimizationCategory;
   projectPath: string;
+  /** Client-chosen id used to correlate WebSocket progress frames */
+  analysisId?: string;
+  /** Stream the LLM completion and emit analysis-progress frames (default true) */
+  stream?: boolean;
+  /** Runtime render data, used as context for performance goals */
+  renderProfile?: ComponentRenderProfile;
+  /** Problems the injector found in the component's rendered DOM */
+  accessibilityFindings?: AccessibilityFinding[];
+  /** Ask the LLM again even if the analysis cache has an answer */
+  noCache?: boolean;
 }
 
 export interface AnalysisResult {
@@ -120,6 +261,12 @@ export interface AnalysisResult {
   originalCode: string;
   analysis: CodeAnalysis;
   suggestions: CodeSuggestion[];
+  /** Tokens used by the LLM; absent for rule-based and cached analysis */
+  usage?: LLMResponse['usage'];
+  /** Set when the LLM's answer came from the analysis cache */
+  cached?: boolean;
+  /** When the cached answer was first produced */
+  cachedAt?: Date;
 }
 
 export interface CodeAnalysis {
@@ -133,7 +280,13 @@ export interface CodeIssue {
   message: string;
   line?: number;
   column?: number;
+  endLine?: number;
+  endColumn?: number;
   category: OptimizationCategory;
+  /** Lint rule that produced the issue */
+  ruleId?: string;
+  /** Rendered element the issue was found on, for DOM audit findings */
+  xpath?: string;
 }
 
 export interface CodeMetrics {
@@ -143,6 +296,36 @@ export interface CodeMetrics {
   exports: string[];
 }
 
+// Import Graph Types
+/** Where a dependent file uses an export: its import, or a render or call */
+export interface CallSite {
+  line: number;
+  kind: 'import' | 'jsx' | 'call';
+  name: string;
+}
+
+/** A file that imports from another, directly or through barrel files */
+export interface DependentFile {
+  filePath: string;
+  /** Exports it uses: 'default', '*' for a namespace import, or a name */
+  imports: string[];
+  /** Re-exporting files the import passes through, nearest first */
+  via: string[];
+  callSites: CallSite[];
+}
+
+/** How a change to a file's exports or component props reaches other files */
+export interface ImpactReport {
+  filePath: string;
+  removedExports: string[];
+  addedExports: string[];
+  /** Prop changes of every exported component */
+  propChanges: ApiChange[];
+  /** Exports whose consumers may need updating */
+  affectedExports: string[];
+  dependents: DependentFile[];
+}
+
 export interface CodeSuggestion {
   id: string;
   title: string;
@@ -155,6 +338,127 @@ export interface CodeSuggestion {
   lineStart: number;
   lineEnd: number;
   confidence: number;
+  /** Changes to other files that must land with this one, e.g. an extracted component */
+  files?: FileChange[];
+}
+
+// Audit Types
+export type AuditStatus = 'running' | 'paused' | 'budget-exceeded' | 'completed';
+
+export interface AuditRequest {
+  optimizationGoal: string;
+  category?: OptimizationCategory;
+  /** Defaults to audit.concurrency from config */
+  concurrency?: number;
+  /** Defaults to audit.tokenBudget from config */
+  tokenBudget?: number;
+}
+
+export interface AuditFileResult {
+  /** Relative to the project root */
+  filePath: string;
+  componentName: string;
+  status: 'done' | 'failed';
+  summary?: string;
+  issues: CodeIssue[];
+  suggestions: CodeSuggestion[];
+  error?: string;
+  tokensUsed: number;
+  /** Issues weighted by severity; higher needs attention sooner */
+  score: number;
+  analyzedAt: Date;
+}
+
+export interface AuditRanking {
+  componentName: string;
+  filePath: string;
+  score: number;
+  errors: number;
+  warnings: number;
+  infos: number;
+  suggestions: number;
+}
+
+export interface AuditReport {
+  id: string;
+  optimizationGoal: string;
+  category?: OptimizationCategory;
+  status: AuditStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  concurrency: number;
+  tokenBudget: number;
+  tokensUsed: number;
+  /** Every file in the audit, relative to the project root */
+  filePaths: string[];
+  results: AuditFileResult[];
+  /** Analyzed components, most severe first */
+  ranking: AuditRanking[];
+  /** Cross-component recommendations for the highest-ranked components */
+  recommendations: string[];
+}
+
+export interface AuditSummary {
+  id: string;
+  optimizationGoal: string;
+  status: AuditStatus;
+  createdAt: Date;
+  updatedAt: Date;
+  totalFiles: number;
+  completedFiles: number;
+  failedFiles: number;
+  tokensUsed: number;
+  tokenBudget: number;
+}
+
+// Job Types
+export type JobKind = 'analysis-batch' | 'modification-batch';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  completed: number;
+  total: number;
+  message?: string;
+}
+
+export interface Job<TParams = unknown, TResult = unknown> {
+  id: string;
+  kind: JobKind;
+  /** Resolved project root */
+  projectPath: string;
+  status: JobStatus;
+  /** Jobs that write files run one at a time per project */
+  writes: boolean;
+  params: TParams;
+  /** Runs so far, including retries */
+  attempts: number;
+  progress?: JobProgress;
+  result?: TResult;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  finishedAt?: Date;
+}
+
+export interface AnalysisBatchParams {
+  filePaths: string[];
+  optimizationGoal: string;
+  category?: OptimizationCategory;
+  noCache?: boolean;
+}
+
+export interface AnalysisBatchResult {
+  results: AnalysisResult[];
+  failures: Array<{ filePath: string; error: string }>;
+}
+
+export interface ModificationBatchParams {
+  filePath: string;
+  suggestions: CodeSuggestion[];
+  createBranch?: boolean;
+  branchName?: string;
+  allowBreakingChanges?: boolean;
 }
 
 // Modification Types
@@ -166,6 +470,11 @@ export interface ModificationRequest {
   commitMessage?: string;
   createBranch?: boolean;
   branchName?: string;
+  /** Line hints (from CodeSuggestion) used to anchor the patch */
+  lineStart?: number;
+  lineEnd?: number;
+  /** Apply even if exports are removed or component props change incompatibly */
+  allowBreakingChanges?: boolean;
 }
 
 export interface ModificationResult {
@@ -175,13 +484,176 @@ export interface ModificationResult {
   commitHash?: string;
   error?: string;
   validation: ValidationResult;
+  /** Where and how the original code was located */
+  patch?: PatchReport;
+  /** Why the original code could not be located */
+  conflict?: PatchConflict;
+  /** Related tests run after writing, when optimization.autoRunTests is on */
+  tests?: TestRunResult;
+  /** Prettier / ESLint --fix pass, when optimization.autoFormat is on */
+  format?: FormatReport;
+  /** Every file touched, when the change spans several files */
+  files?: FileChangeResult[];
+  /** Backups of every touched file, restored together */
+  backupGroupId?: string;
+}
+
+// Changeset Types
+export type FileChangeKind = 'edit' | 'replace' | 'create' | 'rename' | 'delete';
+
+/** One file operation in a multi-file change */
+export interface FileChange {
+  kind: FileChangeKind;
+  /** The file to edit, replace, create or delete, or the rename source */
+  filePath: string;
+  /** Rename destination */
+  newPath?: string;
+  /** Edits only: the code to replace. Required; use a replace to rewrite the whole file. */
+  originalCode?: string;
+  /** Replacement for edits, full content for replaces and creates, optional new content for renames */
+  modifiedCode?: string;
+  lineStart?: number;
+  lineEnd?: number;
+}
+
+/** File changes applied atomically, with one backup group and one commit */
+export interface Changeset {
+  id: string;
+  title: string;
+  description?: string;
+  changes: FileChange[];
+}
+
+export interface ChangesetRequest {
+  changeset: Changeset;
+  commitMessage?: string;
+  createBranch?: boolean;
+  branchName?: string;
+  allowBreakingChanges?: boolean;
+}
+
+/** Net effect of a changeset on one file */
+export interface FileChangeResult {
+  kind: FileChangeKind;
+  filePath: string;
+  newPath?: string;
+  /** Content before the changeset; null for created files */
+  before: string | null;
+  /** Content after the changeset; null for deleted files */
+  after: string | null;
+  patch?: PatchReport;
+  conflict?: PatchConflict;
+  validation?: ValidationResult;
+  format?: FormatReport;
+}
+
+export interface ChangesetResult {
+  success: boolean;
+  changesetId: string;
+  files: FileChangeResult[];
+  error?: string;
+  backupGroupId?: string;
+  commitHash?: string;
+  tests?: TestRunResult;
+}
+
+export type FormatStepStatus = 'formatted' | 'unchanged' | 'skipped' | 'failed';
+
+export interface FormatReport {
+  prettier: FormatStepStatus;
+  eslint: FormatStepStatus;
+  /** Whether formatting changed the content */
+  changed: boolean;
+  messages: string[];
+}
+
+export type TestFramework = 'jest' | 'vitest';
+
+export interface TestRunResult {
+  framework: TestFramework | null;
+  /** False when no runner was found; the gate then blocks the change */
+  ran: boolean;
+  /** Always false when the tests didn't run */
+  passed: boolean;
+  numTests: number;
+  numPassed: number;
+  numFailed: number;
+  durationMs: number;
+  failures: TestFailure[];
+  /** Why the run was skipped or could not complete */
+  message?: string;
+}
+
+export interface TestFailure {
+  testFile: string;
+  name: string;
+  message: string;
+}
+
+export type PatchStrategy = 'exact' | 'whitespace' | 'declaration' | 'fuzzy';
+
+export interface PatchReport {
+  strategy: PatchStrategy;
+  lineStart: number;
+  lineEnd: number;
+  /** 0-1 similarity of the matched region, for declaration and fuzzy matches */
+  similarity?: number;
+  /** AST node covering the suggestion's line hints */
+  anchor?: {
+    nodeType: string;
+    lineStart: number;
+    lineEnd: number;
+  };
+}
+
+export interface PatchConflict {
+  reason: 'not-found' | 'ambiguous';
+  message: string;
+  candidates: Array<{
+    lineStart: number;
+    lineEnd: number;
+    similarity: number;
+  }>;
 }
 
 export interface ValidationResult {
   valid: boolean;
   syntaxErrors: SyntaxError[];
-  typeErrors: string[];
+  typeErrors: TypeDiagnostic[];
   lintErrors: string[];
+  /** Changes to exports and component props; breaking ones block unless allowed */
+  apiChanges?: ApiChange[];
+}
+
+export type ApiChangeKind =
+  | 'export-removed'
+  | 'export-added'
+  | 'prop-removed'
+  | 'prop-added'
+  | 'prop-made-required'
+  | 'prop-made-optional'
+  | 'prop-type-changed';
+
+/** One change to a module's public API */
+export interface ApiChange {
+  kind: ApiChangeKind;
+  /** Component whose props changed */
+  component?: string;
+  /** Export or prop name; `...Type` for a spread-in props type */
+  name: string;
+  before?: string;
+  after?: string;
+  /** Whether existing callers may stop compiling or working */
+  breaking: boolean;
+  message: string;
+}
+
+export interface TypeDiagnostic {
+  message: string;
+  line: number;
+  column: number;
+  /** TypeScript diagnostic code, e.g. 2322 */
+  code: number;
 }
 
 export interface SyntaxError {
@@ -236,15 +708,112 @@ export interface ModificationHistory {
   status: 'applied' | 'reverted' | 'rejected';
   commitHash?: string;
   backupPath?: string;
+  /** Set when the modification spanned several files */
+  backupGroupId?: string;
+  files?: string[];
   suggestion: CodeSuggestion;
 }
 
+export type ModificationStatus = ModificationHistory['status'];
+
+export interface HistoryQuery {
+  filePath?: string;
+  componentName?: string;
+  category?: OptimizationCategory;
+  status?: ModificationStatus;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
 // LLM Types
+/**
+ * Project prompt templates. Each one either replaces a built-in prompt or,
+ * for the *Append fields, is added after it.
+ */
+export interface PromptOverrides {
+  system?: string;
+  systemAppend?: string;
+  analysis?: string;
+  analysisAppend?: string;
+  categories?: Partial<Record<OptimizationCategory, string>>;
+  categoryAppends?: Partial<Record<OptimizationCategory, string>>;
+  /** The project's own categories, from optimization.customCategories */
+  customCategories?: CustomCategoryConfig[];
+}
+
+/** The prompts an analysis would send, rendered without calling the LLM */
+export interface PromptPreview {
+  systemPrompt: string;
+  prompt: string;
+  /** Template files that were applied, relative to the project root */
+  templates: string[];
+  /** Template files that failed validation and were skipped */
+  errors: string[];
+}
+
 export interface LLMRequest {
   prompt: string;
   systemPrompt: string;
   maxTokens?: number;
   temperature?: number;
+  context?: LLMCallContext;
+}
+
+/** What an LLM call was made for, as recorded in the usage ledger */
+export interface LLMCallContext {
+  projectPath: string;
+  /** API route that made the call, e.g. /analysis/element */
+  route: string;
+  componentName?: string;
+}
+
+// Usage Accounting
+export interface UsageEntry {
+  id: string;
+  timestamp: string;
+  route: string;
+  componentName?: string;
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  /** Estimated from usage.prices; 0 for models without a price */
+  cost: number;
+  /** Why the call failed; tokens are those the vendor reported before it did */
+  error?: string;
+}
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+}
+
+export interface UsageBudgetStatus {
+  budgets: UsageBudgets;
+  today: UsageTotals;
+  month: UsageTotals;
+  /** Why new requests are refused, if a budget is used up */
+  exceeded?: string;
+}
+
+export interface UsageReport {
+  from: string;
+  to: string;
+  totals: UsageTotals;
+  /** Oldest day first */
+  byDay: Array<UsageTotals & { date: string }>;
+  /** Most expensive first */
+  byComponent: Array<UsageTotals & { componentName: string }>;
+  byRoute: Array<UsageTotals & { route: string }>;
+  budget: UsageBudgetStatus;
+  /** Models called in the period that have no usage.prices entry, so cost $0 */
+  unpricedModels: string[];
+  /** Newest first */
+  recent: UsageEntry[];
 }
 
 export interface LLMResponse {
@@ -267,6 +836,7 @@ export type WSMessageType =
   | 'element-selected'
   | 'component-info'
   | 'analysis-started'
+  | 'analysis-progress'
   | 'analysis-complete'
   | 'modification-started'
   | 'modification-complete'
@@ -286,6 +856,15 @@ export type WebSocketMessageType =
   | 'connected'
   | 'subscribed'
   | 'unsubscribed'
+  | 'analysis-started'
+  | 'analysis-progress'
+  | 'analysis-complete'
+  | 'analysis-error'
+  | 'audit-started'
+  | 'audit-progress'
+  | 'audit-complete'
+  | 'audit-error'
+  | 'job-updated'
   | 'error'
   | 'server_shutdown';
 
@@ -310,4 +889,45 @@ export interface BackupEntry {
   timestamp: Date;
   originalContent: string;
   reason: string;
+  /** Backups taken together for one changeset */
+  groupId?: string;
+  /** How many backups the group was created with */
+  groupSize?: number;
+  /** The file did not exist yet; restoring deletes it */
+  absent?: boolean;
+}
+
+// Project Types
+export interface ProjectInfo {
+  root: string;
+  name: string;
+  isDefault: boolean;
+  registeredAt: Date;
+  lastAccessedAt: Date;
+}
+
+// Source Resolution Types
+export type SourceResolutionStrategy =
+  | 'direct'
+  | 'vite-fs'
+  | 'root-relative'
+  | 'symlink'
+  | 'workspace-package'
+  | 'tsconfig-paths'
+  | 'suffix';
+
+export interface WorkspacePackage {
+  name: string | null;
+  root: string;
+}
+
+export interface ResolvedSource {
+  /** Absolute path of the editable file */
+  filePath: string;
+  /** Path relative to the project root */
+  relativePath: string;
+  /** Root of the project or workspace package that owns the file */
+  packageRoot: string;
+  packageName: string | null;
+  strategy: SourceResolutionStrategy;
 }
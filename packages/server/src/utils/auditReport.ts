@@ -0,0 +1,146 @@
+import type { AuditFileResult, AuditRanking, AuditReport, CodeIssue } from '../types/index.js';
+
+/** How much one issue of each type adds to a component's score */
+export const SEVERITY_WEIGHTS: Record<CodeIssue['type'], number> = {
+  error: 10,
+  warning: 3,
+  info: 1,
+};
+
+/**
+ * Weighted severity of a set of issues
+ */
+export function scoreIssues(issues: CodeIssue[]): number {
+  return issues.reduce((score, issue) => score + (SEVERITY_WEIGHTS[issue.type] ?? 0), 0);
+}
+
+/**
+ * Rank analyzed components by score, then by their worst issues
+ */
+export function rankAuditResults(results: AuditFileResult[]): AuditRanking[] {
+  return results
+    .filter((result) => result.status === 'done')
+    .map((result) => {
+      const count = (type: CodeIssue['type']) => result.issues.filter((i) => i.type === type).length;
+      return {
+        componentName: result.componentName,
+        filePath: result.filePath,
+        score: result.score,
+        errors: count('error'),
+        warnings: count('warning'),
+        infos: count('info'),
+        suggestions: result.suggestions.length,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.errors - a.errors ||
+        b.warnings - a.warnings ||
+        a.filePath.localeCompare(b.filePath)
+    );
+}
+
+/**
+ * Escape text for the page. Issue fields come from the LLM and may not be
+ * strings, so anything is accepted.
+ */
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const STYLES = `
+  body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 960px; color: #1e293b; }
+  h1 { margin-bottom: 0.25rem; }
+  .meta { color: #64748b; margin-top: 0; }
+  table { border-collapse: collapse; width: 100%; margin: 1rem 0 2rem; }
+  th, td { text-align: left; padding: 0.4rem 0.6rem; border-bottom: 1px solid #e2e8f0; }
+  code { font-size: 0.85em; }
+  .error { color: #dc2626; }
+  .warning { color: #d97706; }
+  .info { color: #2563eb; }
+  details { margin-bottom: 0.75rem; }
+  summary { cursor: pointer; }
+`;
+
+/**
+ * Render a report as a standalone HTML page
+ */
+export function renderAuditHtml(report: AuditReport): string {
+  const failed = report.results.filter((r) => r.status === 'failed');
+  const byPath = new Map(report.results.map((r) => [r.filePath, r]));
+
+  const rows = report.ranking
+    .map(
+      (entry, index) => `<tr>
+  <td>${index + 1}</td>
+  <td>${escapeHtml(entry.componentName)}</td>
+  <td><code>${escapeHtml(entry.filePath)}</code></td>
+  <td>${entry.score}</td>
+  <td class="error">${entry.errors}</td>
+  <td class="warning">${entry.warnings}</td>
+  <td class="info">${entry.infos}</td>
+  <td>${entry.suggestions}</td>
+</tr>`
+    )
+    .join('\n');
+
+  const details = report.ranking
+    .filter((entry) => entry.score > 0)
+    .map((entry) => {
+      const result = byPath.get(entry.filePath);
+      const issues = (result?.issues ?? [])
+        .map((issue) => {
+          const line = issue.line !== undefined ? `Line ${escapeHtml(issue.line)}: ` : '';
+          return `<li class="${escapeHtml(issue.type)}">${line}${escapeHtml(issue.message)} <small>(${escapeHtml(issue.category)})</small></li>`;
+        })
+        .join('\n');
+      return `<details>
+  <summary><strong>${escapeHtml(entry.componentName)}</strong> <code>${escapeHtml(entry.filePath)}</code></summary>
+  ${result?.summary ? `<p>${escapeHtml(result.summary)}</p>` : ''}
+  <ul>${issues}</ul>
+</details>`;
+    })
+    .join('\n');
+
+  const recommendations = report.recommendations.length > 0
+    ? `<h2>Recommendations</h2>\n<ul>${report.recommendations.map((r) => `<li>${escapeHtml(r)}</li>`).join('\n')}</ul>`
+    : '';
+
+  const failures = failed.length > 0
+    ? `<h2>Failed files</h2>\n<ul>${failed.map((r) => `<li><code>${escapeHtml(r.filePath)}</code>: ${escapeHtml(r.error ?? 'Analysis failed')}</li>`).join('\n')}</ul>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Audit: ${escapeHtml(report.optimizationGoal)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(report.optimizationGoal)}</h1>
+<p class="meta">
+  ${report.status} &middot; ${report.results.length - failed.length} of ${report.filePaths.length} files analyzed
+  &middot; ${report.tokensUsed.toLocaleString('en-US')} of ${report.tokenBudget.toLocaleString('en-US')} tokens
+  &middot; updated ${new Date(report.updatedAt).toISOString()}
+</p>
+${recommendations}
+<h2>Ranking</h2>
+<table>
+<thead><tr><th>#</th><th>Component</th><th>File</th><th>Score</th><th>Errors</th><th>Warnings</th><th>Info</th><th>Suggestions</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<h2>Issues</h2>
+${details || '<p>No issues found.</p>'}
+${failures}
+</body>
+</html>
+`;
+}
@@ -0,0 +1,47 @@
+import type {
+  BuiltInCategory,
+  CategoryDefinition,
+  CodeIssue,
+  CustomCategoryConfig,
+  OptimizationCategory,
+} from '../types/index.js';
+
+export const BUILT_IN_CATEGORIES: Array<CategoryDefinition & { id: BuiltInCategory }> = [
+  { id: 'performance', label: 'Performance', icon: '⚡', color: 'emerald', severity: 'warning', builtIn: true },
+  { id: 'accessibility', label: 'Accessibility', icon: '♿', color: 'blue', severity: 'warning', builtIn: true },
+  { id: 'maintainability', label: 'Maintainability', icon: '🔧', color: 'violet', severity: 'info', builtIn: true },
+  { id: 'bundle-size', label: 'Bundle Size', icon: '📦', color: 'amber', severity: 'info', builtIn: true },
+  { id: 'ux', label: 'UX', icon: '✨', color: 'rose', severity: 'info', builtIn: true },
+  { id: 'code-quality', label: 'Code Quality', icon: '💎', color: 'cyan', severity: 'info', builtIn: true },
+];
+
+/**
+ * Built-in categories followed by the project's own
+ */
+export function listCategories(custom: CustomCategoryConfig[]): CategoryDefinition[] {
+  return [
+    ...BUILT_IN_CATEGORIES,
+    ...custom.map(({ prompt: _prompt, ...category }) => ({ ...category, builtIn: false })),
+  ];
+}
+
+export function isKnownCategory(category: OptimizationCategory, custom: CustomCategoryConfig[]): boolean {
+  return listCategories(custom).some((definition) => definition.id === category);
+}
+
+const ISSUE_TYPES: Array<CodeIssue['type']> = ['error', 'warning', 'info'];
+
+/**
+ * Give issues the model left unclassified their category's default severity
+ */
+export function applyDefaultSeverity(issues: CodeIssue[], custom: CustomCategoryConfig[]): CodeIssue[] {
+  const categories = listCategories(custom);
+  return issues.map((issue) =>
+    ISSUE_TYPES.includes(issue.type)
+      ? issue
+      : {
+          ...issue,
+          type: categories.find((definition) => definition.id === issue.category)?.severity ?? 'info',
+        }
+  );
+}
@@ -0,0 +1,268 @@
+import type { Binding, NodePath, Scope } from '@babel/traverse';
+import * as t from '@babel/types';
+import type { LintRule } from './ruleEngine.js';
+
+/** Hooks whose second argument is a dependency array */
+const HOOKS_WITH_DEPS = new Set([
+  'useEffect',
+  'useLayoutEffect',
+  'useInsertionEffect',
+  'useMemo',
+  'useCallback',
+]);
+
+/** Hooks that may list extra dependencies on purpose, to re-run on change */
+const EFFECT_HOOKS = new Set(['useEffect', 'useLayoutEffect', 'useInsertionEffect']);
+
+export interface HookDependencyReport {
+  hook: string;
+  /** Source of each array element, keyed when it is a plain member chain */
+  declared: Array<{ key: string | null; source: string }>;
+  missing: string[];
+  unnecessary: string[];
+  /** Declared dependencies that get a new identity on every render */
+  unstable: Array<{ name: string; kind: string; node: t.Node }>;
+}
+
+function hookName(callee: t.CallExpression['callee']): string | null {
+  if (t.isIdentifier(callee)) return callee.name;
+  if (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.object, { name: 'React' }) &&
+    t.isIdentifier(callee.property)
+  ) {
+    return callee.property.name;
+  }
+  return null;
+}
+
+/**
+ * Whether a binding's value keeps its identity across renders: state
+ * setters, reducer dispatchers and refs
+ */
+function isStable(binding: Binding): boolean {
+  const declarator = binding.path;
+  if (!declarator.isVariableDeclarator()) return false;
+
+  const { id, init } = declarator.node;
+  if (!t.isCallExpression(init)) return false;
+  const hook = hookName(init.callee);
+
+  if (hook === 'useRef') return t.isIdentifier(id);
+  if ((hook === 'useState' || hook === 'useReducer') && t.isArrayPattern(id)) {
+    const setter = id.elements[1];
+    return t.isIdentifier(setter) && setter.name === binding.identifier.name;
+  }
+  return false;
+}
+
+/**
+ * Why a binding changes identity on every render, if it does
+ */
+function unstableKind(binding: Binding): string | null {
+  const declarator = binding.path;
+  if (binding.kind === 'hoisted' && declarator.isFunctionDeclaration()) return 'function';
+  if (!declarator.isVariableDeclarator() || !t.isIdentifier(declarator.node.id)) return null;
+
+  const { init } = declarator.node;
+  if (t.isObjectExpression(init)) return 'object';
+  if (t.isArrayExpression(init)) return 'array';
+  if (t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) return 'function';
+  if (t.isJSXElement(init) || t.isJSXFragment(init)) return 'JSX element';
+  if (t.isNewExpression(init)) return 'instance';
+  return null;
+}
+
+/**
+ * Whether a scope is the component scope or nested inside it
+ */
+function isWithin(scope: Scope, ancestor: Scope): boolean {
+  for (let current: Scope | undefined = scope; current; current = current.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+}
+
+/**
+ * Dependency key for a reference: the longest plain member chain it reads,
+ * e.g. `props.user.name`. A method call depends on its object, not the method.
+ */
+function dependencyPath(path: NodePath<t.Identifier>): string {
+  let key = path.node.name;
+  let current: NodePath = path;
+
+  while (
+    (current.parentPath?.isMemberExpression() || current.parentPath?.isOptionalMemberExpression()) &&
+    current.parentPath.node.object === current.node &&
+    !current.parentPath.node.computed &&
+    t.isIdentifier(current.parentPath.node.property)
+  ) {
+    const parent: NodePath = current.parentPath;
+    const { callee } = (parent.parentPath?.node ?? {}) as Partial<t.CallExpression>;
+    const isCallee =
+      (parent.parentPath?.isCallExpression() || parent.parentPath?.isOptionalCallExpression()) &&
+      callee === parent.node;
+    const isAssigned =
+      parent.parentPath?.isAssignmentExpression() && parent.parentPath.node.left === parent.node;
+    if (isCallee || isAssigned) break;
+
+    key += `.${((parent.node as t.MemberExpression).property as t.Identifier).name}`;
+    current = parent;
+  }
+
+  return key;
+}
+
+/**
+ * Source-level key for a declared dependency, or null for expressions
+ * that are not plain identifiers or member chains
+ */
+function declaredKey(node: t.Node | null): string | null {
+  if (t.isIdentifier(node)) return node.name;
+  if (
+    (t.isMemberExpression(node) || t.isOptionalMemberExpression(node)) &&
+    !node.computed &&
+    t.isIdentifier(node.property)
+  ) {
+    const object = declaredKey(node.object);
+    return object ? `${object}.${node.property.name}` : null;
+  }
+  return null;
+}
+
+/** Whether `dependency` is covered by listing `declared` */
+function covers(declared: string, dependency: string): boolean {
+  return dependency === declared || dependency.startsWith(`${declared}.`);
+}
+
+/**
+ * Compare the values a hook callback reads from the component scope with
+ * its declared dependency array. Returns null for calls that are not hooks
+ * with a callback and a literal array.
+ */
+export function checkHookDependencies(
+  path: NodePath<t.CallExpression>,
+  getSource: (node: t.Node) => string
+): HookDependencyReport | null {
+  const hook = hookName(path.node.callee);
+  if (!hook || !HOOKS_WITH_DEPS.has(hook)) return null;
+
+  const [callback, depsArg] = path.get('arguments');
+  if (!callback || (!callback.isArrowFunctionExpression() && !callback.isFunctionExpression())) {
+    return null;
+  }
+  if (!depsArg?.isArrayExpression()) return null;
+
+  const component = path.scope.getFunctionParent();
+  if (!component) return null;
+
+  // Values read inside the callback that are declared in the component body
+  const required = new Set<string>();
+  callback.traverse({
+    Identifier(ref) {
+      if (!ref.isReferencedIdentifier()) return;
+      const binding = ref.scope.getBinding(ref.node.name);
+      if (!binding || isWithin(binding.scope, callback.scope)) return;
+      if (!isWithin(binding.scope, component)) return;
+      if (isStable(binding)) return;
+
+      const key = dependencyPath(ref);
+      // `ref.current` style reads are mutable containers, not dependencies
+      if (key.endsWith('.current')) {
+        required.add(key.slice(0, -'.current'.length));
+      } else {
+        required.add(key);
+      }
+    },
+  });
+
+  const declared: HookDependencyReport['declared'] = [];
+  const unstable: HookDependencyReport['unstable'] = [];
+  const unnecessary: string[] = [];
+
+  for (const element of depsArg.node.elements) {
+    if (!element) continue;
+    const key = declaredKey(element);
+    declared.push({ key, source: getSource(element) });
+    if (!key) continue;
+
+    const root = key.split('.')[0]!;
+    const binding = path.scope.getBinding(root);
+    const inComponent = binding ? isWithin(binding.scope, component) : false;
+    const used = [...required].some((dep) => covers(key, dep) || covers(dep, key));
+
+    if (!inComponent || (!used && !EFFECT_HOOKS.has(hook))) {
+      unnecessary.push(key);
+      continue;
+    }
+
+    const kind = binding && key === root ? unstableKind(binding) : null;
+    if (kind) {
+      unstable.push({ name: key, kind, node: element });
+    }
+  }
+
+  const missing = [...required]
+    .filter((dep) => !declared.some(({ key }) => key !== null && covers(key, dep)))
+    // Listing `a` already covers `a.b`, so drop chains whose prefix is missing too
+    .filter((dep, _, all) => !all.some((other) => other !== dep && covers(other, dep)))
+    .sort();
+
+  return { hook, declared, missing, unnecessary, unstable };
+}
+
+export const exhaustiveDeps: LintRule = {
+  id: 'exhaustive-deps',
+  category: 'code-quality',
+  severity: 'warning',
+  description: 'Hook dependency arrays must list every value the callback reads',
+  create: (context) => ({
+    CallExpression(path) {
+      const report = checkHookDependencies(path, context.getSource);
+      if (!report) return;
+
+      const depsNode = path.node.arguments[1]!;
+      const { hook, declared, missing, unnecessary, unstable } = report;
+
+      if (missing.length > 0 || unnecessary.length > 0) {
+        const problems = [
+          ...(missing.length > 0 ? [`missing: ${missing.join(', ')}`] : []),
+          ...(unnecessary.length > 0 ? [`unnecessary: ${unnecessary.join(', ')}`] : []),
+        ];
+        const deps = [
+          ...declared
+            .filter(({ key }) => key === null || !unnecessary.includes(key))
+            .map(({ source }) => source),
+          ...missing,
+        ];
+
+        context.report({
+          node: depsNode,
+          message: `${hook} dependency array - ${problems.join('; ')}`,
+          ...(depsNode.start != null &&
+            depsNode.end != null && {
+              fix: {
+                title: `Fix ${hook} dependencies`,
+                description: `Rewrite the dependency array as [${deps.join(', ')}]`,
+                explanation: missing.length > 0
+                  ? `The callback reads ${missing.join(', ')} but does not list them, so it can run with stale values.`
+                  : `${unnecessary.join(', ')} cannot change between renders of this component, so listing them has no effect.`,
+                start: depsNode.start,
+                end: depsNode.end,
+                text: `[${deps.join(', ')}]`,
+                priority: missing.length > 0 ? 'high' : 'low',
+                confidence: 0.85,
+              },
+            }),
+        });
+      }
+
+      for (const { name, kind, node } of unstable) {
+        context.report({
+          node,
+          message: `The '${name}' ${kind} is recreated on every render, so ${hook} runs every time; wrap it in ${kind === 'function' ? 'useCallback' : 'useMemo'} or move it inside the callback`,
+        });
+      }
+    },
+  }),
+};
@@ -0,0 +1,332 @@
+import * as t from '@babel/types';
+import { exhaustiveDeps } from './hookDeps.js';
+import type { LintRule } from './ruleEngine.js';
+
+/** Calls inside an effect that usually need to be undone on cleanup */
+const SUBSCRIPTION_CALLS = new Set([
+  'addEventListener',
+  'setInterval',
+  'setTimeout',
+  'subscribe',
+  'observe',
+]);
+
+const CONSOLE_METHODS = new Set(['log', 'debug', 'info', 'trace']);
+
+/**
+ * Name of a JSX element, e.g. `button`, `Foo` or `Foo.Bar`
+ */
+function jsxName(name: t.JSXOpeningElement['name']): string {
+  if (t.isJSXIdentifier(name)) return name.name;
+  if (t.isJSXNamespacedName(name)) return `${name.namespace.name}:${name.name.name}`;
+  return `${jsxName(name.object)}.${name.property.name}`;
+}
+
+function getAttribute(element: t.JSXOpeningElement, name: string): t.JSXAttribute | undefined {
+  return element.attributes.find(
+    (attr): attr is t.JSXAttribute =>
+      t.isJSXAttribute(attr) && t.isJSXIdentifier(attr.name) && attr.name.name === name
+  );
+}
+
+function hasSpread(element: t.JSXOpeningElement): boolean {
+  return element.attributes.some((attr) => t.isJSXSpreadAttribute(attr));
+}
+
+/**
+ * Whether a callee is `name` or `React.name`
+ */
+function isReactCall(callee: t.CallExpression['callee'], name: string): boolean {
+  if (t.isIdentifier(callee)) return callee.name === name;
+  return (
+    t.isMemberExpression(callee) &&
+    t.isIdentifier(callee.object, { name: 'React' }) &&
+    t.isIdentifier(callee.property, { name })
+  );
+}
+
+/**
+ * JSX elements a list callback returns directly
+ */
+function returnedElements(fn: t.ArrowFunctionExpression | t.FunctionExpression): t.Node[] {
+  if (!t.isBlockStatement(fn.body)) return [fn.body];
+  return fn.body.body
+    .filter((statement): statement is t.ReturnStatement => t.isReturnStatement(statement))
+    .flatMap((statement) => (statement.argument ? [statement.argument] : []));
+}
+
+export const noInlineHandler: LintRule = {
+  id: 'no-inline-handler',
+  category: 'performance',
+  severity: 'warning',
+  description: 'Inline functions passed as event props to components break memoization',
+  create: (context) => ({
+    JSXAttribute(path) {
+      const { name, value } = path.node;
+      if (!t.isJSXIdentifier(name) || !/^on[A-Z]/.test(name.name)) return;
+      if (!t.isJSXExpressionContainer(value)) return;
+      if (!t.isArrowFunctionExpression(value.expression) && !t.isFunctionExpression(value.expression)) {
+        return;
+      }
+
+      // A new handler identity only matters to components, not DOM elements
+      const element = path.parent as t.JSXOpeningElement;
+      const elementName = jsxName(element.name);
+      if (!/^[A-Z]/.test(elementName)) return;
+
+      context.report({
+        node: path.node,
+        message: `Inline function passed to <${elementName} ${name.name}> is recreated on every render; wrap it in useCallback`,
+      });
+    },
+  }),
+};
+
+export const jsxKey: LintRule = {
+  id: 'jsx-key',
+  category: 'performance',
+  severity: 'warning',
+  description: 'Elements returned from .map() need a key prop',
+  create: (context) => ({
+    CallExpression(path) {
+      const { callee, arguments: args } = path.node;
+      if (!t.isMemberExpression(callee) || !t.isIdentifier(callee.property, { name: 'map' })) return;
+
+      const callback = args[0];
+      if (!t.isArrowFunctionExpression(callback) && !t.isFunctionExpression(callback)) return;
+
+      for (const returned of returnedElements(callback)) {
+        if (t.isJSXFragment(returned)) {
+          context.report({
+            node: returned,
+            message: 'Fragment returned from .map() cannot take a key; use <React.Fragment key={...}>',
+          });
+          continue;
+        }
+        if (!t.isJSXElement(returned)) continue;
+
+        const opening = returned.openingElement;
+        if (getAttribute(opening, 'key') || hasSpread(opening)) continue;
+
+        const item = callback.params[0];
+        context.report({
+          node: opening,
+          message: `<${jsxName(opening.name)}> returned from .map() is missing a key prop`,
+          ...(t.isIdentifier(item) &&
+            opening.name.end != null && {
+              fix: {
+                title: `Add a key to <${jsxName(opening.name)}>`,
+                description: `Key list items by ${item.name}.id`,
+                explanation:
+                  'React uses keys to match list items between renders. This assumes each item has a stable `id`; adjust if it does not.',
+                start: opening.name.end,
+                end: opening.name.end,
+                text: ` key={${item.name}.id}`,
+                confidence: 0.5,
+              },
+            }),
+        });
+      }
+    },
+  }),
+};
+
+export const noConsole: LintRule = {
+  id: 'no-console',
+  category: 'code-quality',
+  severity: 'warning',
+  description: 'Debug console output should be removed before production',
+  create: (context) => ({
+    CallExpression(path) {
+      const { callee } = path.node;
+      if (
+        !t.isMemberExpression(callee) ||
+        !t.isIdentifier(callee.object, { name: 'console' }) ||
+        !t.isIdentifier(callee.property) ||
+        !CONSOLE_METHODS.has(callee.property.name)
+      ) {
+        return;
+      }
+
+      const statement = path.parentPath;
+      const removable =
+        statement.isExpressionStatement() &&
+        statement.node.start != null &&
+        statement.node.end != null;
+
+      context.report({
+        node: path.node,
+        message: `console.${callee.property.name} statement found - remove before production`,
+        ...(removable && {
+          fix: {
+            title: `Remove console.${callee.property.name}`,
+            description: 'Delete the debug logging statement',
+            explanation: 'Console output in production is noise and can leak internal state.',
+            start: statement.node.start!,
+            end: statement.node.end!,
+            text: '',
+            priority: 'low',
+            confidence: 0.9,
+          },
+        }),
+      });
+    },
+  }),
+};
+
+export const effectCleanup: LintRule = {
+  id: 'effect-cleanup',
+  category: 'code-quality',
+  severity: 'warning',
+  description: 'Effects that subscribe or start timers should return a cleanup function',
+  create: (context) => ({
+    CallExpression(path) {
+      const { callee } = path.node;
+      if (!isReactCall(callee, 'useEffect') && !isReactCall(callee, 'useLayoutEffect')) return;
+
+      const [effect] = path.get('arguments');
+      if (!effect || (!effect.isArrowFunctionExpression() && !effect.isFunctionExpression())) return;
+      if (!t.isBlockStatement(effect.node.body)) return;
+
+      const hasCleanup = effect.node.body.body.some(
+        (statement) => t.isReturnStatement(statement) && statement.argument != null
+      );
+      if (hasCleanup) return;
+
+      const subscriptions: string[] = [];
+      effect.traverse({
+        CallExpression(inner) {
+          const target = inner.node.callee;
+          const name = t.isIdentifier(target)
+            ? target.name
+            : t.isMemberExpression(target) && t.isIdentifier(target.property)
+              ? target.property.name
+              : null;
+          if (name && SUBSCRIPTION_CALLS.has(name)) subscriptions.push(name);
+        },
+      });
+
+      if (subscriptions.length > 0) {
+        context.report({
+          node: path.node,
+          message: `Effect calls ${[...new Set(subscriptions)].join(', ')} but returns no cleanup function`,
+        });
+      }
+    },
+  }),
+};
+
+export const imgAlt: LintRule = {
+  id: 'img-alt',
+  category: 'accessibility',
+  severity: 'warning',
+  description: 'Images need alternative text',
+  create: (context) => ({
+    JSXOpeningElement(path) {
+      const element = path.node;
+      if (!t.isJSXIdentifier(element.name, { name: 'img' })) return;
+      if (getAttribute(element, 'alt') || hasSpread(element) || element.name.end == null) return;
+
+      context.report({
+        node: element,
+        message: '<img> is missing an alt attribute',
+        fix: {
+          title: 'Add alt text to <img>',
+          description: 'Mark the image as decorative with an empty alt attribute',
+          explanation:
+            'Screen readers announce the file name of images without alt text. Use an empty alt for decorative images, or describe the image if it conveys meaning.',
+          start: element.name.end,
+          end: element.name.end,
+          text: ' alt=""',
+          confidence: 0.6,
+        },
+      });
+    },
+  }),
+};
+
+export const buttonName: LintRule = {
+  id: 'button-name',
+  category: 'accessibility',
+  severity: 'info',
+  description: 'Buttons without text content need an accessible name',
+  create: (context) => ({
+    JSXElement(path) {
+      const opening = path.node.openingElement;
+      if (!t.isJSXIdentifier(opening.name, { name: 'button' }) || hasSpread(opening)) return;
+      if (['aria-label', 'aria-labelledby', 'title'].some((name) => getAttribute(opening, name))) {
+        return;
+      }
+
+      // Any text or expression child may provide the label
+      const hasLabel = path.node.children.some(
+        (child) =>
+          (t.isJSXText(child) && child.value.trim() !== '') ||
+          (t.isJSXExpressionContainer(child) && !t.isJSXEmptyExpression(child.expression))
+      );
+      if (hasLabel) return;
+
+      context.report({
+        node: opening,
+        message: '<button> has no text content; add an aria-label for screen readers',
+      });
+    },
+  }),
+};
+
+export const preferMemo: LintRule = {
+  id: 'prefer-memo',
+  category: 'performance',
+  severity: 'info',
+  description: 'Components that take props may benefit from React.memo',
+  create: (context) => {
+    const components = new Map<string, t.Node>();
+    const memoized = new Set<string>();
+
+    return {
+      FunctionDeclaration(path) {
+        const { id, params } = path.node;
+        if (id && /^[A-Z]/.test(id.name) && params.length > 0 && !path.parentPath.isCallExpression()) {
+          components.set(id.name, path.node);
+        }
+      },
+      VariableDeclarator(path) {
+        const { id, init } = path.node;
+        if (!t.isIdentifier(id) || !/^[A-Z]/.test(id.name)) return;
+        if ((t.isArrowFunctionExpression(init) || t.isFunctionExpression(init)) && init.params.length > 0) {
+          components.set(id.name, path.node);
+        }
+      },
+      CallExpression(path) {
+        if (!isReactCall(path.node.callee, 'memo')) return;
+        const [wrapped] = path.node.arguments;
+        if (t.isIdentifier(wrapped)) memoized.add(wrapped.name);
+        if (path.parentPath.isVariableDeclarator() && t.isIdentifier(path.parentPath.node.id)) {
+          memoized.add(path.parentPath.node.id.name);
+        }
+      },
+      Program: {
+        exit() {
+          for (const [name, node] of components) {
+            if (memoized.has(name)) continue;
+            context.report({
+              node,
+              message: `${name} is not wrapped in React.memo; consider memoizing it if it re-renders with unchanged props`,
+            });
+          }
+        },
+      },
+    };
+  },
+};
+
+export const builtInRules: LintRule[] = [
+  noInlineHandler,
+  jsxKey,
+  noConsole,
+  effectCleanup,
+  imgAlt,
+  buttonName,
+  preferMemo,
+  exhaustiveDeps,
+];
@@ -14,19 +14,32 @@ interface ParseResult {
   metrics: CodeMetrics;
 }
 
-interface ImportInfo {
+export interface ImportInfo {
   source: string;
   specifiers: string[];
   isDefault: boolean;
   isNamespace: boolean;
+  line: number;
+  /** Imported name ('default', or '*' for namespaces) to local name */
+  bindings: Array<{ imported: string; local: string }>;
+  /** `export ... from` re-exports; `local` is the exported name */
+  reExport?: boolean;
 }
 
-interface ExportInfo {
+export interface ExportInfo {
   name: string;
   isDefault: boolean;
   type: 'function' | 'class' | 'variable' | 'other';
 }
 
+/** Where a file uses an imported binding */
+export interface BindingUsage {
+  /** Local name, or `Namespace.member` for member access */
+  name: string;
+  line: number;
+  kind: 'jsx' | 'call';
+}
+
 interface ComponentBoundary {
   name: string;
   start: number;
@@ -82,25 +95,51 @@ export function analyzeReactComponent(
       dependencies.add(source);
 
       const specifiers: string[] = [];
+      const bindings: ImportInfo['bindings'] = [];
       let isDefault = false;
       let isNamespace = false;
 
       path.node.specifiers.forEach((spec) => {
         if (t.isImportDefaultSpecifier(spec)) {
           specifiers.push(spec.local.name);
+          bindings.push({ imported: 'default', local: spec.local.name });
           isDefault = true;
         } else if (t.isImportNamespaceSpecifier(spec)) {
           specifiers.push(spec.local.name);
+          bindings.push({ imported: '*', local: spec.local.name });
           isNamespace = true;
         } else if (t.isImportSpecifier(spec)) {
           const imported = t.isIdentifier(spec.imported)
             ? spec.imported.name
             : spec.imported.value;
           specifiers.push(imported);
+          bindings.push({ imported, local: spec.local.name });
         }
       });
 
-      imports.push({ source, specifiers, isDefault, isNamespace });
+      imports.push({
+        source,
+        specifiers,
+        isDefault,
+        isNamespace,
+        line: path.node.loc?.start.line ?? 0,
+        bindings,
+      });
+    },
+
+    // `export * from` re-exports everything, so it's an import of the whole module
+    ExportAllDeclaration(path) {
+      const source = path.node.source.value;
+      dependencies.add(source);
+      imports.push({
+        source,
+        specifiers: [],
+        isDefault: false,
+        isNamespace: true,
+        line: path.node.loc?.start.line ?? 0,
+        bindings: [{ imported: '*', local: '*' }],
+        reExport: true,
+      });
     },
 
     // Track exports
@@ -159,6 +198,32 @@ export function analyzeReactComponent(
           exports.push({ name: exported, isDefault: false, type: 'other' });
         }
       });
+
+      // `export { Button } from './Button'` also imports from the source
+      if (path.node.source) {
+        const source = path.node.source.value;
+        dependencies.add(source);
+        const bindings = path.node.specifiers.flatMap((spec) => {
+          const exported = t.isIdentifier(spec.exported) ? spec.exported.name : spec.exported.value;
+          if (t.isExportSpecifier(spec)) {
+            const local = t.isIdentifier(spec.local) ? spec.local.name : (spec.local as t.StringLiteral).value;
+            return [{ imported: local, local: exported }];
+          }
+          if (t.isExportNamespaceSpecifier(spec)) {
+            return [{ imported: '*', local: exported }];
+          }
+          return [{ imported: 'default', local: exported }];
+        });
+        imports.push({
+          source,
+          specifiers: bindings.map((b) => b.imported),
+          isDefault: bindings.some((b) => b.imported === 'default'),
+          isNamespace: bindings.some((b) => b.imported === '*'),
+          line: path.node.loc?.start.line ?? 0,
+          bindings,
+          reExport: true,
+        });
+      }
     },
 
     // Track React hooks
@@ -289,6 +354,42 @@ export function analyzeReactComponent(
   };
 }
 
+/**
+ * Find where identifiers are rendered as JSX elements or called, e.g. to
+ * list the call sites of an imported component or hook
+ */
+export function findBindingUsages(ast: t.File): BindingUsage[] {
+  const usages: BindingUsage[] = [];
+
+  traverse(ast, {
+    JSXOpeningElement(path) {
+      const name = path.node.name;
+      const line = path.node.loc?.start.line ?? 0;
+      if (t.isJSXIdentifier(name)) {
+        usages.push({ name: name.name, line, kind: 'jsx' });
+      } else if (t.isJSXMemberExpression(name) && t.isJSXIdentifier(name.object)) {
+        usages.push({ name: `${name.object.name}.${name.property.name}`, line, kind: 'jsx' });
+      }
+    },
+
+    CallExpression(path) {
+      const callee = path.node.callee;
+      const line = path.node.loc?.start.line ?? 0;
+      if (t.isIdentifier(callee)) {
+        usages.push({ name: callee.name, line, kind: 'call' });
+      } else if (
+        t.isMemberExpression(callee) &&
+        t.isIdentifier(callee.object) &&
+        t.isIdentifier(callee.property)
+      ) {
+        usages.push({ name: `${callee.object.name}.${callee.property.name}`, line, kind: 'call' });
+      }
+    },
+  });
+
+  return usages;
+}
+
 /**
  * Extract props from function parameters
  */
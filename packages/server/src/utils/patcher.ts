@@ -0,0 +1,518 @@
+import traverse from '@babel/traverse';
+import * as t from '@babel/types';
+import { parseCode, findComponentBoundaries, getNodeLineRange } from './parser.js';
+import type { PatchConflict, PatchReport } from '../types/index.js';
+
+/** Minimum similarity for a fuzzy match to be accepted */
+const FUZZY_THRESHOLD = 0.8;
+
+/** Fuzzy candidates closer than this are considered a tie */
+const FUZZY_TIE_MARGIN = 0.02;
+
+interface Region {
+  start: number;
+  end: number;
+}
+
+export interface PatchHints {
+  lineStart?: number;
+  lineEnd?: number;
+  filename?: string;
+}
+
+export type PatchLocation =
+  | { success: true; region: Region; report: PatchReport }
+  | { success: false; conflict: PatchConflict };
+
+/**
+ * Offsets at which each line begins
+ */
+function computeLineStarts(content: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < content.length; i++) {
+    if (content[i] === '\n') starts.push(i + 1);
+  }
+  return starts;
+}
+
+/**
+ * 1-based line number of an offset
+ */
+function lineAt(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if ((lineStarts[mid] ?? 0) <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low + 1;
+}
+
+/**
+ * Region spanning lines [first, last] (1-based), excluding the leading
+ * indentation of the first line and trailing whitespace of the last
+ */
+function lineRegion(content: string, lineStarts: number[], first: number, last: number): Region {
+  let start = lineStarts[first - 1] ?? 0;
+  let end = last < lineStarts.length ? (lineStarts[last] ?? content.length) - 1 : content.length;
+  while (start < end && /\s/.test(content[start] ?? '')) start++;
+  while (end > start && /\s/.test(content[end - 1] ?? '')) end--;
+  return { start, end };
+}
+
+/**
+ * Whether a node is a sensible patch anchor (not an identifier or literal)
+ */
+function isAnchorNode(node: t.Node): boolean {
+  return (
+    t.isStatement(node) ||
+    t.isJSXElement(node) ||
+    t.isJSXFragment(node) ||
+    t.isClassMethod(node) ||
+    t.isClassProperty(node) ||
+    t.isObjectProperty(node) ||
+    t.isObjectMethod(node)
+  );
+}
+
+/**
+ * Find the smallest statement-level AST node that covers the hinted line range
+ */
+function findAnchorNode(
+  content: string,
+  lineStart: number,
+  lineEnd: number,
+  filename?: string
+): (Region & NonNullable<PatchReport['anchor']>) | null {
+  let ast: t.File;
+  try {
+    ast = parseCode(content, filename);
+  } catch {
+    return null;
+  }
+
+  let best: (Region & NonNullable<PatchReport['anchor']>) | null = null;
+
+  traverse(ast, {
+    enter(path) {
+      const { node } = path;
+      if (!isAnchorNode(node) || !node.loc || node.start == null || node.end == null) {
+        return;
+      }
+      if (node.loc.start.line > lineStart || node.loc.end.line < lineEnd) {
+        return;
+      }
+      if (!best || node.end - node.start < best.end - best.start) {
+        best = {
+          start: node.start,
+          end: node.end,
+          nodeType: node.type,
+          lineStart: node.loc.start.line,
+          lineEnd: node.loc.end.line,
+        };
+      }
+    },
+  });
+
+  return best;
+}
+
+/**
+ * Line range of the component that contains a line, if any
+ */
+function findEnclosingComponent(
+  content: string,
+  line: number,
+  filename?: string
+): { start: number; end: number } | null {
+  try {
+    const boundaries = findComponentBoundaries(content, filename)
+      .filter((b) => b.start <= line && b.end >= line)
+      .sort((a, b) => a.end - a.start - (b.end - b.start));
+    return boundaries[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * All exact occurrences of a snippet
+ */
+function findExactMatches(content: string, snippet: string): Region[] {
+  // An empty snippet matches at every offset
+  if (!snippet) {
+    return [];
+  }
+
+  const matches: Region[] = [];
+  let index = content.indexOf(snippet);
+  while (index !== -1) {
+    matches.push({ start: index, end: index + snippet.length });
+    index = content.indexOf(snippet, index + 1);
+  }
+  return matches;
+}
+
+/**
+ * Remove all whitespace, keeping a map back to the original offsets
+ */
+function stripWhitespace(text: string): { text: string; offsets: number[] } {
+  let stripped = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? '';
+    if (!/\s/.test(char)) {
+      stripped += char;
+      offsets.push(i);
+    }
+  }
+  return { text: stripped, offsets };
+}
+
+/**
+ * Occurrences of a snippet ignoring all whitespace differences
+ */
+function findWhitespaceInsensitiveMatches(content: string, snippet: string): Region[] {
+  const haystack = stripWhitespace(content);
+  const needle = stripWhitespace(snippet).text;
+  if (!needle) {
+    return [];
+  }
+
+  return findExactMatches(haystack.text, needle).map((match) => ({
+    start: haystack.offsets[match.start] ?? 0,
+    end: (haystack.offsets[match.end - 1] ?? 0) + 1,
+  }));
+}
+
+/**
+ * If the snippet is a single named declaration, locate that declaration
+ * in the file by name even when its body has been reformatted
+ */
+function findDeclaration(
+  content: string,
+  lineStarts: number[],
+  snippet: string,
+  filename?: string
+): Region | null {
+  let statement: t.Statement | undefined;
+  try {
+    const body = parseCode(snippet.trim(), filename).program.body;
+    if (body.length !== 1) return null;
+    statement = body[0];
+  } catch {
+    return null;
+  }
+
+  let exported = false;
+  if (t.isExportNamedDeclaration(statement) || t.isExportDefaultDeclaration(statement)) {
+    exported = true;
+    statement = statement.declaration as t.Statement | undefined;
+  }
+
+  let nodeType: string | null = null;
+  let name: string | null = null;
+  if ((t.isFunctionDeclaration(statement) || t.isClassDeclaration(statement)) && statement.id) {
+    nodeType = statement.type;
+    name = statement.id.name;
+  } else if (
+    t.isVariableDeclaration(statement) &&
+    statement.declarations.length === 1 &&
+    t.isIdentifier(statement.declarations[0]?.id)
+  ) {
+    nodeType = 'VariableDeclarator';
+    name = statement.declarations[0].id.name;
+  }
+
+  if (!nodeType || !name) {
+    return null;
+  }
+
+  let range: { start: number; end: number } | null;
+  try {
+    range = getNodeLineRange(content, nodeType, name, filename);
+  } catch {
+    return null;
+  }
+  if (!range || range.start === 0) {
+    return null;
+  }
+
+  const region = lineRegion(content, lineStarts, range.start, range.end);
+
+  // Keep the file's own `export` if the snippet didn't include one
+  if (!exported) {
+    const prefix = /^export\s+(default\s+)?/.exec(content.slice(region.start, region.end));
+    if (prefix) region.start += prefix[0].length;
+  }
+
+  return region;
+}
+
+/**
+ * Count character bigrams of a string
+ */
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1)
+ */
+function similarity(a: Map<string, number>, aSize: number, b: string): number {
+  const bCounts = bigrams(b);
+  const bSize = Math.max(b.length - 1, 0);
+  if (aSize + bSize === 0) return 1;
+
+  let overlap = 0;
+  bCounts.forEach((count, pair) => {
+    overlap += Math.min(count, a.get(pair) ?? 0);
+  });
+  return (2 * overlap) / (aSize + bSize);
+}
+
+/**
+ * Slide windows of roughly the snippet's line count over the search lines
+ * and score each against the snippet, ignoring whitespace
+ */
+function findFuzzyMatches(
+  content: string,
+  snippet: string,
+  searchLines: { start: number; end: number }
+): Array<{ lineStart: number; lineEnd: number; similarity: number }> {
+  const snippetLines = snippet.trim().split('\n');
+  const target = stripWhitespace(snippet).text;
+  const targetBigrams = bigrams(target);
+  const targetSize = Math.max(target.length - 1, 0);
+  const lines = content.split('\n');
+
+  const candidates: Array<{ lineStart: number; lineEnd: number; similarity: number }> = [];
+  const size = snippetLines.length;
+
+  for (const windowSize of [size - 1, size, size + 1]) {
+    if (windowSize < 1) continue;
+
+    for (let first = searchLines.start; first + windowSize - 1 <= searchLines.end; first++) {
+      const last = first + windowSize - 1;
+      const window = stripWhitespace(lines.slice(first - 1, last).join('\n')).text;
+      if (!window) continue;
+
+      const score = similarity(targetBigrams, targetSize, window);
+      if (score >= FUZZY_THRESHOLD) {
+        candidates.push({ lineStart: first, lineEnd: last, similarity: score });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.similarity - a.similarity);
+
+  // Drop candidates overlapping a better one
+  const distinct: typeof candidates = [];
+  for (const candidate of candidates) {
+    const overlaps = distinct.some(
+      (d) => candidate.lineStart <= d.lineEnd && candidate.lineEnd >= d.lineStart
+    );
+    if (!overlaps) distinct.push(candidate);
+  }
+
+  return distinct;
+}
+
+/**
+ * Pick one region among several matches, preferring those inside the
+ * anchor node and then the one closest to the hinted line
+ */
+function chooseMatch(
+  matches: Region[],
+  lineStarts: number[],
+  hints: PatchHints,
+  anchor: Region | null
+): Region | null {
+  if (matches.length === 1) {
+    return matches[0] ?? null;
+  }
+  if (matches.length === 0 || !hints.lineStart) {
+    return null;
+  }
+
+  const inAnchor = anchor
+    ? matches.filter((m) => m.start >= anchor.start && m.end <= anchor.end)
+    : [];
+  const pool = inAnchor.length > 0 ? inAnchor : matches;
+  if (pool.length === 1) {
+    return pool[0] ?? null;
+  }
+
+  const hint = hints.lineStart;
+  const ranked = pool
+    .map((m) => ({ match: m, distance: Math.abs(lineAt(lineStarts, m.start) - hint) }))
+    .sort((a, b) => a.distance - b.distance);
+
+  // Two equally close occurrences can't be told apart
+  if (ranked.length > 1 && ranked[0]?.distance === ranked[1]?.distance) {
+    return null;
+  }
+  return ranked[0]?.match ?? null;
+}
+
+/**
+ * Locate the region of `content` that a patch's original code refers to.
+ *
+ * Tries, in order: exact match, whitespace-insensitive match, the named
+ * declaration the snippet defines (if it is similar enough), and finally a
+ * fuzzy line-window match.
+ * When there are several matches, the AST node covering the suggestion's
+ * lineStart/lineEnd is used to pick one.
+ */
+export function locatePatch(
+  content: string,
+  originalCode: string,
+  hints: PatchHints = {}
+): PatchLocation {
+  if (!originalCode.trim()) {
+    return {
+      success: false,
+      conflict: {
+        reason: 'not-found',
+        message: 'Original code is empty, so there is nothing to locate in the file',
+        candidates: [],
+      },
+    };
+  }
+
+  const lineStarts = computeLineStarts(content);
+  const totalLines = lineStarts.length;
+
+  const hasHints = !!hints.lineStart && hints.lineStart <= totalLines;
+  const hintStart = hints.lineStart ?? 1;
+  const hintEnd = Math.min(Math.max(hints.lineEnd ?? hintStart, hintStart), totalLines);
+  const anchor = hasHints ? findAnchorNode(content, hintStart, hintEnd, hints.filename) : null;
+
+  const report = (region: Region, strategy: PatchReport['strategy'], score?: number) => ({
+    success: true as const,
+    region,
+    report: {
+      strategy,
+      lineStart: lineAt(lineStarts, region.start),
+      lineEnd: lineAt(lineStarts, Math.max(region.end - 1, region.start)),
+      ...(score !== undefined && { similarity: Math.round(score * 1000) / 1000 }),
+      ...(anchor && {
+        anchor: { nodeType: anchor.nodeType, lineStart: anchor.lineStart, lineEnd: anchor.lineEnd },
+      }),
+    },
+  });
+
+  const ambiguous = (matches: Region[]): PatchLocation => ({
+    success: false,
+    conflict: {
+      reason: 'ambiguous',
+      message: `Original code matches ${matches.length} locations; provide lineStart/lineEnd to disambiguate`,
+      candidates: matches.map((m) => ({
+        lineStart: lineAt(lineStarts, m.start),
+        lineEnd: lineAt(lineStarts, Math.max(m.end - 1, m.start)),
+        similarity: 1,
+      })),
+    },
+  });
+
+  // 1. Exact match
+  const exact = findExactMatches(content, originalCode);
+  if (exact.length > 0) {
+    const chosen = chooseMatch(exact, lineStarts, hints, anchor);
+    return chosen ? report(chosen, 'exact') : ambiguous(exact);
+  }
+
+  // 2. Same code, different whitespace (e.g. reformatted by Prettier)
+  const loose = findWhitespaceInsensitiveMatches(content, originalCode);
+  if (loose.length > 0) {
+    const chosen = chooseMatch(loose, lineStarts, hints, anchor);
+    return chosen ? report(chosen, 'whitespace') : ambiguous(loose);
+  }
+
+  // 3. The declaration the snippet defines, located by name. Its body must
+  // still resemble the snippet, or edits made since the analysis would be
+  // overwritten
+  const declaration = findDeclaration(content, lineStarts, originalCode, hints.filename);
+  if (declaration) {
+    const target = stripWhitespace(originalCode).text;
+    const score = similarity(
+      bigrams(target),
+      Math.max(target.length - 1, 0),
+      stripWhitespace(content.slice(declaration.start, declaration.end)).text
+    );
+    if (score >= FUZZY_THRESHOLD) {
+      return report(declaration, 'declaration', score);
+    }
+  }
+
+  // 4. Fuzzy match, within the enclosing component when we know it
+  const component = hasHints ? findEnclosingComponent(content, hintStart, hints.filename) : null;
+  const searchLines = component ?? { start: 1, end: totalLines };
+  const fuzzy = findFuzzyMatches(content, originalCode, searchLines);
+
+  const best = fuzzy[0];
+  if (best) {
+    const second = fuzzy[1];
+    const tied = second && best.similarity - second.similarity < FUZZY_TIE_MARGIN;
+    const pick =
+      tied && hasHints
+        ? [best, second].sort(
+            (a, b) => Math.abs(a.lineStart - hintStart) - Math.abs(b.lineStart - hintStart)
+          )[0]
+        : best;
+
+    if (pick && (!tied || hasHints)) {
+      return report(
+        lineRegion(content, lineStarts, pick.lineStart, pick.lineEnd),
+        'fuzzy',
+        pick.similarity
+      );
+    }
+
+    return {
+      success: false,
+      conflict: {
+        reason: 'ambiguous',
+        message: 'Original code loosely matches several regions equally well',
+        candidates: fuzzy.slice(0, 3),
+      },
+    };
+  }
+
+  return {
+    success: false,
+    conflict: {
+      reason: 'not-found',
+      message: component
+        ? `Original code not found in component at lines ${component.start}-${component.end}. The file may have been modified.`
+        : 'Original code not found in file. The file may have been modified.',
+      candidates: [],
+    },
+  };
+}
+
+/**
+ * Replace a located region with the modified code
+ */
+export function applyPatch(
+  content: string,
+  location: Extract<PatchLocation, { success: true }>,
+  modifiedCode: string
+): string {
+  const { region, report } = location;
+
+  // Non-exact regions start at the first non-whitespace character, so the
+  // replacement must not bring its own leading indentation
+  const replacement = report.strategy === 'exact' ? modifiedCode : modifiedCode.trim();
+
+  return content.slice(0, region.start) + replacement + content.slice(region.end);
+}
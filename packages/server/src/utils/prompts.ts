@@ -1,4 +1,15 @@
-import type { OptimizationCategory, ComponentInfo, CodeMetrics } from '../types/index.js';
+import type {
+  AccessibilityFinding,
+  BuiltInCategory,
+  OptimizationCategory,
+  ComponentInfo,
+  CodeMetrics,
+  ComponentRenderProfile,
+  PromptOverrides,
+} from '../types/index.js';
+
+/** Bump when the built-in prompts change, so cached analyses aren't reused */
+export const PROMPT_VERSION = 1;
 
 /**
  * System prompt for the React optimization assistant
@@ -40,7 +51,16 @@ Always respond with a JSON object in this exact format:
       "lineEnd": 10,
       "originalCode": "The exact code to be replaced",
       "modifiedCode": "The new code that replaces it",
-      "confidence": 0.95
+      "confidence": 0.95,
+      "files": [
+        {
+          "kind": "edit|replace|create|rename|delete",
+          "filePath": "src/components/OtherFile.tsx",
+          "newPath": "Rename destination (rename only)",
+          "originalCode": "Exact code to replace (edit only; use replace to rewrite the whole file)",
+          "modifiedCode": "Replacement code, or the full content of a replaced or created file"
+        }
+      ]
     }
   ]
 }
@@ -52,12 +72,13 @@ Always respond with a JSON object in this exact format:
 3. Each suggestion should be independent and applicable separately
 4. Order suggestions by priority (highest first)
 5. Confidence should reflect how certain you are the change is correct (0.0-1.0)
-6. Never suggest changes that would require additional dependencies without noting it`;
+6. Never suggest changes that would require additional dependencies without noting it
+7. Only include "files" when a change must touch other files, e.g. extracting a component into a new file and importing it; all of them are applied together`;
 
 /**
  * Category-specific optimization prompts
  */
-export const CATEGORY_PROMPTS: Record<OptimizationCategory, string> = {
+export const CATEGORY_PROMPTS: Record<BuiltInCategory, string> = {
   performance: `Focus on performance optimizations:
 - useMemo for expensive computations
 - useCallback for function props passed to child components
@@ -119,10 +140,151 @@ export const CATEGORY_PROMPTS: Record<OptimizationCategory, string> = {
 - Testing considerations`,
 };
 
+/** Variables project prompt templates can use, as {{name}} */
+export const PROMPT_VARIABLES = [
+  'componentName',
+  'filePath',
+  'code',
+  'goal',
+  'category',
+  'categoryGuidelines',
+  'context',
+  'linesOfCode',
+  'complexity',
+  'dependencies',
+  'exports',
+] as const;
+
+export type PromptVariable = (typeof PROMPT_VARIABLES)[number];
+
+const VARIABLE_PATTERN = /\{\{\s*([\w.]+)\s*\}\}/g;
+
 /**
- * Build the full analysis prompt
+ * Names of the variables a template uses
+ */
+export function findTemplateVariables(template: string): string[] {
+  return [...new Set([...template.matchAll(VARIABLE_PATTERN)].map((match) => match[1]!))];
+}
+
+/**
+ * Fill in a template's variables. Values are inserted as-is, so code that
+ * contains braces is never treated as a variable.
+ */
+export function renderTemplate(
+  template: string,
+  variables: Partial<Record<PromptVariable, string>>
+): string {
+  return template.replace(VARIABLE_PATTERN, (_match, name: string) => variables[name as PromptVariable] ?? '');
+}
+
+/**
+ * The system prompt, with a project's replacement or additions
+ */
+export function buildSystemPrompt(
+  overrides: PromptOverrides = {},
+  variables: Partial<Record<PromptVariable, string>> = {}
+): string {
+  let base = overrides.system ? renderTemplate(overrides.system, variables) : SYSTEM_PROMPT;
+  if (overrides.customCategories && overrides.customCategories.length > 0) {
+    base += `\n\n## Project Categories\n\nBesides the categories above, "category" may be one of this project's own:\n${overrides.customCategories
+      .map((category) => `- ${category.id}: ${category.label}`)
+      .join('\n')}`;
+  }
+  return overrides.systemAppend
+    ? `${base}\n\n${renderTemplate(overrides.systemAppend, variables)}`
+    : base;
+}
+
+/** Serialized runtime values beyond this many characters are cut */
+const MAX_RUNTIME_VALUES_LENGTH = 4000;
+
+/**
+ * Live props, state and hooks captured by the injector, so suggestions can
+ * reason about the data the component actually receives
+ */
+function buildRuntimeValuesSection(componentInfo: ComponentInfo): string {
+  const hasProps = Object.keys(componentInfo.props ?? {}).length > 0;
+  const hasHooks = (componentInfo.hooks ?? []).length > 0;
+  if (!hasProps && !componentInfo.state && !hasHooks) return '';
+
+  let json = JSON.stringify({
+    ...(hasProps && { props: componentInfo.props }),
+    ...(componentInfo.state && { state: componentInfo.state }),
+    ...(hasHooks && { hooks: componentInfo.hooks }),
+  }, null, 2);
+  if (json.length > MAX_RUNTIME_VALUES_LENGTH) {
+    json = `${json.slice(0, MAX_RUNTIME_VALUES_LENGTH)}\n... (truncated)`;
+  }
+
+  return `
+## Runtime Values
+Captured from the running app. Bracketed strings such as "[Function onClick]" stand in for values that could not be serialized. Hooks are listed in call order.
+\`\`\`json
+${json}
+\`\`\``;
+}
+
+/**
+ * Summarize live re-render data so suggestions target renders that happen
+ */
+function buildRenderProfileSection(profile: ComponentRenderProfile): string {
+  const average = profile.renderCount > 0 ? profile.totalDuration / profile.renderCount : 0;
+  const reasons = profile.recentRenders.map((render) => {
+    const details = [
+      ...(render.changedProps.length > 0 ? [`props ${render.changedProps.join(', ')}`] : []),
+      ...(render.changedHooks.length > 0 ? [`state hooks #${render.changedHooks.join(', #')}`] : []),
+    ];
+    return `- Commit ${render.commitId} (${render.duration.toFixed(1)}ms): ${render.reasons.join(', ')}${details.length > 0 ? ` - ${details.join('; ')}` : ''}`;
+  });
+
+  return `
+## Runtime Render Profile
+- Renders: ${profile.renderCount} (${profile.mountCount} mounts)
+- Average render: ${average.toFixed(1)}ms, slowest: ${profile.maxDuration.toFixed(1)}ms
+- Slowest commits: ${profile.slowestRenders.map((r) => `#${r.commitId} ${r.duration.toFixed(1)}ms of ${r.commitDuration.toFixed(1)}ms`).join(', ') || 'none'}
+
+Recent renders and why they happened ("parent" means the props were shallow-equal):
+${reasons.join('\n') || '- none'}`;
+}
+
+/**
+ * List problems found in the rendered DOM so suggestions fix the JSX behind them
+ */
+function buildAccessibilityFindingsSection(findings: AccessibilityFinding[]): string {
+  const lines = findings.map(
+    (finding) => `- Line ${finding.source?.lineNumber ?? '?'} [${finding.rule}] \`${finding.html}\`: ${finding.message}`
+  );
+
+  return `
+## Accessibility Problems in the Rendered DOM
+Found by auditing the running app. Lines point at the JSX that created each element.
+${lines.join('\n')}`;
+}
+
+/**
+ * Guidelines for one category, or all of them, with a project's
+ * replacements and additions
  */
-export function buildAnalysisPrompt(params: {
+function buildCategoryGuidelines(category: OptimizationCategory | undefined, overrides: PromptOverrides): string {
+  const custom = overrides.customCategories ?? [];
+  const guidelines = (name: OptimizationCategory) => {
+    const base =
+      overrides.categories?.[name] ??
+      (name in CATEGORY_PROMPTS
+        ? CATEGORY_PROMPTS[name as BuiltInCategory]
+        : custom.find((definition) => definition.id === name)?.prompt ?? '');
+    const extra = overrides.categoryAppends?.[name];
+    return extra ? `${base}\n${extra}` : base;
+  };
+
+  return category
+    ? guidelines(category)
+    : [...Object.keys(CATEGORY_PROMPTS), ...custom.map((definition) => definition.id)]
+        .map(guidelines)
+        .join('\n\n');
+}
+
+type AnalysisPromptParams = {
   componentName: string;
   filePath: string;
   code: string;
@@ -130,7 +292,19 @@ export function buildAnalysisPrompt(params: {
   category?: OptimizationCategory;
   componentInfo?: ComponentInfo;
   metrics?: CodeMetrics;
-}): string {
+  renderProfile?: ComponentRenderProfile;
+  accessibilityFindings?: AccessibilityFinding[];
+};
+
+/**
+ * Build the system prompt and analysis prompt for a component. A project
+ * template for the analysis prompt replaces the built-in layout; either way
+ * the project's additions are rendered after it.
+ */
+export function buildAnalysisMessages(
+  params: AnalysisPromptParams,
+  overrides: PromptOverrides = {}
+): { systemPrompt: string; prompt: string } {
   const {
     componentName,
     filePath,
@@ -139,11 +313,23 @@ export function buildAnalysisPrompt(params: {
     category,
     componentInfo,
     metrics,
+    renderProfile,
+    accessibilityFindings,
   } = params;
 
-  const categoryGuidance = category
-    ? CATEGORY_PROMPTS[category]
-    : Object.values(CATEGORY_PROMPTS).join('\n\n');
+  const variables: Partial<Record<PromptVariable, string>> = {
+    componentName,
+    filePath,
+    code,
+    goal: optimizationGoal,
+    category: category ?? '',
+    linesOfCode: metrics ? String(metrics.linesOfCode) : '',
+    complexity: metrics ? String(metrics.complexity) : '',
+    dependencies: metrics?.dependencies.join(', ') ?? '',
+    exports: metrics?.exports.join(', ') ?? '',
+  };
+
+  const categoryGuidance = renderTemplate(buildCategoryGuidelines(category, overrides), variables);
 
   let contextSection = '';
 
@@ -153,6 +339,7 @@ export function buildAnalysisPrompt(params: {
 - Props: ${componentInfo.props ? Object.keys(componentInfo.props).join(', ') || 'none' : 'unknown'}
 - Hooks: ${componentInfo.hooks?.map((h) => h.name).join(', ') || 'none'}
 - State: ${componentInfo.state ? Object.keys(componentInfo.state).join(', ') || 'none' : 'unknown'}`;
+    contextSection += buildRuntimeValuesSection(componentInfo);
   }
 
   if (metrics) {
@@ -164,7 +351,20 @@ export function buildAnalysisPrompt(params: {
 - Exports: ${metrics.exports.join(', ') || 'none'}`;
   }
 
-  return `# React Component Optimization Request
+  if (renderProfile) {
+    contextSection += buildRenderProfileSection(renderProfile);
+  }
+
+  if (accessibilityFindings && accessibilityFindings.length > 0) {
+    contextSection += buildAccessibilityFindingsSection(accessibilityFindings);
+  }
+
+  variables.categoryGuidelines = categoryGuidance;
+  variables.context = contextSection.trim();
+
+  let prompt = overrides.analysis
+    ? renderTemplate(overrides.analysis, variables)
+    : `# React Component Optimization Request
 
 ## Target Component
 - Name: ${componentName}
@@ -190,6 +390,19 @@ ${code}
 3. Provide concrete code modifications with exact replacements
 4. Ensure all suggestions maintain backward compatibility
 5. Return your analysis as a valid JSON object following the specified format`;
+
+  if (overrides.analysisAppend) {
+    prompt += `\n\n${renderTemplate(overrides.analysisAppend, variables)}`;
+  }
+
+  return { systemPrompt: buildSystemPrompt(overrides, variables), prompt };
+}
+
+/**
+ * Build the full analysis prompt
+ */
+export function buildAnalysisPrompt(params: AnalysisPromptParams, overrides: PromptOverrides = {}): string {
+  return buildAnalysisMessages(params, overrides).prompt;
 }
 
 /**
@@ -329,5 +542,11 @@ Analyze all components and identify:
 3. Component composition improvements
 4. Cross-cutting concerns (error handling, loading states)
 
-Respond with a JSON object containing analysis for each component and overall recommendations.`;
+Respond with a JSON object in this format:
+{
+  "components": [
+    { "name": "ComponentName", "summary": "Key findings for this component" }
+  ],
+  "recommendations": ["Overall recommendation that applies across components"]
+}`;
 }
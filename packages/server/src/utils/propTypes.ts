@@ -0,0 +1,347 @@
+import ts from 'typescript';
+import type { ApiChange } from '../types/index.js';
+
+export interface PropSignature {
+  name: string;
+  optional: boolean;
+  /** Type as written, whitespace-normalized; empty when the prop is untyped */
+  type: string;
+}
+
+export interface ComponentPropsInfo {
+  component: string;
+  props: PropSignature[];
+}
+
+type LocalTypes = Map<string, ts.InterfaceDeclaration | ts.TypeAliasDeclaration>;
+
+/** Wrappers whose type argument or first argument carries the props */
+const COMPONENT_WRAPPERS = new Set(['memo', 'forwardRef']);
+const FC_TYPES = new Set(['FC', 'FunctionComponent', 'VFC', 'VoidFunctionComponent']);
+const CLASS_BASES = new Set(['Component', 'PureComponent']);
+
+function scriptKind(filename: string): ts.ScriptKind {
+  if (filename.endsWith('.ts')) return ts.ScriptKind.TS;
+  if (filename.endsWith('.js')) return ts.ScriptKind.JS;
+  if (filename.endsWith('.jsx')) return ts.ScriptKind.JSX;
+  return ts.ScriptKind.TSX;
+}
+
+function normalizeType(text: string): string {
+  return text.replace(/\s+/g, ' ').replace(/[;,]\s*$/, '').trim();
+}
+
+/**
+ * `React.memo` and `memo` both name `memo`
+ */
+function simpleName(expression: ts.Node): string | null {
+  if (ts.isIdentifier(expression)) return expression.text;
+  if (ts.isPropertyAccessExpression(expression)) return expression.name.text;
+  if (ts.isTypeReferenceNode(expression)) return simpleName(expression.typeName);
+  if (ts.isQualifiedName(expression)) return expression.right.text;
+  return null;
+}
+
+function isComponentName(name: string): boolean {
+  return /^[A-Z]/.test(name);
+}
+
+/**
+ * Flatten a props type into its members. Local interfaces, type aliases,
+ * intersections and `PropsWithChildren` are followed; anything else (e.g.
+ * an imported `ButtonHTMLAttributes<...>`) becomes an opaque `...Type` entry.
+ */
+function resolveMembers(
+  node: ts.TypeNode,
+  locals: LocalTypes,
+  sourceFile: ts.SourceFile,
+  seen = new Set<string>()
+): PropSignature[] {
+  if (ts.isParenthesizedTypeNode(node)) {
+    return resolveMembers(node.type, locals, sourceFile, seen);
+  }
+
+  if (ts.isIntersectionTypeNode(node)) {
+    return node.types.flatMap((part) => resolveMembers(part, locals, sourceFile, seen));
+  }
+
+  if (ts.isTypeLiteralNode(node)) {
+    return membersOf(node.members, sourceFile);
+  }
+
+  if (ts.isTypeReferenceNode(node)) {
+    const name = simpleName(node.typeName);
+
+    if (name === 'PropsWithChildren') {
+      const inner = node.typeArguments?.[0];
+      return [
+        ...(inner ? resolveMembers(inner, locals, sourceFile, seen) : []),
+        { name: 'children', optional: true, type: 'ReactNode' },
+      ];
+    }
+
+    const declaration = ts.isIdentifier(node.typeName) ? locals.get(node.typeName.text) : undefined;
+    if (declaration && !seen.has(declaration.name.text)) {
+      return resolveDeclaration(declaration, locals, sourceFile, seen);
+    }
+  }
+
+  return [{ name: `...${normalizeType(node.getText(sourceFile))}`, optional: true, type: '' }];
+}
+
+/**
+ * Members of a local interface (with the interfaces it extends) or type alias
+ */
+function resolveDeclaration(
+  declaration: ts.InterfaceDeclaration | ts.TypeAliasDeclaration,
+  locals: LocalTypes,
+  sourceFile: ts.SourceFile,
+  seen: Set<string>
+): PropSignature[] {
+  seen.add(declaration.name.text);
+
+  if (ts.isTypeAliasDeclaration(declaration)) {
+    return resolveMembers(declaration.type, locals, sourceFile, seen);
+  }
+
+  const inherited = (declaration.heritageClauses ?? []).flatMap((clause) =>
+    clause.types.flatMap((base) => {
+      const baseName = simpleName(base.expression);
+      const local = baseName ? locals.get(baseName) : undefined;
+      return local && !seen.has(local.name.text)
+        ? resolveDeclaration(local, locals, sourceFile, seen)
+        : [{ name: `...${normalizeType(base.getText(sourceFile))}`, optional: true, type: '' }];
+    })
+  );
+  return [...inherited, ...membersOf(declaration.members, sourceFile)];
+}
+
+function membersOf(members: ts.NodeArray<ts.TypeElement>, sourceFile: ts.SourceFile): PropSignature[] {
+  return members.flatMap((member): PropSignature[] => {
+    if (!member.name || (!ts.isPropertySignature(member) && !ts.isMethodSignature(member))) {
+      return [];
+    }
+
+    const name = member.name.getText(sourceFile).replace(/^['"]|['"]$/g, '');
+    const type = ts.isPropertySignature(member)
+      ? member.type?.getText(sourceFile) ?? 'any'
+      : member.getText(sourceFile).slice(member.name.getEnd() - member.getStart(sourceFile)).replace(/^\?/, '');
+
+    return [{ name, optional: Boolean(member.questionToken), type: normalizeType(type) }];
+  });
+}
+
+/**
+ * Props of a component function: its first parameter's annotation, or the
+ * names it destructures when it has none
+ */
+function fromFunction(
+  fn: ts.SignatureDeclaration,
+  locals: LocalTypes,
+  sourceFile: ts.SourceFile
+): PropSignature[] | null {
+  const param = fn.parameters[0];
+  if (!param) return [];
+  if (param.type) return resolveMembers(param.type, locals, sourceFile);
+
+  if (ts.isObjectBindingPattern(param.name)) {
+    return param.name.elements.map((element) => ({
+      name: element.dotDotDotToken
+        ? `...${element.name.getText(sourceFile)}`
+        : (element.propertyName ?? element.name).getText(sourceFile),
+      optional: Boolean(element.initializer || element.dotDotDotToken),
+      type: '',
+    }));
+  }
+  return null;
+}
+
+/**
+ * Props of a component's initializer: a function, or a `memo`/`forwardRef`
+ * call whose type arguments or wrapped function describe them
+ */
+function fromExpression(
+  expression: ts.Expression,
+  locals: LocalTypes,
+  sourceFile: ts.SourceFile
+): PropSignature[] | null {
+  if (ts.isParenthesizedExpression(expression) || ts.isAsExpression(expression)) {
+    return fromExpression(expression.expression, locals, sourceFile);
+  }
+
+  if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+    return fromFunction(expression, locals, sourceFile);
+  }
+
+  if (ts.isCallExpression(expression)) {
+    const wrapper = simpleName(expression.expression);
+    if (!wrapper || !COMPONENT_WRAPPERS.has(wrapper)) return null;
+
+    // forwardRef<RefType, Props> and memo<Props>
+    const typeArgument = expression.typeArguments?.[wrapper === 'forwardRef' ? 1 : 0];
+    if (typeArgument) return resolveMembers(typeArgument, locals, sourceFile);
+
+    const inner = expression.arguments[0];
+    return inner ? fromExpression(inner, locals, sourceFile) : null;
+  }
+
+  return null;
+}
+
+/**
+ * Names exported by a module, by local name. A default export maps to the
+ * local it exports.
+ */
+function exportedLocals(sourceFile: ts.SourceFile): Set<string> {
+  const exported = new Set<string>();
+
+  for (const statement of sourceFile.statements) {
+    const isExported = ts.canHaveModifiers(statement) &&
+      ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword);
+
+    if (isExported && (ts.isFunctionDeclaration(statement) || ts.isClassDeclaration(statement)) && statement.name) {
+      exported.add(statement.name.text);
+    } else if (isExported && ts.isVariableStatement(statement)) {
+      statement.declarationList.declarations.forEach((d) => {
+        if (ts.isIdentifier(d.name)) exported.add(d.name.text);
+      });
+    } else if (ts.isExportAssignment(statement) && ts.isIdentifier(statement.expression)) {
+      exported.add(statement.expression.text);
+    } else if (ts.isExportDeclaration(statement) && !statement.moduleSpecifier && statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      statement.exportClause.elements.forEach((e) => exported.add((e.propertyName ?? e.name).text));
+    }
+  }
+
+  return exported;
+}
+
+/**
+ * Extract the props of every exported component in a module from its
+ * TypeScript types: interfaces, type aliases, inline annotations,
+ * `React.FC<P>`, `memo`, `forwardRef<T, P>` and class components. Plain
+ * JavaScript components fall back to their destructured prop names.
+ */
+export function extractComponentProps(code: string, filename = 'component.tsx'): ComponentPropsInfo[] {
+  const sourceFile = ts.createSourceFile(filename, code, ts.ScriptTarget.Latest, true, scriptKind(filename));
+  const locals: LocalTypes = new Map();
+  const exported = exportedLocals(sourceFile);
+  const components: ComponentPropsInfo[] = [];
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+      locals.set(statement.name.text, statement);
+    }
+  }
+
+  const add = (component: string, props: PropSignature[] | null) => {
+    if (props && exported.has(component)) components.push({ component, props });
+  };
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && isComponentName(statement.name.text)) {
+      add(statement.name.text, fromFunction(statement, locals, sourceFile));
+    } else if (ts.isClassDeclaration(statement) && statement.name && isComponentName(statement.name.text)) {
+      const base = statement.heritageClauses
+        ?.find((clause) => clause.token === ts.SyntaxKind.ExtendsKeyword)
+        ?.types[0];
+      const baseName = base ? simpleName(base.expression) : null;
+      if (base && baseName && CLASS_BASES.has(baseName)) {
+        const propsType = base.typeArguments?.[0];
+        add(statement.name.text, propsType ? resolveMembers(propsType, locals, sourceFile) : []);
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !isComponentName(declaration.name.text)) continue;
+
+        // const Button: React.FC<ButtonProps> = ...
+        const annotation = declaration.type;
+        if (annotation && ts.isTypeReferenceNode(annotation) && FC_TYPES.has(simpleName(annotation) ?? '')) {
+          const propsType = annotation.typeArguments?.[0];
+          add(declaration.name.text, propsType ? resolveMembers(propsType, locals, sourceFile) : []);
+        } else if (declaration.initializer) {
+          add(declaration.name.text, fromExpression(declaration.initializer, locals, sourceFile));
+        }
+      }
+    }
+  }
+
+  return components;
+}
+
+/**
+ * Compare component props between two versions of a module. Removed props,
+ * new required props, props made required and changed types are breaking.
+ */
+export function diffComponentProps(before: ComponentPropsInfo[], after: ComponentPropsInfo[]): ApiChange[] {
+  const changes: ApiChange[] = [];
+
+  for (const previous of before) {
+    const next = after.find((c) => c.component === previous.component);
+    // A component that disappeared shows up as a removed export
+    if (!next) continue;
+
+    const component = previous.component;
+    const nextProps = new Map(next.props.map((p) => [p.name, p]));
+    const previousProps = new Map(previous.props.map((p) => [p.name, p]));
+
+    for (const prop of previous.props) {
+      const updated = nextProps.get(prop.name);
+      if (!updated) {
+        changes.push({
+          kind: 'prop-removed',
+          component,
+          name: prop.name,
+          ...(prop.type && { before: prop.type }),
+          breaking: true,
+          message: `${component}: prop "${prop.name}" was removed`,
+        });
+        continue;
+      }
+
+      if (prop.optional && !updated.optional) {
+        changes.push({
+          kind: 'prop-made-required',
+          component,
+          name: prop.name,
+          breaking: true,
+          message: `${component}: prop "${prop.name}" is now required`,
+        });
+      } else if (!prop.optional && updated.optional) {
+        changes.push({
+          kind: 'prop-made-optional',
+          component,
+          name: prop.name,
+          breaking: false,
+          message: `${component}: prop "${prop.name}" is now optional`,
+        });
+      }
+
+      // Untyped props (plain JavaScript) have nothing to compare
+      if (prop.type && updated.type && prop.type !== updated.type) {
+        changes.push({
+          kind: 'prop-type-changed',
+          component,
+          name: prop.name,
+          before: prop.type,
+          after: updated.type,
+          breaking: true,
+          message: `${component}: prop "${prop.name}" changed type from ${prop.type} to ${updated.type}`,
+        });
+      }
+    }
+
+    for (const prop of next.props) {
+      if (previousProps.has(prop.name)) continue;
+      changes.push({
+        kind: 'prop-added',
+        component,
+        name: prop.name,
+        ...(prop.type && { after: prop.type }),
+        breaking: !prop.optional,
+        message: `${component}: ${prop.optional ? 'optional' : 'required'} prop "${prop.name}" was added`,
+      });
+    }
+  }
+
+  return changes;
+}
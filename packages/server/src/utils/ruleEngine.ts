@@ -0,0 +1,185 @@
+import traverse, { type Visitor } from '@babel/traverse';
+import type * as t from '@babel/types';
+import { builtInRules } from './lintRules.js';
+import { parseCode } from './parser.js';
+import type {
+  CodeIssue,
+  CodeSuggestion,
+  OptimizationCategory,
+} from '../types/index.js';
+
+export type RuleSeverity = CodeIssue['type'];
+
+/**
+ * A text edit proposed by a rule, in offsets of the linted source
+ */
+export interface RuleFix {
+  title: string;
+  description: string;
+  explanation: string;
+  start: number;
+  end: number;
+  text: string;
+  priority?: CodeSuggestion['priority'];
+  confidence?: number;
+}
+
+export interface RuleReport {
+  node: t.Node;
+  message: string;
+  fix?: RuleFix;
+}
+
+export interface RuleContext {
+  code: string;
+  filename?: string;
+  /** Source text of a node */
+  getSource(node: t.Node): string;
+  report(report: RuleReport): void;
+}
+
+/**
+ * A lint rule: a Babel visitor that reports findings through its context
+ */
+export interface LintRule {
+  id: string;
+  category: OptimizationCategory;
+  severity: RuleSeverity;
+  description: string;
+  create(context: RuleContext): Visitor;
+}
+
+export interface LintFinding {
+  ruleId: string;
+  category: OptimizationCategory;
+  severity: RuleSeverity;
+  message: string;
+  line: number;
+  column: number;
+  endLine: number;
+  endColumn: number;
+  fix?: RuleFix;
+}
+
+export interface LintOptions {
+  filename?: string;
+  /** Only keep findings starting within these 1-based lines */
+  lines?: { start: number; end: number };
+  /** Only run these rule ids */
+  rules?: string[];
+  /** Rule ids to skip */
+  disabled?: string[];
+}
+
+const rules = new Map<string, LintRule>(builtInRules.map((rule) => [rule.id, rule]));
+
+/**
+ * Register a rule, replacing any rule with the same id
+ */
+export function registerRule(rule: LintRule): void {
+  rules.set(rule.id, rule);
+}
+
+export function getRules(): LintRule[] {
+  return Array.from(rules.values());
+}
+
+/**
+ * Run the registered rules over a source file in a single traversal
+ */
+export function lintCode(code: string, options: LintOptions = {}): LintFinding[] {
+  const ast = parseCode(code, options.filename);
+  const findings: LintFinding[] = [];
+  const disabled = new Set(options.disabled ?? []);
+
+  const visitors = getRules()
+    .filter((rule) => !options.rules || options.rules.includes(rule.id))
+    .filter((rule) => !disabled.has(rule.id))
+    .map((rule) =>
+      rule.create({
+        code,
+        ...(options.filename && { filename: options.filename }),
+        getSource: (node) => code.slice(node.start ?? 0, node.end ?? 0),
+        report: ({ node, message, fix }) => {
+          if (!node.loc) return;
+          findings.push({
+            ruleId: rule.id,
+            category: rule.category,
+            severity: rule.severity,
+            message,
+            line: node.loc.start.line,
+            column: node.loc.start.column + 1,
+            endLine: node.loc.end.line,
+            endColumn: node.loc.end.column + 1,
+            ...(fix && { fix }),
+          });
+        },
+      })
+    );
+
+  if (visitors.length > 0) {
+    traverse(ast, traverse.visitors.merge(visitors));
+  }
+
+  const { lines } = options;
+  return findings
+    .filter((f) => !lines || (f.line >= lines.start && f.line <= lines.end))
+    .sort((a, b) => a.line - b.line || a.column - b.column);
+}
+
+export function findingToIssue(finding: LintFinding): CodeIssue {
+  return {
+    type: finding.severity,
+    message: finding.message,
+    line: finding.line,
+    column: finding.column,
+    endLine: finding.endLine,
+    endColumn: finding.endColumn,
+    category: finding.category,
+    ruleId: finding.ruleId,
+  };
+}
+
+/**
+ * Turn a finding's fix into a suggestion that replaces whole lines, so the
+ * patcher can anchor `originalCode` exactly in the file
+ */
+export function findingToSuggestion(code: string, finding: LintFinding): CodeSuggestion | null {
+  const { fix } = finding;
+  if (!fix) return null;
+
+  let start = code.lastIndexOf('\n', fix.start - 1) + 1;
+  let end = code.indexOf('\n', fix.end);
+  if (end === -1) end = code.length;
+
+  let modified = code.slice(start, fix.start) + fix.text + code.slice(fix.end, end);
+
+  // A fix that empties its lines (e.g. removing a statement) takes the
+  // neighbouring line along so the replacement is not blank
+  if (modified.trim() === '') {
+    if (end < code.length) {
+      const next = code.indexOf('\n', end + 1);
+      end = next === -1 ? code.length : next;
+      modified = code.slice(code.indexOf('\n', fix.end) + 1, end);
+    } else if (start > 0) {
+      start = code.lastIndexOf('\n', start - 2) + 1;
+      modified = code.slice(start, code.lastIndexOf('\n', fix.start - 1));
+    }
+  }
+
+  const lineOf = (offset: number) => code.slice(0, offset).split('\n').length;
+
+  return {
+    id: `lint-${finding.ruleId}-${finding.line}-${finding.column}`,
+    title: fix.title,
+    description: fix.description,
+    category: finding.category,
+    priority: fix.priority ?? 'medium',
+    originalCode: code.slice(start, end),
+    modifiedCode: modified,
+    explanation: fix.explanation,
+    lineStart: lineOf(start),
+    lineEnd: lineOf(end),
+    confidence: fix.confidence ?? 0.8,
+  };
+}
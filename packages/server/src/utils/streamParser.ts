@@ -0,0 +1,91 @@
+/**
+ * Incrementally extracts the elements of a JSON array from a streamed
+ * LLM completion, so each suggestion can be surfaced as soon as its
+ * closing brace arrives instead of after the whole response.
+ */
+export class JSONArrayStreamParser {
+  private buffer = '';
+  private position = 0;
+  private started = false;
+  private done = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private elementStart = -1;
+  private keyPattern: RegExp;
+
+  constructor(arrayKey: string) {
+    this.keyPattern = new RegExp(`"${arrayKey}"\\s*:\\s*\\[`);
+  }
+
+  /**
+   * Feed the next chunk of text and return any array elements completed by it
+   */
+  push(chunk: string): Record<string, unknown>[] {
+    this.buffer += chunk;
+    const completed: Record<string, unknown>[] = [];
+
+    if (this.done) {
+      return completed;
+    }
+
+    if (!this.started) {
+      const match = this.keyPattern.exec(this.buffer);
+      if (!match) {
+        return completed;
+      }
+      this.started = true;
+      this.position = match.index + match[0].length;
+    }
+
+    for (; this.position < this.buffer.length; this.position++) {
+      const char = this.buffer[this.position];
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === '\\') {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        this.inString = true;
+      } else if (char === '{' || char === '[') {
+        if (this.depth === 0) {
+          this.elementStart = this.position;
+        }
+        this.depth++;
+      } else if (char === '}' || char === ']') {
+        if (this.depth === 0) {
+          // Closing bracket of the array itself
+          this.done = true;
+          break;
+        }
+        this.depth--;
+        if (this.depth === 0 && this.elementStart !== -1) {
+          const element = this.parseElement(this.buffer.slice(this.elementStart, this.position + 1));
+          if (element) {
+            completed.push(element);
+          }
+          this.elementStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  }
+
+  private parseElement(text: string): Record<string, unknown> | null {
+    try {
+      const value = JSON.parse(text);
+      return value && typeof value === 'object' && !Array.isArray(value) ? value : null;
+    } catch {
+      // Malformed element - the final full parse will report it
+      return null;
+    }
+  }
+}
@@ -0,0 +1,281 @@
+import ts from 'typescript';
+import { existsSync, statSync } from 'fs';
+import { dirname, resolve } from 'path';
+import type { TypeDiagnostic } from '../types/index.js';
+
+const TYPE_CHECKED_EXTENSIONS = /\.(tsx?|mts|cts)$/;
+
+/**
+ * A language service bound to one tsconfig.json, with an in-memory overlay
+ * so candidate edits can be checked without touching the file on disk.
+ * A null overlay hides a file, as if it had been deleted.
+ */
+interface ProjectHost {
+  configPath: string;
+  parsed: ts.ParsedCommandLine;
+  overlays: Map<string, { content: string | null; version: number }>;
+  extraFiles: Set<string>;
+  service: ts.LanguageService;
+}
+
+const hosts = new Map<string, ProjectHost>();
+
+// Overlay versions must never repeat, or the language service reuses stale text
+let overlayVersion = 0;
+
+/**
+ * Check whether a file should be type-checked
+ */
+export function isTypeCheckable(filePath: string): boolean {
+  return TYPE_CHECKED_EXTENSIONS.test(filePath);
+}
+
+/**
+ * Parse a tsconfig.json, returning null if it can't be read
+ */
+function parseConfig(configPath: string): ts.ParsedCommandLine | null {
+  const read = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (read.error) {
+    return null;
+  }
+  return ts.parseJsonConfigFileContent(read.config, ts.sys, dirname(configPath));
+}
+
+/**
+ * Find the tsconfig that owns a file. Solution-style configs
+ * (`"files": []` plus `references`) are followed one level down.
+ */
+function findOwningConfig(filePath: string): string | null {
+  const configPath = ts.findConfigFile(dirname(filePath), ts.sys.fileExists);
+  if (!configPath) {
+    return null;
+  }
+
+  const parsed = parseConfig(configPath);
+  if (!parsed) {
+    return null;
+  }
+
+  if (parsed.fileNames.some((f) => resolve(f) === filePath)) {
+    return configPath;
+  }
+
+  for (const reference of parsed.projectReferences ?? []) {
+    const referencePath = ts.resolveProjectReferencePath(reference);
+    if (!existsSync(referencePath)) continue;
+
+    const referenced = parseConfig(referencePath);
+    if (referenced?.fileNames.some((f) => resolve(f) === filePath)) {
+      return referencePath;
+    }
+  }
+
+  return configPath;
+}
+
+/**
+ * Get or create the language service for a tsconfig
+ */
+function getProjectHost(configPath: string): ProjectHost | null {
+  const cached = hosts.get(configPath);
+  if (cached) {
+    return cached;
+  }
+
+  const parsed = parseConfig(configPath);
+  if (!parsed) {
+    return null;
+  }
+
+  const overlays = new Map<string, { content: string | null; version: number }>();
+  const extraFiles = new Set<string>();
+
+  const serviceHost: ts.LanguageServiceHost = {
+    getScriptFileNames: () =>
+      [...parsed.fileNames, ...extraFiles].filter((f) => overlays.get(resolve(f))?.content !== null),
+    getScriptVersion: (fileName) => {
+      const overlay = overlays.get(resolve(fileName));
+      if (overlay) {
+        return `overlay-${overlay.version}`;
+      }
+      try {
+        return String(statSync(fileName).mtimeMs);
+      } catch {
+        return '0';
+      }
+    },
+    getScriptSnapshot: (fileName) => {
+      const overlay = overlays.get(resolve(fileName));
+      if (overlay) {
+        return overlay.content === null ? undefined : ts.ScriptSnapshot.fromString(overlay.content);
+      }
+      const content = ts.sys.readFile(fileName);
+      return content === undefined ? undefined : ts.ScriptSnapshot.fromString(content);
+    },
+    getCurrentDirectory: () => dirname(configPath),
+    getCompilationSettings: () => ({ ...parsed.options, noEmit: true }),
+    getDefaultLibFileName: (options) => ts.getDefaultLibFilePath(options),
+    fileExists: (fileName) => {
+      const overlay = overlays.get(resolve(fileName));
+      return overlay ? overlay.content !== null : ts.sys.fileExists(fileName);
+    },
+    readFile: ts.sys.readFile,
+    readDirectory: ts.sys.readDirectory,
+    directoryExists: ts.sys.directoryExists,
+    getDirectories: ts.sys.getDirectories,
+    ...(parsed.projectReferences && {
+      getProjectReferences: () => parsed.projectReferences,
+    }),
+  };
+
+  const host: ProjectHost = {
+    configPath,
+    parsed,
+    overlays,
+    extraFiles,
+    service: ts.createLanguageService(serviceHost, ts.createDocumentRegistry()),
+  };
+
+  hosts.set(configPath, host);
+  return host;
+}
+
+/**
+ * Convert a TypeScript diagnostic to our 1-based line/column shape
+ */
+function toTypeDiagnostic(diagnostic: ts.Diagnostic): TypeDiagnostic {
+  let line = 0;
+  let column = 0;
+  if (diagnostic.file && diagnostic.start !== undefined) {
+    const position = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+    line = position.line + 1;
+    column = position.character + 1;
+  }
+
+  return {
+    message: ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'),
+    line,
+    column,
+    code: diagnostic.code,
+  };
+}
+
+/**
+ * Type-check a file with the given content overlaid on disk, using the
+ * nearest tsconfig.json. Returns null when the file isn't part of a
+ * TypeScript project.
+ */
+export function checkFileTypes(absolutePath: string, content: string): TypeDiagnostic[] | null {
+  return checkFilesTypes(new Map([[absolutePath, content]])).get(resolve(absolutePath)) ?? null;
+}
+
+/**
+ * Type-check several files together, each overlaid with its new content,
+ * so imports between them resolve (e.g. a component moved to a new file).
+ * A null content marks a deleted file, which is hidden rather than checked.
+ * Results are keyed by resolved path; null means the file isn't part of a
+ * TypeScript project.
+ */
+export function checkFilesTypes(
+  files: Map<string, string | null>
+): Map<string, TypeDiagnostic[] | null> {
+  const contents = new Map([...files].map(([path, content]) => [resolve(path), content]));
+  const results = new Map<string, TypeDiagnostic[] | null>();
+  const targets: Array<{ filePath: string; host: ProjectHost }> = [];
+
+  for (const [filePath, content] of contents) {
+    if (content === null || !isTypeCheckable(filePath)) continue;
+
+    const configPath = findOwningConfig(filePath);
+    const host = configPath ? getProjectHost(configPath) : null;
+    if (host) {
+      targets.push({ filePath, host });
+    } else {
+      results.set(filePath, null);
+    }
+  }
+
+  // Every involved project sees every overlay, since files can import across them
+  const involved = new Set(targets.map((t) => t.host));
+  const added: Array<{ host: ProjectHost; filePath: string }> = [];
+
+  for (const host of involved) {
+    for (const [filePath, content] of contents) {
+      host.overlays.set(filePath, { content, version: ++overlayVersion });
+    }
+  }
+  for (const { filePath, host } of targets) {
+    if (!host.parsed.fileNames.some((f) => resolve(f) === filePath) && !host.extraFiles.has(filePath)) {
+      host.extraFiles.add(filePath);
+      added.push({ host, filePath });
+    }
+  }
+
+  try {
+    for (const { filePath, host } of targets) {
+      try {
+        const diagnostics = [
+          ...host.service.getSyntacticDiagnostics(filePath),
+          ...host.service.getSemanticDiagnostics(filePath),
+        ];
+        results.set(
+          filePath,
+          diagnostics.filter((d) => d.category === ts.DiagnosticCategory.Error).map(toTypeDiagnostic)
+        );
+      } catch (error) {
+        console.warn(`Type check failed for ${filePath}:`, error);
+        results.set(filePath, null);
+      }
+    }
+    return results;
+  } finally {
+    // Drop the overlays so later checks see the files as they are on disk
+    for (const host of involved) {
+      contents.forEach((_, filePath) => host.overlays.delete(filePath));
+    }
+    // Files that only existed in memory must not linger in the program
+    for (const { host, filePath } of added) {
+      if (!ts.sys.fileExists(filePath)) {
+        host.extraFiles.delete(filePath);
+      }
+    }
+  }
+}
+
+/**
+ * Return the diagnostics in `after` that weren't already present in
+ * `before`. Matched by code and message since line numbers shift with edits.
+ */
+export function findNewTypeErrors(
+  before: TypeDiagnostic[],
+  after: TypeDiagnostic[]
+): TypeDiagnostic[] {
+  const remaining = new Map<string, number>();
+  for (const diagnostic of before) {
+    const key = `${diagnostic.code}:${diagnostic.message}`;
+    remaining.set(key, (remaining.get(key) ?? 0) + 1);
+  }
+
+  return after.filter((diagnostic) => {
+    const key = `${diagnostic.code}:${diagnostic.message}`;
+    const count = remaining.get(key) ?? 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Format diagnostics for an error message
+ */
+export function formatTypeErrors(diagnostics: TypeDiagnostic[], limit = 3): string {
+  const shown = diagnostics
+    .slice(0, limit)
+    .map((d) => `TS${d.code} (${d.line}:${d.column}): ${d.message}`);
+  if (diagnostics.length > limit) {
+    shown.push(`and ${diagnostics.length - limit} more`);
+  }
+  return shown.join('; ');
+}
@@ -1,15 +1,26 @@
-import { validateSyntax, containsJSX } from './parser.js';
-import type { ValidationResult, SyntaxError as SyntaxErrorType } from '../types/index.js';
+import { isAbsolute, join } from 'path';
+import { validateSyntax, containsJSX, analyzeReactComponent } from './parser.js';
+import { checkFileTypes } from './typeCheck.js';
+import { diffComponentProps, extractComponentProps } from './propTypes.js';
+import type {
+  ApiChange,
+  ValidationResult,
+  SyntaxError as SyntaxErrorType,
+  TypeDiagnostic,
+} from '../types/index.js';
 
 /**
- * Comprehensive code validation
+ * Comprehensive code validation. When a projectPath is given, TypeScript
+ * files are type-checked against the project's tsconfig.json with `code`
+ * overlaid in place of the file on disk.
  */
 export function validateCode(
   code: string,
-  filename?: string
+  filename?: string,
+  options: { projectPath?: string } = {}
 ): ValidationResult {
   const syntaxErrors: SyntaxErrorType[] = [];
-  const typeErrors: string[] = [];
+  const typeErrors: TypeDiagnostic[] = [];
   const lintErrors: string[] = [];
 
   // Syntax validation
@@ -27,10 +38,15 @@ export function validateCode(
   const lintResults = runBasicLintChecks(code);
   lintErrors.push(...lintResults);
 
-  // Type-related checks (basic, without full TypeScript compilation)
   if (filename?.endsWith('.ts') || filename?.endsWith('.tsx')) {
-    const typeResults = runBasicTypeChecks(code);
-    typeErrors.push(...typeResults);
+    // Type-safety heuristics are style warnings, reported with lint results
+    lintErrors.push(...runBasicTypeChecks(code));
+
+    // Full type check, only once the code parses
+    if (options.projectPath && syntaxErrors.length === 0) {
+      const absolutePath = isAbsolute(filename) ? filename : join(options.projectPath, filename);
+      typeErrors.push(...(checkFileTypes(absolutePath, code) ?? []));
+    }
   }
 
   return {
@@ -85,7 +101,7 @@ function runBasicLintChecks(code: string): string[] {
 }
 
 /**
- * Basic type checks (simple heuristics, not full type checking)
+ * Type-safety heuristics (any, non-null assertions, @ts-ignore)
  */
 function runBasicTypeChecks(code: string): string[] {
   const errors: string[] = [];
@@ -149,16 +165,7 @@ export function validateModification(
     );
   }
 
-  // Check that key patterns are preserved
-  const originalExports = extractExportNames(originalCode);
-  const modifiedExports = extractExportNames(modifiedCode);
-
-  const removedExports = originalExports.filter(
-    (e) => !modifiedExports.includes(e)
-  );
-  if (removedExports.length > 0) {
-    issues.push(`Modification removes exports: ${removedExports.join(', ')}`);
-  }
+  // Removed exports and prop changes are checked on the whole file by preservesPublicAPI
 
   // Check for removed error handling
   const originalTryCatch = (originalCode.match(/try\s*{/g) || []).length;
@@ -186,104 +193,61 @@ export function validateModification(
 }
 
 /**
- * Extract export names from code
+ * Export names of a module; a default export is reported as 'default'
  */
-function extractExportNames(code: string): string[] {
-  const exports: string[] = [];
-
-  // Named exports: export const/function/class Name
-  const namedExportRegex = /export\s+(?:const|let|var|function|class)\s+(\w+)/g;
-  let match;
-  while ((match = namedExportRegex.exec(code)) !== null) {
-    const name = match[1];
-    if (name) exports.push(name);
-  }
-
-  // Export statements: export { Name1, Name2 }
-  const exportListRegex = /export\s*{([^}]+)}/g;
-  while ((match = exportListRegex.exec(code)) !== null) {
-    const names = match[1];
-    if (names) {
-      names.split(',').forEach((name) => {
-        const trimmed = name.trim().split(/\s+as\s+/)[0]?.trim();
-        if (trimmed) exports.push(trimmed);
-      });
-    }
-  }
-
-  // Default export with name: export default function Name
-  const defaultExportRegex =
-    /export\s+default\s+(?:function|class)\s+(\w+)/g;
-  while ((match = defaultExportRegex.exec(code)) !== null) {
-    const name = match[1];
-    if (name) exports.push(name);
-  }
-
-  return exports;
+function extractExportNames(code: string, filename?: string): string[] {
+  return analyzeReactComponent(code, filename).exports.map((e) => (e.isDefault ? 'default' : e.name));
 }
 
 /**
- * Check if code change preserves the component's public API
+ * Check if a change preserves a module's public API: its exports and the
+ * props types of its exported components. Both versions must be whole files.
  */
 export function preservesPublicAPI(
   originalCode: string,
-  modifiedCode: string
-): { preserved: boolean; changes: string[] } {
-  const changes: string[] = [];
-
-  // Check exports
-  const originalExports = extractExportNames(originalCode);
-  const modifiedExports = extractExportNames(modifiedCode);
-
-  const removed = originalExports.filter((e) => !modifiedExports.includes(e));
-  const added = modifiedExports.filter((e) => !originalExports.includes(e));
-
-  if (removed.length > 0) {
-    changes.push(`Removed exports: ${removed.join(', ')}`);
-  }
-  if (added.length > 0) {
-    changes.push(`Added exports: ${added.join(', ')}`);
+  modifiedCode: string,
+  filename?: string
+): { preserved: boolean; changes: ApiChange[] } {
+  const changes: ApiChange[] = [];
+
+  let originalExports: string[];
+  let modifiedExports: string[];
+  try {
+    originalExports = extractExportNames(originalCode, filename);
+    modifiedExports = extractExportNames(modifiedCode, filename);
+  } catch {
+    // Unparseable code is reported by syntax validation
+    return { preserved: true, changes };
   }
 
-  // Check prop types (basic check)
-
-
-  const originalProps = extractPropsFromInterface(originalCode);
-  const modifiedProps = extractPropsFromInterface(modifiedCode);
-
-  const removedProps = originalProps.filter((p) => !modifiedProps.includes(p));
-  if (removedProps.length > 0) {
-    changes.push(`Removed props: ${removedProps.join(', ')}`);
-  }
+  originalExports
+    .filter((e) => !modifiedExports.includes(e))
+    .forEach((name) => changes.push({
+      kind: 'export-removed',
+      name,
+      breaking: true,
+      message: `Export "${name}" was removed`,
+    }));
+  modifiedExports
+    .filter((e) => !originalExports.includes(e))
+    .forEach((name) => changes.push({
+      kind: 'export-added',
+      name,
+      breaking: false,
+      message: `Export "${name}" was added`,
+    }));
+
+  changes.push(...diffComponentProps(
+    extractComponentProps(originalCode, filename),
+    extractComponentProps(modifiedCode, filename)
+  ));
 
   return {
-    preserved: removed.length === 0 && removedProps.length === 0,
+    preserved: !changes.some((c) => c.breaking),
     changes,
   };
 }
 
-/**
- * Extract prop names from Props interface
- */
-function extractPropsFromInterface(code: string): string[] {
-  const props: string[] = [];
-  const interfaceMatch = code.match(/interface\s+\w*Props\s*{([^}]+)}/);
-
-  if (interfaceMatch && interfaceMatch[1]) {
-    const propsContent = interfaceMatch[1];
-    const propLines = propsContent.split(/[;\n]/);
-
-    propLines.forEach((line) => {
-      const propMatch = line.match(/^\s*(\w+)\s*[?:]?\s*:/);
-      if (propMatch && propMatch[1]) {
-        props.push(propMatch[1]);
-      }
-    });
-  }
-
-  return props;
-}
-
 /**
  * Estimate the impact of a code change
  */
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { AnalysisCache, type AnalysisCacheKey } from '../src/services/analysisCache.js';
+import { getCodeAnalyzer } from '../src/services/codeAnalyzer.js';
+import { getLLMService } from '../src/services/llmService.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+import type { CodeAnalysis, CodeSuggestion } from '../src/types/index.js';
+
+const cacheDir = '.react-dev-insight-backups/analysis-cache';
+
+const config = (cache: Record<string, unknown> = {}) =>
+  JSON.stringify({
+    git: { autoCommit: false, requireCleanWorkingDir: false },
+    llm: { cache },
+  });
+
+const key: AnalysisCacheKey = {
+  model: 'gpt-4o',
+  code: 'export function Button() { return null; }',
+  goal: 'Make it faster',
+};
+
+const analysis = (): CodeAnalysis => ({
+  summary: 'Looks fine',
+  issues: [],
+  metrics: { linesOfCode: 1, complexity: 1, dependencies: [], exports: ['Button'] },
+});
+
+const suggestion = (id: string): CodeSuggestion => ({
+  id,
+  title: 'Memoize Button',
+  description: '',
+  category: 'performance',
+  priority: 'low',
+  originalCode: 'export function Button',
+  modifiedCode: 'export const Button = memo(function Button',
+  explanation: '',
+  lineStart: 1,
+  lineEnd: 1,
+  confidence: 0.5,
+});
+
+describe('AnalysisCache', () => {
+  let root: string;
+
+  afterEach(() => {
+    mock.restoreAll();
+    removeTempProject(root);
+  });
+
+  it('returns a stored answer for the same key only', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config() });
+    const cache = new AnalysisCache(root);
+    cache.set(key, { analysis: analysis(), suggestions: [suggestion('s1')] });
+
+    assert.equal(cache.get(key)?.suggestions[0]?.id, 's1');
+    assert.equal(cache.get({ ...key, goal: 'Make it accessible' }), null);
+    assert.equal(cache.get({ ...key, model: 'gpt-4o-mini' }), null);
+    assert.equal(cache.get({ ...key, code: `${key.code}\n` }), null);
+    assert.equal(cache.get({ ...key, category: 'accessibility' }), null);
+    assert.equal(cache.get({ ...key, prompts: { system: 'Be brief' } }), null);
+  });
+
+  it('drops an expired entry', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config({ ttlHours: 1 }) });
+    const cache = new AnalysisCache(root);
+    cache.set(key, { analysis: analysis(), suggestions: [] });
+
+    mock.method(Date, 'now', () => new Date().getTime() + 2 * 60 * 60 * 1000);
+
+    assert.equal(cache.get(key), null);
+    assert.deepEqual(readdirSync(join(root, cacheDir)), []);
+  });
+
+  it('ignores an unreadable entry', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config() });
+    const cache = new AnalysisCache(root);
+    cache.set(key, { analysis: analysis(), suggestions: [] });
+    const [entry] = readdirSync(join(root, cacheDir));
+    writeFileSync(join(root, cacheDir, entry!), '{"createdAt":');
+    mock.method(console, 'warn', () => {});
+
+    assert.equal(cache.get(key), null);
+  });
+
+  it('removes the oldest entries once the cache outgrows its limit', () => {
+    // Room for about two entries
+    root = createTempProject({ '.react-dev-insightrc.json': config({ maxSizeMB: 0.001 }) });
+    const cache = new AnalysisCache(root);
+    const older = { ...key, goal: 'older' };
+    cache.set(older, { analysis: analysis(), suggestions: [suggestion('s1')] });
+    const [olderEntry] = readdirSync(join(root, cacheDir));
+    const past = new Date(Date.now() - 60_000);
+    utimesSync(join(root, cacheDir, olderEntry!), past, past);
+
+    cache.set({ ...key, goal: 'newer' }, { analysis: analysis(), suggestions: [suggestion('s2')] });
+    cache.set(key, { analysis: analysis(), suggestions: [suggestion('s3')] });
+
+    assert.equal(cache.get(older), null);
+    assert.equal(cache.get(key)?.suggestions[0]?.id, 's3');
+  });
+});
+
+describe('CodeAnalyzer analysis caching', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = createTempProject({
+      '.react-dev-insightrc.json': config(),
+      'src/Button.tsx': 'export function Button() {\n  return <button>Save</button>;\n}\n',
+    });
+
+    const llm = getLLMService();
+    mock.method(llm, 'isAvailable', () => true);
+    mock.method(llm, 'getProviderInfo', () => ({ provider: 'openai', model: 'gpt-4o' }));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    removeTempProject(root);
+  });
+
+  const analyze = (noCache?: boolean) =>
+    getCodeAnalyzer(root).analyzeFile('src/Button.tsx', 'Make it faster', undefined, noCache ? { noCache } : {});
+
+  it('answers an unchanged component from the cache with fresh suggestion ids', async () => {
+    const answer = mock.method(getLLMService(), 'analyzeComponent', async () => ({
+      analysis: analysis(),
+      suggestions: [suggestion('s1')],
+    }));
+
+    const first = await analyze();
+    const second = await analyze();
+
+    assert.equal(answer.mock.callCount(), 1);
+    assert.equal(first.cachedAt, undefined);
+    assert.ok(second.cachedAt instanceof Date);
+    assert.equal(second.suggestions[0]?.title, 'Memoize Button');
+    assert.notEqual(second.suggestions[0]?.id, first.suggestions[0]?.id);
+    assert.notEqual(second.id, first.id);
+
+    await analyze(true);
+    assert.equal(answer.mock.callCount(), 2);
+  });
+
+  it('still answers when the cache cannot be written', async () => {
+    // A file where the cache directory should be
+    writeFileSync(join(root, '.react-dev-insight-backups'), '');
+    mock.method(getLLMService(), 'analyzeComponent', async () => ({
+      analysis: analysis(),
+      suggestions: [suggestion('s1')],
+    }));
+    const warn = mock.method(console, 'warn', () => {});
+
+    const result = await analyze();
+
+    assert.equal(result.suggestions[0]?.id, 's1');
+    assert.match(String(warn.mock.calls[0]?.arguments[0]), /Failed to cache analysis/);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { rankAuditResults, renderAuditHtml } from '../src/utils/auditReport.js';
+import type { AuditFileResult, AuditReport, CodeIssue } from '../src/types/index.js';
+
+function report(issues: CodeIssue[]): AuditReport {
+  const results: AuditFileResult[] = [{
+    filePath: 'src/Button.tsx',
+    componentName: 'Button',
+    status: 'done',
+    summary: 'Button <b>summary</b>',
+    issues,
+    suggestions: [],
+    tokensUsed: 100,
+    score: 10,
+    analyzedAt: new Date('2024-03-01T10:00:00Z'),
+  }];
+
+  return {
+    id: 'audit-1',
+    optimizationGoal: 'Find problems',
+    status: 'completed',
+    createdAt: new Date('2024-03-01T10:00:00Z'),
+    updatedAt: new Date('2024-03-01T10:05:00Z'),
+    concurrency: 1,
+    tokenBudget: 1000,
+    tokensUsed: 100,
+    filePaths: ['src/Button.tsx'],
+    results,
+    ranking: rankAuditResults(results),
+    recommendations: [],
+  };
+}
+
+describe('renderAuditHtml', () => {
+  it('escapes every issue field the LLM wrote', () => {
+    const html = renderAuditHtml(report([{
+      type: 'error" onmouseover="alert(1)',
+      message: '<img src=x>',
+      category: '<script>alert(1)</script>',
+      line: 4,
+    } as unknown as CodeIssue]));
+
+    assert.ok(!html.includes('onmouseover="'));
+    assert.ok(!html.includes('<script>'));
+    assert.ok(!html.includes('<img'));
+    assert.match(html, /<li class="error&quot; onmouseover=&quot;alert\(1\)">Line 4: &lt;img src=x&gt;/);
+    assert.match(html, /<p>Button &lt;b&gt;summary&lt;\/b&gt;<\/p>/);
+  });
+
+  it('renders issues whose fields are not strings', () => {
+    const html = renderAuditHtml(report([
+      { type: 'warning', message: 42, category: ['ux'] },
+      { type: 'info', message: null, category: 'ux' },
+    ] as unknown as CodeIssue[]));
+
+    assert.match(html, /<li class="warning">42 <small>\(ux\)<\/small><\/li>/);
+    assert.match(html, /<li class="info"> <small>\(ux\)<\/small><\/li>/);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { BackupService } from '../src/services/backupService.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+
+const config = JSON.stringify({ backup: { maxBackups: 3 } });
+
+describe('BackupService groups', () => {
+  let root: string;
+  let backup: BackupService;
+
+  const read = (path: string) => readFileSync(join(root, path), 'utf-8');
+
+  beforeEach(() => {
+    root = createTempProject({
+      '.react-dev-insightrc.json': config,
+      'src/A.tsx': 'a',
+      'src/B.tsx': 'b',
+      'src/C.tsx': 'c',
+      'src/D.tsx': 'd',
+    });
+    backup = new BackupService(root);
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  it('evicts the oldest group whole', async () => {
+    const older = await backup.createBackupGroup(['src/A.tsx', 'src/B.tsx'], 'older');
+    const newer = await backup.createBackupGroup(['src/C.tsx', 'src/D.tsx'], 'newer');
+
+    assert.deepEqual(backup.getBackupGroup(older!), []);
+    assert.equal(backup.getBackupGroup(newer!).length, 2);
+  });
+
+  it('keeps a new group that alone exceeds the limit', async () => {
+    await backup.createBackup('src/A.tsx', 'single');
+    const group = await backup.createBackupGroup(['src/A.tsx', 'src/B.tsx', 'src/C.tsx', 'src/D.tsx'], 'big');
+
+    assert.equal(backup.getBackupGroup(group!).length, 4);
+    assert.equal(backup.getAllBackups().length, 4);
+  });
+
+  it('restores a rename, and refuses once part of the group is gone', async () => {
+    const group = await backup.createBackupGroup(['src/A.tsx', 'src/Renamed.tsx'], 'rename');
+    renameSync(join(root, 'src/A.tsx'), join(root, 'src/Renamed.tsx'));
+
+    const [oldFile] = backup.getBackupGroup(group!).filter((e) => !e.absent);
+    backup.deleteBackup(oldFile!.id);
+
+    const result = await backup.restoreBackupGroup(group!);
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /incomplete: 1 of 2/);
+    // Nothing was restored, so the renamed file is still there
+    assert.equal(read('src/Renamed.tsx'), 'a');
+  });
+
+  it('restores a whole group', async () => {
+    const group = await backup.createBackupGroup(['src/A.tsx', 'src/New.tsx'], 'create');
+    writeFileSync(join(root, 'src/A.tsx'), 'changed');
+    writeFileSync(join(root, 'src/New.tsx'), 'new');
+
+    assert.deepEqual(await backup.restoreBackupGroup(group!), { success: true });
+    assert.equal(read('src/A.tsx'), 'a');
+    assert.equal(existsSync(join(root, 'src/New.tsx')), false);
+  });
+});
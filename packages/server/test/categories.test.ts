@@ -0,0 +1,95 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_CONFIG, validateConfig } from '../src/config/index.js';
+import { BUILT_IN_CATEGORIES, applyDefaultSeverity, isKnownCategory, listCategories } from '../src/utils/categories.js';
+import type { CodeIssue, CustomCategoryConfig } from '../src/types/index.js';
+
+const i18n: CustomCategoryConfig = {
+  id: 'i18n',
+  label: 'Internationalisation',
+  prompt: 'Look for hard-coded user-facing strings.',
+  icon: '🌐',
+  color: 'teal',
+  severity: 'error',
+};
+
+/**
+ * Validate the default config with the given optimization settings
+ */
+const validateOptimization = (optimization: Record<string, unknown>) =>
+  validateConfig({ ...DEFAULT_CONFIG, optimization: { ...DEFAULT_CONFIG.optimization, ...optimization } });
+
+describe('categories', () => {
+  it('lists the built-in categories first, then custom ones without their prompt', () => {
+    const categories = listCategories([i18n]);
+
+    assert.deepEqual(categories.slice(0, BUILT_IN_CATEGORIES.length), BUILT_IN_CATEGORIES);
+    assert.deepEqual(categories.at(-1), {
+      id: 'i18n',
+      label: 'Internationalisation',
+      icon: '🌐',
+      color: 'teal',
+      severity: 'error',
+      builtIn: false,
+    });
+  });
+
+  it('knows built-in and configured categories only', () => {
+    assert.equal(isKnownCategory('ux', []), true);
+    assert.equal(isKnownCategory('i18n', []), false);
+    assert.equal(isKnownCategory('i18n', [i18n]), true);
+  });
+
+  it('gives unclassified issues their category default severity', () => {
+    const issues = [
+      { type: 'warning', message: 'Kept', category: 'i18n' },
+      { type: undefined, message: 'Custom', category: 'i18n' },
+      { type: 'severe', message: 'Built-in', category: 'performance' },
+      { message: 'Unknown', category: 'security' },
+    ] as unknown as CodeIssue[];
+
+    assert.deepEqual(
+      applyDefaultSeverity(issues, [i18n]).map((issue) => [issue.message, issue.type]),
+      [
+        ['Kept', 'warning'],
+        ['Custom', 'error'],
+        ['Built-in', 'warning'],
+        ['Unknown', 'info'],
+      ]
+    );
+  });
+});
+
+describe('category config validation', () => {
+  it('accepts custom categories that allowedCategories refers to', () => {
+    assert.deepEqual(validateOptimization({ customCategories: [i18n], allowedCategories: ['performance', 'i18n'] }), {
+      valid: true,
+      errors: [],
+    });
+  });
+
+  it('rejects custom categories that reuse a built-in or earlier id', () => {
+    const result = validateOptimization({
+      customCategories: [
+        { ...i18n, id: 'performance' },
+        i18n,
+        { ...i18n, label: 'Translations' },
+      ],
+    });
+
+    assert.deepEqual(result.errors, [
+      'optimization.customCategories.0.id: Category "performance" is already defined',
+      'optimization.customCategories.2.id: Category "i18n" is already defined',
+    ]);
+  });
+
+  it('rejects allowedCategories entries that name no category', () => {
+    const result = validateOptimization({ allowedCategories: ['performance', 'i18n', 'Security'] });
+
+    assert.deepEqual(result.errors, [
+      'optimization.allowedCategories.2: must be a lowercase slug',
+      'optimization.allowedCategories.1: Unknown category "i18n"',
+      'optimization.allowedCategories.2: Unknown category "Security"',
+    ]);
+  });
+});
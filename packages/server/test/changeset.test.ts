@@ -0,0 +1,151 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { CodeModifierService } from '../src/services/codeModifier.js';
+import { HistoryStore } from '../src/services/historyStore.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+import type { Changeset, CodeSuggestion } from '../src/types/index.js';
+
+const config = JSON.stringify({
+  git: { autoCommit: false, requireCleanWorkingDir: false },
+  optimization: { autoFormat: false, autoRunTests: false },
+});
+
+const buttonSource = `export function Button({ label }: { label: string }) {
+  return <button>{label}</button>;
+}
+`;
+
+const iconSource = `export function ButtonIcon() {
+  return <svg />;
+}
+`;
+
+function changeset(changes: Changeset['changes']): Changeset {
+  return { id: 'extract-icon', title: 'Extract ButtonIcon', changes };
+}
+
+describe('changesets', () => {
+  let root: string;
+  let modifier: CodeModifierService;
+
+  const read = (path: string) => readFileSync(join(root, path), 'utf-8');
+
+  beforeEach(() => {
+    root = createTempProject({
+      '.react-dev-insightrc.json': config,
+      'src/Button.tsx': buttonSource,
+    });
+    modifier = new CodeModifierService(root);
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  it('creates and edits files together', async () => {
+    const result = await modifier.applyChangeset({
+      changeset: changeset([
+        { kind: 'create', filePath: 'src/ButtonIcon.tsx', modifiedCode: iconSource },
+        {
+          kind: 'edit',
+          filePath: 'src/Button.tsx',
+          originalCode: '  return <button>{label}</button>;',
+          modifiedCode: '  return <button>{label}<ButtonIcon /></button>;',
+        },
+        {
+          kind: 'edit',
+          filePath: 'src/Button.tsx',
+          originalCode: 'export function Button',
+          modifiedCode: "import { ButtonIcon } from './ButtonIcon';\n\nexport function Button",
+        },
+      ]),
+    });
+
+    assert.ok(result.success, result.error);
+    assert.equal(read('src/ButtonIcon.tsx'), iconSource);
+    assert.match(read('src/Button.tsx'), /^import \{ ButtonIcon \}[\s\S]*<ButtonIcon \/><\/button>/);
+    assert.deepEqual(result.files.map((f) => [f.kind, f.filePath]), [
+      ['create', 'src/ButtonIcon.tsx'],
+      ['edit', 'src/Button.tsx'],
+    ]);
+  });
+
+  it('refuses an edit without original code instead of replacing the file', async () => {
+    const result = await modifier.previewChangeset(
+      changeset([{ kind: 'edit', filePath: 'src/Button.tsx', originalCode: '', modifiedCode: 'export {};\n' }])
+    );
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /Edit has no originalCode/);
+  });
+
+  it('rewrites the whole file for a replace', async () => {
+    const replacement = 'export const Button = () => <button />;\n';
+    const result = await modifier.applyChangeset({
+      changeset: changeset([{ kind: 'replace', filePath: 'src/Button.tsx', modifiedCode: replacement }]),
+      allowBreakingChanges: true,
+    });
+
+    assert.ok(result.success, result.error);
+    assert.equal(read('src/Button.tsx'), replacement);
+  });
+
+  it('writes nothing when a later change does not apply', async () => {
+    const result = await modifier.applyChangeset({
+      changeset: changeset([
+        { kind: 'create', filePath: 'src/ButtonIcon.tsx', modifiedCode: iconSource },
+        { kind: 'edit', filePath: 'src/Button.tsx', originalCode: 'not in the file', modifiedCode: '' },
+      ]),
+    });
+
+    assert.equal(result.success, false);
+    assert.equal(result.files.at(-1)?.conflict?.reason, 'not-found');
+    assert.equal(existsSync(join(root, 'src/ButtonIcon.tsx')), false);
+    assert.equal(read('src/Button.tsx'), buttonSource);
+  });
+
+  it('refuses a multi-file suggestion whose main edit has no original code', async () => {
+    const suggestion: CodeSuggestion = {
+      id: 'icon',
+      title: 'Add an icon',
+      description: '',
+      category: 'ux',
+      priority: 'low',
+      originalCode: '',
+      modifiedCode: 'export {};\n',
+      explanation: '',
+      lineStart: 1,
+      lineEnd: 1,
+      confidence: 0.8,
+      files: [{ kind: 'create', filePath: 'src/ButtonIcon.tsx', modifiedCode: iconSource }],
+    };
+
+    const result = await modifier.applySuggestion('src/Button.tsx', suggestion);
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /Edit has no originalCode/);
+    assert.equal(read('src/Button.tsx'), buttonSource);
+    assert.equal(existsSync(join(root, 'src/ButtonIcon.tsx')), false);
+  });
+
+  it('records an applied changeset so it can be reverted', async () => {
+    const result = await modifier.applyChangeset({
+      changeset: changeset([
+        { kind: 'create', filePath: 'src/ButtonIcon.tsx', modifiedCode: iconSource },
+        { kind: 'rename', filePath: 'src/Button.tsx', newPath: 'src/PrimaryButton.tsx' },
+      ]),
+    });
+    assert.ok(result.success, result.error);
+
+    const entry = new HistoryStore(root).get('extract-icon');
+    assert.equal(entry?.status, 'applied');
+    assert.equal(entry?.backupGroupId, result.backupGroupId);
+    assert.deepEqual(entry?.files, ['src/ButtonIcon.tsx', 'src/Button.tsx', 'src/PrimaryButton.tsx']);
+
+    assert.deepEqual(await modifier.revertModification('extract-icon'), { success: true });
+    assert.equal(read('src/Button.tsx'), buttonSource);
+    assert.equal(existsSync(join(root, 'src/ButtonIcon.tsx')), false);
+    assert.equal(existsSync(join(root, 'src/PrimaryButton.tsx')), false);
+    assert.equal(new HistoryStore(root).get('extract-icon')?.status, 'reverted');
+  });
+});
@@ -0,0 +1,77 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { CodeModifierService } from '../src/services/codeModifier.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+import type { CodeSuggestion } from '../src/types/index.js';
+
+const config = JSON.stringify({
+  git: { autoCommit: false, requireCleanWorkingDir: false },
+  optimization: { autoFormat: false, autoRunTests: false },
+});
+
+const counterSource = `export function Counter({ step }: { step: number }) {
+  const increment = (count: number) => count + step;
+  return <button onClick={() => increment(1)}>+</button>;
+}
+`;
+
+function suggestion(overrides: Partial<CodeSuggestion> = {}): CodeSuggestion {
+  return {
+    id: 'suggestion-1',
+    title: 'Tidy increment',
+    description: 'Rename the parameter',
+    category: 'maintainability',
+    priority: 'low',
+    originalCode: 'const increment = (count: number) => count + step;',
+    modifiedCode: 'const increment = (value: number) => value + step;',
+    explanation: '',
+    lineStart: 2,
+    lineEnd: 2,
+    confidence: 0.9,
+    ...overrides,
+  };
+}
+
+describe('CodeModifierService', () => {
+  let root: string;
+  let modifier: CodeModifierService;
+
+  before(() => {
+    root = createTempProject({
+      '.react-dev-insightrc.json': config,
+      'src/Counter.tsx': counterSource,
+    });
+    modifier = new CodeModifierService(root);
+  });
+
+  after(() => removeTempProject(root));
+
+  describe('applySuggestion', () => {
+    for (const originalCode of ['', '  \n']) {
+      it(`refuses a suggestion with empty original code (${JSON.stringify(originalCode)})`, async () => {
+        const result = await modifier.applySuggestion('src/Counter.tsx', suggestion({ originalCode }));
+
+        assert.equal(result.success, false);
+        assert.match(result.error ?? '', /no original code/);
+        assert.equal(readFileSync(join(root, 'src/Counter.tsx'), 'utf-8'), counterSource);
+      });
+    }
+  });
+
+  describe('applyModification', () => {
+    it('reports a conflict instead of searching for empty original code', async () => {
+      const result = await modifier.applyModification({
+        suggestionId: 'empty',
+        filePath: 'src/Counter.tsx',
+        originalCode: '',
+        modifiedCode: 'export const replaced = true;',
+      });
+
+      assert.equal(result.success, false);
+      assert.equal(result.conflict?.reason, 'not-found');
+      assert.equal(readFileSync(join(root, 'src/Counter.tsx'), 'utf-8'), counterSource);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: IncomingMessage['headers'];
+  body: Record<string, unknown>;
+}
+
+export type StandInHandler = (request: RecordedRequest, res: ServerResponse) => void;
+
+/**
+ * Local HTTP server standing in for an LLM vendor's API. Every request is
+ * recorded so tests can assert on what the provider sent.
+ */
+export class HttpStandIn {
+  readonly requests: RecordedRequest[] = [];
+  private server: Server;
+  private handler: StandInHandler = (_request, res) => sendJson(res, 500, {});
+
+  constructor() {
+    this.server = createServer((req, res) => {
+      let raw = '';
+      req.on('data', (chunk) => (raw += chunk));
+      req.on('end', () => {
+        const request: RecordedRequest = {
+          method: req.method ?? 'GET',
+          path: req.url ?? '/',
+          headers: req.headers,
+          body: raw ? (JSON.parse(raw) as Record<string, unknown>) : {},
+        };
+        this.requests.push(request);
+        this.handler(request, res);
+      });
+    });
+  }
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  respond(handler: StandInHandler): void {
+    this.handler = handler;
+    this.requests.length = 0;
+  }
+}
+
+/**
+ * Answer with JSON. Retries are switched off so error tests don't wait on
+ * the SDKs' backoff.
+ */
+export function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { 'content-type': 'application/json', 'x-should-retry': 'false' });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Answer with a server-sent event stream
+ */
+export function sendEvents(res: ServerResponse, events: Array<{ event?: string; data: unknown }>): void {
+  res.writeHead(200, { 'content-type': 'text/event-stream', 'cache-control': 'no-cache' });
+  for (const { event, data } of events) {
+    if (event) res.write(`event: ${event}\n`);
+    res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`);
+  }
+  res.end();
+}
@@ -0,0 +1,25 @@
+import { mkdirSync, mkdtempSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+
+/**
+ * Create a scratch project directory with the given files. Paths are
+ * relative to the project root; the root is returned resolved.
+ */
+export function createTempProject(files: Record<string, string> = {}): string {
+  const root = realpathSync(mkdtempSync(join(tmpdir(), 'rdi-test-')));
+  writeProjectFiles(root, files);
+  return root;
+}
+
+export function writeProjectFiles(root: string, files: Record<string, string>): void {
+  for (const [path, content] of Object.entries(files)) {
+    const filePath = join(root, path);
+    mkdirSync(dirname(filePath), { recursive: true });
+    writeFileSync(filePath, content);
+  }
+}
+
+export function removeTempProject(root: string): void {
+  rmSync(root, { recursive: true, force: true });
+}
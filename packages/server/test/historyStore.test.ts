@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { HISTORY_SCHEMA_VERSION, HistoryStore } from '../src/services/historyStore.js';
+import { getBackupService } from '../src/services/backupService.js';
+import { CodeModifierService } from '../src/services/codeModifier.js';
+import { createTempProject, removeTempProject, writeProjectFiles } from './helpers/tempProject.js';
+import type { CodeSuggestion, ModificationHistory } from '../src/types/index.js';
+
+const historyFile = '.react-dev-insight-backups/history.json';
+
+const config = JSON.stringify({
+  git: { autoCommit: false, requireCleanWorkingDir: false },
+  optimization: { autoFormat: false, autoRunTests: false },
+});
+
+const suggestion: CodeSuggestion = {
+  id: 'label',
+  title: 'Rename label',
+  description: '',
+  category: 'maintainability',
+  priority: 'low',
+  originalCode: 'export const label = "one";',
+  modifiedCode: 'export const label = "two";',
+  explanation: '',
+  lineStart: 1,
+  lineEnd: 1,
+  confidence: 1,
+};
+
+function entry(overrides: Partial<ModificationHistory> = {}): ModificationHistory {
+  const base: ModificationHistory = {
+    id: 'mod-1',
+    timestamp: new Date('2024-03-01T10:00:00Z'),
+    filePath: 'src/Button.tsx',
+    componentName: 'Button',
+    optimizationGoal: 'Faster renders',
+    category: 'performance',
+    status: 'applied',
+    suggestion,
+  };
+  return Object.assign(base, overrides);
+}
+
+describe('HistoryStore', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = createTempProject({ '.react-dev-insightrc.json': config });
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  it('migrates a bare array of entries to the current schema', () => {
+    writeProjectFiles(root, {
+      [historyFile]: JSON.stringify([{ ...entry(), timestamp: '2024-03-01T10:00:00.000Z' }]),
+    });
+
+    const store = new HistoryStore(root);
+    const loaded = store.get('mod-1');
+
+    assert.ok(loaded?.timestamp instanceof Date);
+    assert.equal(loaded?.componentName, 'Button');
+
+    const saved = JSON.parse(readFileSync(join(root, historyFile), 'utf-8'));
+    assert.equal(saved.schemaVersion, HISTORY_SCHEMA_VERSION);
+    assert.equal(saved.entries.length, 1);
+  });
+
+  it('refuses a history written by a newer server', () => {
+    writeProjectFiles(root, {
+      [historyFile]: JSON.stringify({ schemaVersion: HISTORY_SCHEMA_VERSION + 1, entries: [] }),
+    });
+
+    assert.throws(() => new HistoryStore(root).assertWritable(), /schema v2/);
+  });
+
+  it('moves an unreadable history aside instead of saving over it', () => {
+    writeProjectFiles(root, { [historyFile]: '{"schemaVersion": 1, "entries": [' });
+    const warn = mock.method(console, 'warn', () => {});
+
+    const store = new HistoryStore(root);
+    store.record(entry());
+    warn.mock.restore();
+
+    assert.equal(warn.mock.callCount(), 1);
+    const backupDir = join(root, '.react-dev-insight-backups');
+    const [corrupt] = readdirSync(backupDir).filter((name) => name.startsWith('history.json.corrupt-'));
+    assert.equal(readFileSync(join(backupDir, corrupt!), 'utf-8'), '{"schemaVersion": 1, "entries": [');
+    assert.deepEqual(store.query().map((e) => e.id), ['mod-1']);
+  });
+
+  it('replaces entries with the same id and queries newest first', () => {
+    const store = new HistoryStore(root);
+    store.record(entry());
+    store.record(entry({ id: 'mod-2', timestamp: new Date('2024-03-02T10:00:00Z'), category: 'ux' }));
+    store.record(entry({ status: 'reverted' }));
+
+    assert.deepEqual(store.query().map((e) => e.id), ['mod-2', 'mod-1']);
+    assert.equal(store.get('mod-1')?.status, 'reverted');
+    assert.deepEqual(store.query({ category: 'ux' }).map((e) => e.id), ['mod-2']);
+    assert.deepEqual(store.query({ to: new Date('2024-03-01T12:00:00Z') }).map((e) => e.id), ['mod-1']);
+
+    // Any file of a changeset finds it
+    store.record(entry({ id: 'mod-3', files: ['src/Button.tsx', './src/ButtonIcon.tsx'] }));
+    assert.deepEqual(store.query({ filePath: 'src/ButtonIcon.tsx' }).map((e) => e.id), ['mod-3']);
+    assert.deepEqual(store.query({ filePath: 'src/Button.tsx' }).map((e) => e.id).sort(), ['mod-1', 'mod-2', 'mod-3']);
+
+    // Persisted across instances
+    assert.equal(new HistoryStore(root).query().length, 3);
+  });
+});
+
+describe('modification history and revert', () => {
+  let root: string;
+  const source = 'export const label = "one";\n';
+
+  beforeEach(() => {
+    root = createTempProject({ '.react-dev-insightrc.json': config, 'src/label.ts': source });
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  it('does not write a change when the history cannot be recorded', async () => {
+    writeProjectFiles(root, {
+      [historyFile]: JSON.stringify({ schemaVersion: HISTORY_SCHEMA_VERSION + 1, entries: [] }),
+    });
+
+    const result = await new CodeModifierService(root).applySuggestion('src/label.ts', suggestion);
+
+    assert.equal(result.success, false);
+    assert.match(result.error ?? '', /schema v2/);
+    assert.equal(readFileSync(join(root, 'src/label.ts'), 'utf-8'), source);
+  });
+
+  it("does not restore another modification's backup when its own is gone", async () => {
+    // A later modification's backup of the same file
+    await getBackupService(root).createBackup('src/label.ts', 'Another modification');
+    writeProjectFiles(root, { 'src/label.ts': 'export const label = "three";\n' });
+
+    new HistoryStore(root).record(
+      entry({ filePath: 'src/label.ts', backupPath: join(root, '.react-dev-insight-backups/missing') })
+    );
+
+    const result = await new CodeModifierService(root).revertModification('mod-1');
+
+    assert.equal(result.success, false);
+    assert.equal(readFileSync(join(root, 'src/label.ts'), 'utf-8'), 'export const label = "three";\n');
+    assert.equal(new HistoryStore(root).get('mod-1')?.status, 'applied');
+  });
+
+  it("restores the modification's own backup", async () => {
+    const modifier = new CodeModifierService(root);
+    const applied = await modifier.applyModification({
+      suggestionId: 'label',
+      filePath: 'src/label.ts',
+      originalCode: 'export const label = "one";',
+      modifiedCode: 'export const label = "two";',
+    });
+    assert.ok(applied.success, applied.error);
+
+    new HistoryStore(root).record(
+      entry({ filePath: 'src/label.ts', ...(applied.backupPath && { backupPath: applied.backupPath }) })
+    );
+
+    assert.deepEqual(await modifier.revertModification('mod-1'), { success: true });
+    assert.equal(readFileSync(join(root, 'src/label.ts'), 'utf-8'), source);
+    assert.equal(new HistoryStore(root).get('mod-1')?.status, 'reverted');
+  });
+});
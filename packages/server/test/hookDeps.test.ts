@@ -0,0 +1,136 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { lintCode } from '../src/utils/ruleEngine.js';
+
+/**
+ * Lint the body of a component with only the exhaustive-deps rule
+ */
+function lint(body: string) {
+  const code = `import { useCallback, useEffect, useMemo, useReducer, useRef, useState } from 'react';
+
+export function Profile(props) {
+${body}
+  return null;
+}
+`;
+  return lintCode(code, { filename: 'Profile.jsx', rules: ['exhaustive-deps'] });
+}
+
+const messages = (body: string) => lint(body).map((f) => f.message);
+
+describe('exhaustive-deps', () => {
+  it('reports missing dependencies and rewrites the array', () => {
+    const [finding, ...rest] = lint(`  const [count, setCount] = useState(0);
+  const step = props.step;
+  useEffect(() => {
+    document.title = String(count + step);
+  }, [count]);`);
+
+    assert.equal(rest.length, 0);
+    assert.equal(finding?.message, 'useEffect dependency array - missing: step');
+    assert.equal(finding?.line, 8);
+    assert.equal(finding?.fix?.text, '[count, step]');
+    assert.equal(finding?.fix?.priority, 'high');
+  });
+
+  it('reports the shortest member chain, covered by its object', () => {
+    assert.deepEqual(messages(`  useEffect(() => {
+    console.info(props.user.name, props.user.email);
+  }, []);`), ['useEffect dependency array - missing: props.user.email, props.user.name']);
+
+    assert.deepEqual(messages(`  useEffect(() => {
+    console.info(props.user.name);
+  }, [props.user]);`), []);
+
+    // Once the object itself is read, its chains are not listed separately
+    const [finding] = lint(`  useEffect(() => {
+    console.info(props.user, props.user.name);
+  }, []);`);
+    assert.equal(finding?.fix?.text, '[props.user]');
+  });
+
+  it('depends on the object of a method call, not the method', () => {
+    assert.deepEqual(messages(`  useEffect(() => {
+    props.items.forEach(console.info);
+  }, []);`), ['useEffect dependency array - missing: props.items']);
+  });
+
+  it('treats ref.current as a read of the ref, which is stable', () => {
+    assert.deepEqual(messages(`  const input = useRef(null);
+  useEffect(() => {
+    input.current.focus();
+  }, []);`), []);
+
+    // A ref passed in through props is not known to be stable
+    assert.deepEqual(messages(`  useEffect(() => {
+    props.inputRef.current.focus();
+  }, []);`), ['useEffect dependency array - missing: props.inputRef']);
+  });
+
+  it('does not require state setters, reducer dispatchers or refs', () => {
+    assert.deepEqual(messages(`  const [, setOpen] = useState(false);
+  const [, dispatch] = useReducer((state, action) => action, null);
+  const timer = useRef();
+  const close = useCallback(() => {
+    clearTimeout(timer.current);
+    setOpen(false);
+    dispatch('closed');
+  }, []);`), []);
+  });
+
+  it('flags unnecessary dependencies of useMemo and useCallback, but not of effects', () => {
+    const [finding] = lint(`  const [count] = useState(0);
+  const label = props.label;
+  const doubled = useMemo(() => count * 2, [count, label]);`);
+    assert.equal(finding?.message, 'useMemo dependency array - unnecessary: label');
+    assert.equal(finding?.fix?.text, '[count]');
+    assert.equal(finding?.fix?.priority, 'low');
+
+    // Effects may list extra values on purpose, to re-run when they change
+    assert.deepEqual(messages(`  const label = props.label;
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [label]);`), []);
+  });
+
+  it('flags dependencies declared outside the component', () => {
+    const code = `const LIMIT = 10;
+
+export function List({ items }) {
+  const visible = useMemo(() => items.slice(0, LIMIT), [items, LIMIT]);
+  return visible;
+}
+`;
+    const [finding] = lintCode(code, { filename: 'List.jsx', rules: ['exhaustive-deps'] });
+
+    assert.equal(finding?.message, 'useMemo dependency array - unnecessary: LIMIT');
+    assert.equal(finding?.fix?.text, '[items]');
+  });
+
+  it('reports objects and functions recreated on every render', () => {
+    const findings = lint(`  const options = { id: props.id };
+  const load = () => fetch(props.url);
+  useEffect(() => {
+    load(options);
+  }, [options, load]);`);
+
+    assert.deepEqual(
+      findings.map((f) => [f.line, f.message.split(',')[0]]),
+      [
+        [8, "The 'options' object is recreated on every render"],
+        [8, "The 'load' function is recreated on every render"],
+      ]
+    );
+    assert.match(findings[0]?.message ?? '', /wrap it in useMemo/);
+    assert.match(findings[1]?.message ?? '', /wrap it in useCallback/);
+  });
+
+  it('keeps the declared entries and appends the missing ones', () => {
+    const [finding] = lint(`  const [items] = useState([]);
+  useEffect(() => {
+    console.info(items, props.page);
+  }, [items.length]);`);
+
+    assert.equal(finding?.fix?.text, '[items.length, items, props.page]');
+  });
+});
@@ -0,0 +1,86 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ImportGraphService } from '../src/services/importGraph.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+
+const buttonSource = `interface ButtonProps {
+  label: string;
+  size?: number;
+}
+
+export function Button({ label, size }: ButtonProps) {
+  return <button style={{ fontSize: size }}>{label}</button>;
+}
+
+export const BUTTON_SIZES = [12, 14];
+`;
+
+const appSource = `import { Button } from './components';
+
+export function App() {
+  return <Button label="Save" />;
+}
+`;
+
+describe('ImportGraphService', () => {
+  let root: string;
+  let graph: ImportGraphService;
+
+  before(() => {
+    root = createTempProject({
+      'src/components/Button.tsx': buttonSource,
+      'src/components/index.ts': "export * from './Button';\n",
+      'src/App.tsx': appSource,
+    });
+    graph = new ImportGraphService(root);
+  });
+
+  after(() => removeTempProject(root));
+
+  it('finds dependents through barrel files, with their call sites', () => {
+    const dependents = graph.getDependents('src/components/Button.tsx', ['Button']);
+
+    assert.equal(dependents.length, 1);
+    assert.equal(dependents[0]?.filePath, 'src/App.tsx');
+    assert.deepEqual(dependents[0]?.via, ['src/components/index.ts']);
+    assert.deepEqual(dependents[0]?.callSites.map((c) => [c.line, c.kind]), [[1, 'import'], [4, 'jsx']]);
+  });
+
+  describe('getImpact', () => {
+    const impactOf = (after: string) => graph.getImpact('src/components/Button.tsx', buttonSource, after);
+
+    it('treats a changed prop type as affecting the component', () => {
+      const impact = impactOf(buttonSource.replace('label: string;', 'label: string[];'));
+
+      assert.deepEqual(impact.propChanges.map((c) => [c.kind, c.name, c.breaking]), [
+        ['prop-type-changed', 'label', true],
+      ]);
+      assert.deepEqual(impact.affectedExports, ['Button']);
+      assert.deepEqual(impact.dependents.map((d) => d.filePath), ['src/App.tsx']);
+    });
+
+    it('treats a prop made required as affecting the component', () => {
+      const impact = impactOf(buttonSource.replace('size?: number;', 'size: number;'));
+
+      assert.deepEqual(impact.affectedExports, ['Button']);
+      assert.equal(impact.dependents.length, 1);
+    });
+
+    it('does not report dependents for an added optional prop', () => {
+      const impact = impactOf(buttonSource.replace('size?: number;', 'size?: number;\n  icon?: string;'));
+
+      assert.deepEqual(impact.propChanges.map((c) => [c.kind, c.name, c.breaking]), [['prop-added', 'icon', false]]);
+      assert.deepEqual(impact.affectedExports, []);
+      assert.deepEqual(impact.dependents, []);
+    });
+
+    it('reports removed exports', () => {
+      const impact = impactOf(buttonSource.replace('export const BUTTON_SIZES', 'const BUTTON_SIZES'));
+
+      assert.deepEqual(impact.removedExports, ['BUTTON_SIZES']);
+      assert.deepEqual(impact.affectedExports, ['BUTTON_SIZES']);
+      // App only uses Button
+      assert.deepEqual(impact.dependents, []);
+    });
+  });
+});
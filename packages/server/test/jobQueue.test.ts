@@ -0,0 +1,160 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { JobQueue, type JobContext } from '../src/services/jobQueue.js';
+import type { Job, JobStatus } from '../src/types/index.js';
+
+const projectPath = '/projects/app';
+
+/**
+ * A handler whose jobs run until the test finishes them
+ */
+class ControlledHandler {
+  started: Array<{ job: Job; context: JobContext; finish: (result: string) => void }> = [];
+
+  handle = (job: Job, context: JobContext): Promise<string> =>
+    new Promise((resolve) => {
+      this.started.push({ job, context, finish: resolve });
+    });
+}
+
+/**
+ * Resolve once the job reaches `status`
+ */
+function waitFor(queue: JobQueue, job: Job, status: JobStatus): Promise<Job> {
+  return new Promise((resolve) => {
+    if (job.status === status) return resolve(job);
+    const unsubscribe = queue.onUpdate((updated) => {
+      if (updated.id === job.id && updated.status === status) {
+        unsubscribe();
+        resolve(updated);
+      }
+    });
+  });
+}
+
+describe('JobQueue', () => {
+  let queue: JobQueue;
+  let reads: ControlledHandler;
+  let writes: ControlledHandler;
+
+  beforeEach(() => {
+    queue = new JobQueue();
+    reads = new ControlledHandler();
+    writes = new ControlledHandler();
+    queue.register('analysis-batch', reads.handle);
+    queue.register('modification-batch', writes.handle);
+  });
+
+  const submitWrite = (path = projectPath) =>
+    queue.submit('modification-batch', {}, { projectPath: path, writes: true });
+
+  it('cancels a queued job at once', async () => {
+    const first = submitWrite();
+    const second = submitWrite();
+    await waitFor(queue, first, 'running');
+
+    assert.equal(queue.cancel(second.id).success, true);
+    assert.equal(second.status, 'cancelled');
+  });
+
+  it('signals a running job and ends it as cancelled', async () => {
+    const job = queue.submit('analysis-batch', {}, { projectPath });
+    await waitFor(queue, job, 'running');
+
+    assert.equal(queue.cancel(job.id).success, true);
+    assert.equal(reads.started[0]?.context.signal.aborted, true);
+
+    reads.started[0]?.finish('partial');
+    const finished = await waitFor(queue, job, 'cancelled');
+    assert.equal(finished.result, 'partial');
+  });
+
+  it('refuses to cancel a running write job', async () => {
+    const job = submitWrite();
+    await waitFor(queue, job, 'running');
+
+    const cancelled = queue.cancel(job.id);
+    assert.equal(cancelled.success, false);
+    assert.match(cancelled.error ?? '', /can no longer be cancelled/);
+    assert.equal(writes.started[0]?.context.signal.aborted, false);
+
+    writes.started[0]?.finish('written');
+    const finished = await waitFor(queue, job, 'succeeded');
+    assert.equal(finished.result, 'written');
+  });
+
+  it('runs write jobs one at a time per project', async () => {
+    const first = submitWrite();
+    const second = submitWrite();
+    const elsewhere = submitWrite('/projects/other');
+    await waitFor(queue, elsewhere, 'running');
+
+    assert.equal(first.status, 'running');
+    assert.equal(second.status, 'queued');
+
+    writes.started[0]?.finish('done');
+    await waitFor(queue, second, 'running');
+  });
+
+  it('makes synchronous writes and write jobs take turns', async () => {
+    const order: string[] = [];
+    const job = submitWrite();
+    await waitFor(queue, job, 'running');
+
+    const locked = queue.withWriteLock(projectPath, async () => {
+      order.push('sync write');
+      return 'synced';
+    });
+    // Analysis isn't held up
+    const read = queue.submit('analysis-batch', {}, { projectPath });
+    await waitFor(queue, read, 'running');
+    assert.equal(order.length, 0);
+
+    order.push('job finished');
+    writes.started[0]?.finish('done');
+    assert.equal(await locked, 'synced');
+    assert.deepEqual(order, ['job finished', 'sync write']);
+
+    // A write job submitted while a synchronous write holds the project waits for it
+    let release!: () => void;
+    const held = queue.withWriteLock(projectPath, () => new Promise<void>((resolve) => (release = resolve)));
+    await new Promise((resolve) => setImmediate(resolve));
+    const next = submitWrite();
+    assert.equal(next.status, 'queued');
+
+    release();
+    await held;
+    await waitFor(queue, next, 'running');
+  });
+
+  it('releases the lock when a synchronous write throws', async () => {
+    await assert.rejects(
+      queue.withWriteLock(projectPath, async () => {
+        throw new Error('disk full');
+      }),
+      /disk full/
+    );
+
+    const job = submitWrite();
+    await waitFor(queue, job, 'running');
+  });
+
+  it('retries a failed job under the same id', async () => {
+    let calls = 0;
+    queue.register('analysis-batch', async () => {
+      calls++;
+      if (calls === 1) throw new Error('rate limited');
+      return 'ok';
+    });
+
+    const job = queue.submit('analysis-batch', {}, { projectPath });
+    const failed = await waitFor(queue, job, 'failed');
+    assert.equal(failed.error, 'rate limited');
+
+    assert.equal(queue.retry(job.id).success, true);
+    const succeeded = await waitFor(queue, job, 'succeeded');
+    assert.equal(succeeded.attempts, 2);
+    assert.equal(succeeded.result, 'ok');
+    assert.equal(succeeded.error, undefined);
+  });
+});
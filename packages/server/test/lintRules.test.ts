@@ -0,0 +1,115 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { findingToSuggestion, lintCode } from '../src/utils/ruleEngine.js';
+
+const lint = (code: string, rules: string[]) => lintCode(code, { filename: 'List.tsx', rules });
+
+describe('lint rules', () => {
+  it('ignores code in comments and strings', () => {
+    const code = `// console.log('debug');
+/*
+  <img src="a.png" />
+  items.map((item) => <li>{item}</li>)
+*/
+export function List() {
+  const hint = "call console.log('x') and render <img src='b.png'>";
+  return <p title={hint} />;
+}
+`;
+
+    assert.deepEqual(lint(code, ['no-console', 'img-alt', 'jsx-key']), []);
+  });
+
+  it('reads JSX elements that span several lines', () => {
+    const code = `export function List({ items }: { items: Array<{ id: string; src: string }> }) {
+  return (
+    <ul>
+      {items.map((item) => (
+        <li
+          className="item"
+        >
+          <img
+            src={item.src}
+            alt=""
+          />
+        </li>
+      ))}
+    </ul>
+  );
+}
+`;
+
+    const findings = lint(code, ['img-alt', 'jsx-key']);
+
+    // The alt on its own line counts; the key is still missing
+    assert.deepEqual(findings.map((f) => [f.ruleId, f.line, f.column, f.endLine]), [['jsx-key', 5, 9, 7]]);
+  });
+
+  it('turns a fix into a whole-line suggestion the patcher can anchor', () => {
+    const code = `export function List({ items }: { items: Array<{ id: string }> }) {
+  return <ul>{items.map((item) => <li>{item.id}</li>)}</ul>;
+}
+`;
+    const [finding] = lint(code, ['jsx-key']);
+    const suggestion = findingToSuggestion(code, finding!);
+
+    assert.equal(suggestion?.originalCode, '  return <ul>{items.map((item) => <li>{item.id}</li>)}</ul>;');
+    assert.equal(suggestion?.modifiedCode, '  return <ul>{items.map((item) => <li key={item.id}>{item.id}</li>)}</ul>;');
+    assert.deepEqual([suggestion?.lineStart, suggestion?.lineEnd], [2, 2]);
+  });
+
+  it('removes a console statement together with a neighbouring line', () => {
+    const code = `export function save(data: string) {
+  console.log(data);
+  return data;
+}
+`;
+    const [finding] = lint(code, ['no-console']);
+    const suggestion = findingToSuggestion(code, finding!);
+
+    assert.deepEqual([finding?.line, finding?.column], [2, 3]);
+    assert.equal(suggestion?.originalCode, '  console.log(data);\n  return data;');
+    assert.equal(suggestion?.modifiedCode, '  return data;');
+  });
+
+  it('adds an empty alt right after the tag name', () => {
+    const code = `export const Logo = () => <img
+  src="logo.png"
+/>;
+`;
+    const [finding] = lint(code, ['img-alt']);
+    const suggestion = findingToSuggestion(code, finding!);
+
+    assert.equal(finding?.line, 1);
+    assert.equal(suggestion?.originalCode, 'export const Logo = () => <img');
+    assert.equal(suggestion?.modifiedCode, 'export const Logo = () => <img alt=""');
+  });
+
+  it('only flags inline handlers passed to components', () => {
+    const code = `export function Toolbar({ onSave }: { onSave: () => void }) {
+  return (
+    <div onClick={() => onSave()}>
+      <Button
+        onClick={() => onSave()}
+      />
+    </div>
+  );
+}
+`;
+
+    assert.deepEqual(
+      lint(code, ['no-inline-handler']).map((f) => [f.line, f.message]),
+      [[5, 'Inline function passed to <Button onClick> is recreated on every render; wrap it in useCallback']]
+    );
+  });
+
+  it('skips disabled rules and findings outside the requested lines', () => {
+    const code = `console.log(1);
+console.log(2);
+console.log(3);
+`;
+
+    assert.deepEqual(lintCode(code, { rules: ['no-console'], lines: { start: 2, end: 3 } }).map((f) => f.line), [2, 3]);
+    assert.deepEqual(lintCode(code, { disabled: ['no-console'] }).filter((f) => f.ruleId === 'no-console'), []);
+  });
+});
@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readdirSync } from 'fs';
+import { join } from 'path';
+import { MockProvider, RecordingProvider, hashRequest } from '../src/services/llmFixtures.js';
+import { createTempProject, removeTempProject, writeProjectFiles } from './helpers/tempProject.js';
+import type { LLMProvider } from '../src/services/llmProviders.js';
+import type { LLMRequest, LLMResponse } from '../src/types/index.js';
+
+const analysisPrompt = `# React Component Optimization Request
+
+## Component Information
+- Name: Greeting
+
+## Focus Category: performance
+
+## Component Source Code
+\`\`\`tsx
+import React from 'react';
+
+export function Greeting({ name }: { name: string }) {
+  return <p>Hello {name}</p>;
+}
+\`\`\``;
+
+/**
+ * A provider that answers every request the same way, standing in for a vendor
+ */
+class FixedProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model = 'gpt-4o';
+  calls = 0;
+
+  async complete(): Promise<LLMResponse> {
+    this.calls++;
+    return { content: 'recorded answer', usage: { inputTokens: 10, outputTokens: 3 }, model: 'gpt-4o-2024-08-06' };
+  }
+
+  async stream(_request: LLMRequest, onText: (delta: string) => void): Promise<LLMResponse> {
+    onText('recorded ');
+    onText('answer');
+    return this.complete();
+  }
+}
+
+describe('LLM fixtures', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = createTempProject();
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  it('hashes requests independently of the server directory', () => {
+    const here = hashRequest({ systemPrompt: '', prompt: `Read ${process.cwd()}/src/App.tsx` });
+    const masked = hashRequest({ systemPrompt: '', prompt: 'Read <root>/src/App.tsx' });
+
+    assert.equal(here, masked);
+    assert.notEqual(here, hashRequest({ systemPrompt: 'x', prompt: 'Read <root>/src/App.tsx' }));
+  });
+
+  it('replays a recorded session, including its stream chunks', async () => {
+    const request: LLMRequest = { systemPrompt: 'system', prompt: 'What should change?' };
+    const recorder = new RecordingProvider(new FixedProvider(), root);
+
+    const recorded = await recorder.stream(request, () => {});
+    assert.equal(readdirSync(root).length, 1);
+
+    const mock = new MockProvider(root);
+    const deltas: string[] = [];
+    const replayed = await mock.stream(request, (delta) => deltas.push(delta));
+
+    assert.deepEqual(replayed, recorded);
+    assert.deepEqual(deltas, ['recorded ', 'answer']);
+  });
+
+  it('prefers scripted responses over the built-in ones', async () => {
+    writeProjectFiles(root, {
+      'scripts.json': JSON.stringify([
+        { match: '^Explain this', response: 'Scripted explanation' },
+        { match: 'Optimization Request', response: { analysis: { summary: 'scripted' }, suggestions: [] } },
+      ]),
+    });
+    const mock = new MockProvider(root);
+
+    const explained = await mock.complete({ systemPrompt: '', prompt: 'Explain this change' });
+    const analysis = await mock.complete({ systemPrompt: '', prompt: analysisPrompt });
+
+    assert.equal(explained.content, 'Scripted explanation');
+    assert.deepEqual(JSON.parse(analysis.content), { analysis: { summary: 'scripted' }, suggestions: [] });
+  });
+
+  it('answers an analysis prompt with one deterministic, applicable suggestion', async () => {
+    const mock = new MockProvider(join(root, 'missing'));
+
+    const first = await mock.complete({ systemPrompt: 'system', prompt: analysisPrompt });
+    const second = await mock.complete({ systemPrompt: 'system', prompt: analysisPrompt });
+    assert.deepEqual(first, second);
+
+    const parsed = JSON.parse(first.content) as {
+      suggestions: Array<{ category: string; originalCode: string; modifiedCode: string; lineStart: number }>;
+    };
+    assert.equal(parsed.suggestions.length, 1);
+    assert.equal(parsed.suggestions[0]?.category, 'performance');
+    assert.equal(parsed.suggestions[0]?.originalCode, 'export function Greeting({ name }: { name: string }) {');
+    assert.equal(parsed.suggestions[0]?.lineStart, 3);
+    assert.match(parsed.suggestions[0]?.modifiedCode ?? '', /^\/\*\* Greeting component \*\/\n/);
+    assert.ok(first.usage.inputTokens > 0);
+  });
+});
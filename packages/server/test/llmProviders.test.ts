@@ -0,0 +1,377 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  AnthropicProvider,
+  LLMProviderError,
+  OpenAIProvider,
+  createProvider,
+  resolveBaseURL,
+} from '../src/services/llmProviders.js';
+import { HttpStandIn, sendEvents, sendJson } from './helpers/httpStandIn.js';
+import type { LLMConfig } from '../src/types/index.js';
+
+const request = {
+  systemPrompt: 'You review React code.',
+  prompt: 'Analyze this component.',
+};
+
+async function rejection(promise: Promise<unknown>): Promise<LLMProviderError> {
+  const error = await promise.then(
+    () => assert.fail('expected the request to fail'),
+    (thrown: unknown) => thrown
+  );
+  assert.ok(error instanceof LLMProviderError);
+  return error;
+}
+
+describe('OpenAIProvider', () => {
+  const standIn = new HttpStandIn();
+  let provider: OpenAIProvider;
+
+  before(async () => {
+    const url = await standIn.start();
+    provider = new OpenAIProvider({
+      apiKey: 'test-key',
+      model: 'gpt-4o',
+      baseURL: `${url}/v1`,
+      maxTokens: 512,
+      temperature: 0.2,
+    });
+  });
+
+  after(() => standIn.stop());
+
+  it('sends the system prompt as the first message and maps usage', async () => {
+    standIn.respond((_req, res) =>
+      sendJson(res, 200, {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o-2024-08-06',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Looks good' } }],
+        usage: { prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 },
+      })
+    );
+
+    const response = await provider.complete(request);
+
+    const [sent] = standIn.requests;
+    assert.equal(sent?.path, '/v1/chat/completions');
+    assert.equal(sent?.headers.authorization, 'Bearer test-key');
+    assert.deepEqual(sent?.body.messages, [
+      { role: 'system', content: request.systemPrompt },
+      { role: 'user', content: request.prompt },
+    ]);
+    assert.equal(sent?.body.model, 'gpt-4o');
+    assert.equal(sent?.body.max_tokens, 512);
+    assert.equal(sent?.body.temperature, 0.2);
+
+    assert.deepEqual(response, {
+      content: 'Looks good',
+      usage: { inputTokens: 120, outputTokens: 30 },
+      model: 'gpt-4o-2024-08-06',
+    });
+  });
+
+  it('leaves out the system message when there is no system prompt', async () => {
+    standIn.respond((_req, res) =>
+      sendJson(res, 200, {
+        id: 'chatcmpl-2',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-4o',
+        choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: '' } }],
+      })
+    );
+
+    const response = await provider.complete({ systemPrompt: '', prompt: 'Hi', maxTokens: 10 });
+
+    assert.deepEqual(standIn.requests[0]?.body.messages, [{ role: 'user', content: 'Hi' }]);
+    assert.equal(standIn.requests[0]?.body.max_tokens, 10);
+    assert.deepEqual(response.usage, { inputTokens: 0, outputTokens: 0 });
+  });
+
+  it('streams text deltas and takes usage from the final chunk', async () => {
+    const chunk = (delta: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+      id: 'chatcmpl-3',
+      object: 'chat.completion.chunk',
+      created: 0,
+      model: 'gpt-4o',
+      choices: [{ index: 0, delta, finish_reason: null }],
+      ...extra,
+    });
+    standIn.respond((_req, res) =>
+      sendEvents(res, [
+        { data: chunk({ role: 'assistant', content: 'Hel' }) },
+        { data: chunk({ content: 'lo' }) },
+        { data: { ...chunk({}), choices: [], usage: { prompt_tokens: 7, completion_tokens: 2, total_tokens: 9 } } },
+        { data: '[DONE]' },
+      ])
+    );
+
+    const deltas: string[] = [];
+    const response = await provider.stream(request, (delta) => deltas.push(delta));
+
+    assert.equal(standIn.requests[0]?.body.stream, true);
+    assert.deepEqual(standIn.requests[0]?.body.stream_options, { include_usage: true });
+    assert.deepEqual(deltas, ['Hel', 'lo']);
+    assert.equal(response.content, 'Hello');
+    assert.deepEqual(response.usage, { inputTokens: 7, outputTokens: 2 });
+  });
+
+  const errorCases: Array<[number, Record<string, unknown>, string, number]> = [
+    [401, { message: 'Incorrect API key', type: 'invalid_request_error' }, 'AUTHENTICATION_ERROR', 502],
+    [403, { message: 'Forbidden', type: 'invalid_request_error' }, 'PERMISSION_DENIED', 502],
+    [429, { message: 'Rate limit reached', type: 'requests' }, 'RATE_LIMITED', 429],
+    [
+      400,
+      { message: 'Too long', type: 'invalid_request_error', code: 'context_length_exceeded' },
+      'CONTEXT_LENGTH_EXCEEDED',
+      400,
+    ],
+    [400, { message: 'Unknown parameter', type: 'invalid_request_error' }, 'INVALID_REQUEST', 400],
+    [503, { message: 'Overloaded', type: 'server_error' }, 'OVERLOADED', 503],
+    [500, { message: 'Internal error', type: 'server_error' }, 'PROVIDER_ERROR', 502],
+  ];
+
+  for (const [status, error, code, httpStatus] of errorCases) {
+    it(`maps HTTP ${status} (${code})`, async () => {
+      standIn.respond((_req, res) => sendJson(res, status, { error }));
+
+      const thrown = await rejection(provider.complete(request));
+
+      assert.equal(thrown.code, code);
+      assert.equal(thrown.status, status);
+      assert.equal(thrown.provider, 'openai');
+      assert.equal(thrown.httpStatus, httpStatus);
+    });
+  }
+});
+
+describe('AnthropicProvider', () => {
+  const standIn = new HttpStandIn();
+  let provider: AnthropicProvider;
+
+  before(async () => {
+    const url = await standIn.start();
+    provider = new AnthropicProvider({
+      apiKey: 'test-key',
+      model: 'claude-3-5-sonnet-latest',
+      baseURL: url,
+      maxTokens: 1024,
+      temperature: 0.3,
+    });
+  });
+
+  after(() => standIn.stop());
+
+  const message = (content: Array<Record<string, unknown>>) => ({
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-3-5-sonnet-20241022',
+    content,
+    stop_reason: 'end_turn',
+    stop_sequence: null,
+    usage: { input_tokens: 200, output_tokens: 40 },
+  });
+
+  it('sends the system prompt as a top-level field and maps usage', async () => {
+    standIn.respond((_req, res) =>
+      sendJson(res, 200, message([
+        { type: 'text', text: 'Use ' },
+        { type: 'text', text: 'memo' },
+      ]))
+    );
+
+    const response = await provider.complete(request);
+
+    const [sent] = standIn.requests;
+    assert.equal(sent?.path, '/v1/messages');
+    assert.equal(sent?.headers['x-api-key'], 'test-key');
+    assert.ok(sent?.headers['anthropic-version']);
+    assert.equal(sent?.body.system, request.systemPrompt);
+    assert.deepEqual(sent?.body.messages, [{ role: 'user', content: request.prompt }]);
+    assert.equal(sent?.body.max_tokens, 1024);
+    assert.equal(sent?.body.temperature, 0.3);
+
+    assert.deepEqual(response, {
+      content: 'Use memo',
+      usage: { inputTokens: 200, outputTokens: 40 },
+      model: 'claude-3-5-sonnet-20241022',
+    });
+  });
+
+  it('leaves out the system field when there is no system prompt', async () => {
+    standIn.respond((_req, res) => sendJson(res, 200, message([{ type: 'text', text: 'ok' }])));
+
+    await provider.complete({ systemPrompt: '', prompt: 'Hi' });
+
+    assert.equal('system' in (standIn.requests[0]?.body ?? {}), false);
+  });
+
+  it('streams text deltas and reports the final usage', async () => {
+    standIn.respond((_req, res) =>
+      sendEvents(res, [
+        {
+          event: 'message_start',
+          data: { type: 'message_start', message: { ...message([]), usage: { input_tokens: 15, output_tokens: 1 } } },
+        },
+        {
+          event: 'content_block_start',
+          data: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        },
+        {
+          event: 'content_block_delta',
+          data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+        },
+        {
+          event: 'content_block_delta',
+          data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+        },
+        { event: 'content_block_stop', data: { type: 'content_block_stop', index: 0 } },
+        {
+          event: 'message_delta',
+          data: { type: 'message_delta', delta: { stop_reason: 'end_turn', stop_sequence: null }, usage: { output_tokens: 6 } },
+        },
+        { event: 'message_stop', data: { type: 'message_stop' } },
+      ])
+    );
+
+    const deltas: string[] = [];
+    const response = await provider.stream(request, (delta) => deltas.push(delta));
+
+    assert.equal(standIn.requests[0]?.body.stream, true);
+    assert.equal(standIn.requests[0]?.body.system, request.systemPrompt);
+    assert.deepEqual(deltas, ['Hel', 'lo']);
+    assert.equal(response.content, 'Hello');
+    assert.deepEqual(response.usage, { inputTokens: 15, outputTokens: 6 });
+  });
+
+  it('keeps the usage counted before a stream fails', async () => {
+    standIn.respond((_req, res) =>
+      sendEvents(res, [
+        {
+          event: 'message_start',
+          data: { type: 'message_start', message: { ...message([]), usage: { input_tokens: 15, output_tokens: 1 } } },
+        },
+        {
+          event: 'content_block_start',
+          data: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+        },
+        {
+          event: 'content_block_delta',
+          data: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+        },
+        { event: 'error', data: { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } } },
+      ])
+    );
+
+    const thrown = await rejection(provider.stream(request, () => {}));
+
+    assert.deepEqual(thrown.usage, { inputTokens: 15, outputTokens: 1 });
+  });
+
+  const errorCases: Array<[number, string, string, string, number]> = [
+    [401, 'authentication_error', 'invalid x-api-key', 'AUTHENTICATION_ERROR', 502],
+    [403, 'permission_error', 'Not allowed', 'PERMISSION_DENIED', 502],
+    [429, 'rate_limit_error', 'Rate limited', 'RATE_LIMITED', 429],
+    [400, 'invalid_request_error', 'prompt is too long: 210000 tokens > 200000 maximum', 'CONTEXT_LENGTH_EXCEEDED', 400],
+    [400, 'invalid_request_error', 'messages: field required', 'INVALID_REQUEST', 400],
+    [529, 'overloaded_error', 'Overloaded', 'OVERLOADED', 503],
+    [500, 'api_error', 'Internal error', 'PROVIDER_ERROR', 502],
+  ];
+
+  for (const [status, type, errorMessage, code, httpStatus] of errorCases) {
+    it(`maps HTTP ${status} ${type} (${code})`, async () => {
+      standIn.respond((_req, res) =>
+        sendJson(res, status, { type: 'error', error: { type, message: errorMessage } })
+      );
+
+      const thrown = await rejection(provider.complete(request));
+
+      assert.equal(thrown.code, code);
+      assert.equal(thrown.status, status);
+      assert.equal(thrown.provider, 'anthropic');
+      assert.equal(thrown.httpStatus, httpStatus);
+    });
+  }
+
+  it('maps a refused connection to NETWORK_ERROR', async () => {
+    const offline = new AnthropicProvider({
+      apiKey: 'test-key',
+      model: 'claude-3-5-haiku-latest',
+      baseURL: 'http://127.0.0.1:1',
+      maxTokens: 16,
+      temperature: 0,
+    });
+
+    const thrown = await rejection(offline.complete(request));
+
+    assert.equal(thrown.code, 'NETWORK_ERROR');
+    assert.equal(thrown.httpStatus, 502);
+  });
+});
+
+describe('createProvider', () => {
+  const env = { ...process.env };
+  const config = {
+    provider: 'anthropic',
+    model: 'claude-3-5-sonnet-latest',
+    temperature: 0,
+    maxTokens: 16,
+    maxChangesPerRequest: 1,
+    fixtures: { dir: '.', record: false },
+    promptsDir: '.',
+    cache: { enabled: false, ttlHours: 1, maxSizeMB: 1 },
+  } as unknown as LLMConfig;
+
+  after(() => {
+    process.env = env;
+  });
+
+  it('does not send Anthropic requests to the OpenAI base URL', async () => {
+    const openAIStandIn = new HttpStandIn();
+    const anthropicStandIn = new HttpStandIn();
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    process.env.LLM_BASE_URL = `${await openAIStandIn.start()}/v1`;
+    process.env.ANTHROPIC_BASE_URL = await anthropicStandIn.start();
+    delete process.env.LLM_MODEL_NAME;
+
+    try {
+      assert.equal(resolveBaseURL('openai'), process.env.LLM_BASE_URL);
+      assert.equal(resolveBaseURL('anthropic'), process.env.ANTHROPIC_BASE_URL);
+
+      anthropicStandIn.respond((_req, res) =>
+        sendJson(res, 200, {
+          id: 'msg_1',
+          type: 'message',
+          role: 'assistant',
+          model: 'claude-3-5-sonnet-latest',
+          content: [{ type: 'text', text: 'ok' }],
+          stop_reason: 'end_turn',
+          stop_sequence: null,
+          usage: { input_tokens: 1, output_tokens: 1 },
+        })
+      );
+
+      const provider = createProvider(config);
+      assert.ok(provider);
+      await provider.complete({ systemPrompt: '', prompt: 'Hi' });
+
+      assert.equal(anthropicStandIn.requests.length, 1);
+      assert.equal(openAIStandIn.requests.length, 0);
+    } finally {
+      await openAIStandIn.stop();
+      await anthropicStandIn.stop();
+    }
+  });
+
+  it('ignores LLM_BASE_URL for Anthropic when ANTHROPIC_BASE_URL is unset', () => {
+    process.env.LLM_BASE_URL = 'http://127.0.0.1:9/v1';
+    delete process.env.ANTHROPIC_BASE_URL;
+
+    assert.equal(resolveBaseURL('anthropic'), undefined);
+    assert.equal(resolveBaseURL('openai'), 'http://127.0.0.1:9/v1');
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyPatch, locatePatch, type PatchLocation } from '../src/utils/patcher.js';
+
+const source = `import React from 'react';
+
+export function Counter({ step }: { step: number }) {
+  const [count, setCount] = React.useState(0);
+  const increment = () => setCount(count + step);
+
+  return (
+    <button onClick={increment}>
+      {count}
+    </button>
+  );
+}
+
+export function Label({ text }: { text: string }) {
+  const upper = text.toUpperCase();
+  return <span>{upper}</span>;
+}
+`;
+
+function located(location: PatchLocation): Extract<PatchLocation, { success: true }> {
+  assert.ok(location.success, location.success ? '' : location.conflict.message);
+  return location;
+}
+
+describe('locatePatch', () => {
+  it('finds an exact match', () => {
+    const location = located(
+      locatePatch(source, 'const increment = () => setCount(count + step);', { filename: 'Counter.tsx' })
+    );
+
+    assert.equal(location.report.strategy, 'exact');
+    assert.equal(location.report.lineStart, 5);
+    assert.equal(
+      applyPatch(source, location, 'const increment = () => setCount((c) => c + step);').split('\n')[4],
+      '  const increment = () => setCount((c) => c + step);'
+    );
+  });
+
+  it('matches code that differs only in whitespace', () => {
+    const location = located(
+      locatePatch(source, '<button onClick={increment}>{count}</button>', { filename: 'Counter.tsx' })
+    );
+
+    assert.equal(location.report.strategy, 'whitespace');
+    assert.equal(location.report.lineStart, 8);
+    assert.equal(location.report.lineEnd, 10);
+  });
+
+  it('locates a rewritten declaration by its name', () => {
+    const snippet = `function Label({ text }: { text: string }) {
+  return <span>{text.toLocaleUpperCase()}</span>;
+}`;
+    const location = located(locatePatch(source, snippet, { filename: 'Counter.tsx' }));
+
+    assert.equal(location.report.strategy, 'declaration');
+    assert.equal(location.report.lineStart, 14);
+    assert.ok((location.report.similarity ?? 0) >= 0.8);
+
+    // The file's own `export` is kept
+    const patched = applyPatch(source, location, snippet);
+    assert.match(patched, /export function Label\(\{ text \}: \{ text: string \}\) \{\n  return <span>\{text\.toLocaleUpperCase\(\)\}<\/span>;/);
+  });
+
+  it('does not replace a declaration that has changed since the analysis', () => {
+    const edited = source.replace(
+      '  const upper = text.toUpperCase();\n  return <span>{upper}</span>;',
+      '  const { t } = useTranslation();\n  const label = t(text, { defaultValue: text });\n' +
+        '  return <Tooltip title={label}><span className="label">{label}</span></Tooltip>;'
+    );
+    const snippet = `function Label({ text }: { text: string }) {
+  const upper = text.toUpperCase();
+  return <span>{upper}</span>;
+}`;
+
+    const location = locatePatch(edited, snippet, { filename: 'Counter.tsx' });
+
+    assert.equal(location.success, false);
+    assert.equal(location.success ? '' : location.conflict.reason, 'not-found');
+  });
+
+  it('falls back to a fuzzy match for slightly different code', () => {
+    const location = located(
+      locatePatch(source, 'const [count, setCount] = React.useState(1);', { filename: 'Counter.tsx' })
+    );
+
+    assert.equal(location.report.strategy, 'fuzzy');
+    assert.equal(location.report.lineStart, 4);
+    assert.ok((location.report.similarity ?? 0) >= 0.8);
+  });
+
+  it('uses the hinted lines to choose between repeated snippets', () => {
+    const repeated = 'const a = 1;\nfunction f() {\n  return a;\n}\nfunction g() {\n  return a;\n}\n';
+
+    const ambiguous = locatePatch(repeated, 'return a;');
+    assert.equal(ambiguous.success, false);
+    assert.equal(ambiguous.success ? '' : ambiguous.conflict.reason, 'ambiguous');
+    assert.equal(ambiguous.success ? 0 : ambiguous.conflict.candidates.length, 2);
+
+    const hinted = located(locatePatch(repeated, 'return a;', { lineStart: 6, lineEnd: 6 }));
+    assert.equal(hinted.report.lineStart, 6);
+  });
+
+  it('reports code that is not in the file', () => {
+    const location = locatePatch(source, 'useLayoutEffect(() => measure(ref.current), []);');
+
+    assert.equal(location.success, false);
+    assert.equal(location.success ? '' : location.conflict.reason, 'not-found');
+  });
+
+  for (const snippet of ['', '   \n\t']) {
+    it(`refuses an empty original code (${JSON.stringify(snippet)})`, () => {
+      const location = locatePatch(source, snippet, { lineStart: 5, lineEnd: 5 });
+
+      assert.equal(location.success, false);
+      assert.equal(location.success ? '' : location.conflict.reason, 'not-found');
+    });
+  }
+});
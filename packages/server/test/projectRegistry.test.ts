@@ -0,0 +1,46 @@
+import { afterEach, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ProjectRegistry } from '../src/services/projectRegistry.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+
+describe('ProjectRegistry', () => {
+  let root: string;
+  let registry: ProjectRegistry;
+
+  beforeEach(() => {
+    root = createTempProject({ 'package.json': JSON.stringify({ name: 'shop' }) });
+    registry = new ProjectRegistry('/projects/default');
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  it('does not register the projects requests name', () => {
+    for (let i = 0; i < 20; i++) {
+      registry.get(`/projects/app-${i}`);
+    }
+    registry.get(root);
+
+    assert.deepEqual(registry.list(), []);
+  });
+
+  it('keeps the services of a project in use when it is registered', () => {
+    const service = registry.get(root).service('example', () => ({}));
+
+    const registered = registry.register(root, { makeDefault: true });
+
+    assert.equal(registered.project?.name, 'shop');
+    assert.equal(registry.get().service('example', () => ({})), service);
+    assert.deepEqual(registry.list().map((p) => [p.root, p.isDefault]), [[root, true]]);
+  });
+
+  it('keeps a registered project however many others are used', () => {
+    registry.register(root);
+    const service = registry.get(root).service('example', () => ({}));
+
+    for (let i = 0; i < 20; i++) {
+      registry.get(`/projects/app-${i}`);
+    }
+
+    assert.equal(registry.get(root).service('example', () => ({})), service);
+  });
+});
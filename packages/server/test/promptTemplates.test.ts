@@ -0,0 +1,113 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { symlinkSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { PromptTemplateService } from '../src/services/promptTemplates.js';
+import { createTempProject, removeTempProject, writeProjectFiles } from './helpers/tempProject.js';
+
+const PROMPTS = '.react-dev-insight/prompts';
+
+describe('PromptTemplateService', () => {
+  let roots: string[];
+  let warnings: unknown[][];
+
+  /**
+   * Load the templates of a fresh project holding `files` under the prompts directory
+   */
+  const load = (files: Record<string, string>, config: object = {}) => {
+    const root = createTempProject({
+      '.react-dev-insightrc.json': JSON.stringify(config),
+      ...Object.fromEntries(Object.entries(files).map(([name, content]) => [`${PROMPTS}/${name}`, content])),
+    });
+    roots.push(root);
+    return { root, prompts: new PromptTemplateService(root).load() };
+  };
+
+  beforeEach(() => {
+    roots = [];
+    warnings = [];
+    mock.method(console, 'warn', (...args: unknown[]) => warnings.push(args));
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+    roots.forEach(removeTempProject);
+  });
+
+  it('applies replacements and appends to the matching prompts', () => {
+    const { prompts } = load({
+      'system.append.md': 'Prefer small changes.\n',
+      'analysis.md': 'Review {{componentName}}:\n\n{{code}}\n',
+      'categories/performance.md': 'Look for re-renders.',
+      'categories/accessibility.append.md': 'Check focus order.',
+    });
+
+    assert.deepEqual(prompts.errors, []);
+    assert.deepEqual(prompts.overrides, {
+      systemAppend: 'Prefer small changes.',
+      analysis: 'Review {{componentName}}:\n\n{{code}}',
+      categories: { performance: 'Look for re-renders.' },
+      categoryAppends: { accessibility: 'Check focus order.' },
+    });
+    assert.deepEqual(prompts.files, [
+      join(PROMPTS, 'analysis.md'),
+      join(PROMPTS, 'system.append.md'),
+      join(PROMPTS, 'categories/accessibility.append.md'),
+      join(PROMPTS, 'categories/performance.md'),
+    ]);
+  });
+
+  it('skips templates that fail validation, saying why', () => {
+    const { prompts } = load({
+      'system.md': 'Answer in JSON.',
+      'analysis.md': 'Review {{componentName}}.',
+      'analysis.append.md': 'Mind {{props}}.',
+      'notes.md': 'Not a template.',
+      'categories/security.md': 'Look for XSS.',
+      'categories/ux.md': '  \n',
+    });
+
+    assert.deepEqual(prompts.overrides, {});
+    assert.deepEqual(prompts.files, []);
+    assert.deepEqual(prompts.errors.map((error) => error.replace(/;.*/, '')), [
+      `${join(PROMPTS, 'analysis.append.md')}: unknown variable(s) {{props}}`,
+      `${join(PROMPTS, 'analysis.md')}: a replacement analysis prompt must include {{code}}`,
+      `${join(PROMPTS, 'notes.md')}: unknown template`,
+      `${join(PROMPTS, 'system.md')}: a replacement system prompt must describe the JSON response format, including "suggestions"`,
+      `${join(PROMPTS, 'categories/security.md')}: unknown category "security"`,
+      `${join(PROMPTS, 'categories/ux.md')}: template is empty`,
+    ]);
+    assert.match(prompts.errors[0] ?? '', /available: componentName, filePath, code/);
+    assert.equal(warnings.length, 1);
+  });
+
+  it('accepts category files for custom categories and passes those along', () => {
+    const customCategories = [{ id: 'security', label: 'Security', prompt: 'Look for injection.' }];
+    const { prompts } = load(
+      { 'categories/security.append.md': 'Also check {{filePath}}.' },
+      { optimization: { customCategories } }
+    );
+
+    assert.deepEqual(prompts.errors, []);
+    assert.equal(prompts.overrides.categoryAppends?.security, 'Also check {{filePath}}.');
+    assert.equal(prompts.overrides.customCategories?.[0]?.id, 'security');
+  });
+
+  it('reads templates again when they change, and treats a vanished file as missing', () => {
+    const { root } = load({ 'system.append.md': 'First.' });
+    const service = new PromptTemplateService(root);
+
+    assert.equal(service.load().overrides.systemAppend, 'First.');
+    assert.equal(service.load(), service.load());
+
+    writeProjectFiles(root, { [`${PROMPTS}/analysis.append.md`]: 'Second.' });
+    assert.equal(service.load().overrides.analysisAppend, 'Second.');
+
+    // A link whose target is gone is listed but cannot be read, like a file deleted mid-load
+    unlinkSync(join(root, PROMPTS, 'system.append.md'));
+    symlinkSync(join(root, 'missing.md'), join(root, PROMPTS, 'system.md'));
+    const prompts = service.load();
+    assert.deepEqual(prompts.errors, []);
+    assert.deepEqual(prompts.overrides, { analysisAppend: 'Second.' });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { diffComponentProps, extractComponentProps } from '../src/utils/propTypes.js';
+
+describe('extractComponentProps', () => {
+  it('follows local interfaces, intersections and PropsWithChildren', () => {
+    const props = extractComponentProps(`
+      import type { PropsWithChildren, ButtonHTMLAttributes } from 'react';
+
+      interface BaseProps { id: string }
+      interface ButtonProps extends BaseProps { variant?: 'primary' | 'secondary' }
+
+      export function Button(props: PropsWithChildren<ButtonProps & ButtonHTMLAttributes<HTMLButtonElement>>) {
+        return null;
+      }
+    `);
+
+    assert.deepEqual(props, [{
+      component: 'Button',
+      props: [
+        { name: 'id', optional: false, type: 'string' },
+        { name: 'variant', optional: true, type: "'primary' | 'secondary'" },
+        { name: '...ButtonHTMLAttributes<HTMLButtonElement>', optional: true, type: '' },
+        { name: 'children', optional: true, type: 'ReactNode' },
+      ],
+    }]);
+  });
+
+  it('reads React.FC, memo, forwardRef and class components', () => {
+    const props = extractComponentProps(`
+      type Props = { title: string };
+
+      export const Card: React.FC<Props> = ({ title }) => null;
+      export const Memo = React.memo(({ count }: { count: number }) => null);
+      export const Input = forwardRef<HTMLInputElement, { value?: string }>((props, ref) => null);
+      export class Panel extends React.Component<{ open: boolean }> {}
+    `);
+
+    assert.deepEqual(
+      props.map((c) => [c.component, c.props.map((p) => `${p.name}${p.optional ? '?' : ''}: ${p.type}`)]),
+      [
+        ['Card', ['title: string']],
+        ['Memo', ['count: number']],
+        ['Input', ['value?: string']],
+        ['Panel', ['open: boolean']],
+      ]
+    );
+  });
+
+  it('falls back to destructured names in plain JavaScript and skips unexported components', () => {
+    const props = extractComponentProps(
+      `
+      function Hidden({ secret }) { return null; }
+      export default function Avatar({ src, size = 24, ...rest }) { return null; }
+    `,
+      'Avatar.jsx'
+    );
+
+    assert.deepEqual(props, [{
+      component: 'Avatar',
+      props: [
+        { name: 'src', optional: false, type: '' },
+        { name: 'size', optional: true, type: '' },
+        { name: '...rest', optional: true, type: '' },
+      ],
+    }]);
+  });
+});
+
+describe('diffComponentProps', () => {
+  const component = (props: string) => extractComponentProps(`export function Button(props: { ${props} }) {}`);
+  const diff = (before: string, after: string) =>
+    diffComponentProps(component(before), component(after)).map((c) => [c.kind, c.name, c.breaking]);
+
+  it('marks removed, retyped and newly required props as breaking', () => {
+    assert.deepEqual(diff('label: string; size?: number; icon?: string', 'label: number; size: number'), [
+      ['prop-type-changed', 'label', true],
+      ['prop-made-required', 'size', true],
+      ['prop-removed', 'icon', true],
+    ]);
+  });
+
+  it('treats optional additions and relaxed props as compatible', () => {
+    assert.deepEqual(diff('label: string', 'label?: string; icon?: string'), [
+      ['prop-made-optional', 'label', false],
+      ['prop-added', 'icon', false],
+    ]);
+  });
+
+  it('treats a new required prop as breaking', () => {
+    assert.deepEqual(diff('label: string', 'label: string; onClick: () => void'), [['prop-added', 'onClick', true]]);
+  });
+
+  it('ignores whitespace differences in types', () => {
+    assert.deepEqual(diff('size: "sm" | "md"', 'size:   "sm"\n | "md"'), []);
+  });
+
+  it('does not compare untyped props', () => {
+    const before = extractComponentProps('export function Avatar({ src }) {}', 'Avatar.jsx');
+    const after = extractComponentProps('export function Avatar({ src }: { src: string }) {}');
+
+    assert.deepEqual(diffComponentProps(before, after), []);
+  });
+});
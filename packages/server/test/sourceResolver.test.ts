@@ -0,0 +1,162 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { join } from 'path';
+import { getFileSystemService } from '../src/services/fileSystem.js';
+import { SourceResolver, getSourceResolver } from '../src/services/sourceResolver.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+
+const component = (name: string) => `export function ${name}() {\n  return null;\n}\n`;
+
+describe('SourceResolver', () => {
+  let root: string;
+  let web: string;
+  let resolver: SourceResolver;
+
+  const resolved = (fileName: string) => {
+    const result = resolver.resolve(fileName);
+    assert.ok(result.success, result.success ? '' : result.error);
+    return result.source;
+  };
+
+  before(() => {
+    root = createTempProject({
+      'package.json': JSON.stringify({ workspaces: ['apps/*', 'packages/*', '!packages/legacy'] }),
+      'secret.txt': 'not for editing',
+      'apps/web/package.json': JSON.stringify({ name: 'web' }),
+      'apps/web/tsconfig.json': JSON.stringify({ compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } } }),
+      'apps/web/src/App.tsx': component('App'),
+      'apps/web/src/components/Card.tsx': component('Card'),
+      'apps/admin/package.json': JSON.stringify({ name: 'admin' }),
+      'apps/admin/src/Button.tsx': component('Button'),
+      'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+      'packages/ui/src/Button.tsx': component('Button'),
+      'packages/legacy/package.json': JSON.stringify({ name: 'legacy' }),
+      'packages/legacy/src/Old.tsx': component('Old'),
+      'node_modules/lib/package.json': JSON.stringify({ name: 'lib' }),
+      'node_modules/lib/index.js': 'module.exports = {};\n',
+    });
+    web = join(root, 'apps/web');
+    resolver = new SourceResolver(web);
+  });
+
+  after(() => removeTempProject(root));
+
+  it('finds npm workspace packages, leaving out `!` exclusions', () => {
+    const names = resolver.getWorkspacePackages().map((pkg) => pkg.name).sort();
+
+    assert.deepEqual(names, ['@acme/ui', 'admin', 'web']);
+    assert.equal(resolver.isEditable(join(root, 'packages/legacy/src/Old.tsx')), false);
+  });
+
+  it('reads yarn and pnpm workspace lists', () => {
+    const yarn = createTempProject({
+      'package.json': JSON.stringify({ workspaces: { packages: ['packages/*'] } }),
+      'packages/a/package.json': JSON.stringify({ name: 'a' }),
+    });
+    const pnpm = createTempProject({
+      'package.json': JSON.stringify({ name: 'root' }),
+      'pnpm-workspace.yaml': "packages:\n  - 'packages/*' # libraries\n  - '!packages/skip'\n\ncatalog:\n  react: ^18\n",
+      'packages/b/package.json': JSON.stringify({ name: 'b' }),
+      'packages/skip/package.json': JSON.stringify({ name: 'skip' }),
+    });
+
+    try {
+      assert.deepEqual(new SourceResolver(join(yarn, 'packages/a')).getWorkspacePackages().map((p) => p.name), ['a']);
+      assert.deepEqual(new SourceResolver(join(pnpm, 'packages/b')).getWorkspacePackages().map((p) => p.name), ['b']);
+    } finally {
+      removeTempProject(yarn);
+      removeTempProject(pnpm);
+    }
+  });
+
+  it('resolves project-relative and Vite root-relative paths', () => {
+    assert.equal(resolved('src/App.tsx').strategy, 'direct');
+
+    const rootRelative = resolved('/src/App.tsx');
+    assert.equal(rootRelative.strategy, 'root-relative');
+    assert.equal(rootRelative.filePath, join(web, 'src/App.tsx'));
+    assert.equal(rootRelative.packageName, 'web');
+  });
+
+  it('resolves workspace package specifiers', () => {
+    const source = resolved('@acme/ui/src/Button');
+
+    assert.equal(source.strategy, 'workspace-package');
+    assert.equal(source.filePath, join(root, 'packages/ui/src/Button.tsx'));
+    assert.equal(source.packageRoot, join(root, 'packages/ui'));
+    assert.equal(source.packageName, '@acme/ui');
+    assert.equal(source.relativePath, '../../packages/ui/src/Button.tsx');
+  });
+
+  it('resolves tsconfig `paths` aliases', () => {
+    const source = resolved('@/components/Card');
+
+    assert.equal(source.strategy, 'tsconfig-paths');
+    assert.equal(source.filePath, join(web, 'src/components/Card.tsx'));
+  });
+
+  it('resolves Vite /@fs/ URLs', () => {
+    const source = resolved(`/@fs${join(root, 'packages/ui/src/Button.tsx')}?t=1700000000000`);
+
+    assert.equal(source.strategy, 'vite-fs');
+    assert.equal(source.filePath, join(root, 'packages/ui/src/Button.tsx'));
+  });
+
+  it('rejects dependencies in node_modules', () => {
+    const result = resolver.resolve(join(root, 'node_modules/lib/index.js'));
+
+    assert.equal(result.success, false);
+    assert.match(result.success ? '' : result.error, /outside the project/);
+  });
+
+  it('rejects paths that climb out of the workspace packages', () => {
+    const result = resolver.resolve('../../secret.txt');
+
+    assert.equal(result.success, false);
+    assert.match(result.success ? '' : result.error, /outside the project/);
+  });
+
+  it('matches paths from another machine by suffix, refusing ambiguous ones', () => {
+    const source = resolved('/home/ci/build/apps/web/src/components/Card.tsx');
+    assert.equal(source.strategy, 'suffix');
+    assert.equal(source.filePath, join(web, 'src/components/Card.tsx'));
+
+    const ambiguous = resolver.resolve('/home/ci/build/src/Button.tsx');
+    assert.equal(ambiguous.success, false);
+    assert.match(ambiguous.success ? '' : ambiguous.error, /is ambiguous/);
+  });
+});
+
+describe('FileSystemService outside the project', () => {
+  let root: string;
+  let web: string;
+
+  before(() => {
+    root = createTempProject({
+      'package.json': JSON.stringify({ workspaces: ['apps/*', 'packages/*'] }),
+      'secret.txt': 'not for editing',
+      'apps/web/package.json': JSON.stringify({ name: 'web' }),
+      'apps/web/src/App.tsx': component('App'),
+      'packages/ui/package.json': JSON.stringify({ name: '@acme/ui' }),
+      'packages/ui/src/Button.tsx': component('Button'),
+      'packages/ui/src/Icon.tsx': component('Icon'),
+    });
+    web = join(root, 'apps/web');
+  });
+
+  after(() => removeTempProject(root));
+
+  it('opens a sibling package only for sources resolved from the page', () => {
+    const fs = getFileSystemService(web);
+
+    assert.equal(fs.isWithinProject('src/App.tsx'), true);
+    assert.equal(fs.isWithinProject('../../packages/ui/src/Button.tsx'), false);
+    assert.equal(fs.readFile('../../packages/ui/src/Button.tsx').success, false);
+
+    assert.ok(getSourceResolver(web).resolve('@acme/ui/src/Button').success);
+
+    assert.equal(fs.readFile('../../packages/ui/src/Button.tsx').content, component('Button'));
+    assert.equal(fs.isWithinProject('../../packages/ui/src/Icon.tsx'), false);
+    assert.equal(fs.isWithinProject('../../secret.txt'), false);
+  });
+});
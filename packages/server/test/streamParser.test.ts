@@ -0,0 +1,157 @@
+import { after, before, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import { WebSocket } from 'ws';
+import analysisRoutes from '../src/routes/analysis.js';
+import { getLLMService } from '../src/services/llmService.js';
+import { JSONArrayStreamParser } from '../src/utils/streamParser.js';
+import { clients } from '../src/websocket.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+import type { WebSocketMessage } from '../src/types/index.js';
+
+/**
+ * Feed `text` to a parser in the given chunks and collect every element
+ */
+function parseChunks(chunks: string[]): Array<Record<string, unknown>> {
+  const parser = new JSONArrayStreamParser('suggestions');
+  return chunks.flatMap((chunk) => parser.push(chunk));
+}
+
+/**
+ * Split text into chunks of `size` characters
+ */
+function split(text: string, size: number): string[] {
+  const chunks: string[] = [];
+  for (let i = 0; i < text.length; i += size) chunks.push(text.slice(i, i + size));
+  return chunks;
+}
+
+const response = JSON.stringify({
+  analysis: { summary: 'Two fixes', issues: [] },
+  suggestions: [
+    { title: 'Close the list]', modifiedCode: 'const a = { b: [1] };' },
+    { title: 'Say "hi" \\ then }', modifiedCode: 'const s = "\\"}\\"";' },
+  ],
+});
+
+describe('JSONArrayStreamParser', () => {
+  it('returns each element once its closing brace arrives', () => {
+    const parser = new JSONArrayStreamParser('suggestions');
+
+    assert.deepEqual(parser.push('{"analysis": {"summary": "x"}, "suggestions": [{"title": "A"'), []);
+    assert.deepEqual(parser.push('}, {"title"'), [{ title: 'A' }]);
+    assert.deepEqual(parser.push(': "B"}]}'), [{ title: 'B' }]);
+  });
+
+  it('parses the same elements however the text is split', () => {
+    const expected = JSON.parse(response).suggestions;
+
+    for (const size of [1, 2, 3, 7, 64, response.length]) {
+      assert.deepEqual(parseChunks(split(response, size)), expected, `chunks of ${size}`);
+    }
+  });
+
+  it('does not end an element at brackets inside strings or after escapes', () => {
+    const [first, second] = parseChunks([response]);
+
+    assert.equal(first?.title, 'Close the list]');
+    assert.equal(second?.title, 'Say "hi" \\ then }');
+    assert.equal(second?.modifiedCode, 'const s = "\\"}\\"";');
+  });
+
+  it('waits for the array key, even when it is split across chunks', () => {
+    assert.deepEqual(parseChunks(['{"other": [{"a": 1}], "sugges', 'tions"  :\n [{"a": 2}]}']), [{ a: 2 }]);
+  });
+
+  it('drops a truncated final element', () => {
+    const parser = new JSONArrayStreamParser('suggestions');
+
+    assert.deepEqual(parser.push('{"suggestions": [{"title": "A"}, {"title": "B", "modifiedCode": "x'), [{ title: 'A' }]);
+    assert.deepEqual(parser.push(''), []);
+  });
+
+  it('skips malformed elements and ignores text after the array', () => {
+    assert.deepEqual(parseChunks(['{"suggestions": [{"title": }, ["not an object"], {"title": "C"}], "more": [{"d": 1}]}']), [
+      { title: 'C' },
+    ]);
+  });
+});
+
+describe('analysis progress over WebSocket', () => {
+  let root: string;
+  let server: Server;
+  let baseURL: string;
+  const frames: WebSocketMessage[] = [];
+
+  before(async () => {
+    root = createTempProject({
+      '.react-dev-insightrc.json': JSON.stringify({ llm: { cache: { enabled: false } } }),
+      'src/List.tsx': 'export function List() {\n  return <ul />;\n}\n',
+    });
+
+    // A subscribed client that records what it is sent
+    clients.set('test-client', {
+      id: 'test-client',
+      ws: { readyState: WebSocket.OPEN, send: (data: string) => frames.push(JSON.parse(data)) } as unknown as WebSocket,
+      projectPath: root,
+      lastActivity: new Date(),
+    });
+
+    const llm = getLLMService();
+    mock.method(llm, 'isAvailable', () => true);
+    mock.method(llm, 'getProviderInfo', () => ({ provider: 'openai', model: 'gpt-4o' }));
+    mock.method(llm, 'sendStreamingRequest', async (_request: unknown, onChunk: (delta: string) => void) => {
+      for (const chunk of split(response, 5)) onChunk(chunk);
+      return { content: response, model: 'gpt-4o', usage: { inputTokens: 10, outputTokens: 10 } };
+    });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/analysis', analysisRoutes);
+    server = createServer(app);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    mock.restoreAll();
+    clients.delete('test-client');
+    await new Promise((resolve) => server.close(resolve));
+    removeTempProject(root);
+  });
+
+  it('sends started, each suggestion in order, then complete', async () => {
+    const res = await fetch(`${baseURL}/api/analysis/element`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        analysisId: 'analysis-1',
+        projectPath: root,
+        optimizationGoal: 'Fix bugs',
+        elementInfo: {},
+        componentInfo: { name: 'List', filePath: 'src/List.tsx', props: {}, hooks: [] },
+      }),
+    });
+    const body = (await res.json()) as { success: boolean; data: { suggestions: Array<{ id: string }> } };
+    assert.equal(body.success, true);
+
+    const analysisFrames = frames.filter((f) => (f.data as { analysisId?: string }).analysisId === 'analysis-1');
+    assert.deepEqual(
+      analysisFrames.map((f) => [f.type, (f.data as { index?: number }).index]),
+      [
+        ['analysis-started', undefined],
+        ['analysis-progress', 0],
+        ['analysis-progress', 1],
+        ['analysis-complete', undefined],
+      ]
+    );
+
+    // Streamed suggestions keep their ids in the final result
+    const streamedIds = analysisFrames
+      .filter((f) => f.type === 'analysis-progress')
+      .map((f) => (f.data as { suggestion: { id: string } }).suggestion.id);
+    assert.deepEqual(body.data.suggestions.slice(0, 2).map((s) => s.id), streamedIds);
+  });
+});
@@ -0,0 +1,122 @@
+import { afterEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { chmodSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { TestRunnerService } from '../src/services/testRunner.js';
+import { CodeModifierService } from '../src/services/codeModifier.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+
+/**
+ * A stand-in jest binary that writes the given report to --outputFile
+ */
+function fakeJest(report: unknown): string {
+  return `#!/usr/bin/env node
+const arg = process.argv.find((a) => a.startsWith('--outputFile='));
+require('fs').writeFileSync(arg.slice('--outputFile='.length), ${JSON.stringify(JSON.stringify(report))});
+process.exit(1);
+`;
+}
+
+describe('TestRunnerService', () => {
+  let root: string | undefined;
+
+  afterEach(() => {
+    if (root) removeTempProject(root);
+    root = undefined;
+  });
+
+  it('detects the framework from the test script before dependencies', () => {
+    root = createTempProject({
+      'package.json': JSON.stringify({ scripts: { test: 'vitest run' }, devDependencies: { jest: '^29.0.0' } }),
+    });
+
+    assert.equal(new TestRunnerService(root).detectFramework(), 'vitest');
+  });
+
+  it('does not report a pass when there is no test setup', async () => {
+    root = createTempProject({ 'package.json': JSON.stringify({ name: 'app' }), 'src/a.ts': '' });
+
+    const result = await new TestRunnerService(root).runRelatedTests('src/a.ts');
+
+    assert.equal(result.ran, false);
+    assert.equal(result.passed, false);
+    assert.match(result.message ?? '', /No Jest or Vitest/);
+  });
+
+  it('does not report a pass when the runner is not installed', async () => {
+    root = createTempProject({
+      'package.json': JSON.stringify({ devDependencies: { jest: '^29.0.0' } }),
+      'src/a.ts': '',
+    });
+
+    const result = await new TestRunnerService(root).runRelatedTests('src/a.ts');
+
+    assert.equal(result.ran, false);
+    assert.equal(result.passed, false);
+    assert.equal(result.framework, 'jest');
+  });
+
+  it('reads failures from the JSON report', async () => {
+    root = createTempProject({
+      'package.json': JSON.stringify({ scripts: { test: 'jest' } }),
+      'src/a.ts': '',
+      'node_modules/.bin/jest': fakeJest({
+        numTotalTests: 3,
+        numPassedTests: 1,
+        numFailedTests: 1,
+        testResults: [
+          {
+            name: 'src/a.test.ts',
+            status: 'failed',
+            assertionResults: [
+              { fullName: 'a adds', status: 'passed' },
+              { fullName: 'a subtracts', status: 'failed', failureMessages: ['\u001b[31mExpected 1\u001b[39m'] },
+            ],
+          },
+          { name: 'src/b.test.ts', status: 'failed', message: 'Cannot find module', assertionResults: [] },
+        ],
+      }),
+    });
+    chmodSync(join(root, 'node_modules/.bin/jest'), 0o755);
+
+    const result = await new TestRunnerService(root).runRelatedTests('src/a.ts');
+
+    assert.equal(result.ran, true);
+    assert.equal(result.passed, false);
+    assert.equal(result.numTests, 3);
+    assert.deepEqual(result.failures, [
+      { testFile: 'src/a.test.ts', name: 'a subtracts', message: 'Expected 1' },
+      { testFile: 'src/b.test.ts', name: 'Test suite failed to run', message: 'Cannot find module' },
+    ]);
+  });
+});
+
+describe('test gate', () => {
+  it('rolls back a change when the tests could not run', async () => {
+    const source = 'export const answer = 41;\n';
+    const root = createTempProject({
+      '.react-dev-insightrc.json': JSON.stringify({
+        git: { autoCommit: false, requireCleanWorkingDir: false },
+        optimization: { autoFormat: false, autoRunTests: true },
+      }),
+      'package.json': JSON.stringify({ name: 'app' }),
+      'src/answer.ts': source,
+    });
+
+    try {
+      const result = await new CodeModifierService(root).applyModification({
+        suggestionId: 'answer',
+        filePath: 'src/answer.ts',
+        originalCode: 'export const answer = 41;',
+        modifiedCode: 'export const answer = 42;',
+      });
+
+      assert.equal(result.success, false);
+      assert.match(result.error ?? '', /could not be run/);
+      assert.equal(result.tests?.ran, false);
+      assert.equal(readFileSync(join(root, 'src/answer.ts'), 'utf-8'), source);
+    } finally {
+      removeTempProject(root);
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  checkFileTypes,
+  checkFilesTypes,
+  findNewTypeErrors,
+  formatTypeErrors,
+  isTypeCheckable,
+} from '../src/utils/typeCheck.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+
+const tsconfig = JSON.stringify({
+  compilerOptions: {
+    strict: true,
+    target: 'ES2020',
+    module: 'ESNext',
+    moduleResolution: 'bundler',
+    lib: ['ES2020'],
+    types: [],
+    noEmit: true,
+  },
+  include: ['src'],
+});
+
+const mathSource = 'export function add(a: number, b: number): number {\n  return a + b;\n}\n';
+const appSource = "import { add } from './math';\n\nexport const total: number = add(1, 2);\n";
+
+describe('typeCheck', () => {
+  let root: string;
+
+  before(() => {
+    root = createTempProject({
+      'tsconfig.json': tsconfig,
+      'src/math.ts': mathSource,
+      'src/app.ts': appSource,
+    });
+  });
+
+  after(() => removeTempProject(root));
+
+  it('reports only TypeScript-like files as checkable', () => {
+    assert.equal(isTypeCheckable('src/App.tsx'), true);
+    assert.equal(isTypeCheckable('src/util.mts'), true);
+    assert.equal(isTypeCheckable('src/App.jsx'), false);
+    assert.equal(isTypeCheckable('styles.css'), false);
+  });
+
+  it('finds no errors in the files as they are', () => {
+    assert.deepEqual(checkFileTypes(join(root, 'src/app.ts'), appSource), []);
+  });
+
+  it('checks the overlaid content without touching the file on disk', () => {
+    const edited = "import { add } from './math';\n\nexport const total: number = add(1, '2');\n";
+
+    const diagnostics = checkFileTypes(join(root, 'src/app.ts'), edited);
+
+    assert.equal(diagnostics?.length, 1);
+    assert.equal(diagnostics?.[0]?.code, 2345);
+    assert.equal(diagnostics?.[0]?.line, 3);
+    assert.equal(readFileSync(join(root, 'src/app.ts'), 'utf-8'), appSource);
+
+    // The overlay is dropped afterwards
+    assert.deepEqual(checkFileTypes(join(root, 'src/app.ts'), appSource), []);
+  });
+
+  it('checks dependents against an overlaid import', () => {
+    const changedMath = 'export function add(a: string, b: string): string {\n  return a + b;\n}\n';
+
+    const results = checkFilesTypes(
+      new Map([
+        [join(root, 'src/math.ts'), changedMath],
+        [join(root, 'src/app.ts'), appSource],
+      ])
+    );
+
+    assert.deepEqual(results.get(join(root, 'src/math.ts')), []);
+    assert.ok((results.get(join(root, 'src/app.ts'))?.length ?? 0) > 0);
+  });
+
+  it('resolves imports of new files that only exist in memory', () => {
+    const newFile = join(root, 'src/format.ts');
+    const usesNewFile = "import { format } from './format';\n\nexport const label: string = format(1);\n";
+
+    const results = checkFilesTypes(
+      new Map([
+        [newFile, 'export const format = (value: number): string => value.toFixed(2);\n'],
+        [join(root, 'src/app.ts'), usesNewFile],
+      ])
+    );
+    assert.deepEqual(results.get(join(root, 'src/app.ts')), []);
+
+    // Once dropped, the in-memory file no longer resolves
+    const diagnostics = checkFileTypes(join(root, 'src/app.ts'), usesNewFile);
+    assert.equal(diagnostics?.[0]?.code, 2307);
+  });
+
+  it('hides files marked as deleted', () => {
+    const results = checkFilesTypes(
+      new Map<string, string | null>([
+        [join(root, 'src/math.ts'), null],
+        [join(root, 'src/app.ts'), appSource],
+      ])
+    );
+
+    assert.equal(results.has(join(root, 'src/math.ts')), false);
+    assert.equal(results.get(join(root, 'src/app.ts'))?.[0]?.code, 2307);
+  });
+
+  it('returns null for files outside a TypeScript project and skips other files', () => {
+    const outside = createTempProject({ 'index.ts': 'export const x = 1;\n' });
+    try {
+      assert.equal(checkFileTypes(join(outside, 'index.ts'), 'export const x: number = "1";\n'), null);
+      assert.equal(checkFilesTypes(new Map([[join(root, 'src/styles.css'), 'a {}']])).size, 0);
+    } finally {
+      removeTempProject(outside);
+    }
+  });
+});
+
+describe('findNewTypeErrors', () => {
+  const diagnostic = (code: number, message: string, line: number) => ({ code, message, line, column: 1 });
+
+  it('ignores existing errors even when their lines move', () => {
+    const before = [diagnostic(2345, 'Bad argument', 3), diagnostic(2304, "Cannot find name 'x'", 8)];
+    const after = [diagnostic(2345, 'Bad argument', 5), diagnostic(2304, "Cannot find name 'x'", 10)];
+
+    assert.deepEqual(findNewTypeErrors(before, after), []);
+  });
+
+  it('counts repeated errors', () => {
+    const before = [diagnostic(2345, 'Bad argument', 3)];
+    const after = [diagnostic(2345, 'Bad argument', 3), diagnostic(2345, 'Bad argument', 9)];
+
+    assert.deepEqual(findNewTypeErrors(before, after), [diagnostic(2345, 'Bad argument', 9)]);
+  });
+
+  it('formats a limited number of errors', () => {
+    const errors = [1, 2, 3, 4].map((line) => diagnostic(2322, 'Type mismatch', line));
+
+    assert.equal(
+      formatTypeErrors(errors, 2),
+      'TS2322 (1:1): Type mismatch; TS2322 (2:1): Type mismatch; and 2 more'
+    );
+  });
+});
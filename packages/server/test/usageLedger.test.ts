@@ -0,0 +1,146 @@
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+import { UsageLedger } from '../src/services/usageLedger.js';
+import { LLMService } from '../src/services/llmService.js';
+import { LLMProviderError, type LLMProvider } from '../src/services/llmProviders.js';
+import { createTempProject, removeTempProject } from './helpers/tempProject.js';
+import type { LLMResponse } from '../src/types/index.js';
+
+const config = (budgets: Record<string, number> = {}) =>
+  JSON.stringify({
+    usage: {
+      prices: { 'gpt-4o': { input: 2.5, output: 10 }, 'gpt-4o-mini': { input: 0.15, output: 0.6 } },
+      budgets,
+    },
+  });
+
+const call = (model: string, inputTokens: number, outputTokens: number) => ({
+  route: '/analysis/analyze',
+  provider: 'openai',
+  model,
+  inputTokens,
+  outputTokens,
+  latencyMs: 10,
+});
+
+describe('UsageLedger', () => {
+  let root: string;
+
+  afterEach(() => {
+    mock.restoreAll();
+    removeTempProject(root);
+  });
+
+  it('prices a model by exact name, else by its longest matching prefix', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config() });
+    const ledger = new UsageLedger(root);
+
+    assert.equal(ledger.record(call('gpt-4o', 1_000_000, 0)).cost, 2.5);
+    assert.equal(ledger.record(call('gpt-4o-mini-2024-07-18', 1_000_000, 1_000_000)).cost, 0.75);
+  });
+
+  it('warns once about an unpriced model and lists it in the report', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config() });
+    const warn = mock.method(console, 'warn', () => {});
+    const ledger = new UsageLedger(root);
+
+    ledger.record(call('llama-3.1-70b', 100, 10));
+    ledger.record(call('llama-3.1-70b', 100, 10));
+    ledger.record(call('gpt-4o', 100, 10));
+
+    assert.equal(warn.mock.callCount(), 1);
+    assert.match(String(warn.mock.calls[0]?.arguments[0]), /llama-3.1-70b/);
+
+    const report = ledger.getReport();
+    assert.deepEqual(report.unpricedModels, ['llama-3.1-70b']);
+    assert.equal(report.totals.calls, 3);
+  });
+
+  it('persists entries and reports them by route and component', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config() });
+    new UsageLedger(root).record({ ...call('gpt-4o', 1000, 100), componentName: 'Button' });
+    new UsageLedger(root).record({ ...call('gpt-4o', 1000, 100), route: '/llm/explain' });
+
+    const report = new UsageLedger(root).getReport();
+    assert.equal(report.totals.calls, 2);
+    assert.deepEqual(report.byComponent.map((c) => c.componentName).sort(), ['(none)', 'Button']);
+    assert.deepEqual(report.byRoute.map((r) => r.route).sort(), ['/analysis/analyze', '/llm/explain']);
+  });
+
+  it('reports a used-up budget', () => {
+    root = createTempProject({ '.react-dev-insightrc.json': config({ dailyCost: 1 }) });
+    const ledger = new UsageLedger(root);
+
+    ledger.record(call('gpt-4o', 200_000, 10_000));
+    assert.equal(ledger.getBudgetStatus().exceeded, undefined);
+
+    ledger.record(call('gpt-4o', 200_000, 10_000));
+    assert.match(ledger.getBudgetStatus().exceeded ?? '', /Daily LLM budget of \$1\.00 used up/);
+  });
+});
+
+describe('LLMService usage metering', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = createTempProject({ '.react-dev-insightrc.json': config() });
+  });
+
+  afterEach(() => removeTempProject(root));
+
+  /**
+   * A provider that answers, or fails with the given error
+   */
+  function provider(outcome: LLMResponse | Error): LLMProvider {
+    const answer = async () => {
+      if (outcome instanceof Error) throw outcome;
+      return outcome;
+    };
+    return { name: 'openai', model: 'gpt-4o', complete: answer, stream: answer };
+  }
+
+  const request = (route: string) => ({
+    systemPrompt: '',
+    prompt: 'Hi',
+    context: { projectPath: root, route, componentName: 'Button' },
+  });
+
+  it('records a successful call under the model that answered', async () => {
+    const service = new LLMService(
+      provider({ content: 'ok', usage: { inputTokens: 1000, outputTokens: 100 }, model: 'gpt-4o-2024-08-06' })
+    );
+
+    await service.sendRequest(request('/llm/explain'));
+
+    const [entry] = new UsageLedger(root).getReport().recent;
+    assert.equal(entry?.model, 'gpt-4o-2024-08-06');
+    assert.equal(entry?.componentName, 'Button');
+    assert.equal(entry?.error, undefined);
+    assert.equal(entry?.cost, 0.0035);
+  });
+
+  it('records a failed call with the usage known when it failed', async () => {
+    const failure = new LLMProviderError('Overloaded', 'OVERLOADED', 'openai', 529);
+    failure.usage = { inputTokens: 2000, outputTokens: 5 };
+    const service = new LLMService(provider(failure));
+
+    await assert.rejects(service.sendStreamingRequest(request('/analysis/analyze'), () => {}), /Overloaded/);
+    await assert.rejects(service.sendRequest(request('/llm/explain')), /Overloaded/);
+
+    const recent = new UsageLedger(root).getReport().recent;
+    assert.equal(recent.length, 2);
+    assert.deepEqual(recent.map((e) => [e.route, e.model, e.inputTokens, e.error]), [
+      ['/llm/explain', 'gpt-4o', 2000, 'Overloaded'],
+      ['/analysis/analyze', 'gpt-4o', 2000, 'Overloaded'],
+    ]);
+  });
+
+  it('records a failure without usage as zero tokens', async () => {
+    const service = new LLMService(provider(new Error('socket hang up')));
+
+    await assert.rejects(service.sendRequest(request('/llm/explain')), /socket hang up/);
+
+    const [entry] = new UsageLedger(root).getReport().recent;
+    assert.deepEqual([entry?.inputTokens, entry?.outputTokens, entry?.cost, entry?.error], [0, 0, 0, 'socket hang up']);
+  });
+});